@@ -83,10 +83,24 @@ async function saveTask(task) {
   }
 }
 
+// Field limits of the desktop API (electron/local-api-schema.ts); longer values are rejected
+const PM_OS_LIMITS = { title: 500, context: 2000, url: 2000 };
+
+function truncate(text, maxLength) {
+  return text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+}
+
 // Try to sync with PM-OS desktop app
 async function syncToPMOS(task) {
   const PM_OS_SERVER = 'http://localhost:54321';
 
+  // The desktop API only accepts paired clients; pairing happens in the side panel
+  const { pmosApiToken } = await chrome.storage.local.get(['pmosApiToken']);
+  if (!pmosApiToken) {
+    console.log('Not paired with PM-OS desktop app, keeping task in the extension only');
+    return;
+  }
+
   try {
     // First check if PM-OS is running
     const pingResponse = await fetch(`${PM_OS_SERVER}/ping`);
@@ -95,19 +109,31 @@ async function syncToPMOS(task) {
       return;
     }
 
-    // Send task to PM-OS
-    const response = await fetch(`${PM_OS_SERVER}/tasks`, {
+    // Send task to PM-OS, with the page as a linked item. Links used as the title can
+    // be very long, so the title is shortened and the full URL kept on the linked item.
+    const linkedUrl = task.url && task.url.length <= PM_OS_LIMITS.url ? task.url : undefined;
+    const response = await fetch(`${PM_OS_SERVER}/v1/tasks`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        'Authorization': `Bearer ${pmosApiToken}`,
       },
-      body: JSON.stringify(task),
+      body: JSON.stringify({
+        title: truncate(task.title || task.url || 'Untitled page', PM_OS_LIMITS.title),
+        source: task.source,
+        sourceId: task.id,
+        priority: task.priority,
+        context: task.context && truncate(task.context, PM_OS_LIMITS.context),
+        tags: task.tags,
+        linkedItems: linkedUrl ? [{ id: `web_${task.id}`, type: 'other', title: 'Web page', url: linkedUrl }] : undefined,
+      }),
     });
 
     if (response.ok) {
       console.log('Task synced to PM-OS desktop app:', task.title);
     } else {
-      console.log('Failed to sync task to PM-OS:', response.statusText);
+      const data = await response.json().catch(() => ({}));
+      console.log('Failed to sync task to PM-OS:', data.error || response.statusText);
     }
   } catch (error) {
     // Desktop app is not running or not accessible
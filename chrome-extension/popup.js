@@ -1,5 +1,7 @@
 // PM-OS Chrome Extension - Popup Script
 
+const PM_OS_SERVER = 'http://localhost:54321';
+
 let currentTab = null;
 
 // Initialize
@@ -13,6 +15,8 @@ document.addEventListener('DOMContentLoaded', async () => {
 
   // Load tasks
   loadTasks();
+  updatePairingState();
+  connectChangeStream();
 
   // Event listeners
   document.getElementById('taskForm').addEventListener('submit', handleAddTask);
@@ -20,8 +24,45 @@ document.addEventListener('DOMContentLoaded', async () => {
   document.getElementById('captureSelectionBtn').addEventListener('click', captureSelection);
   document.getElementById('syncBtn').addEventListener('click', syncWithDesktop);
   document.getElementById('openDesktopBtn').addEventListener('click', openDesktopApp);
+  document.getElementById('pairForm').addEventListener('submit', handlePair);
 });
 
+// Show the pairing form until the desktop app has issued a token
+async function updatePairingState() {
+  const { pmosApiToken } = await chrome.storage.local.get(['pmosApiToken']);
+  document.getElementById('pairSection').style.display = pmosApiToken ? 'none' : 'block';
+}
+
+// Exchange the code shown in PM-OS Settings for an API token
+async function handlePair(e) {
+  e.preventDefault();
+  const input = document.getElementById('pairCodeInput');
+  const code = input.value.trim();
+  if (!code) return;
+
+  try {
+    const response = await fetch(`${PM_OS_SERVER}/v1/pair`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code, name: 'PM-OS Chrome Extension' }),
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      showNotification(data.error || 'Pairing failed', 'error');
+      return;
+    }
+
+    await chrome.storage.local.set({ pmosApiToken: data.token });
+    input.value = '';
+    updatePairingState();
+    connectChangeStream();
+    showNotification('Paired with desktop app');
+  } catch (error) {
+    console.error('Pairing error:', error);
+    showNotification('Desktop app is not running', 'error');
+  }
+}
+
 // Handle form submission
 async function handleAddTask(e) {
   e.preventDefault();
@@ -126,8 +167,10 @@ async function loadTasks() {
   // Show only last 5 tasks
   const recentTasks = tasks.slice(0, 5);
 
-  tasksList.innerHTML = recentTasks.map(task => `
-    <div class="task-item ${task.completed ? 'completed' : ''}" data-id="${task.id}">
+  tasksList.innerHTML = recentTasks.map(task => {
+    const progress = getSubtaskProgress(tasks, task.id);
+    return `
+    <div class="task-item ${task.completed ? 'completed' : ''} ${task.parentId ? 'subtask' : ''}" data-id="${task.id}">
       <input
         type="checkbox"
         ${task.completed ? 'checked' : ''}
@@ -136,6 +179,7 @@ async function loadTasks() {
       />
       <div class="task-content">
         <div class="task-title">${escapeHtml(task.title)}</div>
+        ${progress.total > 0 ? `<div class="task-progress">${progress.done}/${progress.total} done</div>` : ''}
         ${task.context ? `<div class="task-context">${escapeHtml(task.context)}</div>` : ''}
       </div>
       <button onclick="deleteTask('${task.id}')" class="delete-btn" title="Delete">
@@ -144,7 +188,17 @@ async function loadTasks() {
         </svg>
       </button>
     </div>
-  `).join('');
+  `;
+  }).join('');
+}
+
+// Count completed direct subtasks of a parent task
+function getSubtaskProgress(tasks, parentId) {
+  const subtasks = tasks.filter(t => t.parentId === parentId);
+  return {
+    done: subtasks.filter(t => t.completed).length,
+    total: subtasks.length,
+  };
 }
 
 // Toggle task completion
@@ -162,7 +216,11 @@ window.deleteTask = async function(taskId) {
 
 // Sync with desktop app
 async function syncWithDesktop() {
-  const PM_OS_SERVER = 'http://localhost:54321';
+  const { pmosApiToken } = await chrome.storage.local.get(['pmosApiToken']);
+  if (!pmosApiToken) {
+    showNotification('Pair with the desktop app first', 'error');
+    return;
+  }
 
   try {
     showNotification('Syncing with desktop app...');
@@ -174,36 +232,146 @@ async function syncWithDesktop() {
       return;
     }
 
-    // Get tasks from desktop app
-    const response = await fetch(`${PM_OS_SERVER}/tasks`);
-    if (!response.ok) {
+    const count = await pullDesktopTasks(pmosApiToken);
+    if (count === null) {
       showNotification('Failed to sync with desktop app', 'error');
       return;
     }
 
-    const data = await response.json();
-    const desktopTasks = data.tasks || [];
+    showNotification(`Synced ${count} tasks from desktop app`);
+  } catch (error) {
+    console.error('Sync error:', error);
+    showNotification('Desktop app is not running', 'error');
+  }
+}
+
+// Replace the desktop app's tasks in Chrome storage with a fresh copy, keeping
+// extension-only tasks. Returns the number of desktop tasks, or null on failure.
+async function pullDesktopTasks(token) {
+  const response = await fetch(`${PM_OS_SERVER}/v1/tasks`, {
+    headers: { 'Authorization': `Bearer ${token}` },
+  });
+  if (response.status === 401) {
+    await handleUnauthorized();
+    return null;
+  }
+  if (!response.ok) {
+    return null;
+  }
 
-    // Merge with local tasks (avoid duplicates)
-    const localResponse = await chrome.runtime.sendMessage({ action: 'getTasks' });
-    const localTasks = localResponse.tasks || [];
+  const data = await response.json();
+  const desktopTasks = data.tasks || [];
 
-    const allTasks = [...desktopTasks, ...localTasks];
-    const uniqueTasks = Array.from(
-      new Map(allTasks.map(task => [task.id, task])).values()
-    );
+  // Merge with local tasks (avoid duplicates). Tasks the extension sent to the
+  // desktop app come back with the extension's ID as their sourceId.
+  const localResponse = await chrome.runtime.sendMessage({ action: 'getTasks' });
+  const localTasks = localResponse.tasks || [];
+  const desktopIds = new Set(desktopTasks.flatMap(task => [task.id, task.sourceId]));
 
-    // Save merged tasks to Chrome storage
-    await chrome.storage.local.set({ tasks: uniqueTasks });
+  // Save merged tasks to Chrome storage, with the cursor to follow changes from
+  await chrome.storage.local.set({
+    tasks: [...desktopTasks, ...localTasks.filter(task => !desktopIds.has(task.id))],
+    pmosChangeCursor: data.cursor,
+  });
 
-    loadTasks();
-    showNotification(`Synced ${desktopTasks.length} tasks from desktop app`);
+  loadTasks();
+  return desktopTasks.length;
+}
+
+// Access was revoked in the desktop app
+async function handleUnauthorized() {
+  await chrome.storage.local.remove(['pmosApiToken', 'pmosChangeCursor']);
+  updatePairingState();
+  showNotification('Pair with the desktop app again', 'error');
+}
+
+// Live updates: follow the desktop app's change stream while the panel is open
+let changeStream = null;
+let reconnectDelay = 1000;
+
+async function connectChangeStream() {
+  const { pmosApiToken, pmosChangeCursor } = await chrome.storage.local.get(['pmosApiToken', 'pmosChangeCursor']);
+  if (!pmosApiToken || changeStream) return;
+
+  changeStream = new AbortController();
+  try {
+    const cursorParam = pmosChangeCursor ? `&cursor=${encodeURIComponent(pmosChangeCursor)}` : '';
+    const response = await fetch(`${PM_OS_SERVER}/v1/changes?types=task${cursorParam}`, {
+      headers: { 'Authorization': `Bearer ${pmosApiToken}` },
+      signal: changeStream.signal,
+    });
+    if (response.status === 401) {
+      await handleUnauthorized();
+      return;
+    }
+    if (!response.ok) {
+      throw new Error(response.statusText);
+    }
+    reconnectDelay = 1000;
+
+    // Server-sent events are separated by a blank line
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      let boundary;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const message = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        await handleStreamMessage(message, pmosApiToken);
+      }
+    }
   } catch (error) {
-    console.error('Sync error:', error);
-    showNotification('Desktop app is not running', 'error');
+    console.log('Change stream disconnected:', error.message);
+  } finally {
+    changeStream = null;
+  }
+
+  // Desktop app closed or restarted; keep trying with backoff
+  setTimeout(connectChangeStream, reconnectDelay);
+  reconnectDelay = Math.min(reconnectDelay * 2, 30000);
+}
+
+async function handleStreamMessage(message, token) {
+  let event = 'message';
+  let data = '';
+  for (const line of message.split('\n')) {
+    if (line.startsWith('event: ')) event = line.slice(7);
+    if (line.startsWith('data: ')) data += line.slice(6);
+  }
+  if (!data) return; // Keepalive comment
+
+  const payload = JSON.parse(data);
+  const { pmosChangeCursor } = await chrome.storage.local.get(['pmosChangeCursor']);
+
+  if (event === 'reset' || (event === 'ready' && !pmosChangeCursor)) {
+    // Missed changes (or first connection): reload everything
+    await pullDesktopTasks(token);
+  } else if (event === 'change' && payload.type === 'task') {
+    await applyTaskChange(payload);
   }
 }
 
+async function applyTaskChange(change) {
+  const { tasks = [] } = await chrome.storage.local.get(['tasks']);
+  const task = change.data;
+
+  let updated;
+  if (!task) {
+    updated = tasks.filter(t => t.id !== change.id);
+  } else if (tasks.some(t => t.id === task.id)) {
+    updated = tasks.map(t => t.id === task.id ? task : t);
+  } else {
+    // Drop the extension's own copy once the desktop app has it
+    updated = [task, ...tasks.filter(t => t.id !== task.sourceId)];
+  }
+
+  await chrome.storage.local.set({ tasks: updated, pmosChangeCursor: change.cursor });
+  loadTasks();
+}
+
 // Open desktop app (placeholder - would need protocol handler)
 function openDesktopApp() {
   // In future, could use custom protocol like pmos://
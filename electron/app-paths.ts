@@ -0,0 +1,26 @@
+import { app } from 'electron';
+import { getDataDir, getDefaultDataDir, getLogDir, migrateDataDir } from '../src/utils/paths';
+
+/**
+ * Points Electron's userData folder, and with it every electron-store, at the
+ * shared data directory from src/utils/paths. main.ts imports this first:
+ * stores are created as their modules load, so it has to run before them.
+ *
+ * Electron's default folder is named after the app (PM-OS when packaged), so
+ * on case-sensitive filesystems existing data is moved over on first run.
+ */
+
+const electronDefaultDir = app.getPath('userData');
+const dataDir = getDataDir();
+
+try {
+  const migratedFrom = migrateDataDir([electronDefaultDir, getDefaultDataDir()]);
+  if (migratedFrom) {
+    console.log(`[Paths] Moved PM-OS data from ${migratedFrom} to ${dataDir}`);
+  }
+} catch (error) {
+  console.error('[Paths] Failed to move PM-OS data to', dataDir, error);
+}
+
+app.setPath('userData', dataDir);
+app.setAppLogsPath(getLogDir());
@@ -0,0 +1,108 @@
+import { randomUUID } from 'crypto';
+
+const MAX_BUFFERED_EVENTS = 1000;
+
+export type ChangeType = 'task' | 'suggestion' | 'doc';
+
+export interface ChangeEvent {
+  cursor: string;          // Pass back to resume after this event
+  seq: number;
+  type: ChangeType;
+  action: string;          // created, updated, deleted, restored, refreshed, dismissed, accepted
+  id?: string;
+  data?: unknown;          // The item after the change; omitted for deletes
+  actor?: string;
+  at: string;
+}
+
+/**
+ * In-memory, sequence-numbered log of changes for the local API's event
+ * stream. Cursors carry an epoch that changes on every app start, so a client
+ * resuming from before a restart, or from further back than the buffer
+ * holds, is told to reload instead of silently missing changes.
+ */
+export class ChangeFeed {
+  private readonly epoch = randomUUID().slice(0, 8);
+  private seq = 0;
+  private events: ChangeEvent[] = [];
+  private listeners = new Set<(event: ChangeEvent) => void>();
+
+  publish(change: { type: ChangeType; action: string; id?: string; data?: unknown; actor?: string }) {
+    this.seq++;
+    const event: ChangeEvent = {
+      ...change,
+      cursor: `${this.epoch}:${this.seq}`,
+      seq: this.seq,
+      at: new Date().toISOString(),
+    };
+
+    this.events.push(event);
+    if (this.events.length > MAX_BUFFERED_EVENTS) {
+      this.events.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[ChangeFeed] Listener failed:', error);
+      }
+    }
+  }
+
+  subscribe(listener: (event: ChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getCursor(): string {
+    return `${this.epoch}:${this.seq}`;
+  }
+
+  /**
+   * Events after a cursor. `reset` means the cursor can't be resumed and the
+   * client should reload its data, then follow from the current cursor.
+   */
+  getEventsSince(cursor: string | null): { events: ChangeEvent[]; reset: boolean } {
+    if (!cursor) {
+      return { events: [], reset: false };
+    }
+
+    const [epoch, seqText] = cursor.split(':');
+    const seq = Number(seqText);
+    const oldest = this.events[0]?.seq ?? this.seq + 1;
+    if (epoch !== this.epoch || !Number.isInteger(seq) || seq > this.seq || seq < oldest - 1) {
+      return { events: [], reset: true };
+    }
+
+    return { events: this.events.filter(event => event.seq > seq), reset: false };
+  }
+}
+
+/**
+ * Compare two lists of items with ids and publish what was added, changed or removed
+ */
+export function publishListChanges<T extends { id: string }>(
+  feed: ChangeFeed,
+  type: ChangeType,
+  before: T[],
+  after: T[]
+) {
+  const beforeById = new Map(before.map(item => [item.id, item]));
+  const afterIds = new Set(after.map(item => item.id));
+
+  for (const item of after) {
+    const previous = beforeById.get(item.id);
+    if (!previous) {
+      feed.publish({ type, action: 'created', id: item.id, data: item });
+    } else if (JSON.stringify(previous) !== JSON.stringify(item)) {
+      feed.publish({ type, action: 'updated', id: item.id, data: item });
+    }
+  }
+
+  for (const item of before) {
+    if (!afterIds.has(item.id)) {
+      feed.publish({ type, action: 'deleted', id: item.id });
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import type { OutgoingEmail } from '../src/services/gmail';
+import type { ActionableItem } from './slack-digest-service';
+
+interface DigestEmailOptions {
+  to: string;
+  timeSlot: string;
+  entryId: string;      // Digest history entry the items belong to
+  linkBaseUrl: string;  // Web page that hands "Create task" links back to the app
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Link that creates a task from a digest item. Email clients drop custom-scheme
+ * links, so this points at an https page that redirects to pmos://digest/create-task.
+ */
+export function getCreateTaskLink(linkBaseUrl: string, entryId: string, itemId: string): string {
+  const params = new URLSearchParams({ entry: entryId, item: itemId });
+  return `${linkBaseUrl}/digest/create-task?${params}`;
+}
+
+/**
+ * Render the digest as an email. Styles are inline because most clients strip <style>.
+ */
+export function buildDigestEmail(items: ActionableItem[], options: DigestEmailOptions): OutgoingEmail {
+  const hour = Number(options.timeSlot.split(':')[0]);
+  const emoji = hour < 11 ? '🌅' : hour < 15 ? '☀️' : '🌆';
+  const subject = `${emoji} ${options.timeSlot} Inbox: ${items.length} thing${items.length !== 1 ? 's' : ''} you might have missed`;
+
+  const itemsHtml = items.map((item, index) => {
+    const createTaskLink = getCreateTaskLink(options.linkBaseUrl, options.entryId, item.id);
+    const reasons = item.reasons.map(reason => `<li>${escapeHtml(reason)}</li>`).join('');
+    return `
+      <tr>
+        <td style="padding:16px 0;border-top:${index === 0 ? 'none' : '1px solid #e5e7eb'};">
+          <div style="font-size:15px;font-weight:600;color:#111827;">${index + 1}. ${escapeHtml(item.summary)}</div>
+          <div style="font-size:13px;color:#6b7280;margin-top:4px;">From <strong>${escapeHtml(item.userName)}</strong> in #${escapeHtml(item.channelName)}</div>
+          <div style="font-size:14px;color:#374151;font-style:italic;margin-top:8px;">${escapeHtml(item.suggestedAction)}</div>
+          ${reasons ? `<ul style="font-size:13px;color:#6b7280;margin:8px 0 0;padding-left:20px;">${reasons}</ul>` : ''}
+          <div style="margin-top:12px;">
+            <a href="${escapeHtml(createTaskLink)}" style="display:inline-block;padding:6px 12px;background:#2563eb;color:#ffffff;border-radius:6px;font-size:13px;text-decoration:none;">📝 Create task</a>
+            ${item.permalink ? `<a href="${escapeHtml(item.permalink)}" style="margin-left:12px;font-size:13px;color:#2563eb;">View message</a>` : ''}
+          </div>
+        </td>
+      </tr>`;
+  }).join('');
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;">
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:600px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;">
+      <tr>
+        <td style="padding:24px;">
+          <h1 style="margin:0 0 8px;font-size:20px;color:#111827;">${emoji} Things You Might Have Missed</h1>
+          <p style="margin:0 0 8px;font-size:14px;color:#374151;">Here are <strong>${items.length} actionable items</strong> from your monitored Slack channels:</p>
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0">${itemsHtml}
+          </table>
+          <p style="margin:16px 0 0;font-size:12px;color:#9ca3af;">💡 Tasks created from these items won't appear in future digests. "Create task" opens PM-OS on this computer.</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`;
+
+  const text = [
+    `${emoji} Things You Might Have Missed`,
+    `Here are ${items.length} actionable items from your monitored Slack channels:`,
+    ...items.map((item, index) => [
+      '',
+      `${index + 1}. ${item.summary}`,
+      `From ${item.userName} in #${item.channelName}`,
+      item.suggestedAction,
+      ...item.reasons.map(reason => `• ${reason}`),
+      `Create task: ${getCreateTaskLink(options.linkBaseUrl, options.entryId, item.id)}`,
+      ...(item.permalink ? [`View message: ${item.permalink}`] : []),
+    ].join('\n')),
+    '',
+    'Tasks created from these items won\'t appear in future digests.',
+  ].join('\n');
+
+  return { to: options.to, subject, html, text };
+}
@@ -0,0 +1,69 @@
+import Store from 'electron-store';
+
+const store = new Store();
+
+const SNOOZED_EMAILS_KEY = 'snoozedEmails';
+// How long a woken email keeps showing up as a suggestion
+const WOKEN_SUGGESTION_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface SnoozedEmail {
+  id: string;
+  threadId: string;
+  subject: string;
+  from: string;
+  snippet: string;
+  date: string;
+  snoozedAt: string;
+  until: string;     // ISO time the email comes back to the inbox
+  wokeAt?: string;   // Set once it has been moved back
+}
+
+/**
+ * Gmail's API has no snooze, so snoozing archives the email and keeps a record
+ * here; the main process moves it back to the inbox when it's due.
+ */
+export function getSnoozedEmails(): SnoozedEmail[] {
+  const now = Date.now();
+  const snoozed = store.get(SNOOZED_EMAILS_KEY, []) as SnoozedEmail[];
+  return snoozed.filter(email => !email.wokeAt || now - new Date(email.wokeAt).getTime() < WOKEN_SUGGESTION_TTL_MS);
+}
+
+export function addSnoozedEmail(email: SnoozedEmail) {
+  const snoozed = getSnoozedEmails().filter(e => e.id !== email.id);
+  store.set(SNOOZED_EMAILS_KEY, [...snoozed, email]);
+}
+
+/**
+ * Forget an email, e.g. once it has been replied to or archived again
+ */
+export function removeSnoozedEmail(id: string) {
+  store.set(SNOOZED_EMAILS_KEY, getSnoozedEmails().filter(e => e.id !== id));
+}
+
+export function getDueSnoozedEmails(now: Date = new Date()): SnoozedEmail[] {
+  return getSnoozedEmails().filter(email => !email.wokeAt && new Date(email.until) <= now);
+}
+
+export function markSnoozedEmailWoken(id: string) {
+  const wokeAt = new Date().toISOString();
+  store.set(SNOOZED_EMAILS_KEY, getSnoozedEmails().map(e => e.id === id ? { ...e, wokeAt } : e));
+}
+
+/**
+ * Emails back from snooze, in the shape ContextEngine expects
+ */
+export function getWokenSnoozedEmails() {
+  return getSnoozedEmails()
+    .filter(email => email.wokeAt)
+    .map(email => ({
+      id: email.id,
+      threadId: email.threadId,
+      subject: email.subject,
+      from: email.from,
+      snippet: email.snippet,
+      date: email.date,
+      isUnread: true,
+      isStarred: false,
+      snoozedUntil: email.until,
+    }));
+}
@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Task } from '../src/types/task';
+import { DEFAULT_SCHEDULING_SETTINGS, type SchedulingSettings, type TimeRange } from '../src/services/availability';
+import { FocusTimeService, getTaskDueTime, type FocusTimeCalendar } from './focus-time';
+import { TaskStore } from './task-store';
+
+// electron-store needs a running Electron app; an in-memory map stands in for it
+vi.mock('electron-store', () => ({
+  default: class {
+    private data = new Map<string, unknown>();
+    get(key: string, fallback?: unknown) { return this.data.has(key) ? this.data.get(key) : fallback; }
+    set(key: string, value: unknown) { this.data.set(key, value); }
+  },
+}));
+
+const NEW_YORK = 'America/New_York';
+const NOW = new Date('2026-06-01T13:00:00Z');  // Monday 09:00 in New York
+const settings: SchedulingSettings = { ...DEFAULT_SCHEDULING_SETTINGS, focusTime: { enabled: true, blockMinutes: 90, lookaheadDays: 3 } };
+
+function makeTask(id: string, changes: Partial<Task> = {}): Task {
+  return { id, title: id, completed: false, source: 'manual', priority: 'high', createdAt: '2026-05-01T00:00:00.000Z', ...changes };
+}
+
+describe('getTaskDueTime', () => {
+  it('treats a date-only deadline as due at the end of that workday', () => {
+    expect(getTaskDueTime(makeTask('a', { deadline: '2026-06-02' }), NEW_YORK, settings)?.toISOString()).toBe('2026-06-02T21:00:00.000Z');
+  });
+
+  it('uses full timestamps as they are and ignores undated tasks', () => {
+    expect(getTaskDueTime(makeTask('a', { dueDate: '2026-06-02T15:00:00.000Z' }), NEW_YORK, settings)?.toISOString()).toBe('2026-06-02T15:00:00.000Z');
+    expect(getTaskDueTime(makeTask('a'), NEW_YORK, settings)).toBeNull();
+  });
+});
+
+describe('FocusTimeService', () => {
+  let dir: string;
+  let store: TaskStore;
+  let busy: TimeRange[];
+  let created: Array<{ summary: string; start: string; end: string }>;
+
+  const calendar: FocusTimeCalendar = {
+    getBusy: async () => busy,
+    createEvent: async request => {
+      created.push(request);
+      return { id: `event-${created.length}`, htmlLink: `https://calendar.google.com/event-${created.length}` };
+    },
+  };
+  const service = () => new FocusTimeService(store, calendar, () => settings, () => NEW_YORK, () => {});
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-os-focus-time-'));
+    store = new TaskStore(path.join(dir, 'tasks.db'));
+    busy = [];
+    created = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('books the first free slot before an urgent task is due and links it', async () => {
+    store.insert(makeTask('urgent', { deadline: '2026-06-02' }));
+    busy = [{ start: '2026-06-01T13:00:00Z', end: '2026-06-01T15:00:00Z' }];
+
+    const [block] = await service().blockFocusTime();
+    expect(block).toMatchObject({ taskId: 'urgent', start: '2026-06-01T15:00:00.000Z', end: '2026-06-01T16:30:00.000Z' });
+    expect(created[0].summary).toBe('Focus: urgent');
+    expect(store.get('urgent')?.linkedItems).toEqual([expect.objectContaining({ id: 'gcal_event-1', type: 'google-calendar' })]);
+  });
+
+  it('books each task once and keeps later blocks off earlier ones', async () => {
+    store.insert(makeTask('first', { deadline: '2026-06-02' }));
+    store.insert(makeTask('second', { deadline: '2026-06-03' }));
+
+    const blocks = await service().blockFocusTime();
+    expect(blocks.map(b => [b.taskId, b.start])).toEqual([
+      ['first', '2026-06-01T13:00:00.000Z'],
+      ['second', '2026-06-01T14:30:00.000Z'],
+    ]);
+    await expect(service().blockFocusTime()).resolves.toEqual([]);
+  });
+
+  it('skips tasks that are not high priority or are due outside the lookahead', async () => {
+    store.insert(makeTask('medium', { priority: 'medium', deadline: '2026-06-02' }));
+    store.insert(makeTask('later', { deadline: '2026-06-10' }));
+
+    await expect(service().blockFocusTime()).resolves.toEqual([]);
+    expect(created).toEqual([]);
+  });
+});
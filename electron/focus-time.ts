@@ -0,0 +1,177 @@
+import Store from 'electron-store';
+import type { TaskStore } from './task-store';
+import type { Task } from '../src/types/task';
+import { findAvailableSlots, type SchedulingSettings, type TimeRange } from '../src/services/availability';
+import { zonedTimeToDate } from '../src/utils/timezone';
+
+const store = new Store();
+
+const FOCUS_BLOCKS_KEY = 'focusBlocks';
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface FocusBlock {
+  taskId: string;
+  taskTitle: string;
+  eventId: string;
+  start: string;
+  end: string;
+  htmlLink?: string;
+}
+
+// Calendar access, so the service doesn't depend on main's globals
+export interface FocusTimeCalendar {
+  getBusy(timeMin: string, timeMax: string): Promise<TimeRange[]>;
+  createEvent(request: { summary: string; description: string; start: string; end: string }): Promise<{ id: string; htmlLink?: string }>;
+}
+
+function getStoredBlocks(): Record<string, FocusBlock> {
+  return store.get(FOCUS_BLOCKS_KEY, {}) as Record<string, FocusBlock>;
+}
+
+/**
+ * When a task is due. Date-only deadlines are due at the end of that workday.
+ */
+export function getTaskDueTime(task: Task, timeZone: string, settings: SchedulingSettings): Date | null {
+  const due = task.deadline || task.dueDate;
+  if (!due) return null;
+  const dateOnly = due.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    const [hours, minutes] = settings.workdayEnd.split(':').map(Number);
+    return zonedTimeToDate(Number(dateOnly[1]), Number(dateOnly[2]), Number(dateOnly[3]), hours || 0, minutes || 0, timeZone);
+  }
+  const date = new Date(due);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Books a focus block on the calendar for each open high-priority task due
+ * within the lookahead window, in the first free working-hours slot before
+ * its deadline. Each task gets one block, linked from the task.
+ */
+export class FocusTimeService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    private taskStore: TaskStore,
+    private calendar: FocusTimeCalendar,
+    private getSettings: () => SchedulingSettings,
+    private getTimeZone: () => string,
+    private onBlocked: (blocks: FocusBlock[]) => void
+  ) {}
+
+  start() {
+    this.stop();
+    if (!this.getSettings().focusTime.enabled) {
+      console.log('[FocusTime] Disabled in settings');
+      return;
+    }
+
+    // Failures are already logged; the next check retries
+    const check = () => this.blockFocusTime().catch(() => {});
+    check();
+    this.timer = setInterval(check, CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async blockFocusTime(): Promise<FocusBlock[]> {
+    if (this.running) return [];
+    this.running = true;
+
+    try {
+      const settings = this.getSettings();
+      const timeZone = this.getTimeZone();
+      const now = new Date();
+      const horizon = now.getTime() + settings.focusTime.lookaheadDays * 24 * 60 * 60 * 1000;
+      const blocks = getStoredBlocks();
+
+      const due = this.taskStore.query({ completed: false })
+        .filter(task => task.priority === 'high' && !blocks[task.id])
+        .map(task => ({ task, dueAt: getTaskDueTime(task, timeZone, settings) }))
+        .filter((entry): entry is { task: Task; dueAt: Date } =>
+          entry.dueAt !== null && entry.dueAt > now && entry.dueAt.getTime() <= horizon
+        )
+        .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+      if (due.length === 0) return [];
+
+      const busy = await this.calendar.getBusy(now.toISOString(), due[due.length - 1].dueAt.toISOString());
+      const booked: FocusBlock[] = [];
+
+      for (const { task, dueAt } of due) {
+        const [slot] = findAvailableSlots(busy, {
+          from: now,
+          to: dueAt,
+          durationMinutes: settings.focusTime.blockMinutes,
+          timeZones: [timeZone],
+          stepMinutes: 15,
+          maxSlots: 1,
+        }, settings);
+        if (!slot) {
+          console.log(`[FocusTime] No free slot before "${task.title}" is due`);
+          continue;
+        }
+
+        const event = await this.calendar.createEvent({
+          summary: `Focus: ${task.title}`,
+          description: `Focus time for a high-priority PM-OS task due ${dueAt.toLocaleString()}.`,
+          start: slot.start,
+          end: slot.end,
+        });
+        const block: FocusBlock = {
+          taskId: task.id,
+          taskTitle: task.title,
+          eventId: event.id,
+          start: slot.start,
+          end: slot.end,
+          htmlLink: event.htmlLink,
+        };
+        blocks[task.id] = block;
+        store.set(FOCUS_BLOCKS_KEY, blocks);
+        // Later tasks shouldn't land on top of this block
+        busy.push(slot);
+        booked.push(block);
+
+        this.taskStore.transaction(() => this.taskStore.update(task.id, latest => ({
+          ...latest,
+          linkedItems: [
+            ...(latest.linkedItems || []),
+            { id: `gcal_${event.id}`, type: 'google-calendar', title: 'Focus time', url: event.htmlLink },
+          ],
+          updatedAt: new Date().toISOString(),
+        })));
+        console.log(`[FocusTime] Blocked ${slot.start} for "${task.title}"`);
+      }
+
+      this.pruneBlocks();
+      if (booked.length > 0) {
+        this.onBlocked(booked);
+      }
+      return booked;
+    } catch (error) {
+      console.error('[FocusTime] Failed to block focus time:', error);
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Forget blocks for tasks that were completed or deleted
+  private pruneBlocks() {
+    const blocks = getStoredBlocks();
+    const kept = Object.fromEntries(
+      Object.entries(blocks).filter(([taskId]) => {
+        const task = this.taskStore.get(taskId);
+        return task && !task.completed;
+      })
+    );
+    if (Object.keys(kept).length !== Object.keys(blocks).length) {
+      store.set(FOCUS_BLOCKS_KEY, kept);
+    }
+  }
+}
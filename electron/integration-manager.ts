@@ -1,18 +1,21 @@
 import Store from 'electron-store';
 import * as fs from 'fs';
 import { CalendarService } from '../src/services/calendar';
-import { GmailService } from '../src/services/gmail';
+import { GmailService, type EmailLabel, type EmailThread, type OutgoingEmail } from '../src/services/gmail';
 import { SlackService } from '../src/services/slack';
 import { ZoomService } from '../src/services/zoom';
 import { ContextEngine } from '../src/services/context-engine';
+import { normalizeScoringRules } from '../src/services/suggestion-scoring';
+import { getLearnedWeights, type SuggestionFeedback } from '../src/services/suggestion-learning';
+import { getWokenSnoozedEmails } from './email-snooze';
+import type { BriefThread } from '../src/services/meeting-brief';
+import { normalizeFollowUpSettings, type AwaitingReply, type FollowUpSettings } from '../src/services/follow-ups';
+import { getLogPath } from '../src/utils/paths';
 
 const store = new Store();
 
 // Direct file logging helper
-import * as os from 'os';
-import * as path from 'path';
-
-const slackLogFilePath = path.join(os.homedir(), 'pm-os-slack-debug.log');
+const slackLogFilePath = getLogPath('slack-debug.log');
 
 function logToFile(message: string) {
   try {
@@ -30,7 +33,7 @@ function logToFile(message: string) {
 logToFile('[IntegrationManager] MODULE LOADED - logToFile is working');
 
 // OAuth scope version tracking
-const REQUIRED_GOOGLE_SCOPE_VERSION = 4; // v4: Added Google Workspace directory.readonly for org-wide contact search
+const REQUIRED_GOOGLE_SCOPE_VERSION = 6; // v6: Added gmail.modify for email actions (archive, label, snooze)
 
 export class IntegrationManager {
   private calendarService: CalendarService | null = null;
@@ -245,6 +248,14 @@ export class IntegrationManager {
     return await this.calendarService.updateEvent(eventId, updates);
   }
 
+  // Busy times for the user ('primary') and attendees
+  async getFreeBusy(emails: string[], timeMin: string, timeMax: string) {
+    if (!this.calendarService) {
+      throw new Error('Calendar service not initialized');
+    }
+    return await this.calendarService.getFreeBusy(emails, timeMin, timeMax);
+  }
+
   // Create Zoom meeting
   async createZoomMeeting(request: any): Promise<any> {
     if (!this.zoomService) {
@@ -301,6 +312,44 @@ export class IntegrationManager {
     }
   }
 
+  // Send an email from the connected Google account
+  async sendEmail(email: OutgoingEmail): Promise<string> {
+    return this.requireGmail().sendEmail(email);
+  }
+
+  // Reply to an email in its thread
+  async replyToEmail(messageId: string, text: string): Promise<string> {
+    return this.requireGmail().replyToEmail(messageId, text);
+  }
+
+  // Add/remove Gmail labels (archive, star, custom labels)
+  async modifyEmailLabels(messageId: string, addLabelIds: string[], removeLabelIds: string[]): Promise<string[]> {
+    return this.requireGmail().modifyLabels(messageId, addLabelIds, removeLabelIds);
+  }
+
+  async getEmailLabels(): Promise<EmailLabel[]> {
+    return this.requireGmail().listLabels();
+  }
+
+  async getEmailText(messageId: string): Promise<string> {
+    return this.requireGmail().getMessageText(messageId);
+  }
+
+  async getEmailThread(threadId: string): Promise<EmailThread> {
+    return this.requireGmail().getThread(threadId);
+  }
+
+  async getEmailAttachment(messageId: string, attachmentId: string): Promise<Buffer> {
+    return this.requireGmail().getAttachment(messageId, attachmentId);
+  }
+
+  private requireGmail(): GmailService {
+    if (!this.gmailService) {
+      throw new Error('Gmail service not initialized. Please connect Google account first.');
+    }
+    return this.gmailService;
+  }
+
   // Sync Slack
   async syncSlack() {
     if (!this.slackService) {
@@ -320,25 +369,84 @@ export class IntegrationManager {
     const calendarEvents = this.calendarService
       ? await this.syncCalendar().catch(() => [])
       : [];
-    const emails = this.gmailService ? await this.syncGmail().catch(() => []) : [];
+    const recentEmails = this.gmailService ? await this.syncGmail().catch(() => []) : [];
     const slackMessages = this.slackService ? await this.syncSlack().catch(() => []) : [];
 
-    const suggestions = ContextEngine.generateSmartSuggestions(
-      calendarEvents,
-      emails,
-      slackMessages
-    );
+    // Emails back from snooze replace their regular copy
+    const wokenEmails = getWokenSnoozedEmails();
+    const wokenIds = new Set(wokenEmails.map(email => email.id));
+    const emails = [...recentEmails.filter(email => !wokenIds.has(email.id)), ...wokenEmails];
+
+    // Scoring rules from Settings; Slack digest VIPs count as VIP senders too
+    const userSettings = store.get('userSettings', {}) as any;
+    const followUpSettings = normalizeFollowUpSettings(userSettings.followUps);
+    const awaitingReplies = followUpSettings.enabled
+      ? await this.getAwaitingReplies(followUpSettings).catch(() => [])
+      : [];
+    const rules = normalizeScoringRules(userSettings.suggestionScoring);
+    rules.vipSenders = [...rules.vipSenders, ...(userSettings.slackVipContacts || [])];
 
     // Get dismissed suggestions from storage
     const dismissedSuggestions = store.get('dismissed_suggestions', []) as string[];
 
-    // Filter out dismissed suggestions and only keep high-conviction ones (score >= 70)
-    const filteredSuggestions = suggestions.filter(
-      (suggestion: any) =>
-        !dismissedSuggestions.includes(suggestion.id) && suggestion.score >= 70
-    );
+    // Weights learned from accepted/dismissed suggestions
+    const learnedWeights = getLearnedWeights(store.get('suggestion_feedback', {}) as SuggestionFeedback);
+
+    // Dismissed suggestions and anything below the rules' minimum score are dropped
+    return ContextEngine.generateSmartSuggestions(calendarEvents, emails, slackMessages, {
+      rules,
+      excludeIds: dismissedSuggestions,
+      learnedWeights,
+      awaitingReplies,
+      followUpWaitHours: followUpSettings.waitHours,
+    });
+  }
+
+  // Recent email and Slack conversations with these people, newest first
+  async getRecentThreadsWith(emails: string[], lookbackDays: number, limit: number = 8): Promise<BriefThread[]> {
+    if (emails.length === 0) return [];
+    const people = emails.flatMap(email => [`from:${email}`, `to:${email}`]).join(' ');
+
+    const [recentEmails, slackMessages] = await Promise.all([
+      this.gmailService
+        ? this.gmailService.searchEmails(`{${people}} newer_than:${lookbackDays}d`, limit).catch(() => [])
+        : Promise.resolve([]),
+      this.slackService ? this.slackService.getRecentMessagesFrom(emails, lookbackDays).catch(() => []) : Promise.resolve([]),
+    ]);
+
+    const threads: BriefThread[] = [
+      ...recentEmails.filter(email => !isNaN(Date.parse(email.date))).map(email => ({
+        id: email.id,
+        source: 'email' as const,
+        title: email.subject || '(No subject)',
+        from: email.from,
+        date: new Date(email.date).toISOString(),
+        url: `https://mail.google.com/mail/u/0/#inbox/${email.threadId}`,
+      })),
+      ...slackMessages.map(message => ({
+        id: message.id,
+        source: 'slack' as const,
+        title: message.text.length > 120 ? `${message.text.substring(0, 120)}...` : message.text,
+        from: message.userName || message.user,
+        date: new Date(parseFloat(message.timestamp) * 1000).toISOString(),
+        url: message.permalink,
+      })),
+    ];
+    return threads.sort((a, b) => b.date.localeCompare(a.date)).slice(0, limit);
+  }
 
-    return filteredSuggestions;
+  // Sent emails and Slack messages that asked for something and got no reply
+  async getAwaitingReplies(settings: FollowUpSettings): Promise<AwaitingReply[]> {
+    const [emails, slackMessages] = await Promise.all([
+      this.gmailService
+        ? this.gmailService.getSentAwaitingReply(settings.lookbackDays).catch(error => {
+            console.error('[IntegrationManager] Failed to check sent emails for follow-ups:', error);
+            return [];
+          })
+        : Promise.resolve([]),
+      this.slackService ? this.slackService.getMessagesAwaitingReply(settings.lookbackDays) : Promise.resolve([]),
+    ]);
+    return [...emails, ...slackMessages];
   }
 
   // Get Slack unread messages
@@ -501,6 +609,8 @@ export class IntegrationManager {
         snippet: email.snippet,
         timestamp: email.date,
         threadId: email.threadId,
+        isStarred: email.isStarred,
+        labels: email.labels,
       }));
 
       console.log('[IntegrationManager.getStarredEmails] Mapped emails:', {
@@ -530,6 +640,8 @@ export class IntegrationManager {
           snippet: email.snippet,
           timestamp: email.date,
           threadId: email.threadId,
+          isStarred: email.isStarred,
+          labels: email.labels,
         }));
         console.log('[IntegrationManager.getStarredEmails] After token refresh:', {
           count: mappedEmails.length,
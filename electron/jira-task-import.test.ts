@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { JiraIssue, JiraService } from '../src/services/jira';
+import type { Task } from '../src/types/task';
+import { JiraTaskImporter } from './jira-task-import';
+import { TaskStore } from './task-store';
+
+function makeIssue(key: string, status = 'In Progress'): JiraIssue {
+  return {
+    id: key,
+    key,
+    fields: {
+      summary: `Issue ${key}`,
+      status: { name: status, statusCategory: { key: status === 'Done' ? 'done' : 'indeterminate' } },
+      created: '2026-03-01T00:00:00.000Z',
+      updated: '2026-03-01T00:00:00.000Z',
+    },
+  };
+}
+
+// Just enough of JiraService for the importer; `issues` is what the search matches
+function fakeJira(issues: JiraIssue[], options: { complete?: boolean; lookup?: Record<string, JiraIssue> } = {}): JiraService {
+  return {
+    searchAllIssues: async () => ({ issues, complete: options.complete ?? true }),
+    getIssue: async (key: string) => options.lookup?.[key] || issues.find(issue => issue.key === key) || makeIssue(key),
+    isIssueDone: (issue: JiraIssue) => issue.fields.status.statusCategory?.key === 'done',
+    getIssueUrl: (key: string) => `https://example.atlassian.net/browse/${key}`,
+  } as unknown as JiraService;
+}
+
+describe('JiraTaskImporter', () => {
+  let dir: string;
+  let store: TaskStore;
+  let jira: JiraService;
+
+  const importer = () => new JiraTaskImporter(
+    store,
+    async () => jira,
+    () => ({ enabled: true, intervalMinutes: 15, jql: 'statusCategory != Done' }),
+    () => {}
+  );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-os-jira-import-'));
+    store = new TaskStore(path.join(dir, 'tasks.db'));
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('imports assigned issues as jira tasks', async () => {
+    jira = fakeJira([makeIssue('PM-1'), makeIssue('PM-2')]);
+    await expect(importer().importAll()).resolves.toMatchObject({ created: 2 });
+    expect(store.getAll().map(t => t.sourceId)).toEqual(['PM-1', 'PM-2']);
+  });
+
+  it('completes tasks whose issue was resolved', async () => {
+    jira = fakeJira([makeIssue('PM-1')]);
+    await importer().importAll();
+
+    jira = fakeJira([], { lookup: { 'PM-1': makeIssue('PM-1', 'Done') } });
+    await expect(importer().importAll()).resolves.toMatchObject({ completed: 1, removed: 0 });
+    expect(store.get('jira_PM-1')).toMatchObject({ completed: true });
+  });
+
+  it('removes tasks that dropped out of the filter but keeps subtasks the user added', async () => {
+    jira = fakeJira([makeIssue('PM-1')]);
+    await importer().importAll();
+    const subtask: Task = { id: 'mine', title: 'Write test plan', completed: false, source: 'manual', priority: 'medium', createdAt: '2026-03-02T00:00:00.000Z', parentId: 'jira_PM-1' };
+    store.insert(subtask);
+
+    jira = fakeJira([]);
+    await expect(importer().importAll()).resolves.toMatchObject({ removed: 1 });
+    expect(store.get('jira_PM-1')).toBeUndefined();
+    expect(store.get('mine')).toMatchObject({ title: 'Write test plan' });
+    expect(store.get('mine')?.parentId).toBeUndefined();
+  });
+
+  it('removes nothing when the search stopped before the last page', async () => {
+    jira = fakeJira([makeIssue('PM-1'), makeIssue('PM-2')]);
+    await importer().importAll();
+
+    jira = fakeJira([makeIssue('PM-2')], { complete: false });
+    await expect(importer().importAll()).resolves.toMatchObject({ removed: 0 });
+    expect(store.get('jira_PM-1')).toBeDefined();
+  });
+});
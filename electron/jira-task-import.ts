@@ -0,0 +1,204 @@
+import type { JiraService, JiraIssue } from '../src/services/jira';
+import type { Task } from '../src/types/task';
+import { stampCompletion } from './task-completion';
+import type { TaskStore } from './task-store';
+import { fromJiraPriority, getLinkedJiraKey } from '../src/utils/jiraSync';
+import { getDescendantIds } from '../src/utils/subtasks';
+
+export const DEFAULT_JIRA_IMPORT_JQL = 'statusCategory != Done';
+
+// Safety limit on issues paged through per sync. A search that hits it is
+// incomplete, so nothing is treated as dropped out of the filter that run.
+const MAX_SEARCHED_ISSUES = 1000;
+
+export interface JiraImportSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  jql: string;  // Extra filter ANDed with "assignee = currentUser()"
+}
+
+/**
+ * Imports Jira issues assigned to the current user as `jira` tasks. Imported
+ * tasks are completed when their issue is resolved and removed when it is
+ * unassigned or no longer matches the filter; subtasks the user added to them
+ * are kept. Issues already linked from another task are skipped, and issues
+ * whose task the user deleted are not re-imported.
+ */
+export class JiraTaskImporter {
+  private timer: NodeJS.Timeout | null = null;
+  private importing = false;
+
+  constructor(
+    private taskStore: TaskStore,
+    private getJiraService: () => Promise<JiraService>,
+    private getSettings: () => JiraImportSettings,
+    private onTasksChanged: (newTasks: Task[]) => void
+  ) {}
+
+  /**
+   * Start periodic import
+   */
+  start() {
+    this.stop();
+    const settings = this.getSettings();
+    if (!settings.enabled) {
+      console.log('[JiraImport] Disabled in settings');
+      return;
+    }
+
+    // Failures are logged inside importAll; keep the timer running
+    const run = () => this.importAll().catch(() => {});
+    run();
+    this.timer = setInterval(run, Math.max(1, settings.intervalMinutes) * 60 * 1000);
+    console.log(`[JiraImport] Importing every ${settings.intervalMinutes} minutes`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async importAll(): Promise<{ created: number; completed: number; removed: number }> {
+    const counts = { created: 0, completed: 0, removed: 0 };
+    const settings = this.getSettings();
+    if (this.importing || !settings.enabled) return counts;
+    this.importing = true;
+
+    try {
+      const jira = await this.getJiraService();
+      const filter = settings.jql.trim();
+      const jql = `assignee = currentUser()${filter ? ` AND (${filter})` : ''} ORDER BY updated DESC`;
+      const { issues, complete } = await jira.searchAllIssues(jql, MAX_SEARCHED_ISSUES);
+      const matched = new Map(issues.map(issue => [issue.key, issue]));
+      if (!complete) {
+        console.log(`[JiraImport] More than ${MAX_SEARCHED_ISSUES} issues match; not removing any this run`);
+      }
+
+      // Imported tasks that dropped out of the filter: resolved, unassigned or filtered away
+      const stale: { task: Task; issue: JiraIssue | null }[] = [];
+      for (const task of complete ? this.taskStore.getAll() : []) {
+        if (task.source !== 'jira' || !task.sourceId || task.completed || matched.has(task.sourceId)) continue;
+        try {
+          stale.push({ task, issue: await jira.getIssue(task.sourceId) });
+        } catch (error: any) {
+          if (/Jira API error: 404/.test(error.message)) {
+            stale.push({ task, issue: null });
+          } else {
+            console.error(`[JiraImport] Failed to check ${task.sourceId}:`, error.message);
+          }
+        }
+      }
+
+      const newTasks: Task[] = [];
+      this.taskStore.transaction(() => {
+        const tasks = this.taskStore.getAll();
+        const linkedKeys = new Set(
+          tasks.filter(t => t.source !== 'jira').map(t => getLinkedJiraKey(t)).filter(Boolean)
+        );
+        const importedKeys = new Set(tasks.filter(t => t.source === 'jira').map(t => t.sourceId));
+
+        for (const issue of issues) {
+          const done = jira.isIssueDone(issue);
+          if (importedKeys.has(issue.key)) {
+            const task = tasks.find(t => t.source === 'jira' && t.sourceId === issue.key)!;
+            if (done && !task.completed) {
+              this.complete(task.id);
+              counts.completed++;
+            }
+            continue;
+          }
+          if (done || linkedKeys.has(issue.key) || this.wasDeletedByUser(issue.key)) continue;
+
+          newTasks.push(this.taskStore.insert(this.toTask(jira, issue), 'last'));
+          counts.created++;
+        }
+
+        for (const { task, issue } of stale) {
+          const latest = this.taskStore.get(task.id);
+          if (!latest || latest.completed) continue;
+          if (issue && jira.isIssueDone(issue)) {
+            this.complete(task.id);
+            counts.completed++;
+          } else {
+            this.remove(task.id);
+            counts.removed++;
+          }
+        }
+      }, 'jira');
+
+      if (counts.created || counts.completed || counts.removed) {
+        console.log(`[JiraImport] Created ${counts.created}, completed ${counts.completed}, removed ${counts.removed}`);
+        this.onTasksChanged(newTasks);
+      }
+      return counts;
+    } catch (error: any) {
+      console.error('[JiraImport] Import failed:', error.message);
+      throw error;
+    } finally {
+      this.importing = false;
+    }
+  }
+
+  private toTask(jira: JiraService, issue: JiraIssue): Task {
+    const now = new Date().toISOString();
+    return {
+      id: getImportedTaskId(issue.key),
+      title: issue.fields.summary,
+      completed: false,
+      source: 'jira',
+      sourceId: issue.key,
+      priority: fromJiraPriority(issue.fields.priority?.name),
+      context: `${issue.key} · ${issue.fields.status.name}`,
+      createdAt: now,
+      updatedAt: now,
+      linkedItems: [{
+        id: `jira_${issue.key}`,
+        type: 'jira',
+        title: `${issue.key}: ${issue.fields.summary}`,
+        url: jira.getIssueUrl(issue.key),
+      }],
+    };
+  }
+
+  /**
+   * Delete an imported task along with imported subtasks. Subtasks the user added
+   * are kept as top-level tasks, and nothing stays blocked by a deleted task.
+   */
+  private remove(taskId: string) {
+    const tasks = this.taskStore.getAll();
+    const descendants = new Set(getDescendantIds(tasks, taskId));
+    const removedIds = new Set([taskId, ...tasks.filter(t => descendants.has(t.id) && t.source === 'jira').map(t => t.id)]);
+    this.taskStore.delete([...removedIds]);
+
+    const now = new Date().toISOString();
+    for (const task of tasks) {
+      if (removedIds.has(task.id)) continue;
+      const promote = !!task.parentId && removedIds.has(task.parentId);
+      const unblock = task.blockedBy?.some(b => b.type === 'task' && removedIds.has(b.id));
+      if (!promote && !unblock) continue;
+
+      this.taskStore.save({
+        ...task,
+        parentId: promote ? undefined : task.parentId,
+        blockedBy: unblock ? task.blockedBy!.filter(b => !(b.type === 'task' && removedIds.has(b.id))) : task.blockedBy,
+        updatedAt: now,
+      });
+    }
+  }
+
+  private complete(taskId: string) {
+    this.taskStore.update(taskId, task => stampCompletion(task, { ...task, completed: true, updatedAt: new Date().toISOString() }));
+  }
+
+  // A task the user deleted stays deleted until they restore it
+  private wasDeletedByUser(issueKey: string): boolean {
+    const [latest] = this.taskStore.getHistory(getImportedTaskId(issueKey), 1);
+    return latest?.action === 'deleted' && latest.actor !== 'jira';
+  }
+}
+
+function getImportedTaskId(issueKey: string): string {
+  return `jira_${issueKey}`;
+}
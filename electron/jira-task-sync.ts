@@ -0,0 +1,280 @@
+import { Notification } from 'electron';
+import type { JiraService, JiraIssue } from '../src/services/jira';
+import type { JiraSyncConflict, JiraSyncField, JiraSyncValues, Task } from '../src/types/task';
+import { stampCompletion } from './task-completion';
+import type { TaskStore } from './task-store';
+import {
+  fromJiraPriority,
+  getJiraSyncValues,
+  getLinkedJiraKey,
+  mergeJiraValues,
+  toJiraPriority,
+  JIRA_SYNC_FIELD_LABELS,
+} from '../src/utils/jiraSync';
+
+export interface JiraSyncSettings {
+  enabled: boolean;
+  intervalMinutes: number;
+  doneTransition: string;    // Transition (or target status) used when a task is completed
+  reopenTransition: string;  // Transition (or target status) used when a task is reopened
+}
+
+/**
+ * Keeps tasks with a Jira linked item in sync with their issue: title, priority
+ * and completion. Changes made on only one side are copied to the other; changes
+ * made on both sides since the last sync are recorded as conflicts on the task
+ * for the user to resolve.
+ */
+export class JiraTaskSync {
+  private timer: NodeJS.Timeout | null = null;
+  private syncing = false;
+
+  constructor(
+    private taskStore: TaskStore,
+    private getJiraService: () => Promise<JiraService>,
+    private getSettings: () => JiraSyncSettings,
+    private onTasksChanged: () => void
+  ) {}
+
+  /**
+   * Start periodic sync
+   */
+  start() {
+    this.stop();
+    const settings = this.getSettings();
+    if (!settings.enabled) {
+      console.log('[JiraSync] Disabled in settings');
+      return;
+    }
+
+    this.syncAll();
+    this.timer = setInterval(() => this.syncAll(), Math.max(1, settings.intervalMinutes) * 60 * 1000);
+    console.log(`[JiraSync] Syncing every ${settings.intervalMinutes} minutes`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Sync every task linked to a Jira issue
+   */
+  async syncAll(): Promise<void> {
+    if (this.syncing || !this.getSettings().enabled) return;
+    this.syncing = true;
+
+    try {
+      const linked = this.taskStore.getAll().filter(t => getLinkedJiraKey(t));
+      if (linked.length === 0) return;
+
+      let jira: JiraService;
+      try {
+        jira = await this.getJiraService();
+      } catch (error: any) {
+        console.log('[JiraSync] Skipping sync:', error.message);
+        return;
+      }
+
+      // One search covers most linked issues; resolved or reassigned ones are fetched individually
+      const myIssues = new Map<string, JiraIssue>();
+      try {
+        for (const issue of await jira.getMyIssues(100)) {
+          myIssues.set(issue.key, issue);
+        }
+      } catch (error: any) {
+        console.error('[JiraSync] Failed to fetch assigned issues:', error.message);
+      }
+
+      const newConflicts: Task[] = [];
+      let changed = false;
+      for (const task of linked) {
+        const issueKey = getLinkedJiraKey(task)!;
+        try {
+          const issue = myIssues.get(issueKey) || await jira.getIssue(issueKey);
+          const result = await this.reconcile(jira, task.id, issue);
+          changed = changed || result.changed;
+          if (result.newConflicts && result.task) newConflicts.push(result.task);
+        } catch (error: any) {
+          console.error(`[JiraSync] Failed to sync ${issueKey}:`, error.message);
+        }
+      }
+
+      if (changed) this.onTasksChanged();
+      this.notifyConflicts(newConflicts);
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Sync a single task right after it was edited in PM-OS
+   */
+  async syncTask(taskId: string): Promise<void> {
+    if (!this.getSettings().enabled) return;
+
+    const task = this.taskStore.get(taskId);
+    const issueKey = task && getLinkedJiraKey(task);
+    if (!issueKey) return;
+
+    try {
+      const jira = await this.getJiraService();
+      const issue = await jira.getIssue(issueKey);
+      const result = await this.reconcile(jira, taskId, issue);
+      if (result.changed) this.onTasksChanged();
+      if (result.newConflicts && result.task) this.notifyConflicts([result.task]);
+    } catch (error: any) {
+      console.error(`[JiraSync] Failed to sync ${issueKey}:`, error.message);
+    }
+  }
+
+  /**
+   * Resolve a conflict by keeping either the PM-OS or the Jira value
+   */
+  async resolveConflict(taskId: string, field: JiraSyncField, choice: 'local' | 'remote'): Promise<Task> {
+    const task = this.taskStore.get(taskId);
+    const conflict = task?.jiraSync?.conflicts?.find(c => c.field === field);
+    if (!task || !task.jiraSync || !conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    if (choice === 'local') {
+      const jira = await this.getJiraService();
+      await this.pushValues(jira, task.jiraSync.issueKey, { [field]: conflict.local } as Partial<JiraSyncValues>);
+    }
+
+    const value = choice === 'local' ? conflict.local : conflict.remote;
+    const updated = this.taskStore.transaction(() => this.taskStore.update(taskId, latest => ({
+      ...latest,
+      [field]: value,
+      jiraSync: latest.jiraSync && {
+        ...latest.jiraSync,
+        base: { ...latest.jiraSync.base, [field]: value },
+        conflicts: (latest.jiraSync.conflicts || []).filter(c => c.field !== field),
+      },
+      updatedAt: new Date().toISOString(),
+    })), 'ui');
+
+    this.onTasksChanged();
+    return updated!;
+  }
+
+  private async reconcile(
+    jira: JiraService,
+    taskId: string,
+    issue: JiraIssue
+  ): Promise<{ changed: boolean; newConflicts: boolean; task?: Task }> {
+    const task = this.taskStore.get(taskId);
+    if (!task) return { changed: false, newConflicts: false };
+
+    const local = getJiraSyncValues(task);
+    const remote: JiraSyncValues = {
+      title: issue.fields.summary,
+      completed: jira.isIssueDone(issue),
+      priority: fromJiraPriority(issue.fields.priority?.name),
+    };
+    const previous = task.jiraSync?.issueKey === issue.key ? task.jiraSync : undefined;
+    // First sync since the issue was linked: the task's current values are the base,
+    // so fields that differ are pulled from Jira and nothing is pushed until the next edit
+    const lastBase = previous ? previous.base : local;
+    const merge = mergeJiraValues(lastBase, local, remote);
+
+    let lastError: string | undefined;
+    const pushed: Partial<JiraSyncValues> = {};
+    if (Object.keys(merge.push).length > 0) {
+      try {
+        await this.pushValues(jira, issue.key, merge.push);
+        Object.assign(pushed, merge.push);
+        console.log(`[JiraSync] Pushed ${Object.keys(merge.push).join(', ')} to ${issue.key}`);
+      } catch (error: any) {
+        lastError = error.message;
+        console.error(`[JiraSync] Failed to push to ${issue.key}:`, error.message);
+      }
+    }
+
+    const previousConflictFields = new Set((previous?.conflicts || []).map(c => c.field));
+    let changed = false;
+
+    const updated = this.taskStore.transaction(() => this.taskStore.update(taskId, latest => {
+      // Don't apply Jira values over edits made while we were talking to Jira
+      const latestValues = getJiraSyncValues(latest);
+      const pull: Partial<JiraSyncValues> = {};
+      for (const [field, value] of Object.entries(merge.pull) as [JiraSyncField, any][]) {
+        if (latestValues[field] === local[field]) {
+          (pull as any)[field] = value;
+        }
+      }
+
+      const base = { ...lastBase, ...merge.agreed, ...pushed, ...pull };
+      const conflicts: JiraSyncConflict[] = merge.conflicts.map(conflict => {
+        const existing = previous?.conflicts?.find(c => c.field === conflict.field);
+        return existing ? { ...conflict, detectedAt: existing.detectedAt } : conflict;
+      });
+
+      const next: Task = stampCompletion(latest, {
+        ...latest,
+        ...pull,
+        jiraSync: {
+          issueKey: issue.key,
+          lastSyncedAt: new Date().toISOString(),
+          base,
+          remoteStatus: issue.fields.status.name,
+          conflicts: conflicts.length > 0 ? conflicts : undefined,
+          lastError,
+        },
+      });
+
+      changed = Object.keys(pull).length > 0 ||
+        JSON.stringify({ ...latest.jiraSync, lastSyncedAt: undefined }) !== JSON.stringify({ ...next.jiraSync, lastSyncedAt: undefined });
+      if (Object.keys(pull).length > 0) {
+        next.updatedAt = new Date().toISOString();
+        console.log(`[JiraSync] Pulled ${Object.keys(pull).join(', ')} from ${issue.key}`);
+      }
+      return next;
+    }), 'jira');
+
+    const newConflicts = merge.conflicts.some(c => !previousConflictFields.has(c.field));
+    return { changed, newConflicts, task: updated };
+  }
+
+  private async pushValues(jira: JiraService, issueKey: string, values: Partial<JiraSyncValues>): Promise<void> {
+    if (values.title !== undefined || values.priority !== undefined) {
+      let priority: string | undefined;
+      if (values.priority !== undefined) {
+        // Priority schemes are per project, so use a name this issue actually accepts
+        const allowed = await jira.getIssuePriorities(issueKey);
+        priority = toJiraPriority(values.priority, allowed);
+        if (!priority) {
+          throw new Error(`No ${values.priority} priority available on ${issueKey} (available: ${allowed.join(', ') || 'none'})`);
+        }
+      }
+      await jira.updateIssueFields(issueKey, { summary: values.title, priority });
+    }
+
+    if (values.completed !== undefined) {
+      const settings = this.getSettings();
+      const wanted = (values.completed ? settings.doneTransition : settings.reopenTransition).toLowerCase();
+      const transitions = await jira.getTransitions(issueKey);
+      const transition = transitions.find(t => t.name.toLowerCase() === wanted || t.to.name.toLowerCase() === wanted);
+      if (!transition) {
+        throw new Error(`No "${wanted}" transition available on ${issueKey} (available: ${transitions.map(t => t.name).join(', ')})`);
+      }
+      await jira.updateIssueStatus(issueKey, transition.id);
+    }
+  }
+
+  private notifyConflicts(tasks: Task[]) {
+    if (tasks.length === 0 || !Notification.isSupported()) return;
+
+    const task = tasks[0];
+    const fields = (task.jiraSync?.conflicts || []).map(c => JIRA_SYNC_FIELD_LABELS[c.field].toLowerCase()).join(', ');
+    new Notification({
+      title: 'Jira sync conflict',
+      body: tasks.length === 1
+        ? `"${task.title}" changed in both PM-OS and ${task.jiraSync?.issueKey} (${fields}). Open the task to choose which to keep.`
+        : `${tasks.length} tasks changed in both PM-OS and Jira. Open them to choose which to keep.`,
+    }).show();
+  }
+}
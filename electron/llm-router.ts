@@ -0,0 +1,191 @@
+import Store from 'electron-store';
+import OpenAI from 'openai';
+import * as fs from 'fs';
+import {
+  LLM_TASK_LABELS,
+  LLM_TASKS,
+  OPENAI_PROVIDER_ID,
+  emptyUsageTotals,
+  estimateCost,
+  type LLMCompletionRequest,
+  type LLMProvider,
+  type LLMSettings,
+  type LLMTask,
+  type LLMUsage,
+  type LLMUsageTotals,
+} from '../src/services/llm-config';
+
+const store = new Store();
+const USAGE_STORE_KEY = 'llm_usage';
+
+export interface LLMCompletion {
+  content: string;
+  providerId: string;
+  model: string;
+}
+
+/**
+ * Routes each LLM workload to the provider and model configured for it, so
+ * callers never construct their own OpenAI client or hardcode a model.
+ * Every request is metered into persisted token/cost totals.
+ */
+export class LLMRouter {
+  private clients: Map<string, { signature: string; client: OpenAI }> = new Map();
+
+  constructor(private getSettings: () => LLMSettings) {}
+
+  private resolveApiKey(provider: LLMProvider): string | undefined {
+    if (provider.apiKey) return provider.apiKey;
+    if (provider.id === OPENAI_PROVIDER_ID) return process.env.OPENAI_API_KEY;
+    // Local servers usually ignore the key, but the client refuses to start without one
+    return provider.kind === 'openai-compatible' ? 'not-needed' : undefined;
+  }
+
+  private resolve(task: LLMTask): { provider: LLMProvider; model: string; client: OpenAI } {
+    const settings = this.getSettings();
+    const route = settings.routes[task];
+    const provider = settings.providers.find(p => p.id === route?.providerId);
+    if (!route || !provider) {
+      throw new Error(`No AI provider configured for ${LLM_TASK_LABELS[task].label}`);
+    }
+
+    const apiKey = this.resolveApiKey(provider);
+    if (!apiKey) {
+      throw new Error(`${provider.name} API key not configured`);
+    }
+    if (provider.kind === 'openai-compatible' && !provider.baseUrl) {
+      throw new Error(`${provider.name} has no base URL`);
+    }
+
+    // Reuse clients until the provider's connection settings change
+    const signature = JSON.stringify([apiKey, provider.baseUrl, settings.timeoutSeconds, settings.maxRetries]);
+    let cached = this.clients.get(provider.id);
+    if (!cached || cached.signature !== signature) {
+      cached = {
+        signature,
+        client: new OpenAI({
+          apiKey,
+          baseURL: provider.kind === 'openai-compatible' ? provider.baseUrl : undefined,
+          timeout: settings.timeoutSeconds * 1000,
+          maxRetries: settings.maxRetries,
+        }),
+      };
+      this.clients.set(provider.id, cached);
+    }
+
+    return { provider, model: route.model, client: cached.client };
+  }
+
+  /**
+   * Whether a task has a usable provider (it may still fail at request time)
+   */
+  isAvailable(task: LLMTask): boolean {
+    try {
+      this.resolve(task);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getStatus(): Record<LLMTask, boolean> {
+    return Object.fromEntries(LLM_TASKS.map(task => [task, this.isAvailable(task)])) as Record<LLMTask, boolean>;
+  }
+
+  async complete(task: LLMTask, request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const { provider, model, client } = this.resolve(task);
+
+    try {
+      const response = await client.chat.completions.create({
+        model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      });
+
+      this.recordUsage(task, provider, model, {
+        promptTokens: response.usage?.prompt_tokens || 0,
+        completionTokens: response.usage?.completion_tokens || 0,
+      });
+
+      return {
+        content: response.choices[0]?.message.content || '',
+        providerId: provider.id,
+        model,
+      };
+    } catch (error) {
+      this.recordFailure(task, provider, model);
+      throw error;
+    }
+  }
+
+  async transcribe(filePath: string): Promise<string> {
+    const { provider, model, client } = this.resolve('transcription');
+
+    try {
+      const transcription = await client.audio.transcriptions.create({
+        file: fs.createReadStream(filePath),
+        model,
+      });
+
+      const usage = transcription.usage;
+      this.recordUsage('transcription', provider, model, usage?.type === 'duration'
+        ? { audioSeconds: usage.seconds }
+        : { promptTokens: usage?.input_tokens || 0, completionTokens: usage?.output_tokens || 0 });
+
+      return transcription.text;
+    } catch (error) {
+      this.recordFailure('transcription', provider, model);
+      throw error;
+    }
+  }
+
+  getUsage(): LLMUsage {
+    return store.get(USAGE_STORE_KEY, { since: new Date().toISOString(), byTask: {}, byModel: {} }) as LLMUsage;
+  }
+
+  resetUsage(): void {
+    store.set(USAGE_STORE_KEY, { since: new Date().toISOString(), byTask: {}, byModel: {} });
+  }
+
+  private updateUsage(task: LLMTask, provider: LLMProvider, model: string, apply: (totals: LLMUsageTotals) => void) {
+    const usage = this.getUsage();
+    const modelKey = `${provider.id}/${model}`;
+
+    const taskTotals = usage.byTask[task] || emptyUsageTotals();
+    const modelTotals = usage.byModel[modelKey] || emptyUsageTotals();
+    apply(taskTotals);
+    apply(modelTotals);
+    usage.byTask[task] = taskTotals;
+    usage.byModel[modelKey] = modelTotals;
+
+    store.set(USAGE_STORE_KEY, usage);
+  }
+
+  private recordUsage(
+    task: LLMTask,
+    provider: LLMProvider,
+    model: string,
+    metered: { promptTokens?: number; completionTokens?: number; audioSeconds?: number }
+  ) {
+    const cost = estimateCost(provider.kind, model, metered);
+    this.updateUsage(task, provider, model, totals => {
+      totals.requests++;
+      totals.promptTokens += metered.promptTokens || 0;
+      totals.completionTokens += metered.completionTokens || 0;
+      totals.audioSeconds += metered.audioSeconds || 0;
+      if (cost === null) {
+        totals.unpricedRequests++;
+      } else {
+        totals.costUsd += cost;
+      }
+    });
+  }
+
+  private recordFailure(task: LLMTask, provider: LLMProvider, model: string) {
+    this.updateUsage(task, provider, model, totals => {
+      totals.failures++;
+    });
+  }
+}
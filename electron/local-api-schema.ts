@@ -0,0 +1,382 @@
+// JSON schemas for the local HTTP API. The same objects validate request
+// bodies and make up the components section of the OpenAPI document.
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  minProperties?: number;
+  items?: JsonSchema;
+  enum?: readonly (string | number | boolean | null)[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonType;
+}
+
+/**
+ * Check a value against a schema. Supports the subset of JSON Schema used
+ * below; returns one message per problem, empty when valid.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string = 'body'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    const matches = allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+    if (!matches) {
+      return [`${path} must be ${allowed.join(' or ')}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as any)) {
+    errors.push(`${path} must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} has an invalid format`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateSchema(schema.items!, item, `${path}[${index}]`)));
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (object[key] === undefined) errors.push(`${path}.${key} is required`);
+    }
+    if (schema.minProperties !== undefined && Object.keys(object).length < schema.minProperties) {
+      errors.push(`${path} must have at least ${schema.minProperties} field${schema.minProperties === 1 ? '' : 's'}`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateSchema(propertySchema, propertyValue, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+// YYYY-MM-DD, optionally followed by a time
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}(T.+)?$';
+
+const TAG_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    label: { type: 'string', minLength: 1, maxLength: 50 },
+    color: { type: 'string', maxLength: 50 },
+  },
+  required: ['label', 'color'],
+  additionalProperties: false,
+};
+
+const LINKED_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', maxLength: 200 },
+    type: {
+      type: 'string',
+      enum: ['confluence', 'jira', 'slack', 'google-docs', 'google-slides', 'google-sheets', 'google-calendar', 'obsidian', 'figma', 'gmail', 'amplitude', 'other'],
+    },
+    title: { type: 'string', maxLength: 500 },
+    url: { type: 'string', maxLength: 2000 },
+  },
+  required: ['id', 'type', 'title'],
+  additionalProperties: false,
+};
+
+// Fields a client may set on a task
+const EDITABLE_TASK_FIELDS: Record<string, JsonSchema> = {
+  title: { type: 'string', minLength: 1, maxLength: 500 },
+  completed: { type: 'boolean' },
+  priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+  dueDate: { type: ['string', 'null'], pattern: DATE_PATTERN, description: 'YYYY-MM-DD or ISO date-time; null clears it' },
+  deadline: { type: ['string', 'null'], pattern: DATE_PATTERN, description: 'YYYY-MM-DD or ISO date-time; null clears it' },
+  context: { type: ['string', 'null'], maxLength: 2000 },
+  description: { type: ['string', 'null'], maxLength: 20000 },
+  tags: { type: 'array', items: TAG_SCHEMA },
+  linkedItems: { type: 'array', items: LINKED_ITEM_SCHEMA },
+  parentId: { type: ['string', 'null'], description: 'Make this a subtask of another task; null makes it top-level' },
+};
+
+export const TASK_CREATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    ...EDITABLE_TASK_FIELDS,
+    source: { type: 'string', maxLength: 50, description: 'Where the task came from; defaults to manual' },
+    sourceId: { type: 'string', maxLength: 500 },
+  },
+  required: ['title'],
+  additionalProperties: false,
+};
+
+export const TASK_UPDATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: EDITABLE_TASK_FIELDS,
+  minProperties: 1,
+  additionalProperties: false,
+};
+
+export const TASK_SCHEMA: JsonSchema = {
+  type: 'object',
+  description: 'A PM-OS task. Integration-specific fields (Slack, Jira sync, recurrence) are included when present.',
+  properties: {
+    id: { type: 'string' },
+    source: { type: 'string' },
+    sourceId: { type: 'string' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+    completedAt: { type: 'string', description: 'When the task was completed; absent while it is open' },
+    ...EDITABLE_TASK_FIELDS,
+  },
+  required: ['id', 'title', 'completed', 'source', 'priority', 'createdAt'],
+};
+
+export const PAIR_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    code: { type: 'string', pattern: '^\\d{6}$', description: 'The pairing code shown in PM-OS Settings' },
+    name: { type: 'string', minLength: 1, maxLength: 100, description: 'Shown in the list of connected apps' },
+  },
+  required: ['code', 'name'],
+  additionalProperties: false,
+};
+
+export const JIRA_ISSUE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 500 },
+    description: { type: 'string', maxLength: 20000 },
+    assigneeName: { type: 'string' },
+    assigneeEmail: { type: 'string' },
+    parent: { type: 'string' },
+    priority: { type: 'string' },
+    pillar: { type: 'string' },
+    pod: { type: 'string' },
+    channel: { type: 'string', description: 'Slack channel to confirm in' },
+    threadTs: { type: 'string' },
+    messageTs: { type: 'string' },
+  },
+  required: ['title'],
+  additionalProperties: false,
+};
+
+const ERROR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    details: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['success', 'error'],
+};
+
+const CHANGE_EVENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    cursor: { type: 'string' },
+    seq: { type: 'integer' },
+    type: { type: 'string', enum: ['task', 'suggestion', 'doc'] },
+    action: { type: 'string', description: 'created, updated, deleted or restored; refreshed, dismissed or accepted for suggestions' },
+    id: { type: 'string' },
+    data: { description: 'The item after the change; omitted for deletes' },
+    actor: { type: 'string', description: 'For tasks: ui, mcp, extension, slack, jira or system' },
+    at: { type: 'string' },
+  },
+  required: ['cursor', 'seq', 'type', 'action', 'at'],
+};
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const jsonContent = (schema: object) => ({ content: { 'application/json': { schema } } });
+
+const success = (properties: Record<string, object>, description: string = 'OK') => ({
+  description,
+  ...jsonContent({ type: 'object', properties: { success: { type: 'boolean', enum: [true] }, ...properties } }),
+});
+
+const errors = {
+  '400': { description: 'Invalid request', ...jsonContent(ref('Error')) },
+  '401': { description: 'Missing or invalid token', ...jsonContent(ref('Error')) },
+};
+
+const taskIdParameter = { name: 'id', in: 'path', required: true, schema: { type: 'string' } };
+
+/**
+ * OpenAPI 3.1 description of the v1 API
+ */
+export function buildOpenApiDocument(port: number) {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'PM-OS Local API',
+      version: '1.0.0',
+      description: 'Task access for local tools. Pair in PM-OS Settings → Integrations → Local API, then send the token as a Bearer token.',
+    },
+    servers: [{ url: `http://localhost:${port}` }],
+    security: [{ bearerAuth: [] }],
+    components: {
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Task: TASK_SCHEMA,
+        TaskCreate: TASK_CREATE_SCHEMA,
+        TaskUpdate: TASK_UPDATE_SCHEMA,
+        Tag: TAG_SCHEMA,
+        LinkedItem: LINKED_ITEM_SCHEMA,
+        PairRequest: PAIR_REQUEST_SCHEMA,
+        JiraIssueCreate: JIRA_ISSUE_SCHEMA,
+        ChangeEvent: CHANGE_EVENT_SCHEMA,
+        Error: ERROR_SCHEMA,
+      },
+    },
+    paths: {
+      '/v1/openapi.json': {
+        get: { summary: 'This document', security: [], responses: { '200': { description: 'OpenAPI document' } } },
+      },
+      '/v1/pair': {
+        post: {
+          summary: 'Exchange a pairing code for an API token',
+          security: [],
+          requestBody: { required: true, ...jsonContent(ref('PairRequest')) },
+          responses: {
+            '200': success({ token: { type: 'string' }, clientId: { type: 'string' } }),
+            ...errors,
+            '429': { description: 'Too many wrong codes; start pairing again', ...jsonContent(ref('Error')) },
+          },
+        },
+      },
+      '/v1/tasks': {
+        get: {
+          summary: 'List tasks',
+          parameters: [
+            { name: 'completed', in: 'query', schema: { type: 'boolean' } },
+            { name: 'tag', in: 'query', schema: { type: 'string' } },
+            { name: 'source', in: 'query', schema: { type: 'string' } },
+            { name: 'parentId', in: 'query', schema: { type: 'string' }, description: '"null" for top-level tasks only' },
+            { name: 'dueBefore', in: 'query', schema: { type: 'string' } },
+            { name: 'dueAfter', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': success({
+              tasks: { type: 'array', items: ref('Task') },
+              cursor: { type: 'string', description: 'Follow /v1/changes from here to keep this list current' },
+            }),
+            ...errors,
+          },
+        },
+        post: {
+          summary: 'Create a task',
+          requestBody: { required: true, ...jsonContent(ref('TaskCreate')) },
+          responses: { '201': success({ task: ref('Task') }, 'Created'), ...errors },
+        },
+      },
+      '/v1/changes': {
+        get: {
+          summary: 'Stream task, suggestion and doc changes as server-sent events',
+          description: 'Starts with a `ready` event carrying the current cursor, or `reset` when the given cursor can\'t be resumed '
+            + '(the app restarted or the client fell too far behind) and the client should reload. Then sends a `change` '
+            + 'event per change, with the event id set to its cursor.',
+          parameters: [
+            { name: 'cursor', in: 'query', schema: { type: 'string' }, description: 'Resume after this cursor; the Last-Event-ID header also works' },
+            { name: 'types', in: 'query', schema: { type: 'string' }, description: 'Comma-separated subset of task, suggestion, doc' },
+          ],
+          responses: {
+            '200': { description: 'Event stream', content: { 'text/event-stream': { schema: ref('ChangeEvent') } } },
+            ...errors,
+          },
+        },
+      },
+      '/v1/tasks/search': {
+        get: {
+          summary: 'Fuzzy search task titles, context and descriptions',
+          parameters: [
+            { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+            { name: 'completed', in: 'query', schema: { type: 'boolean' } },
+            { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 200 } },
+          ],
+          responses: { '200': success({ tasks: { type: 'array', items: ref('Task') } }), ...errors },
+        },
+      },
+      '/v1/tasks/{id}': {
+        get: {
+          summary: 'Get a task',
+          parameters: [taskIdParameter],
+          responses: { '200': success({ task: ref('Task') }), ...errors, '404': { description: 'Not found' } },
+        },
+        patch: {
+          summary: 'Update a task',
+          parameters: [taskIdParameter],
+          requestBody: { required: true, ...jsonContent(ref('TaskUpdate')) },
+          responses: { '200': success({ task: ref('Task') }), ...errors, '404': { description: 'Not found' } },
+        },
+        delete: {
+          summary: 'Delete a task',
+          parameters: [
+            taskIdParameter,
+            { name: 'mode', in: 'query', schema: { type: 'string', enum: ['cascade', 'promote'] }, description: 'cascade deletes subtasks too; promote makes them top-level' },
+          ],
+          responses: { '200': success({}), ...errors, '404': { description: 'Not found' } },
+        },
+      },
+      '/v1/tags': {
+        get: {
+          summary: 'Tags in use, with how many open tasks have each',
+          responses: {
+            '200': success({
+              tags: {
+                type: 'array',
+                items: { type: 'object', properties: { label: { type: 'string' }, color: { type: 'string' }, openTasks: { type: 'integer' } } },
+              },
+            }),
+            ...errors,
+          },
+        },
+      },
+      '/v1/jira/field-options': {
+        get: {
+          summary: 'Pillar and Pod options for a Jira project',
+          parameters: [{ name: 'projectKey', in: 'query', schema: { type: 'string' } }],
+          responses: { '200': success({ pillars: { type: 'array' }, pods: { type: 'array' } }), ...errors },
+        },
+      },
+      '/v1/jira/issues': {
+        post: {
+          summary: 'Create a Jira issue in the default project, optionally confirming in a Slack thread',
+          requestBody: { required: true, ...jsonContent(ref('JiraIssueCreate')) },
+          responses: { '201': success({ jiraKey: { type: 'string' }, jiraUrl: { type: 'string' } }, 'Created'), ...errors },
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,488 @@
+import Store from 'electron-store';
+import * as http from 'http';
+import { createHash, randomBytes, randomInt, randomUUID } from 'crypto';
+import type { Task } from '../src/types/task';
+import type { LocalApiClient } from '../src/types/local-api';
+import type { TaskQuery } from './task-store';
+import { fuzzyFilter } from '../src/utils/fuzzySearch';
+import type { ChangeFeed, ChangeEvent, ChangeType } from './change-feed';
+import {
+  validateSchema,
+  buildOpenApiDocument,
+  TASK_CREATE_SCHEMA,
+  TASK_UPDATE_SCHEMA,
+  PAIR_REQUEST_SCHEMA,
+  JIRA_ISSUE_SCHEMA,
+  type JsonSchema,
+} from './local-api-schema';
+
+const store = new Store();
+
+const CLIENTS_KEY = 'localApiClients';
+const PAIRING_TTL_MS = 5 * 60 * 1000;
+const MAX_PAIRING_ATTEMPTS = 5;
+const MAX_BODY_BYTES = 1024 * 1024;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+const CHANGE_TYPES: ChangeType[] = ['task', 'suggestion', 'doc'];
+
+export const LOCAL_API_PORT = 54321;
+
+interface StoredClient extends LocalApiClient {
+  tokenHash: string;
+}
+
+export interface JiraIssueRequest {
+  title: string;
+  description?: string;
+  assigneeName?: string;
+  assigneeEmail?: string;
+  parent?: string;
+  priority?: string;
+  pillar?: string;
+  pod?: string;
+  channel?: string;
+  threadTs?: string;
+  messageTs?: string;
+}
+
+// Task and Jira access, so the server doesn't depend on main's globals
+export interface LocalApiHandlers {
+  queryTasks(query: TaskQuery): Task[];
+  getTask(id: string): Task | null;
+  createTask(input: Partial<Task>): Task;
+  updateTask(id: string, updates: Partial<Task>): Task | null;
+  deleteTask(id: string, mode: 'cascade' | 'promote'): boolean;
+  getJiraFieldOptions(projectKey: string): Promise<object>;
+  createJiraIssue(request: JiraIssueRequest): Promise<{ jiraKey: string; jiraUrl: string }>;
+  getAllowedOrigins(): string[];
+  onClientPaired(client: LocalApiClient): void;
+}
+
+class ApiError extends Error {
+  constructor(public status: number, message: string, public details?: string[]) {
+    super(message);
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function getStoredClients(): StoredClient[] {
+  return store.get(CLIENTS_KEY, []) as StoredClient[];
+}
+
+export function getLocalApiClients(): LocalApiClient[] {
+  return getStoredClients().map(({ tokenHash: _tokenHash, ...client }) => client);
+}
+
+export function revokeLocalApiClient(id: string): boolean {
+  const clients = getStoredClients();
+  const kept = clients.filter(client => client.id !== id);
+  store.set(CLIENTS_KEY, kept);
+  return kept.length !== clients.length;
+}
+
+function validate<T>(schema: JsonSchema, body: unknown): T {
+  const errors = validateSchema(schema, body);
+  if (errors.length > 0) {
+    throw new ApiError(400, 'Invalid request body', errors);
+  }
+  return body as T;
+}
+
+function parseBooleanParam(params: URLSearchParams, name: string): boolean | undefined {
+  const value = params.get(name);
+  if (value === null) return undefined;
+  if (value !== 'true' && value !== 'false') {
+    throw new ApiError(400, `${name} must be true or false`);
+  }
+  return value === 'true';
+}
+
+// null in a request body clears a field
+function nullsToUndefined<T extends object>(body: T): Partial<Task> {
+  return Object.fromEntries(
+    Object.entries(body).map(([key, value]) => [key, value === null ? undefined : value])
+  ) as Partial<Task>;
+}
+
+/**
+ * Versioned HTTP API on localhost for the Chrome extension and other local
+ * tools. Clients pair once with a code shown in Settings and then send the
+ * token they receive as a Bearer token. Browser requests must also come from
+ * an allowed origin: the one recorded at pairing, or one added in Settings.
+ */
+export class LocalApiServer {
+  private server: http.Server | null = null;
+  private pairing: { code: string; expiresAt: number; attempts: number } | null = null;
+  private streams = new Map<string, Set<http.ServerResponse>>();
+
+  constructor(
+    private handlers: LocalApiHandlers,
+    private changeFeed: ChangeFeed,
+    private port: number = LOCAL_API_PORT
+  ) {}
+
+  start() {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('[Local API] Unhandled error:', error);
+        if (!res.headersSent) {
+          this.send(res, 500, { success: false, error: 'Server error' });
+        }
+      });
+    });
+
+    this.server.listen(this.port, 'localhost', () => {
+      console.log(`[Local API] Server running on http://localhost:${this.port}`);
+    });
+
+    this.server.on('error', (error: any) => {
+      if (error.code === 'EADDRINUSE') {
+        console.log(`[Local API] Port ${this.port} is already in use, extension sync may not work`);
+      } else {
+        console.error('[Local API] Server error:', error);
+      }
+    });
+  }
+
+  stop() {
+    for (const clientId of this.streams.keys()) {
+      this.disconnectClient(clientId);
+    }
+    this.server?.close();
+    this.server = null;
+  }
+
+  /**
+   * End a client's open event streams, e.g. after its access is revoked
+   */
+  disconnectClient(clientId: string) {
+    for (const res of this.streams.get(clientId) || []) {
+      res.end();
+    }
+    this.streams.delete(clientId);
+  }
+
+  /**
+   * Open a pairing window. The code is shown to the user, who enters it in
+   * the client; it works for one pairing within five minutes.
+   */
+  startPairing(): { code: string; expiresAt: string } {
+    const code = randomInt(0, 1_000_000).toString().padStart(6, '0');
+    const expiresAt = Date.now() + PAIRING_TTL_MS;
+    this.pairing = { code, expiresAt, attempts: 0 };
+    return { code, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  private isPairingActive(): boolean {
+    return this.pairing !== null && this.pairing.expiresAt > Date.now();
+  }
+
+  private getAllowedOrigins(): Set<string> {
+    const origins = new Set(this.handlers.getAllowedOrigins());
+    for (const client of getStoredClients()) {
+      if (client.origin) origins.add(client.origin);
+    }
+    return origins;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: object) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private readBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      let size = 0;
+
+      req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+          reject(new ApiError(413, 'Request body too large'));
+          req.destroy();
+          return;
+        }
+        body += chunk.toString();
+      });
+
+      req.on('end', () => {
+        try {
+          resolve(body ? JSON.parse(body) : {});
+        } catch {
+          reject(new ApiError(400, 'Request body must be JSON'));
+        }
+      });
+
+      req.on('error', reject);
+    });
+  }
+
+  private authenticate(req: http.IncomingMessage): StoredClient {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new ApiError(401, 'Missing API token. Pair this app in PM-OS Settings.');
+    }
+
+    const tokenHash = hashToken(match[1]);
+    const clients = getStoredClients();
+    const client = clients.find(c => c.tokenHash === tokenHash);
+    if (!client) {
+      throw new ApiError(401, 'Invalid API token. Pair this app again in PM-OS Settings.');
+    }
+
+    // Coarse last-used time, without a store write on every request
+    if (!client.lastUsedAt || Date.now() - new Date(client.lastUsedAt).getTime() > 60 * 1000) {
+      client.lastUsedAt = new Date().toISOString();
+      store.set(CLIENTS_KEY, clients);
+    }
+    return client;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', `http://localhost:${this.port}`);
+    const method = req.method || 'GET';
+
+    // Only answer requests addressed to localhost, so a rebound DNS name
+    // can't reach the API from a web page
+    const host = (req.headers.host || '').toLowerCase();
+    if (host !== `localhost:${this.port}` && host !== `127.0.0.1:${this.port}`) {
+      this.send(res, 403, { success: false, error: 'Forbidden host' });
+      return;
+    }
+
+    // Browser requests need an allowed origin. Pairing accepts any origin
+    // while the user has a pairing code open, since that's how a new
+    // client's origin gets allowed.
+    const origin = req.headers.origin;
+    if (origin) {
+      const isPairRequest = url.pathname === '/v1/pair' && this.isPairingActive();
+      if (!isPairRequest && !this.getAllowedOrigins().has(origin)) {
+        this.send(res, 403, { success: false, error: 'Origin not allowed' });
+        return;
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader('Vary', 'Origin');
+    }
+
+    if (method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    try {
+      const result = await this.route(method, url, req, res);
+      if (!result) return; // Streaming response, already handled
+      const { status, body, raw } = result;
+      this.send(res, status, raw ? body : { success: true, ...body });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        this.send(res, error.status, { success: false, error: error.message, details: error.details });
+      } else {
+        console.error(`[Local API] ${method} ${url.pathname} failed:`, error);
+        this.send(res, 500, { success: false, error: error instanceof Error ? error.message : 'Server error' });
+      }
+    }
+  }
+
+  private async route(
+    method: string,
+    url: URL,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<{ status: number; body: object; raw?: boolean } | null> {
+    const path = url.pathname.replace(/\/+$/, '') || '/';
+    const params = url.searchParams;
+
+    // Unauthenticated routes
+    if (method === 'GET' && path === '/ping') {
+      return { status: 200, body: { message: 'PM-OS is running', apiVersion: 'v1' } };
+    }
+    if (method === 'GET' && path === '/v1/openapi.json') {
+      return { status: 200, body: buildOpenApiDocument(this.port), raw: true };
+    }
+    if (method === 'POST' && path === '/v1/pair') {
+      return { status: 200, body: this.pair(await this.readBody(req), req.headers.origin) };
+    }
+
+    if (!path.startsWith('/v1/')) {
+      throw new ApiError(404, 'Not found. This API is versioned; see /v1/openapi.json');
+    }
+
+    const client = this.authenticate(req);
+
+    if (path === '/v1/tasks') {
+      if (method === 'GET') {
+        const parentId = params.get('parentId');
+        const tasks = this.handlers.queryTasks({
+          completed: parseBooleanParam(params, 'completed'),
+          tag: params.get('tag') || undefined,
+          source: params.get('source') || undefined,
+          dueBefore: params.get('dueBefore') || undefined,
+          dueAfter: params.get('dueAfter') || undefined,
+          parentId: parentId === 'null' ? null : parentId || undefined,
+        });
+        return { status: 200, body: { tasks, cursor: this.changeFeed.getCursor() } };
+      }
+      if (method === 'POST') {
+        const input = validate<object>(TASK_CREATE_SCHEMA, await this.readBody(req));
+        const task = this.handlers.createTask(nullsToUndefined(input));
+        console.log(`[Local API] Task added by ${client.name}:`, task.title);
+        return { status: 201, body: { task } };
+      }
+    }
+
+    if (method === 'GET' && path === '/v1/changes') {
+      const types = params.get('types')?.split(',').map(type => type.trim()) || CHANGE_TYPES;
+      const unknown = types.filter(type => !CHANGE_TYPES.includes(type as ChangeType));
+      if (unknown.length > 0) {
+        throw new ApiError(400, `Unknown change types: ${unknown.join(', ')}`);
+      }
+      const cursor = params.get('cursor') || (req.headers['last-event-id'] as string | undefined) || null;
+      this.streamChanges(req, res, client, cursor, new Set(types as ChangeType[]));
+      return null;
+    }
+
+    if (method === 'GET' && path === '/v1/tasks/search') {
+      const query = params.get('q') || '';
+      if (!query.trim()) {
+        throw new ApiError(400, 'q is required');
+      }
+      const limit = Math.min(Math.max(parseInt(params.get('limit') || '50', 10) || 50, 1), 200);
+      const candidates = this.handlers.queryTasks({ completed: parseBooleanParam(params, 'completed') });
+      const tasks = fuzzyFilter(candidates, query, task => [task.title, task.context].filter(Boolean).join(' '));
+      return { status: 200, body: { tasks: tasks.slice(0, limit) } };
+    }
+
+    const taskMatch = path.match(/^\/v1\/tasks\/([^/]+)$/);
+    if (taskMatch) {
+      const id = decodeURIComponent(taskMatch[1]);
+      if (method === 'GET') {
+        const task = this.handlers.getTask(id);
+        if (!task) throw new ApiError(404, 'Task not found');
+        return { status: 200, body: { task } };
+      }
+      if (method === 'PATCH') {
+        const updates = validate<object>(TASK_UPDATE_SCHEMA, await this.readBody(req));
+        const task = this.handlers.updateTask(id, nullsToUndefined(updates));
+        if (!task) throw new ApiError(404, 'Task not found');
+        return { status: 200, body: { task } };
+      }
+      if (method === 'DELETE') {
+        const mode = params.get('mode') || 'cascade';
+        if (mode !== 'cascade' && mode !== 'promote') {
+          throw new ApiError(400, 'mode must be cascade or promote');
+        }
+        if (!this.handlers.deleteTask(id, mode)) throw new ApiError(404, 'Task not found');
+        return { status: 200, body: {} };
+      }
+    }
+
+    if (method === 'GET' && path === '/v1/tags') {
+      const tags = new Map<string, { label: string; color: string; openTasks: number }>();
+      for (const task of this.handlers.queryTasks({})) {
+        for (const tag of task.tags || []) {
+          const key = tag.label.toLowerCase();
+          const entry = tags.get(key) || { label: tag.label, color: tag.color, openTasks: 0 };
+          if (!task.completed) entry.openTasks++;
+          tags.set(key, entry);
+        }
+      }
+      return { status: 200, body: { tags: [...tags.values()].sort((a, b) => a.label.localeCompare(b.label)) } };
+    }
+
+    if (method === 'GET' && path === '/v1/jira/field-options') {
+      const options = await this.handlers.getJiraFieldOptions(params.get('projectKey') || 'AMP');
+      return { status: 200, body: options };
+    }
+
+    if (method === 'POST' && path === '/v1/jira/issues') {
+      const request = validate<JiraIssueRequest>(JIRA_ISSUE_SCHEMA, await this.readBody(req));
+      const issue = await this.handlers.createJiraIssue(request);
+      return { status: 201, body: issue };
+    }
+
+    throw new ApiError(404, 'Not found');
+  }
+
+  /**
+   * Server-sent events: first a `ready` event with the current cursor (or
+   * `reset` if the given cursor can't be resumed), then any changes since the
+   * cursor, then changes as they happen.
+   */
+  private streamChanges(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    client: StoredClient,
+    cursor: string | null,
+    types: Set<ChangeType>
+  ) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+
+    const writeEvent = (name: string, data: object, id?: string) => {
+      res.write(`${id ? `id: ${id}\n` : ''}event: ${name}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+    const writeChange = (event: ChangeEvent) => {
+      if (types.has(event.type)) writeEvent('change', event, event.cursor);
+    };
+
+    // Subscribing before replaying can't miss anything: both happen in this tick
+    const unsubscribe = this.changeFeed.subscribe(writeChange);
+    const { events, reset } = this.changeFeed.getEventsSince(cursor);
+    writeEvent(reset ? 'reset' : 'ready', { cursor: this.changeFeed.getCursor() });
+    events.forEach(writeChange);
+
+    const heartbeat = setInterval(() => res.write(': keepalive\n\n'), STREAM_HEARTBEAT_MS);
+    const clientStreams = this.streams.get(client.id) || new Set();
+    clientStreams.add(res);
+    this.streams.set(client.id, clientStreams);
+
+    req.on('close', () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      clientStreams.delete(res);
+    });
+  }
+
+  private pair(body: unknown, origin?: string) {
+    if (!this.pairing || !this.isPairingActive()) {
+      throw new ApiError(400, 'No pairing in progress. Click "Pair new app" in PM-OS Settings first.');
+    }
+    const { code, name } = validate<{ code: string; name: string }>(PAIR_REQUEST_SCHEMA, body);
+
+    if (code !== this.pairing.code) {
+      this.pairing.attempts++;
+      if (this.pairing.attempts >= MAX_PAIRING_ATTEMPTS) {
+        this.pairing = null;
+        throw new ApiError(429, 'Too many wrong codes. Start pairing again in PM-OS Settings.');
+      }
+      throw new ApiError(400, 'Wrong pairing code');
+    }
+    this.pairing = null;
+
+    const token = randomBytes(32).toString('base64url');
+    const client: StoredClient = {
+      id: randomUUID(),
+      name,
+      origin,
+      createdAt: new Date().toISOString(),
+      tokenHash: hashToken(token),
+    };
+    store.set(CLIENTS_KEY, [...getStoredClients(), client]);
+    console.log(`[Local API] Paired ${name}${origin ? ` (${origin})` : ''}`);
+
+    const { tokenHash: _tokenHash, ...publicClient } = client;
+    this.handlers.onClientPaired(publicClient);
+    return { token, clientId: client.id };
+  }
+}
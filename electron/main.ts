@@ -1,22 +1,53 @@
-import { app, BrowserWindow, globalShortcut, screen, ipcMain, shell } from 'electron';
+// Must stay first: sets the data directory before any module creates a store
+import './app-paths';
+import { app, BrowserWindow, globalShortcut, screen, ipcMain, shell, Notification, powerMonitor } from 'electron';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { createRequire } from 'module';
 import Store from 'electron-store';
 import { randomUUID } from 'crypto';
+import { format } from 'date-fns';
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as http from 'http';
 import { spawn } from 'child_process';
-import type { WindowPosition, Task } from '../src/types/task';
+import type { WindowPosition, Task, TaskActor, JiraSyncField } from '../src/types/task';
 import { IntegrationManager } from './integration-manager';
 import { JiraService } from '../src/services/jira';
 import { ConfluenceService } from '../src/services/confluence';
 import { SlackEventsServer } from './slack-events';
-import { SlackDigestService } from './slack-digest-service';
+import { SlackDigestService, getDigestHistory, clearDigestHistory, markDigestTaskCreated } from './slack-digest-service';
 import { MCPManager } from './mcp-manager';
-import OpenAI from 'openai';
+import { TaskConflictError, TaskStore } from './task-store';
+import { JiraTaskSync, type JiraSyncSettings } from './jira-task-sync';
+import { getLearnedWeights, recordFeedback, type SuggestionFeedback, type SuggestionOutcome } from '../src/services/suggestion-learning';
+import { JiraTaskImporter, DEFAULT_JIRA_IMPORT_JQL, type JiraImportSettings } from './jira-task-import';
+import { LLMRouter } from './llm-router';
+import { MeetingPrepService, getMeetingBriefs, type PrepEvent } from './meeting-prep';
+import { normalizeMeetingPrepSettings, type MeetingPrepSettings } from '../src/services/meeting-brief';
+import { getMeetingNotes, saveMeetingNotes, dismissMeetingNotes } from './meeting-notes';
+import { FocusTimeService } from './focus-time';
+import { LocalApiServer, getLocalApiClients, revokeLocalApiClient } from './local-api';
+import { ChangeFeed, publishListChanges } from './change-feed';
+import { findAvailableSlots, normalizeSchedulingSettings, type SchedulingSettings } from '../src/services/availability';
+import {
+  buildMeetingNoteMarkdown,
+  getMeetingNoteTitle,
+  parseMeetingExtraction,
+  type ApplyMeetingNotesRequest,
+  type CreatedJiraIssue,
+  type CreatedMeetingNote,
+  type MeetingNotesEvent,
+  type MeetingNotesRecord,
+} from '../src/services/meeting-notes';
+import { addSnoozedEmail, getDueSnoozedEmails, markSnoozedEmailWoken, removeSnoozedEmail, type SnoozedEmail } from './email-snooze';
+import { normalizeLLMSettings, type LLMCompletionRequest, type LLMTask } from '../src/services/llm-config';
+import { saveTaskEdit, stampCompletion } from './task-completion';
+import { getDescendantIds, wouldCreateCycle } from '../src/utils/subtasks';
+import { isBlocked, wouldCreateDependencyCycle } from '../src/utils/dependencies';
+import { JIRA_SYNC_FIELDS } from '../src/utils/jiraSync';
+import { DATA_DIR_ENV, findClaudeBinary, getClaudeCommand, getDataDir, getLogPath, getTaskDbPath } from '../src/utils/paths';
 import { File as NodeFile } from 'node:buffer';
 
 // Polyfill File API for OpenAI SDK
@@ -29,7 +60,7 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 // Set up file logging with safe error handling
-const logFile = '/tmp/pm-os-mcp-debug.log';
+const logFile = getLogPath('main.log');
 const logStream = fs.createWriteStream(logFile, { flags: 'a' });
 const originalConsoleLog = console.log;
 const originalConsoleError = console.error;
@@ -115,6 +146,50 @@ const OAUTH_BASE_URL = normalizeOAuthBaseUrl(
 console.log('OAUTH_BASE_URL:', OAUTH_BASE_URL);
 
 const store = new Store();
+
+// Tasks live in SQLite next to config.json so the MCP server can find them
+const taskStore = new TaskStore(getTaskDbPath());
+
+// One-time move of tasks out of the electron-store array. The import merges by id
+// into whatever is already in the table, so once it returns every legacy task is there.
+const legacyTasks = store.get('tasks') as Task[] | undefined;
+if (legacyTasks) {
+  const imported = taskStore.importLegacyTasks(legacyTasks);
+  console.log(`[TaskStore] Imported ${imported} task(s) from config.json`);
+  store.delete('tasks');
+}
+
+// Sequence-numbered change log streamed to local API clients
+const changeFeed = new ChangeFeed();
+
+// Task changes reach the feed from the task event log, so writes from the MCP
+// server and other processes are included along with our own
+let lastTaskEventSeq = taskStore.getLatestEventSeq();
+function publishTaskChanges() {
+  try {
+    let events = taskStore.getEventsSince(lastTaskEventSeq);
+    while (events.length > 0) {
+      for (const event of events) {
+        changeFeed.publish({
+          type: 'task',
+          action: event.action,
+          id: event.taskId,
+          data: event.after ?? undefined,
+          actor: event.actor,
+        });
+      }
+      lastTaskEventSeq = events[events.length - 1].seq;
+      events = taskStore.getEventsSince(lastTaskEventSeq);
+    }
+  } catch (error) {
+    console.error('[ChangeFeed] Failed to read task events:', error);
+  }
+}
+taskStore.onCommit(publishTaskChanges);
+
+// Every LLM call goes through the router so each workload uses its configured provider/model
+const llmRouter = new LLMRouter(() => normalizeLLMSettings((store.get('userSettings', {}) as any).llm));
+
 let mainWindow: BrowserWindow | null = null;
 const WINDOW_WIDTH = 400;
 const WINDOW_HEIGHT = 600;
@@ -304,6 +379,7 @@ function getJiraApiTokenCredentials() {
 }
 
 let jiraService: JiraService | null = null;
+const JIRA_BLOCKER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
 let confluenceService: ConfluenceService | null = null;
 
 function getJiraOAuthCredentials() {
@@ -752,6 +828,10 @@ async function handleProtocolUrl(url: string) {
   try {
     console.log('[Protocol] Step 1: Parsing callback URL...');
     const urlObj = new URL(url);
+    if (urlObj.hostname === 'digest') {
+      await handleDigestProtocolUrl(urlObj);
+      return;
+    }
     const provider = urlObj.searchParams.get('provider');
     const sessionId = urlObj.searchParams.get('sessionId');
 
@@ -808,7 +888,7 @@ async function handleProtocolUrl(url: string) {
 
       console.log('[Protocol] Saving to store: google_expires_at');
       store.set('google_expires_at', tokenData.expiresAt);
-      store.set('google_oauth_scope_version', 4); // v4: Added Google Workspace directory scope
+      store.set('google_oauth_scope_version', 6); // v6: Added gmail.modify for email actions
 
       console.log('[Protocol] ✓ Google tokens saved successfully');
 
@@ -1224,38 +1304,15 @@ async function startClaudeCodeSession(folderPath: string): Promise<{ success: bo
     // Get user settings for Claude CLI path
     const userSettings = store.get('userSettings', {}) as any;
 
-    // Detect Claude CLI path
-    let claudePath = '/Users/tommykeeley/.local/bin/claude';
-    const possiblePaths = [
-      path.join(os.homedir(), '.local', 'bin', 'claude'),
-      '/usr/local/bin/claude',
-      '/opt/homebrew/bin/claude',
-    ];
-
-    if (userSettings.claudeCodePath) {
-      possiblePaths.unshift(userSettings.claudeCodePath);
-    }
-
-    let foundClaude = false;
-    for (const checkPath of possiblePaths) {
-      try {
-        if (fs.existsSync(checkPath)) {
-          claudePath = checkPath;
-          foundClaude = true;
-          console.log('[Claude Code] Found Claude CLI at:', claudePath);
-          break;
-        }
-      } catch (e) {
-        // Continue checking
-      }
-    }
+    const claudePath = findClaudeBinary(userSettings.claudeCodePath);
 
-    if (!foundClaude) {
+    if (!claudePath) {
       return {
         success: false,
         error: 'Claude Code CLI not found. Please install it from https://docs.anthropic.com/en/docs/agents/claude-code'
       };
     }
+    console.log('[Claude Code] Found Claude CLI at:', claudePath);
 
     // Stop existing process if any
     if (claudeProcess) {
@@ -1547,228 +1604,108 @@ function getClaudeCodeHistory() {
   return [];
 }
 
-// Start local HTTP server for Chrome extension sync
-function startExtensionSyncServer() {
-  const PORT = 54321;
-
-  const server = http.createServer((req, res) => {
-    // Set CORS headers to allow requests from Chrome extension
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-    // Handle preflight
-    if (req.method === 'OPTIONS') {
-      res.writeHead(200);
-      res.end();
-      return;
-    }
-
-    // Handle POST /tasks - Add task from extension
-    if (req.method === 'POST' && req.url === '/tasks') {
-      let body = '';
-
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
-
-      req.on('end', async () => {
-        try {
-          const task = JSON.parse(body);
-
-          // Get existing tasks
-          const tasks = store.get('tasks', []) as Task[];
-
-          // Add new task
-          const newTask = {
-            ...task,
-            id: task.id || randomUUID(),
-          };
-
-          tasks.unshift(newTask);
-          store.set('tasks', tasks);
+// Local HTTP API for the Chrome extension and other local tools
+const localApiServer = new LocalApiServer({
+  queryTasks: (query) => taskStore.query(query),
+  getTask: (id) => taskStore.get(id) || null,
+  createTask: (input) => {
+    const task = createTask(input, 'extension');
+    mainWindow?.webContents.send('task-created', task);
+    return task;
+  },
+  updateTask: (id, updates) => {
+    const result = updateTask(id, updates, 'extension');
+    if (result) notifyTasksChanged();
+    return result ? result.updated : null;
+  },
+  deleteTask: (id, mode) => {
+    const deleted = deleteTask(id, mode, 'extension');
+    if (deleted) notifyTasksChanged();
+    return deleted;
+  },
+  getJiraFieldOptions: async (projectKey) => {
+    const readyJiraService = await getReadyJiraService();
+    return readyJiraService.getPillarAndPodOptions(projectKey);
+  },
+  createJiraIssue: async (request) => {
+    console.log('[Local API] Creating Jira ticket:', request.title);
+    const userSettings = store.get('userSettings', {}) as any;
+    const readyJiraService = await getReadyJiraService();
 
-          console.log('[Extension Sync] Task added from Chrome extension:', newTask.title);
+    const issue = await readyJiraService.createIssue({
+      summary: request.title,
+      description: request.description,
+      projectKey: userSettings.jiraDefaultProject || 'AMP',
+      issueType: userSettings.jiraDefaultIssueType || 'Task',
+      assigneeName: request.assigneeName,
+      assigneeEmail: request.assigneeEmail,
+      parent: request.parent,
+      priority: request.priority,
+      pillar: request.pillar,
+      pod: request.pod,
+    });
 
-          // Notify renderer if window exists
-          if (mainWindow) {
-            mainWindow.webContents.send('task-added', newTask);
-          }
+    const jiraUrl = readyJiraService.getIssueUrl(issue.key);
+    console.log('[Local API] Jira ticket created:', issue.key);
 
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: true, task: newTask }));
-        } catch (error) {
-          console.error('[Extension Sync] Error adding task:', error);
-          res.writeHead(400, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: false, error: 'Invalid request' }));
-        }
+    // Confirm in the Slack thread the request came from
+    const botToken = store.get('slack_bot_token') as string;
+    if (botToken && request.channel) {
+      const confirmMessage = `🎫 Jira ticket created: <${jiraUrl}|${issue.key}>`;
+
+      await fetch('https://slack.com/api/chat.postMessage', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${botToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          channel: request.channel,
+          thread_ts: request.threadTs,
+          text: confirmMessage,
+        }),
       });
 
-      return;
-    }
+      if (request.messageTs) {
+        // Update emoji reaction from eyes to checkmark
+        await fetch('https://slack.com/api/reactions.remove', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${botToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            channel: request.channel,
+            timestamp: request.messageTs,
+            name: 'eyes',
+          }),
+        });
 
-    // Handle GET /tasks - Get all tasks for extension
-    if (req.method === 'GET' && req.url === '/tasks') {
-      try {
-        const tasks = store.get('tasks', []) as Task[];
-        res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: true, tasks }));
-      } catch (error) {
-        console.error('[Extension Sync] Error getting tasks:', error);
-        res.writeHead(500, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: false, error: 'Server error' }));
+        await fetch('https://slack.com/api/reactions.add', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${botToken}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            channel: request.channel,
+            timestamp: request.messageTs,
+            name: 'white_check_mark',
+          }),
+        });
       }
-      return;
     }
 
-    // Handle GET /ping - Health check
-    if (req.method === 'GET' && req.url === '/ping') {
-      res.writeHead(200, { 'Content-Type': 'application/json' });
-      res.end(JSON.stringify({ success: true, message: 'PM-OS is running' }));
-      return;
-    }
-
-    // Handle POST /jira-field-options - Get Pillar and Pod options from Jira
-    if (req.method === 'POST' && req.url === '/jira-field-options') {
-      let body = '';
-
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
-
-      req.on('end', async () => {
-        try {
-          const { projectKey } = JSON.parse(body);
-          const readyJiraService = await getReadyJiraService();
-          const options = await readyJiraService.getPillarAndPodOptions(projectKey || 'AMP');
-
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: true, ...options }));
-        } catch (error) {
-          console.error('[Extension Sync] Error getting Jira field options:', error);
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: false, error: 'Server error' }));
-        }
-      });
-
-      return;
-    }
-
-    // Handle POST /jira-create-direct - Create Jira ticket directly from modal submission
-    if (req.method === 'POST' && req.url === '/jira-create-direct') {
-      let body = '';
-
-      req.on('data', chunk => {
-        body += chunk.toString();
-      });
-
-      req.on('end', async () => {
-        try {
-          const taskData = JSON.parse(body);
-          console.log('[Jira Create Direct] Received Jira creation request:', taskData.title);
-
-          const userSettings = store.get('userSettings', {}) as any;
-          const readyJiraService = await getReadyJiraService();
-
-          // Create the Jira ticket
-          const issue = await readyJiraService.createIssue({
-            summary: taskData.title,
-            description: taskData.description,
-            projectKey: userSettings.jiraDefaultProject || 'AMP',
-            issueType: userSettings.jiraDefaultIssueType || 'Task',
-            assigneeName: taskData.assigneeName,
-            assigneeEmail: taskData.assigneeEmail,
-            parent: taskData.parent,
-            priority: taskData.priority,
-            pillar: taskData.pillar,
-            pod: taskData.pod,
-          });
-
-          const jiraUrl = readyJiraService.getIssueUrl(issue.key);
-          console.log('[Jira Create Direct] Jira ticket created:', issue.key);
-
-          // Send confirmation reply in Slack
-          const botToken = store.get('slack_bot_token') as string;
-          if (botToken) {
-            const confirmMessage = `🎫 Jira ticket created: <${jiraUrl}|${issue.key}>`;
-
-            await fetch('https://slack.com/api/chat.postMessage', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${botToken}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                channel: taskData.channel,
-                thread_ts: taskData.threadTs,
-                text: confirmMessage,
-              }),
-            });
-
-            // Update emoji reaction from eyes to checkmark
-            await fetch('https://slack.com/api/reactions.remove', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${botToken}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                channel: taskData.channel,
-                timestamp: taskData.messageTs,
-                name: 'eyes',
-              }),
-            });
-
-            await fetch('https://slack.com/api/reactions.add', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${botToken}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                channel: taskData.channel,
-                timestamp: taskData.messageTs,
-                name: 'white_check_mark',
-              }),
-            });
-          }
-
-          res.writeHead(200, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({
-            success: true,
-            jiraKey: issue.key,
-            jiraUrl,
-          }));
-        } catch (error) {
-          console.error('[Jira Create Direct] Error creating Jira ticket:', error);
-          res.writeHead(500, { 'Content-Type': 'application/json' });
-          res.end(JSON.stringify({ success: false, error: 'Failed to create Jira ticket' }));
-        }
-      });
-
-      return;
-    }
-
-    // 404 for other routes
-    res.writeHead(404, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ success: false, error: 'Not found' }));
-  });
-
-  server.listen(PORT, 'localhost', () => {
-    console.log(`[Extension Sync] Server running on http://localhost:${PORT}`);
-  });
-
-  // Handle server errors
-  server.on('error', (error: any) => {
-    if (error.code === 'EADDRINUSE') {
-      console.log(`[Extension Sync] Port ${PORT} is already in use, extension sync may not work`);
-    } else {
-      console.error('[Extension Sync] Server error:', error);
-    }
-  });
-
-  return server;
-}
+    return { jiraKey: issue.key, jiraUrl };
+  },
+  getAllowedOrigins: () => {
+    const userSettings = store.get('userSettings', {}) as any;
+    return Array.isArray(userSettings.localApiAllowedOrigins) ? userSettings.localApiAllowedOrigins : [];
+  },
+  onClientPaired: (client) => {
+    mainWindow?.webContents.send('local-api-client-paired', client);
+  },
+}, changeFeed);
 
 // Register custom protocol for MCP OAuth redirects
 if (process.defaultApp) {
@@ -1816,8 +1753,8 @@ app.whenReady().then(async () => {
   await integrationManager.initialize();
   console.log('[Main] integrationManager initialization complete');
 
-  // Start extension sync server
-  startExtensionSyncServer();
+  // Start local API for the Chrome extension
+  localApiServer.start();
 
   // Start OAuth callback server for MCP authentication
   try {
@@ -1827,56 +1764,47 @@ app.whenReady().then(async () => {
     console.error('[Main] Failed to start OAuth callback server:', error);
   }
 
-  // Watch for config file changes (for MCP-created tasks)
-  const configPath = store.path;
-  console.log('[Main] Watching config file:', configPath);
-
-  let lastTaskCount = ((store.get('tasks') as any[]) || []).length;
-  console.log('[Main] Initial task count:', lastTaskCount);
+  // Watch for task writes from other processes (MCP server). data_version only
+  // moves when another connection commits, so our own writes don't trigger this.
+  let lastDataVersion = taskStore.getDataVersion();
+  let knownTaskIds = new Set(taskStore.getAll().map(t => t.id));
+  console.log('[Main] Initial task count:', knownTaskIds.size);
+  importPendingDocs();
 
-  fs.watch(configPath, { persistent: false }, async (eventType) => {
+  setInterval(() => {
     try {
-      console.log('[Main] Config file changed, event:', eventType);
-
-      // Small delay to ensure file write is complete
-      await new Promise(resolve => setTimeout(resolve, 200));
-
-      // Read file directly instead of using store.get() to avoid cache
-      const fileContent = fs.readFileSync(configPath, 'utf-8');
-      const data = JSON.parse(fileContent);
-      const tasks = (data.tasks as any[]) || [];
+      const dataVersion = taskStore.getDataVersion();
+      if (dataVersion === lastDataVersion) return;
+      lastDataVersion = dataVersion;
+      publishTaskChanges();
+      syncExternalEditsToJira();
+      importPendingDocs();
 
-      console.log('[Main] Current task count:', tasks.length, 'Previous:', lastTaskCount);
+      const tasks = taskStore.getAll();
+      const newTasks = tasks.filter(t => !knownTaskIds.has(t.id));
+      knownTaskIds = new Set(tasks.map(t => t.id));
 
-      if (tasks.length > lastTaskCount) {
-        // New task(s) added
-        const newTasks = tasks.slice(lastTaskCount);
-        lastTaskCount = tasks.length;
+      if (!mainWindow || !mainWindow.webContents) return;
 
+      if (newTasks.length > 0) {
         console.log('[Main] New tasks detected:', newTasks.length);
-
-        // Notify renderer about new tasks
-        newTasks.forEach(task => {
-          if (mainWindow && mainWindow.webContents) {
-            console.log('[Main] Sending task-created event for:', task.title);
-            mainWindow.webContents.send('task-created', task);
-          }
-        });
-      } else {
-        lastTaskCount = tasks.length;
       }
+      newTasks.forEach(task => {
+        console.log('[Main] Sending task-created event for:', task.title);
+        mainWindow!.webContents.send('task-created', task);
+      });
+      mainWindow.webContents.send('tasks-updated', tasks);
     } catch (error) {
-      console.error('[Main] Error processing config change:', error);
+      console.error('[Main] Error checking task database for changes:', error);
     }
-  });
+  }, 1000);
 
-  console.log('[Main] Config file watcher started');
+  console.log('[Main] Task database watcher started');
 
   // Start Slack events server
   const slackEventsServer = new SlackEventsServer();
   slackEventsServer.setTaskCreateHandler(async (taskData) => {
     try {
-      const tasks = store.get('tasks', []) as Task[];
       const now = new Date().toISOString();
       const newTask: Task = {
         id: randomUUID(),
@@ -1892,8 +1820,7 @@ app.whenReady().then(async () => {
         updatedAt: now,
       };
 
-      tasks.push(newTask);
-      store.set('tasks', tasks);
+      taskStore.transaction(() => taskStore.insert(newTask, 'last'), 'slack');
 
       console.log('[Main] Task created from Slack mention:', newTask.title);
       if (taskData.description) {
@@ -1911,7 +1838,7 @@ app.whenReady().then(async () => {
 
   // Set Jira ticket creation handler
   slackEventsServer.setJiraCreateHandler(async (request) => {
-    const logFile = path.join(os.homedir(), 'pm-os-jira-debug.log');
+    const logFile = getLogPath('jira-debug.log');
     const log = (msg: string) => {
       const timestamp = new Date().toISOString();
       fs.appendFileSync(logFile, `[${timestamp}] ${msg}\n`);
@@ -1993,14 +1920,12 @@ app.whenReady().then(async () => {
     // Get user settings first for custom prompt
     const userSettings = store.get('userSettings', {}) as any;
 
-    // Use OpenAI to create clean, simple content from context
+    // Use the LLM to create clean, simple content from context
     let pageBody = request.body;
-    const openaiApiKey = process.env.OPENAI_API_KEY;
 
-    if (openaiApiKey) {
+    if (llmRouter.isAvailable('doc-formatting')) {
       try {
-        const openai = new OpenAI({ apiKey: openaiApiKey });
-        console.log('[Main] Using OpenAI to format Confluence content');
+        console.log('[Main] Using LLM to format Confluence content');
 
         // Use custom prompt from settings or default
         const defaultPrompt = 'You are creating a simple Confluence page. Your ONLY job is to capture what was actually discussed in the conversation - nothing more. DO NOT add sections like "Overview", "Purpose", "Action Items", or any structure that was not explicitly discussed. DO NOT invent objectives, goals, or requirements. Just write down what was actually said in simple, clear paragraphs. If very little was discussed, write very little. Be literal and concise.';
@@ -2008,8 +1933,7 @@ app.whenReady().then(async () => {
 
         console.log('[Main] Using', userSettings.confluenceSystemPrompt ? 'custom' : 'default', 'system prompt');
 
-        const completion = await openai.chat.completions.create({
-          model: 'gpt-4o',
+        const completion = await llmRouter.complete('doc-formatting', {
           messages: [
             {
               role: 'system',
@@ -2021,17 +1945,17 @@ app.whenReady().then(async () => {
             },
           ],
           temperature: 0.3,
-          max_tokens: 2000,
+          maxTokens: 2000,
         });
 
-        pageBody = completion.choices[0].message.content || request.body;
-        console.log('[Main] OpenAI formatted content successfully');
+        pageBody = completion.content || request.body;
+        console.log('[Main] LLM formatted content successfully');
       } catch (error) {
-        console.error('[Main] OpenAI formatting failed, using raw context:', error);
-        // Fall back to raw context if OpenAI fails
+        console.error('[Main] LLM formatting failed, using raw context:', error);
+        // Fall back to raw context if the LLM fails
       }
     } else {
-      console.log('[Main] No OpenAI key, using raw context');
+      console.log('[Main] No AI provider for doc formatting, using raw context');
     }
     const spaceKey = request.spaceKey || userSettings.confluenceDefaultSpace || 'PA1';
     const parentId = request.parentId || userSettings.confluenceDefaultParentId;
@@ -2064,16 +1988,35 @@ app.whenReady().then(async () => {
   });
 
   // Start Slack Digest Service (Smart Inbox)
-  const openaiApiKey = process.env.OPENAI_API_KEY;
-  const slackToken = store.get('slack_access_token') as string | undefined;
+  startSlackDigest();
+
+  // Send digests that came due while the machine was asleep
+  powerMonitor.on('resume', () => {
+    slackDigestService?.checkSchedule();
+    wakeSnoozedEmails();
+    meetingPrepService.checkUpcoming();
+    focusTimeService.blockFocusTime().catch(() => {});
+  });
 
-  if (openaiApiKey && slackToken) {
-    const digestService = new SlackDigestService(openaiApiKey, slackToken);
-    digestService.start();
-    console.log('[Main] Slack Digest Service started');
-  } else {
-    console.log('[Main] Slack Digest Service not started - missing OpenAI key or Slack token');
-  }
+  // Bring snoozed emails back when they're due
+  wakeSnoozedEmails();
+  setInterval(wakeSnoozedEmails, EMAIL_SNOOZE_CHECK_INTERVAL_MS);
+
+  // Poll Jira issues that block tasks
+  checkJiraBlockers();
+  setInterval(checkJiraBlockers, JIRA_BLOCKER_CHECK_INTERVAL_MS);
+
+  // Two-way sync for tasks linked to Jira issues
+  jiraTaskSync.start();
+
+  // Import assigned Jira issues as tasks
+  jiraTaskImporter.start();
+
+  // Prep briefs shortly before each meeting
+  meetingPrepService.start();
+
+  // Block focus time for urgent high-priority tasks
+  focusTimeService.start();
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
@@ -2188,7 +2131,6 @@ ipcMain.handle('get-settings', () => {
     syncInterval: store.get('syncInterval', 5),
     windowPosition: store.get('windowPosition'),
     hideOnBlur: store.get('hideOnBlur', false),
-    openaiApiKey: process.env.OPENAI_API_KEY,
   };
 });
 
@@ -2202,6 +2144,11 @@ ipcMain.handle('update-settings', (_event, settings: any) => {
     globalShortcut.unregisterAll();
     registerHotkey();
   }
+
+  // Jira import runs on the sync interval
+  if (settings.syncInterval !== undefined) {
+    jiraTaskImporter.start();
+  }
 });
 
 // User Settings IPC Handlers
@@ -2216,8 +2163,40 @@ ipcMain.handle('get-user-settings', () => {
 });
 
 ipcMain.handle('save-user-settings', (_event, settings: any) => {
+  const previousJiraSyncSettings = JSON.stringify(getJiraSyncSettings());
+  const previousJiraImportSettings = JSON.stringify(getJiraImportSettings());
+  const previousSuggestionScoring = JSON.stringify((store.get('userSettings', {}) as any).suggestionScoring);
+  const previousFollowUps = JSON.stringify((store.get('userSettings', {}) as any).followUps);
+  const previousSlackDigestSettings = getSlackDigestSettingsKey();
+  const previousMeetingPrepSettings = JSON.stringify(getMeetingPrepSettings());
+  const previousSchedulingSettings = JSON.stringify([getSchedulingSettings(), getPrimaryTimezone()]);
   store.set('userSettings', settings);
 
+  // Settings autosave on every keystroke, so only restart Jira sync/import when their settings changed
+  if (JSON.stringify(getJiraSyncSettings()) !== previousJiraSyncSettings) {
+    jiraTaskSync.start();
+  }
+  if (JSON.stringify(getJiraImportSettings()) !== previousJiraImportSettings) {
+    jiraTaskImporter.start();
+  }
+  if (getSlackDigestSettingsKey() !== previousSlackDigestSettings) {
+    startSlackDigest();
+  }
+  if (JSON.stringify(getMeetingPrepSettings()) !== previousMeetingPrepSettings) {
+    meetingPrepService.start();
+  }
+  if (JSON.stringify([getSchedulingSettings(), getPrimaryTimezone()]) !== previousSchedulingSettings) {
+    focusTimeService.start();
+  }
+
+  // Re-score suggestions on the next fetch when the scoring or follow-up rules change
+  if (
+    JSON.stringify(settings.suggestionScoring) !== previousSuggestionScoring ||
+    JSON.stringify(settings.followUps) !== previousFollowUps
+  ) {
+    store.set('smart_suggestions_last_fetch', 0);
+  }
+
   // If Slack bot token changed, save it separately for SlackEvents
   if (settings.slackBotToken) {
     store.set('slack_bot_token', settings.slackBotToken);
@@ -2252,25 +2231,200 @@ ipcMain.handle('save-user-settings', (_event, settings: any) => {
   }
 });
 
+// Slack Digest (Smart Inbox)
+let slackDigestService: SlackDigestService | null = null;
+
+function getSlackDigestSettingsKey(): string {
+  const userSettings = store.get('userSettings', {}) as any;
+  return JSON.stringify([
+    userSettings.slackDailyDigestEnabled,
+    userSettings.slackDigestSchedule,
+    userSettings.slackDigestDelivery,
+    userSettings.primaryTimezone,
+    userSettings.email,
+  ]);
+}
+
+// Out-of-office blocks, plus all-day events that are clearly days off
+const OUT_OF_OFFICE_TITLE = /\b(ooo|out of (the )?office|pto|vacation|holiday|day off)\b/i;
+
+async function isOutOfOfficeAt(at: Date): Promise<boolean> {
+  if (!integrationManager.isGoogleConnected()) return false;
+  const events = await integrationManager.syncCalendar(at.toISOString());
+  return events.some((event: any) => {
+    const isAllDay = !event.start.includes('T');
+    if (event.eventType !== 'outOfOffice' && !(isAllDay && OUT_OF_OFFICE_TITLE.test(event.title))) {
+      return false;
+    }
+    // All-day events come back as dates in the calendar's timezone; getEventsForDate already scoped them to this day
+    return isAllDay || (new Date(event.start) <= at && at < new Date(event.end));
+  });
+}
+
+function startSlackDigest() {
+  slackDigestService?.stop();
+  slackDigestService = null;
+
+  const slackToken = store.get('slack_access_token') as string | undefined;
+  if (llmRouter.isAvailable('digest-triage') && slackToken) {
+    slackDigestService = new SlackDigestService(llmRouter, slackToken, isOutOfOfficeAt, {
+      linkBaseUrl: OAUTH_BASE_URL,
+      send: email => integrationManager.sendEmail(email),
+    });
+    slackDigestService.start();
+    console.log('[Main] Slack Digest Service started');
+  } else {
+    console.log('[Main] Slack Digest Service not started - missing AI provider or Slack token');
+  }
+}
+
+ipcMain.handle('get-digest-history', () => {
+  return getDigestHistory();
+});
+
+ipcMain.handle('clear-digest-history', () => {
+  clearDigestHistory();
+  return { success: true };
+});
+
+function createTaskFromDigestItem(entryId: string, itemId: string): { success: boolean; error?: string; task?: Task } {
+  try {
+    const entry = getDigestHistory().find(e => e.id === entryId);
+    const item = entry?.items.find(i => i.id === itemId);
+    if (!item) {
+      return { success: false, error: 'Digest item not found' };
+    }
+    if (item.taskId && taskStore.get(item.taskId)) {
+      return { success: false, error: 'A task was already created from this item' };
+    }
+
+    const now = new Date().toISOString();
+    const newTask: Task = {
+      id: randomUUID(),
+      title: item.suggestedAction || item.summary,
+      completed: false,
+      source: 'slack',
+      sourceId: `${item.channel}_${item.messageId}`,
+      priority: item.priority >= 80 ? 'high' : 'medium',
+      context: `From Slack: ${item.userName} in #${item.channelName}`,
+      description: item.summary,
+      linkedItems: item.permalink ? [{
+        id: `slack_${item.channel}_${item.messageId}`,
+        type: 'slack',
+        title: `Slack message from ${item.userName}`,
+        url: item.permalink,
+      }] : [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    taskStore.transaction(() => taskStore.insert(newTask, 'last'), 'ui');
+    markDigestTaskCreated(item.messageId, newTask.id);
+    recordUndoableChange();
+    mainWindow?.webContents.send('task-created', newTask);
+
+    return { success: true, task: newTask };
+  } catch (error: any) {
+    console.error('[Digest] Failed to create task from digest item:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+ipcMain.handle('create-task-from-digest-item', (_event, entryId: string, itemId: string) => {
+  return createTaskFromDigestItem(entryId, itemId);
+});
+
+// "Create task" links in digest emails arrive as pmos://digest/create-task?entry=...&item=...
+async function handleDigestProtocolUrl(urlObj: URL) {
+  await app.whenReady();
+  const entryId = urlObj.searchParams.get('entry') || '';
+  const itemId = urlObj.searchParams.get('item') || '';
+  const item = getDigestHistory().find(e => e.id === entryId)?.items.find(i => i.id === itemId);
+
+  // Clicking the link twice shows the task from the first click
+  const existingTaskId = item?.taskId && taskStore.get(item.taskId) ? item.taskId : null;
+  const result = existingTaskId ? null : createTaskFromDigestItem(entryId, itemId);
+  const taskId = existingTaskId || result?.task?.id;
+
+  if (!taskId) {
+    console.error('[Digest] Could not create task from email link:', result?.error);
+    if (Notification.isSupported()) {
+      new Notification({ title: 'Could not create task', body: result?.error || 'Digest item not found' }).show();
+    }
+    return;
+  }
+
+  if (mainWindow) {
+    if (mainWindow.isMinimized()) mainWindow.restore();
+    mainWindow.show();
+    mainWindow.focus();
+    mainWindow.webContents.send('switch-tab', 'tasks');
+    setTimeout(() => mainWindow?.webContents.send('highlight-task', taskId), 100);
+  }
+}
+
+// LLM IPC Handlers (the renderer never sees provider API keys)
+ipcMain.handle('llm-complete', async (_event, task: LLMTask, request: LLMCompletionRequest) => {
+  try {
+    const completion = await llmRouter.complete(task, request);
+    return { success: true, content: completion.content };
+  } catch (error: any) {
+    console.error(`[LLM] ${task} request failed:`, error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-llm-status', () => {
+  return llmRouter.getStatus();
+});
+
+ipcMain.handle('get-llm-usage', () => {
+  return llmRouter.getUsage();
+});
+
+ipcMain.handle('reset-llm-usage', () => {
+  llmRouter.resetUsage();
+  return { success: true };
+});
+
 // Generic Storage IPC Handlers
 ipcMain.handle('get-stored-data', (_event, key: string) => {
   return store.get(key, null);
 });
 
 ipcMain.handle('save-data', (_event, key: string, data: any) => {
+  // Docs are saved as a whole list; stream the individual changes
+  if (key === 'docs' && Array.isArray(data)) {
+    const previous = store.get('docs', []) as Array<{ id: string }>;
+    publishListChanges(changeFeed, 'doc', Array.isArray(previous) ? previous : [], data);
+  }
   store.set(key, data);
 });
 
+// Docs added by the MCP server wait in the task database until the app, the only
+// writer of config.json, moves them into the docs list
+function importPendingDocs() {
+  const pending = taskStore.takePendingDocs<{ id: string }>();
+  if (pending.length === 0) return;
+
+  const previous = store.get('docs', []) as Array<{ id: string }>;
+  const docs = [...pending.reverse(), ...(Array.isArray(previous) ? previous : [])];
+  publishListChanges(changeFeed, 'doc', Array.isArray(previous) ? previous : [], docs);
+  store.set('docs', docs);
+  console.log(`[Docs] Added ${pending.length} doc(s) from the MCP server`);
+
+  if (mainWindow && mainWindow.webContents) {
+    mainWindow.webContents.send('docs-updated', docs);
+  }
+}
+
 // Whisper transcription
 ipcMain.handle('transcribe-audio', async (_event, audioBuffer: ArrayBuffer) => {
   try {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
-    if (!openaiApiKey) {
-      return { success: false, error: 'OpenAI API key not configured' };
+    if (!llmRouter.isAvailable('transcription')) {
+      return { success: false, error: 'No AI provider configured for transcription' };
     }
 
-    const openai = new OpenAI({ apiKey: openaiApiKey });
-
     // Write audio buffer to temporary file
     const tempDir = os.tmpdir();
     const tempFilePath = path.join(tempDir, `whisper-${Date.now()}.webm`);
@@ -2278,13 +2432,10 @@ ipcMain.handle('transcribe-audio', async (_event, audioBuffer: ArrayBuffer) => {
     fs.writeFileSync(tempFilePath, buffer);
 
     try {
-      // Transcribe using OpenAI Whisper
-      const transcription = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(tempFilePath),
-        model: 'whisper-1',
-      });
+      // Transcribe with the configured Whisper-compatible model
+      const text = await llmRouter.transcribe(tempFilePath);
 
-      return { success: true, text: transcription.text };
+      return { success: true, text };
     } finally {
       // Clean up temp file
       try {
@@ -2376,7 +2527,8 @@ ipcMain.handle('obsidian-list-notes', async () => {
   }
 });
 
-ipcMain.handle('obsidian-create-note', async (_event, noteData: { title: string; content: string; tags?: string[] }) => {
+// Write a new note to the Obsidian vault, with created/updated/tags frontmatter
+function createObsidianNote(noteData: { title: string; content: string; tags?: string[] }) {
   try {
     const userSettings = store.get('userSettings', {}) as any;
     const vaultPath = userSettings.obsidianVaultPath;
@@ -2432,6 +2584,10 @@ ipcMain.handle('obsidian-create-note', async (_event, noteData: { title: string;
     console.error('Failed to create Obsidian note:', error);
     return { success: false, error: error.message };
   }
+}
+
+ipcMain.handle('obsidian-create-note', async (_event, noteData: { title: string; content: string; tags?: string[] }) => {
+  return createObsidianNote(noteData);
 });
 
 ipcMain.handle('obsidian-update-note', async (_event, noteId: string, content: string) => {
@@ -2522,69 +2678,695 @@ ipcMain.handle('obsidian-open-in-app', async (_event, noteId: string) => {
 
 // Task Management IPC Handlers
 ipcMain.handle('get-tasks', () => {
-  const tasks = store.get('tasks', []) as Task[];
-  return tasks;
+  return taskStore.getAll();
 });
 
-ipcMain.handle('add-task', (_event, task: Partial<Task>) => {
-  const tasks = store.get('tasks', []) as Task[];
+// Shared by the IPC handlers and the local API, which differ only in the actor
+// recorded in the task event log and whether the change is undoable
+function createTask(task: Partial<Task>, actor: TaskActor): Task {
   const now = new Date().toISOString();
-  const newTask: Task = {
+  const newTask: Task = stampCompletion(undefined, {
     id: randomUUID(),
     title: task.title || '',
     completed: task.completed || false,
     source: task.source || 'manual',
     sourceId: task.sourceId,
     dueDate: task.dueDate,
+    deadline: task.deadline,
     priority: task.priority || 'medium',
     context: task.context,
+    description: task.description,
+    tags: task.tags,
+    linkedItems: task.linkedItems,
+    parentId: task.parentId,
     createdAt: task.createdAt || now,
     updatedAt: now,
-  };
+  });
 
-  tasks.unshift(newTask);
-  store.set('tasks', tasks);
-  return newTask;
-});
+  return taskStore.transaction(() => {
+    // Only keep the parent link if the parent actually exists
+    if (newTask.parentId && !taskStore.get(newTask.parentId)) {
+      newTask.parentId = undefined;
+    }
+    return taskStore.insert(newTask);
+  }, actor);
+}
 
-ipcMain.handle('update-task', (_event, id: string, updates: Partial<Task>) => {
-  const tasks = store.get('tasks', []) as Task[];
-  const taskIndex = tasks.findIndex(t => t.id === id);
+// Returns the updated task, and the next instance if this completed a recurring task
+function updateTask(id: string, updates: Partial<Task>, actor: TaskActor): { updated: Task; nextTask: Task | null } | null {
+  const result = taskStore.transaction(() => {
+    const tasks = taskStore.getAll();
+    const existing = tasks.find(t => t.id === id);
+    if (!existing) return null;
+
+    // Re-parenting must not point at a missing task or create a cycle
+    if (updates.parentId && (!tasks.some(t => t.id === updates.parentId) || wouldCreateCycle(tasks, id, updates.parentId))) {
+      console.error('[Tasks] Rejected invalid parentId for task', id, '->', updates.parentId);
+      const { parentId: _parentId, ...rest } = updates;
+      updates = rest;
+    }
 
-  if (taskIndex !== -1) {
-    tasks[taskIndex] = {
-      ...tasks[taskIndex],
+    // Task blockers must exist, and must not block themselves or form a cycle
+    if (updates.blockedBy) {
+      updates.blockedBy = updates.blockedBy.filter(blocker => {
+        if (blocker.type !== 'task') return true;
+        const valid = tasks.some(t => t.id === blocker.id) && !wouldCreateDependencyCycle(tasks, id, blocker.id);
+        if (!valid) {
+          console.error('[Tasks] Rejected invalid blocker for task', id, '->', blocker.id);
+        }
+        return valid;
+      });
+    }
+
+    // Completing a recurring task spawns the next instance in the series
+    const { task: updated, nextTask } = saveTaskEdit(taskStore, existing, {
+      ...existing,
       ...updates,
       updatedAt: new Date().toISOString()
-    };
-    store.set('tasks', tasks);
+    });
+    return { updated, nextTask };
+  }, actor);
+  if (!result) return null;
+
+  if (result.nextTask && mainWindow && mainWindow.webContents) {
+    mainWindow.webContents.send('task-created', result.nextTask);
   }
-});
 
-ipcMain.handle('delete-task', (_event, id: string) => {
-  const tasks = store.get('tasks', []) as Task[];
-  const filteredTasks = tasks.filter(t => t.id !== id);
-  store.set('tasks', filteredTasks);
-});
+  // Push synced fields to a linked Jira issue right away
+  if (updates.title !== undefined || updates.completed !== undefined || updates.priority !== undefined) {
+    jiraTaskSync.syncTask(id);
+  }
 
-// OAuth Handlers
-ipcMain.handle('start-oauth', async (_event, provider: 'google' | 'slack' | 'jira' | 'zoom' | 'amplitude' | 'granola' | 'clockwise') => {
-  const startTime = Date.now();
-  console.log(`\n========================================`);
-  console.log(`[OAuth] START - ${new Date().toISOString()}`);
-  console.log(`[OAuth] Provider: ${provider}`);
-  console.log(`[OAuth] User initiated OAuth flow from Settings`);
+  return result;
+}
 
-  try {
-    let authUrl: string;
+// Edits made by the MCP server don't go through updateTask, so the task watcher
+// pushes their synced fields to linked Jira issues from the event log instead
+let lastExternalEditSeq = taskStore.getLatestEventSeq();
+function syncExternalEditsToJira() {
+  let events = taskStore.getEventsSince(lastExternalEditSeq);
+  while (events.length > 0) {
+    for (const { actor, taskId, before, after } of events) {
+      if (actor === 'mcp' && before && after && JIRA_SYNC_FIELDS.some(field => before[field] !== after[field])) {
+        jiraTaskSync.syncTask(taskId);
+      }
+    }
+    lastExternalEditSeq = events[events.length - 1].seq;
+    events = taskStore.getEventsSince(lastExternalEditSeq);
+  }
+}
 
-    // MCP providers use their own OAuth endpoints
-    if (provider === 'amplitude' || provider === 'granola' || provider === 'clockwise') {
-      // MCP servers typically handle OAuth through their web interfaces
-      // These URLs will redirect users to authenticate and grant access
-      const mcpUrls: Record<string, string> = {
-        amplitude: `${OAUTH_BASE_URL}/api/oauth/amplitude/authorize`,
-        granola: `${OAUTH_BASE_URL}/api/oauth/granola/authorize`,
+// mode 'cascade' removes all subtasks with the parent; 'promote' keeps them as top-level tasks
+function deleteTask(id: string, mode: 'cascade' | 'promote', actor: TaskActor): boolean {
+  return taskStore.transaction(() => {
+    const tasks = taskStore.getAll();
+    if (!tasks.some(t => t.id === id)) return false;
+
+    const now = new Date().toISOString();
+    const removedIds = new Set(mode === 'promote' ? [id] : [id, ...getDescendantIds(tasks, id)]);
+
+    taskStore.delete([...removedIds]);
+
+    for (const task of tasks) {
+      if (removedIds.has(task.id)) continue;
+
+      // Promoted children become top-level; deleted tasks no longer block anything
+      const promote = mode === 'promote' && task.parentId === id;
+      const unblock = task.blockedBy?.some(b => b.type === 'task' && removedIds.has(b.id));
+      if (!promote && !unblock) continue;
+
+      taskStore.save({
+        ...task,
+        parentId: promote ? undefined : task.parentId,
+        blockedBy: unblock ? task.blockedBy!.filter(b => !(b.type === 'task' && removedIds.has(b.id))) : task.blockedBy,
+        updatedAt: now,
+      });
+    }
+    return true;
+  }, actor);
+}
+
+ipcMain.handle('add-task', (_event, task: Partial<Task>) => {
+  const added = createTask(task, 'ui');
+  recordUndoableChange();
+  return added;
+});
+
+ipcMain.handle('update-task', (_event, id: string, updates: Partial<Task>) => {
+  updateTask(id, updates, 'ui');
+  recordUndoableChange();
+});
+
+ipcMain.handle('delete-task', (_event, id: string, mode: 'cascade' | 'promote' = 'cascade') => {
+  deleteTask(id, mode, 'ui');
+  recordUndoableChange();
+});
+
+// Local API pairing and connected apps
+ipcMain.handle('local-api-start-pairing', () => {
+  return { success: true, ...localApiServer.startPairing() };
+});
+
+ipcMain.handle('local-api-list-clients', () => {
+  return getLocalApiClients();
+});
+
+ipcMain.handle('local-api-revoke-client', (_event, id: string) => {
+  const revoked = revokeLocalApiClient(id);
+  localApiServer.disconnectClient(id);
+  return revoked ? { success: true } : { success: false, error: 'App not found' };
+});
+
+// Session undo/redo for changes made in the PM-OS UI. Entries are task event log batch IDs.
+const MAX_UNDO_STEPS = 100;
+const undoStack: string[] = [];
+const redoStack: string[] = [];
+
+function recordUndoableChange() {
+  const batchId = taskStore.getLastBatchId();
+  if (!batchId) return;
+
+  undoStack.push(batchId);
+  if (undoStack.length > MAX_UNDO_STEPS) {
+    undoStack.shift();
+  }
+  redoStack.length = 0;
+}
+
+function notifyTasksChanged() {
+  if (mainWindow && mainWindow.webContents) {
+    mainWindow.webContents.send('tasks-updated', taskStore.getAll());
+  }
+}
+
+ipcMain.handle('undo-task-change', () => {
+  const batchId = undoStack.pop();
+  if (!batchId) {
+    return { success: false, error: 'Nothing to undo' };
+  }
+
+  try {
+    taskStore.revertBatch(batchId, 'ui');
+    redoStack.push(batchId);
+    notifyTasksChanged();
+    return { success: true };
+  } catch (error: any) {
+    if (error instanceof TaskConflictError) {
+      // Something changed the task since (sync, MCP, another edit); drop the step rather than overwrite it
+      return { success: false, conflict: true, error: error.message };
+    }
+    console.error('[Tasks] Undo failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('redo-task-change', () => {
+  const batchId = redoStack.pop();
+  if (!batchId) {
+    return { success: false, error: 'Nothing to redo' };
+  }
+
+  try {
+    taskStore.reapplyBatch(batchId, 'ui');
+    undoStack.push(batchId);
+    notifyTasksChanged();
+    return { success: true };
+  } catch (error: any) {
+    if (error instanceof TaskConflictError) {
+      return { success: false, conflict: true, error: error.message };
+    }
+    console.error('[Tasks] Redo failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-task-history', (_event, taskId: string) => {
+  return taskStore.getHistory(taskId);
+});
+
+ipcMain.handle('get-deleted-tasks', () => {
+  return taskStore.getDeletedTasks();
+});
+
+ipcMain.handle('restore-deleted-task', (_event, taskId: string) => {
+  try {
+    const restored = taskStore.restoreDeleted(taskId, 'ui');
+    if (restored.length === 0) {
+      return { success: false, error: 'Task is not in the deleted bin' };
+    }
+    recordUndoableChange();
+    notifyTasksChanged();
+    return { success: true, tasks: restored };
+  } catch (error: any) {
+    console.error('[Tasks] Restore failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Check Jira issues that block tasks; unblock tasks whose blocking issues reached Done
+async function checkJiraBlockers() {
+  const tasks = taskStore.getAll();
+  const pendingKeys = new Set<string>();
+  for (const task of tasks) {
+    if (task.completed) continue;
+    for (const blocker of task.blockedBy || []) {
+      if (blocker.type === 'jira' && !blocker.resolvedAt) {
+        pendingKeys.add(blocker.id);
+      }
+    }
+  }
+
+  if (pendingKeys.size === 0) return;
+
+  let readyJiraService: JiraService;
+  try {
+    readyJiraService = await getReadyJiraService();
+  } catch (error: any) {
+    console.log('[Blockers] Skipping Jira blocker check:', error.message);
+    return;
+  }
+
+  const statuses = new Map<string, { status: string; done: boolean }>();
+  for (const key of pendingKeys) {
+    try {
+      const issue = await readyJiraService.getIssue(key);
+      statuses.set(key, { status: issue.fields.status.name, done: readyJiraService.isIssueDone(issue) });
+    } catch (error: any) {
+      console.error(`[Blockers] Failed to fetch Jira issue ${key}:`, error.message);
+    }
+  }
+
+  // Re-read inside the transaction in case tasks changed while we were waiting on Jira
+  const now = new Date().toISOString();
+  const unblockedTasks: Task[] = [];
+  const changed = taskStore.transaction(() => {
+    const latestTasks = taskStore.getAll();
+    let anyChanged = false;
+
+    for (let i = 0; i < latestTasks.length; i++) {
+      const task = latestTasks[i];
+      if (task.completed || !task.blockedBy?.some(b => b.type === 'jira' && statuses.has(b.id))) continue;
+
+      const wasBlocked = isBlocked(latestTasks, task);
+      const blockedBy = task.blockedBy.map(blocker => {
+        const result = blocker.type === 'jira' && !blocker.resolvedAt ? statuses.get(blocker.id) : undefined;
+        if (!result) return blocker;
+        return { ...blocker, status: result.status, resolvedAt: result.done ? now : undefined };
+      });
+
+      if (JSON.stringify(blockedBy) === JSON.stringify(task.blockedBy)) continue;
+
+      latestTasks[i] = { ...task, blockedBy, updatedAt: now };
+      taskStore.save(latestTasks[i]);
+      anyChanged = true;
+      if (wasBlocked && !isBlocked(latestTasks, latestTasks[i])) {
+        unblockedTasks.push(latestTasks[i]);
+      }
+    }
+
+    return anyChanged;
+  });
+
+  if (!changed) return;
+
+  for (const task of unblockedTasks) {
+    console.log('[Blockers] Task unblocked:', task.title);
+    if (Notification.isSupported()) {
+      new Notification({
+        title: 'Task unblocked',
+        body: `"${task.title}" is no longer blocked - its Jira blockers are Done.`,
+      }).show();
+    }
+  }
+
+  notifyTasksChanged();
+}
+
+function getJiraSyncSettings(): JiraSyncSettings {
+  const userSettings = store.get('userSettings', {}) as any;
+  return {
+    enabled: !!userSettings.jiraSyncEnabled,
+    intervalMinutes: userSettings.jiraSyncIntervalMinutes || 10,
+    doneTransition: userSettings.jiraDoneTransition || 'Done',
+    reopenTransition: userSettings.jiraReopenTransition || 'To Do',
+  };
+}
+
+const jiraTaskSync = new JiraTaskSync(taskStore, getReadyJiraService, getJiraSyncSettings, notifyTasksChanged);
+
+function getJiraImportSettings(): JiraImportSettings {
+  const userSettings = store.get('userSettings', {}) as any;
+  return {
+    enabled: !!userSettings.jiraImportEnabled,
+    intervalMinutes: store.get('syncInterval', 5) as number,
+    jql: userSettings.jiraImportJql ?? DEFAULT_JIRA_IMPORT_JQL,
+  };
+}
+
+const jiraTaskImporter = new JiraTaskImporter(taskStore, getReadyJiraService, getJiraImportSettings, (newTasks) => {
+  if (mainWindow && mainWindow.webContents) {
+    newTasks.forEach(task => mainWindow!.webContents.send('task-created', task));
+  }
+  notifyTasksChanged();
+});
+
+function getMeetingPrepSettings(): MeetingPrepSettings {
+  const userSettings = store.get('userSettings', {}) as any;
+  return normalizeMeetingPrepSettings(userSettings.meetingPrep);
+}
+
+const meetingPrepService = new MeetingPrepService(
+  taskStore,
+  {
+    getEvents: () => integrationManager.syncCalendar(),
+    getRecentThreads: (emails, lookbackDays) => integrationManager.getRecentThreadsWith(emails, lookbackDays),
+    getJiraService: getReadyJiraService,
+    getSlackToken: () => store.get('slack_access_token') as string | undefined,
+  },
+  getMeetingPrepSettings,
+  (brief) => {
+    mainWindow?.webContents.send('meeting-brief-ready', brief);
+    if (Notification.isSupported()) {
+      const notification = new Notification({
+        title: `Prep for ${brief.eventTitle}`,
+        body: `${brief.attendees.length} attendee${brief.attendees.length !== 1 ? 's' : ''}, ${brief.threads.length} recent conversation${brief.threads.length !== 1 ? 's' : ''}, ${brief.issues.length} open issue${brief.issues.length !== 1 ? 's' : ''}`,
+      });
+      notification.on('click', () => {
+        if (!mainWindow) return;
+        mainWindow.show();
+        mainWindow.focus();
+        mainWindow.webContents.send('switch-tab', 'meetings');
+      });
+      notification.show();
+    }
+  }
+);
+
+ipcMain.handle('get-meeting-briefs', () => {
+  return getMeetingBriefs();
+});
+
+ipcMain.handle('generate-meeting-brief', async (_event, calendarEvent: PrepEvent) => {
+  try {
+    return { success: true, brief: await meetingPrepService.generateBrief(calendarEvent) };
+  } catch (error: any) {
+    console.error('[MeetingPrep] Failed to generate brief:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+function getSchedulingSettings(): SchedulingSettings {
+  const userSettings = store.get('userSettings', {}) as any;
+  return normalizeSchedulingSettings(userSettings.scheduling);
+}
+
+function getPrimaryTimezone(): string {
+  const userSettings = store.get('userSettings', {}) as any;
+  return userSettings.primaryTimezone || 'America/Los_Angeles';
+}
+
+const focusTimeService = new FocusTimeService(
+  taskStore,
+  {
+    getBusy: async (timeMin, timeMax) => (await integrationManager.getFreeBusy([], timeMin, timeMax)).busy.primary || [],
+    createEvent: (request) => integrationManager.createCalendarEvent(request),
+  },
+  getSchedulingSettings,
+  getPrimaryTimezone,
+  (blocks) => {
+    notifyTasksChanged();
+    if (Notification.isSupported()) {
+      const notification = new Notification({
+        title: `Blocked focus time for ${blocks.length} task${blocks.length !== 1 ? 's' : ''}`,
+        body: blocks.map(block => block.taskTitle).join(', '),
+      });
+      notification.on('click', () => {
+        if (!mainWindow) return;
+        mainWindow.show();
+        mainWindow.focus();
+        mainWindow.webContents.send('switch-tab', 'meetings');
+      });
+      notification.show();
+    }
+  }
+);
+
+ipcMain.handle('focus-time-block-now', async () => {
+  try {
+    const blocks = await focusTimeService.blockFocusTime();
+    return { success: true, blocked: blocks.length };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+// Mutual free slots for the user and attendees over the next few days, within
+// working hours in the primary (and optionally secondary) timezone
+ipcMain.handle('calendar-find-availability', async (_event, request: { attendees: string[]; durationMinutes: number; days?: number }) => {
+  try {
+    const userSettings = store.get('userSettings', {}) as any;
+    const settings = getSchedulingSettings();
+    const timeZones = [getPrimaryTimezone()];
+    if (settings.useSecondaryTimezone && userSettings.secondaryTimezone && userSettings.secondaryTimezone !== timeZones[0]) {
+      timeZones.push(userSettings.secondaryTimezone);
+    }
+
+    const from = new Date();
+    const to = new Date(from.getTime() + (request.days || 7) * 24 * 60 * 60 * 1000);
+    const { busy, unavailable } = await integrationManager.getFreeBusy(request.attendees, from.toISOString(), to.toISOString());
+
+    const slots = findAvailableSlots(Object.values(busy).flat(), {
+      from,
+      to,
+      durationMinutes: request.durationMinutes,
+      timeZones,
+      maxSlots: 8,
+      maxPerDay: 3,
+    }, settings);
+
+    return { success: true, slots, timeZones, unavailable };
+  } catch (error: any) {
+    console.error('[Calendar] Failed to find availability:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('get-meeting-notes', () => {
+  return getMeetingNotes();
+});
+
+ipcMain.handle('dismiss-meeting-notes', (_event, eventId: string, eventTitle: string) => {
+  dismissMeetingNotes(eventId, eventTitle);
+  return { success: true };
+});
+
+ipcMain.handle('extract-meeting-notes', async (_event, calendarEvent: MeetingNotesEvent, notes: string) => {
+  try {
+    if (!llmRouter.isAvailable('chat')) {
+      return { success: false, error: 'No AI provider configured for chat' };
+    }
+
+    const attendees = (calendarEvent.attendees || []).filter(a => !a.email.endsWith('resource.calendar.google.com'));
+    const attendeeList = attendees
+      .map(a => `- ${a.displayName || a.email} <${a.email}>${a.self ? ' (me)' : ''}`)
+      .join('\n');
+
+    const completion = await llmRouter.complete('chat', {
+      messages: [
+        {
+          role: 'system',
+          content: `You turn a product manager's meeting notes into decisions and action items.
+Respond with JSON only, in this shape:
+{"summary": "2-3 sentences", "decisions": ["..."], "actionItems": [{"title": "imperative, under 80 characters", "owner": "attendee name or null", "dueDate": "YYYY-MM-DD or null"}]}
+
+Only include action items someone actually committed to. Use an attendee's name from the list as the owner when the notes make it clear who owns an item. Today is ${format(new Date(), 'EEEE, yyyy-MM-dd')}.`,
+        },
+        {
+          role: 'user',
+          content: `Meeting: ${calendarEvent.title}\nAttendees:\n${attendeeList || '- (none listed)'}\n\nNotes:\n${notes.substring(0, 24000)}`,
+        },
+      ],
+      temperature: 0.2,
+      maxTokens: 1500,
+    });
+
+    return { success: true, extraction: parseMeetingExtraction(completion.content, attendees) };
+  } catch (error: any) {
+    console.error('[MeetingNotes] Extraction failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Create the Jira issues, meeting note and tasks chosen in the notes review.
+// Each item is best-effort so one failure doesn't lose the rest.
+ipcMain.handle('apply-meeting-notes', async (_event, request: ApplyMeetingNotesRequest) => {
+  const { event: calendarEvent, notes, extraction, targets, destination } = request;
+  const errors: string[] = [];
+  const userSettings = store.get('userSettings', {}) as any;
+  const eventLink = calendarEvent.htmlLink && {
+    id: `gcal_${calendarEvent.id}`,
+    type: 'google-calendar' as const,
+    title: calendarEvent.title,
+    url: calendarEvent.htmlLink,
+  };
+
+  const jiraIssues: Record<string, CreatedJiraIssue> = {};
+  const jiraItems = extraction.actionItems.filter(item => targets[item.id] === 'jira');
+  if (jiraItems.length > 0) {
+    try {
+      const readyJiraService = await getReadyJiraService();
+      for (const item of jiraItems) {
+        try {
+          const issue = await readyJiraService.createIssue({
+            summary: item.title,
+            description: `From meeting "${calendarEvent.title}" on ${format(new Date(calendarEvent.start), 'MMM d, yyyy')}` +
+              (calendarEvent.htmlLink ? `\n\n${calendarEvent.htmlLink}` : ''),
+            projectKey: userSettings.jiraDefaultProject || process.env.JIRA_DEFAULT_PROJECT || '',
+            issueType: userSettings.jiraDefaultIssueType || process.env.JIRA_DEFAULT_ISSUE_TYPE || 'Task',
+            assigneeEmail: item.ownerEmail,
+            assigneeName: item.ownerEmail ? undefined : item.owner,
+          });
+          jiraIssues[item.id] = { key: issue.key, url: readyJiraService.getIssueUrl(issue.key), title: item.title };
+        } catch (error: any) {
+          console.error('[MeetingNotes] Failed to create Jira issue:', error);
+          errors.push(`Jira "${item.title}": ${error.message}`);
+        }
+      }
+    } catch (error: any) {
+      errors.push(`Jira: ${error.message}`);
+    }
+  }
+
+  let note: CreatedMeetingNote | undefined;
+  if (destination !== 'none') {
+    const title = getMeetingNoteTitle(calendarEvent);
+    const content = buildMeetingNoteMarkdown(calendarEvent, notes, extraction, jiraIssues);
+    try {
+      if (destination === 'obsidian') {
+        const result = createObsidianNote({ title, content, tags: ['meeting'] });
+        if (!result.success || !result.note) throw new Error(result.error);
+        const vaultName = path.basename(userSettings.obsidianVaultPath);
+        note = {
+          destination,
+          title: result.note.title,
+          url: `obsidian://open?vault=${encodeURIComponent(vaultName)}&file=${encodeURIComponent(result.note.id)}`,
+        };
+      } else {
+        if (!confluenceService) throw new Error('Confluence not configured');
+        const page = await confluenceService.createPage({
+          title,
+          body: content,
+          spaceKey: userSettings.confluenceDefaultSpace || process.env.CONFLUENCE_DEFAULT_SPACE || '',
+          parentId: userSettings.confluenceDefaultParentId || process.env.CONFLUENCE_DEFAULT_PARENT_ID,
+        });
+        note = { destination, title, url: page.url };
+      }
+    } catch (error: any) {
+      console.error('[MeetingNotes] Failed to create meeting note:', error);
+      errors.push(`Meeting note: ${error.message}`);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const newTasks: Task[] = extraction.actionItems
+    .filter(item => targets[item.id] === 'task')
+    .map(item => ({
+      id: randomUUID(),
+      title: item.title,
+      completed: false,
+      source: 'calendar',
+      sourceId: calendarEvent.id,
+      priority: 'medium',
+      dueDate: item.dueDate,
+      context: `From meeting: ${calendarEvent.title}${item.owner ? ` (owner: ${item.owner})` : ''}`,
+      linkedItems: [
+        ...(eventLink ? [eventLink] : []),
+        ...(note ? [{ id: `${note.destination}_${note.title}`, type: note.destination, title: note.title, url: note.url }] : []),
+      ],
+      createdAt: now,
+      updatedAt: now,
+    }));
+  if (newTasks.length > 0) {
+    taskStore.transaction(() => newTasks.forEach(task => taskStore.insert(task, 'last')), 'ui');
+    recordUndoableChange();
+    newTasks.forEach(task => mainWindow?.webContents.send('task-created', task));
+  }
+
+  const record: MeetingNotesRecord = {
+    eventId: calendarEvent.id,
+    eventTitle: calendarEvent.title,
+    capturedAt: now,
+    summary: extraction.summary,
+    decisions: extraction.decisions,
+    taskIds: newTasks.map(task => task.id),
+    jiraIssues: Object.values(jiraIssues),
+    note,
+  };
+  saveMeetingNotes(record);
+  console.log(`[MeetingNotes] Captured "${calendarEvent.title}": ${newTasks.length} tasks, ${record.jiraIssues.length} Jira issues${note ? `, ${note.destination} note` : ''}`);
+
+  return { success: errors.length === 0, record, errors };
+});
+
+ipcMain.handle('jira-import-now', async () => {
+  try {
+    const counts = await jiraTaskImporter.importAll();
+    return { success: true, ...counts };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('jira-sync-now', async () => {
+  try {
+    await jiraTaskSync.syncAll();
+    return { success: true };
+  } catch (error: any) {
+    console.error('[JiraSync] Manual sync failed:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('resolve-jira-sync-conflict', async (_event, taskId: string, field: JiraSyncField, choice: 'local' | 'remote') => {
+  try {
+    const task = await jiraTaskSync.resolveConflict(taskId, field, choice);
+    return { success: true, task };
+  } catch (error: any) {
+    console.error('[JiraSync] Failed to resolve conflict:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('jira-get-issue', async (_event, issueKey: string) => {
+  const readyJiraService = await getReadyJiraService();
+  const issue = await readyJiraService.getIssue(issueKey);
+  return {
+    key: issue.key,
+    summary: issue.fields.summary,
+    status: issue.fields.status.name,
+    done: readyJiraService.isIssueDone(issue),
+    url: readyJiraService.getIssueUrl(issue.key),
+  };
+});
+
+// OAuth Handlers
+ipcMain.handle('start-oauth', async (_event, provider: 'google' | 'slack' | 'jira' | 'zoom' | 'amplitude' | 'granola' | 'clockwise') => {
+  const startTime = Date.now();
+  console.log(`\n========================================`);
+  console.log(`[OAuth] START - ${new Date().toISOString()}`);
+  console.log(`[OAuth] Provider: ${provider}`);
+  console.log(`[OAuth] User initiated OAuth flow from Settings`);
+
+  try {
+    let authUrl: string;
+
+    // MCP providers use their own OAuth endpoints
+    if (provider === 'amplitude' || provider === 'granola' || provider === 'clockwise') {
+      // MCP servers typically handle OAuth through their web interfaces
+      // These URLs will redirect users to authenticate and grant access
+      const mcpUrls: Record<string, string> = {
+        amplitude: `${OAUTH_BASE_URL}/api/oauth/amplitude/authorize`,
+        granola: `${OAUTH_BASE_URL}/api/oauth/granola/authorize`,
         clockwise: `${OAUTH_BASE_URL}/api/oauth/clockwise/authorize`,
       };
       authUrl = mcpUrls[provider];
@@ -2824,6 +3606,7 @@ ipcMain.handle('get-smart-suggestions', async (_event, forceRefresh = false) =>
     // Cache the results
     store.set('smart_suggestions_cache', suggestions);
     store.set('smart_suggestions_last_fetch', now);
+    changeFeed.publish({ type: 'suggestion', action: 'refreshed', data: suggestions });
 
     return suggestions;
   } catch (error: any) {
@@ -2839,6 +3622,7 @@ ipcMain.handle('refresh-smart-suggestions', async () => {
     const suggestions = await integrationManager.getSmartSuggestions();
     store.set('smart_suggestions_cache', suggestions);
     store.set('smart_suggestions_last_fetch', Date.now());
+    changeFeed.publish({ type: 'suggestion', action: 'refreshed', data: suggestions });
     return suggestions;
   } catch (error: any) {
     console.error('Failed to refresh smart suggestions:', error);
@@ -2849,7 +3633,7 @@ ipcMain.handle('refresh-smart-suggestions', async () => {
 // Debug log handler that writes to a file
 ipcMain.handle('write-debug-log', async (_event, message: string) => {
   try {
-    const logPath = path.join(app.getPath('userData'), 'debug.log');
+    const logPath = getLogPath('debug.log');
     const timestamp = new Date().toISOString();
     const logLine = `[${timestamp}] ${message}\n`;
     fs.appendFileSync(logPath, logLine);
@@ -2874,13 +3658,24 @@ ipcMain.handle('write-debug-file', async (_event, filename: string, content: str
 });
 
 // Dismiss suggestion
-ipcMain.handle('dismiss-suggestion', async (_event, suggestionId: string) => {
+ipcMain.handle('dismiss-suggestion', async (_event, suggestionId: string, outcome: SuggestionOutcome = 'dismissed') => {
   try {
     const dismissedSuggestions = store.get('dismissed_suggestions', []) as string[];
     if (!dismissedSuggestions.includes(suggestionId)) {
-      dismissedSuggestions.push(suggestionId);
+      // A clustered suggestion hides every source it was merged from
+      const cachedSuggestions = store.get('smart_suggestions_cache', []) as any[];
+      const suggestion = cachedSuggestions.find(s => s.id === suggestionId);
+      const ids: string[] = suggestion?.clusterIds || [suggestionId];
+      dismissedSuggestions.push(...ids.filter(id => !dismissedSuggestions.includes(id)));
       store.set('dismissed_suggestions', dismissedSuggestions);
-      console.log(`[Smart Suggestions] Dismissed suggestion: ${suggestionId}`);
+      console.log(`[Smart Suggestions] ${outcome === 'accepted' ? 'Accepted' : 'Dismissed'} suggestion: ${ids.join(', ')}`);
+      changeFeed.publish({ type: 'suggestion', action: outcome, id: suggestionId, data: { ids } });
+
+      // Feed the outcome back into ranking
+      if (suggestion?.learningSignals) {
+        const feedback = store.get('suggestion_feedback', {}) as SuggestionFeedback;
+        store.set('suggestion_feedback', recordFeedback(feedback, suggestion.learningSignals, outcome));
+      }
     }
     return { success: true };
   } catch (error: any) {
@@ -2889,6 +3684,24 @@ ipcMain.handle('dismiss-suggestion', async (_event, suggestionId: string) => {
   }
 });
 
+ipcMain.handle('get-suggestion-learning', () => {
+  return getLearnedWeights(store.get('suggestion_feedback', {}) as SuggestionFeedback);
+});
+
+// Forget one learned signal, or everything when no key is given
+ipcMain.handle('reset-suggestion-learning', (_event, key?: string) => {
+  if (key) {
+    const feedback = { ...(store.get('suggestion_feedback', {}) as SuggestionFeedback) };
+    delete feedback[key];
+    store.set('suggestion_feedback', feedback);
+  } else {
+    store.delete('suggestion_feedback');
+  }
+  store.set('smart_suggestions_last_fetch', 0);
+  console.log(`[Smart Suggestions] Reset learned weights${key ? ` for ${key}` : ''}`);
+  return { success: true };
+});
+
 // Chats - Slack unread messages
 ipcMain.handle('get-slack-unread-messages', async () => {
   try {
@@ -2997,6 +3810,206 @@ ipcMain.handle('slack-send-reply', async (_event, channelId: string, threadTs: s
   }
 });
 
+// Gmail actions (Chats tab)
+ipcMain.handle('gmail-get-message-text', async (_event, messageId: string) => {
+  try {
+    return { success: true, text: await integrationManager.getEmailText(messageId) };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to get message text:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-get-thread', async (_event, threadId: string) => {
+  try {
+    return { success: true, thread: await integrationManager.getEmailThread(threadId) };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to get thread:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Saves to Downloads and reveals the file, like downloading from Gmail would
+ipcMain.handle('gmail-download-attachment', async (_event, messageId: string, attachmentId: string, filename: string) => {
+  try {
+    const data = await integrationManager.getEmailAttachment(messageId, attachmentId);
+    const downloads = app.getPath('downloads');
+    const safeName = path.basename(filename).replace(/[\\/:*?"<>|]/g, '_') || 'attachment';
+    const { name, ext } = path.parse(safeName);
+    let filePath = path.join(downloads, safeName);
+    for (let i = 1; fs.existsSync(filePath); i++) {
+      filePath = path.join(downloads, `${name} (${i})${ext}`);
+    }
+    fs.writeFileSync(filePath, data);
+    shell.showItemInFolder(filePath);
+    return { success: true, filePath };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to download attachment:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('create-task-from-email-thread', async (_event, threadId: string) => {
+  try {
+    const existing = taskStore.query({ source: 'email', sourceId: threadId, completed: false });
+    if (existing.length > 0) {
+      return { success: false, error: 'There is already an open task for this thread', task: existing[0] };
+    }
+
+    const thread = await integrationManager.getEmailThread(threadId);
+    const latest = thread.messages[thread.messages.length - 1];
+    const subject = thread.subject || '(No subject)';
+    const senderName = (latest?.from || '').replace(/\s*<.*>$/, '').replace(/["']/g, '') || 'unknown sender';
+
+    // Summarize the whole conversation; fall back to the latest snippet without AI
+    let description = latest?.snippet || '';
+    if (llmRouter.isAvailable('chat')) {
+      try {
+        const transcript = thread.messages
+          .map(m => `From: ${m.from}\nDate: ${m.date}\n\n${m.bodyText.substring(0, 4000)}`)
+          .join('\n\n---\n\n');
+        const completion = await llmRouter.complete('chat', {
+          messages: [
+            {
+              role: 'system',
+              content: 'You summarize email threads for a product manager\'s task list. Write 2-4 sentences covering what is being discussed, any decisions, and what is being asked of the user. Plain text only.',
+            },
+            { role: 'user', content: `Subject: ${subject}\n\n${transcript.substring(0, 24000)}` },
+          ],
+          temperature: 0.3,
+          maxTokens: 300,
+        });
+        description = completion.content.trim() || description;
+      } catch (error) {
+        console.error('[Gmail] Thread summary failed, using snippet:', error);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const newTask: Task = {
+      id: randomUUID(),
+      title: subject,
+      completed: false,
+      source: 'email',
+      sourceId: threadId,
+      priority: 'medium',
+      context: `From email: ${senderName}`,
+      description,
+      linkedItems: [{
+        id: `gmail_${threadId}`,
+        type: 'gmail',
+        title: subject,
+        url: `https://mail.google.com/mail/u/0/#inbox/${threadId}`,
+      }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    taskStore.transaction(() => taskStore.insert(newTask, 'last'), 'ui');
+    recordUndoableChange();
+    mainWindow?.webContents.send('task-created', newTask);
+
+    return { success: true, task: newTask };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to create task from thread:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-send-reply', async (_event, messageId: string, text: string) => {
+  try {
+    await integrationManager.replyToEmail(messageId, text);
+    removeSnoozedEmail(messageId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to send reply:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-archive', async (_event, messageId: string) => {
+  try {
+    await integrationManager.modifyEmailLabels(messageId, [], ['INBOX']);
+    removeSnoozedEmail(messageId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to archive email:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-set-starred', async (_event, messageId: string, starred: boolean) => {
+  try {
+    await integrationManager.modifyEmailLabels(messageId, starred ? ['STARRED'] : [], starred ? [] : ['STARRED']);
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to update star:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-list-labels', async () => {
+  try {
+    return { success: true, labels: await integrationManager.getEmailLabels() };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to list labels:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-modify-labels', async (_event, messageId: string, addLabelIds: string[], removeLabelIds: string[]) => {
+  try {
+    const labelIds = await integrationManager.modifyEmailLabels(messageId, addLabelIds, removeLabelIds);
+    return { success: true, labelIds };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to modify labels:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+ipcMain.handle('gmail-snooze', async (_event, email: Omit<SnoozedEmail, 'snoozedAt' | 'wokeAt'>) => {
+  try {
+    if (new Date(email.until) <= new Date()) {
+      return { success: false, error: 'Snooze time must be in the future' };
+    }
+    await integrationManager.modifyEmailLabels(email.id, [], ['INBOX']);
+    addSnoozedEmail({ ...email, snoozedAt: new Date().toISOString() });
+    return { success: true };
+  } catch (error: any) {
+    console.error('[Gmail] Failed to snooze email:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Move snoozed emails that are due back to the inbox and surface them as suggestions
+const EMAIL_SNOOZE_CHECK_INTERVAL_MS = 60 * 1000;
+
+async function wakeSnoozedEmails() {
+  const due = getDueSnoozedEmails();
+  if (due.length === 0) return;
+
+  for (const email of due) {
+    try {
+      await integrationManager.modifyEmailLabels(email.id, ['INBOX', 'UNREAD'], []);
+    } catch (error) {
+      // Still surface it as a suggestion; the user can find it in Gmail
+      console.error('[Gmail] Failed to move snoozed email back to the inbox:', error);
+    }
+    markSnoozedEmailWoken(email.id);
+    console.log('[Gmail] Snoozed email is back:', email.subject);
+
+    if (Notification.isSupported()) {
+      new Notification({
+        title: 'Snoozed email is back',
+        body: `${email.subject || '(No subject)'}`,
+      }).show();
+    }
+  }
+
+  // Next suggestions request picks them up
+  store.set('smart_suggestions_last_fetch', 0);
+}
+
 // Jira Integration Handlers
 ipcMain.handle('jira-test-connection', async () => {
   try {
@@ -3025,14 +4038,12 @@ ipcMain.handle('jira-create-issue', async (_event, request: any) => {
 
   const userSettings = store.get('userSettings', {}) as any;
 
-  // Use OpenAI to create smart, concise ticket title from raw input
+  // Use the LLM to create smart, concise ticket title from raw input
   let ticketSummary = request.summary;
-  const openaiApiKey = process.env.OPENAI_API_KEY;
 
-  if (openaiApiKey) {
+  if (llmRouter.isAvailable('doc-formatting')) {
     try {
-      const openai = new OpenAI({ apiKey: openaiApiKey });
-      console.log('[Main] Using OpenAI to format Jira ticket title');
+      console.log('[Main] Using LLM to format Jira ticket title');
 
       // Use custom prompt from settings or default
       const defaultPrompt = `You are extracting the core task from a message to create a Jira ticket title.
@@ -3059,8 +4070,7 @@ Examples:
 
       console.log('[Main] Using', userSettings.jiraSystemPrompt ? 'custom' : 'default', 'system prompt for Jira');
 
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o',
+      const completion = await llmRouter.complete('doc-formatting', {
         messages: [
           {
             role: 'system',
@@ -3072,17 +4082,17 @@ Examples:
           },
         ],
         temperature: 0.3,
-        max_tokens: 100,
+        maxTokens: 100,
       });
 
-      ticketSummary = completion.choices[0].message.content?.trim() || request.summary;
-      console.log('[Main] OpenAI formatted title successfully:', { original: request.summary, formatted: ticketSummary });
+      ticketSummary = completion.content.trim() || request.summary;
+      console.log('[Main] LLM formatted title successfully:', { original: request.summary, formatted: ticketSummary });
     } catch (error) {
-      console.error('[Main] OpenAI formatting failed, using raw summary:', error);
-      // Fall back to raw summary if OpenAI fails
+      console.error('[Main] LLM formatting failed, using raw summary:', error);
+      // Fall back to raw summary if the LLM fails
     }
   } else {
-    console.log('[Main] No OpenAI key, using raw summary');
+    console.log('[Main] No AI provider for doc formatting, using raw summary');
   }
 
   const issue = await readyJiraService.createIssue({
@@ -3193,13 +4203,25 @@ ipcMain.handle('strategize-authenticate-mcp', async () => {
   console.log('[IPC] strategize-authenticate-mcp called');
 
   try {
-    // Open Terminal with Claude Code for interactive MCP authentication
-    const script = `tell application "Terminal"
-  activate
-  do script "echo 'MCP Server Authentication' && echo '===========================' && echo '' && echo 'To authenticate the MCP server, type: /mcp' && echo 'Then follow the OAuth flow in your browser.' && echo '' && /Users/tommykeeley/.local/bin/claude"
-end tell`;
+    if (process.platform !== 'darwin') {
+      return { success: false, error: 'Open a terminal, run claude and type /mcp to authenticate MCP servers' };
+    }
+
+    const claudePath = findClaudeBinary((store.get('userSettings', {}) as any).claudeCodePath);
+    if (!claudePath) {
+      return { success: false, error: 'Claude Code CLI not found' };
+    }
+
+    // Open Terminal with Claude Code for interactive MCP authentication. The path is passed
+    // as an argument and shell-quoted by AppleScript, never spliced into the script text.
+    const script = `on run argv
+  tell application "Terminal"
+    activate
+    do script "echo 'MCP Server Authentication' && echo '===========================' && echo '' && echo 'To authenticate the MCP server, type: /mcp' && echo 'Then follow the OAuth flow in your browser.' && echo '' && " & quoted form of (item 1 of argv)
+  end tell
+end run`;
 
-    spawn('osascript', ['-e', script], { detached: true, stdio: 'ignore' });
+    spawn('osascript', ['-e', script, claudePath], { detached: true, stdio: 'ignore' });
     return { success: true };
   } catch (error: any) {
     console.error('[Strategize] Failed to open Claude for MCP auth:', error);
@@ -3493,12 +4515,15 @@ ${(() => {
 
     // Add PM-OS Tasks context
     try {
-      const tasks = store.get('tasks', []) as any[];
+      const tasks = taskStore.getAll();
       if (tasks && tasks.length > 0) {
         const incompleteTasks = tasks.filter(t => !t.completed);
+        // Blocked tasks can't be acted on, so keep them out of the focus list
+        const actionableTasks = incompleteTasks.filter(t => !isBlocked(tasks, t));
+        const blockedTasks = incompleteTasks.filter(t => isBlocked(tasks, t));
         if (incompleteTasks.length > 0) {
           systemPrompt += '\n\n## PM-OS Tasks\n\nThe user has the following tasks in their PM-OS task list:\n\n';
-          incompleteTasks.forEach((task: any) => {
+          actionableTasks.forEach((task: any) => {
             const priority = task.priority || 'medium';
             const dueDate = task.dueDate ? new Date(task.dueDate).toLocaleDateString() : 'No due date';
             systemPrompt += `- [${priority}] ${task.title}`;
@@ -3506,7 +4531,13 @@ ${(() => {
             if (task.description) systemPrompt += `\n  ${task.description}`;
             systemPrompt += '\n';
           });
-          systemPrompt += '\n**When asked about priorities or what to focus on, consider these tasks.**\n';
+          if (blockedTasks.length > 0) {
+            systemPrompt += '\nThese tasks are blocked and cannot be worked on yet:\n';
+            blockedTasks.forEach((task: any) => {
+              systemPrompt += `- ${task.title}\n`;
+            });
+          }
+          systemPrompt += '\n**When asked about priorities or what to focus on, consider these tasks. Do not recommend blocked tasks.**\n';
         }
       }
     } catch (error) {
@@ -3519,7 +4550,7 @@ ${(() => {
       '--dangerously-skip-permissions',     // Auto-accept permissions
       '--debug',                            // Enable debug logging to see MCP issues
       '--setting-sources', 'user',          // Load user-level settings
-      '--mcp-config', os.homedir() + '/.claude.json',  // Explicitly load MCP config
+      '--mcp-config', path.join(os.homedir(), '.claude.json'),  // Explicitly load MCP config
     ];
 
     // Add system prompt if exists
@@ -3541,20 +4572,31 @@ ${(() => {
     // Add the user message (with history if available)
     args.push(fullMessage);
 
-    // Spawn Claude process with explicit environment
+    const claudePath = findClaudeBinary(userSettings.claudeCodePath);
+    if (!claudePath) {
+      return { success: false, error: 'Claude Code CLI not found' };
+    }
+
+    // Spawn Claude process with explicit environment. Apps launched from the
+    // Dock or a desktop entry don't always get the user's login environment.
     console.log('[Claude] Spawning with args:', args);
+    const userInfo = os.userInfo();
     const env: any = {
       ...process.env,
-      HOME: '/Users/tommykeeley',
-      USER: 'tommykeeley',
-      SHELL: '/bin/zsh',
+      HOME: os.homedir(),
+      USER: userInfo.username,
     };
+    if (process.platform !== 'win32') {
+      env.SHELL = process.env.SHELL || userInfo.shell || '/bin/sh';
+    }
     // Remove CLAUDECODE to allow nested sessions
     delete env.CLAUDECODE;
 
-    const proc = spawn('/Users/tommykeeley/.local/bin/claude', args, {
+    const claude = getClaudeCommand(claudePath, args);
+    const proc = spawn(claude.command, claude.args, {
       cwd: folderPath,
-      env: env
+      env: env,
+      shell: claude.shell
     });
 
     // Close stdin immediately - we're not sending more input
@@ -3617,14 +4659,21 @@ ipcMain.handle('strategize-reset', async () => {
       return { success: false, error: 'No folder path set' };
     }
 
+    const claudePath = findClaudeBinary((store.get('userSettings', {}) as any).claudeCodePath);
+    if (!claudePath) {
+      return { success: false, error: 'Claude Code CLI not found' };
+    }
+
     // Run Claude with /clear command to reset conversation
-    const proc = spawn('/Users/tommykeeley/.local/bin/claude', [
+    const claude = getClaudeCommand(claudePath, [
       '--print',
       '--dangerously-skip-permissions',
       '/clear'
-    ], {
+    ]);
+    const proc = spawn(claude.command, claude.args, {
       cwd: folderPath,
-      env: { ...process.env }
+      env: { ...process.env },
+      shell: claude.shell
     });
 
     proc.on('exit', () => {
@@ -3794,38 +4843,15 @@ ipcMain.handle('add-mcp-server', async (_event, name: string, type: 'http' | 'st
     // Get user settings for Claude CLI path
     const userSettings = store.get('userSettings', {}) as any;
 
-    // Detect Claude CLI path
-    let claudePath = '/Users/tommykeeley/.local/bin/claude';
-    const possiblePaths = [
-      path.join(os.homedir(), '.local', 'bin', 'claude'),
-      '/usr/local/bin/claude',
-      '/opt/homebrew/bin/claude',
-    ];
-
-    if (userSettings.claudeCodePath) {
-      possiblePaths.unshift(userSettings.claudeCodePath);
-    }
-
-    let foundClaude = false;
-    for (const checkPath of possiblePaths) {
-      try {
-        if (fs.existsSync(checkPath)) {
-          claudePath = checkPath;
-          foundClaude = true;
-          console.log('[MCP] Found Claude CLI at:', claudePath);
-          break;
-        }
-      } catch (e) {
-        // Continue checking
-      }
-    }
+    const claudePath = findClaudeBinary(userSettings.claudeCodePath);
 
-    if (!foundClaude) {
+    if (!claudePath) {
       return {
         success: false,
         error: 'Claude Code CLI not found. Please install it from https://docs.anthropic.com/en/docs/agents/claude-code'
       };
     }
+    console.log('[MCP] Found Claude CLI at:', claudePath);
 
     // Build command based on transport type
     // Following Amplitude docs: claude mcp add -t http -s user Amplitude "https://mcp.amplitude.com/mcp"
@@ -3869,6 +4895,14 @@ ipcMain.handle('add-mcp-server', async (_event, name: string, type: 'http' | 'st
         });
       }
 
+      // The PM-OS server loads better-sqlite3, which is built against Electron's ABI,
+      // so run it with Electron's own Node runtime instead of the system `node`.
+      // Pass the data directory too, so it finds the same config.json and tasks.db
+      // even when Claude runs with a different environment.
+      if (name === 'PM-OS') {
+        args.push('-e', 'ELECTRON_RUN_AS_NODE=1', '-e', `${DATA_DIR_ENV}=${getDataDir()}`);
+      }
+
       args.push('-s', 'user', name, '--');
 
       // Special handling for PM-OS MCP server
@@ -3877,7 +4911,7 @@ ipcMain.handle('add-mcp-server', async (_event, name: string, type: 'http' | 'st
         const mcpServerPath = app.isPackaged
           ? path.join(process.resourcesPath, 'app.asar.unpacked', 'dist-electron', 'pm-os-mcp-server.cjs')
           : path.join(__dirname, 'pm-os-mcp-server.cjs');
-        args.push('node', mcpServerPath);
+        args.push(process.execPath, mcpServerPath);
       } else if (name === 'Google Calendar' || name === 'Google Slides' || name === 'Google Docs') {
         // Use local Google MCP servers
         const commandParts = urlOrCommand.split(' ');
@@ -3898,9 +4932,11 @@ ipcMain.handle('add-mcp-server', async (_event, name: string, type: 'http' | 'st
     return new Promise((resolve) => {
       const spawnEnv = { ...process.env };
       delete spawnEnv.CLAUDECODE;
-      const addProcess = spawn(claudePath, args, {
+      const claude = getClaudeCommand(claudePath, args);
+      const addProcess = spawn(claude.command, claude.args, {
         cwd: strategizeFolderPath, // Run in project directory
-        env: spawnEnv
+        env: spawnEnv,
+        shell: claude.shell
       });
 
       let output = '';
@@ -3977,32 +5013,9 @@ ipcMain.handle('remove-mcp-server', async (_event, name: string) => {
     // Get user settings for Claude CLI path
     const userSettings = store.get('userSettings', {}) as any;
 
-    // Detect Claude CLI path
-    let claudePath = '/Users/tommykeeley/.local/bin/claude';
-    const possiblePaths = [
-      path.join(os.homedir(), '.local', 'bin', 'claude'),
-      '/usr/local/bin/claude',
-      '/opt/homebrew/bin/claude',
-    ];
-
-    if (userSettings.claudeCodePath) {
-      possiblePaths.unshift(userSettings.claudeCodePath);
-    }
-
-    let foundClaude = false;
-    for (const checkPath of possiblePaths) {
-      try {
-        if (fs.existsSync(checkPath)) {
-          claudePath = checkPath;
-          foundClaude = true;
-          break;
-        }
-      } catch (e) {
-        // Continue checking
-      }
-    }
+    const claudePath = findClaudeBinary(userSettings.claudeCodePath);
 
-    if (!foundClaude) {
+    if (!claudePath) {
       return { success: false, error: 'Claude Code CLI not found' };
     }
 
@@ -4011,9 +5024,11 @@ ipcMain.handle('remove-mcp-server', async (_event, name: string) => {
     console.log('[MCP] Running command in', strategizeFolderPath, ':', claudePath, args.join(' '));
 
     return new Promise((resolve) => {
-      const removeProcess = spawn(claudePath, args, {
+      const claude = getClaudeCommand(claudePath, args);
+      const removeProcess = spawn(claude.command, claude.args, {
         cwd: strategizeFolderPath,
-        env: { ...process.env }
+        env: { ...process.env },
+        shell: claude.shell
       });
 
       let output = '';
@@ -0,0 +1,43 @@
+import Store from 'electron-store';
+import type { MeetingNotesRecord } from '../src/services/meeting-notes';
+
+const store = new Store();
+
+const MEETING_NOTES_KEY = 'meetingNotes';
+// Records only need to outlive the end-of-meeting prompt and a look back later
+const NOTES_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+function getStoredNotes(): Record<string, MeetingNotesRecord> {
+  return store.get(MEETING_NOTES_KEY, {}) as Record<string, MeetingNotesRecord>;
+}
+
+/**
+ * Captured (or dismissed) meeting notes, keyed by event ID
+ */
+export function getMeetingNotes(): Record<string, MeetingNotesRecord> {
+  return getStoredNotes();
+}
+
+export function saveMeetingNotes(record: MeetingNotesRecord) {
+  const now = Date.now();
+  const records = Object.fromEntries(
+    Object.entries(getStoredNotes()).filter(([, r]) => now - new Date(r.capturedAt).getTime() < NOTES_TTL_MS)
+  );
+  records[record.eventId] = record;
+  store.set(MEETING_NOTES_KEY, records);
+}
+
+/**
+ * Stop prompting for notes on a meeting without capturing any
+ */
+export function dismissMeetingNotes(eventId: string, eventTitle: string) {
+  if (getStoredNotes()[eventId]) return;
+  saveMeetingNotes({
+    eventId,
+    eventTitle,
+    capturedAt: new Date().toISOString(),
+    dismissed: true,
+    taskIds: [],
+    jiraIssues: [],
+  });
+}
@@ -0,0 +1,281 @@
+import Store from 'electron-store';
+import { format } from 'date-fns';
+import type { JiraService } from '../src/services/jira';
+import type { TaskStore } from './task-store';
+import {
+  extractDocLinks,
+  findTasksForMeeting,
+  type BriefIssue,
+  type BriefThread,
+  type MeetingBrief,
+  type MeetingPrepSettings,
+} from '../src/services/meeting-brief';
+
+const store = new Store();
+
+const MEETING_BRIEFS_KEY = 'meetingBriefs';
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+// Briefs are dropped this long after their meeting started
+const BRIEF_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+// Each attendee costs a Slack and a Jira lookup; big meetings only get the first few
+const MAX_ATTENDEES_LOOKED_UP = 8;
+const THREAD_LOOKBACK_DAYS = 14;
+const MAX_ISSUES = 10;
+const MAX_TASKS = 10;
+
+export interface PrepEvent {
+  id: string;
+  title: string;
+  start: string;
+  description?: string;
+  eventType?: string;
+  attendees?: { email: string; displayName?: string; responseStatus?: string; self?: boolean }[];
+}
+
+// Where brief contents come from, so the service doesn't depend on main's globals
+export interface MeetingPrepSources {
+  getEvents(): Promise<PrepEvent[]>;  // Today's calendar
+  getRecentThreads(emails: string[], lookbackDays: number): Promise<BriefThread[]>;
+  getJiraService(): Promise<JiraService>;
+  getSlackToken(): string | undefined;
+}
+
+function getStoredBriefs(): Record<string, MeetingBrief> {
+  return store.get(MEETING_BRIEFS_KEY, {}) as Record<string, MeetingBrief>;
+}
+
+function saveBrief(brief: MeetingBrief) {
+  const now = Date.now();
+  const briefs = Object.fromEntries(
+    Object.entries(getStoredBriefs()).filter(([, b]) => now - new Date(b.start).getTime() < BRIEF_TTL_MS)
+  );
+  briefs[brief.eventId] = brief;
+  store.set(MEETING_BRIEFS_KEY, briefs);
+}
+
+/**
+ * Briefs for recent and upcoming meetings, keyed by event ID
+ */
+export function getMeetingBriefs(): Record<string, MeetingBrief> {
+  return getStoredBriefs();
+}
+
+// Meetings with other people that the user hasn't declined
+function needsBrief(event: PrepEvent): boolean {
+  if (!event.start.includes('T')) return false;
+  if (event.eventType && event.eventType !== 'default') return false;
+  const self = event.attendees?.find(a => a.self);
+  if (self?.responseStatus === 'declined') return false;
+  return getOtherAttendees(event).length > 0;
+}
+
+function getOtherAttendees(event: PrepEvent) {
+  // Meeting rooms show up as attendees too
+  return (event.attendees || []).filter(a => !a.self && !a.email.endsWith('resource.calendar.google.com'));
+}
+
+/**
+ * Prepares a brief for each meeting shortly before it starts: who's coming,
+ * recent conversations with them, their open Jira issues, docs linked from
+ * the invite and the user's open tasks for the project. Optionally DMs it
+ * to the user on Slack.
+ */
+export class MeetingPrepService {
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private taskStore: TaskStore,
+    private sources: MeetingPrepSources,
+    private getSettings: () => MeetingPrepSettings,
+    private onBriefReady: (brief: MeetingBrief) => void
+  ) {}
+
+  start() {
+    this.stop();
+    if (!this.getSettings().enabled) {
+      console.log('[MeetingPrep] Disabled in settings');
+      return;
+    }
+
+    this.checkUpcoming();
+    this.timer = setInterval(() => this.checkUpcoming(), CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Brief every meeting starting within the lead time that doesn't have one
+   * yet. Safe to call at any time, e.g. on wake from sleep.
+   */
+  async checkUpcoming() {
+    const settings = this.getSettings();
+    if (this.checking || !settings.enabled) return;
+    this.checking = true;
+
+    try {
+      const now = Date.now();
+      const briefs = getStoredBriefs();
+      const events = await this.sources.getEvents();
+      const due = events.filter(event => {
+        const minutesUntil = (new Date(event.start).getTime() - now) / 60000;
+        return minutesUntil > 0 && minutesUntil <= settings.leadMinutes && needsBrief(event) && !briefs[event.id];
+      });
+
+      for (const event of due) {
+        const brief = await this.generateBrief(event);
+        if (settings.slackDm) {
+          brief.sentToSlack = await this.sendSlackDm(brief);
+          saveBrief(brief);
+        }
+        this.onBriefReady(brief);
+      }
+    } catch (error) {
+      console.error('[MeetingPrep] Check failed:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Build and store the brief for one meeting. Each section is best-effort:
+   * a source that isn't connected just leaves its section empty.
+   */
+  async generateBrief(event: PrepEvent): Promise<MeetingBrief> {
+    const attendees = getOtherAttendees(event);
+    const lookedUp = attendees.slice(0, MAX_ATTENDEES_LOOKED_UP).map(a => a.email);
+
+    const [threads, issues] = await Promise.all([
+      this.sources.getRecentThreads(lookedUp, THREAD_LOOKBACK_DAYS).catch(error => {
+        console.error('[MeetingPrep] Failed to load recent threads:', error);
+        return [];
+      }),
+      this.getOpenIssues(lookedUp).catch(error => {
+        console.error('[MeetingPrep] Failed to load Jira issues:', error.message);
+        return [];
+      }),
+    ]);
+
+    const tasks = findTasksForMeeting(this.taskStore.query({ completed: false }), event).slice(0, MAX_TASKS);
+
+    const brief: MeetingBrief = {
+      eventId: event.id,
+      eventTitle: event.title,
+      start: event.start,
+      generatedAt: new Date().toISOString(),
+      attendees: attendees.map(a => ({ email: a.email, name: a.displayName, responseStatus: a.responseStatus })),
+      threads,
+      issues,
+      docs: extractDocLinks(event.description),
+      tasks: tasks.map(task => ({ id: task.id, title: task.title, priority: task.priority, dueDate: task.dueDate })),
+    };
+    saveBrief(brief);
+    console.log(`[MeetingPrep] Brief ready for "${event.title}"`);
+    return brief;
+  }
+
+  private async getOpenIssues(emails: string[]): Promise<BriefIssue[]> {
+    if (emails.length === 0) return [];
+    const jira = await this.sources.getJiraService();
+    const userSettings = store.get('userSettings', {}) as any;
+
+    const users = await Promise.all(emails.map(email => jira.searchUserByEmail(email, userSettings.jiraDefaultProject || '')));
+    const accountIds = users.filter(user => user !== null).map(user => `"${user!.accountId}"`);
+    if (accountIds.length === 0) return [];
+
+    const issues = await jira.searchIssues(
+      `assignee in (${accountIds.join(', ')}) AND statusCategory != Done ORDER BY updated DESC`,
+      MAX_ISSUES
+    );
+    return issues.map(issue => ({
+      key: issue.key,
+      summary: issue.fields.summary,
+      status: issue.fields.status.name,
+      assignee: issue.fields.assignee?.displayName || 'Unassigned',
+      url: jira.getIssueUrl(issue.key),
+    }));
+  }
+
+  private async sendSlackDm(brief: MeetingBrief): Promise<boolean> {
+    const token = this.sources.getSlackToken();
+    const userSettings = store.get('userSettings', {}) as any;
+    if (!token || !userSettings.email) {
+      console.log('[MeetingPrep] Slack token or user email missing, not sending DM');
+      return false;
+    }
+
+    try {
+      const userResponse = await fetch(
+        `https://slack.com/api/users.lookupByEmail?email=${encodeURIComponent(userSettings.email)}`,
+        { headers: { 'Authorization': `Bearer ${token}` } }
+      );
+      const userData = await userResponse.json();
+      if (!userData.ok || !userData.user) {
+        console.log(`[MeetingPrep] Could not find Slack user for ${userSettings.email}`);
+        return false;
+      }
+
+      const response = await fetch('https://slack.com/api/chat.postMessage', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          channel: userData.user.id,
+          text: formatBriefForSlack(brief),
+          unfurl_links: false,
+        }),
+      });
+      const data = await response.json();
+      if (!data.ok) {
+        console.error('[MeetingPrep] Failed to send Slack DM:', data.error);
+      }
+      return !!data.ok;
+    } catch (error) {
+      console.error('[MeetingPrep] Error sending Slack DM:', error);
+      return false;
+    }
+  }
+}
+
+function slackLink(url: string | undefined, text: string): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return url ? `<${url}|${escaped.replace(/\|/g, '/')}>` : escaped;
+}
+
+/**
+ * The brief as Slack mrkdwn
+ */
+export function formatBriefForSlack(brief: MeetingBrief): string {
+  const lines = [`*📋 Prep for ${brief.eventTitle}* (${format(new Date(brief.start), 'h:mm a')})`];
+
+  lines.push('', '*Attendees*', brief.attendees.map(a => a.name || a.email).join(', '));
+
+  if (brief.threads.length > 0) {
+    lines.push('', '*Recent conversations*');
+    brief.threads.forEach(thread => {
+      lines.push(`• ${thread.source === 'email' ? '✉️' : '💬'} ${slackLink(thread.url, thread.title)} (${thread.from})`);
+    });
+  }
+  if (brief.issues.length > 0) {
+    lines.push('', '*Their open Jira issues*');
+    brief.issues.forEach(issue => {
+      lines.push(`• ${slackLink(issue.url, issue.key)} ${issue.summary} (${issue.status}, ${issue.assignee})`);
+    });
+  }
+  if (brief.docs.length > 0) {
+    lines.push('', '*Docs*');
+    brief.docs.forEach(doc => lines.push(`• ${slackLink(doc.url, doc.title)}`));
+  }
+  if (brief.tasks.length > 0) {
+    lines.push('', '*Your open tasks*');
+    brief.tasks.forEach(task => lines.push(`• ${task.title}`));
+  }
+  return lines.join('\n');
+}
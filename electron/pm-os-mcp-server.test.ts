@@ -0,0 +1,159 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ReadResourceResultSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { Task } from '../src/types/task';
+import { TaskStore } from './task-store';
+
+// Talks to the bundled server (npm run build:mcp, run by pretest) the way Claude Code does:
+// over stdio, through the SDK client, against a throwaway data directory.
+const SERVER_PATH = path.resolve(__dirname, '../dist-electron/pm-os-mcp-server.cjs');
+
+function makeTask(id: string, title: string, changes: Partial<Task> = {}): Task {
+  return { id, title, completed: false, source: 'manual', priority: 'medium', createdAt: new Date().toISOString(), ...changes };
+}
+
+function textOf(result: { contents: Array<{ text: string } | { blob: string }> }): string {
+  const content = result.contents[0];
+  return 'text' in content ? content.text : '';
+}
+
+async function expectMcpError(promise: Promise<unknown>, code: number) {
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('PM-OS MCP server', () => {
+  let dataDir: string;
+  let store: TaskStore;
+  let client: Client;
+
+  beforeAll(async () => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-os-mcp-test-'));
+    const vaultPath = path.join(dataDir, 'vault');
+    fs.mkdirSync(path.join(vaultPath, 'People'), { recursive: true });
+    fs.writeFileSync(path.join(vaultPath, 'People', 'Alex.md'), '# Alex\n\nTalk to Alex about the roadmap.');
+    fs.writeFileSync(path.join(dataDir, 'config.json'), JSON.stringify({ userSettings: { obsidianVaultPath: vaultPath } }));
+
+    store = new TaskStore(path.join(dataDir, 'tasks.db'));
+    store.insert(makeTask('task-open', 'Review roadmap with Alex'), 'last');
+    store.insert(makeTask('task-done', 'Send launch notes', { completed: true }), 'last');
+
+    client = new Client({ name: 'pm-os-test', version: '1.0.0' });
+    await client.connect(new StdioClientTransport({
+      command: process.execPath,
+      args: [SERVER_PATH],
+      env: {
+        ...Object.fromEntries(Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined)),
+        PM_OS_DATA_DIR: dataDir,
+        HOME: dataDir,
+      },
+      stderr: 'ignore',
+    }));
+  }, 30000);
+
+  afterAll(async () => {
+    await client?.close();
+    store?.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('initializes with tools, resources and prompts', () => {
+    expect(client.getServerVersion()?.name).toBeTruthy();
+    expect(client.getServerCapabilities()).toMatchObject({
+      tools: {},
+      resources: { subscribe: true, listChanged: true },
+      prompts: {},
+    });
+  });
+
+  it('answers ping', async () => {
+    await expect(client.ping()).resolves.toEqual({});
+  });
+
+  it('lists the fixed resources and Obsidian notes', async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map(resource => resource.uri);
+    expect(uris).toEqual(expect.arrayContaining([
+      'pmos://agenda/today',
+      'pmos://tasks/open',
+      'pmos://digest/recent',
+      `pmos://obsidian/notes/${encodeURIComponent('People/Alex')}`,
+    ]));
+  });
+
+  it('reads open tasks and notes', async () => {
+    const tasks = await client.readResource({ uri: 'pmos://tasks/open' });
+    const open = JSON.parse(textOf(tasks)) as Task[];
+    expect(open.map(task => task.id)).toEqual(['task-open']);
+
+    const note = await client.readResource({ uri: `pmos://obsidian/notes/${encodeURIComponent('People/Alex')}` });
+    expect(note.contents[0]).toMatchObject({ mimeType: 'text/markdown' });
+    expect(textOf(note)).toContain('roadmap');
+  });
+
+  it('returns -32002 for unknown resources and notes outside the vault', async () => {
+    await expectMcpError(client.readResource({ uri: 'pmos://nope' }), -32002);
+    await expectMcpError(client.readResource({ uri: `pmos://obsidian/notes/${encodeURIComponent('../config')}` }), -32002);
+  });
+
+  it('returns -32602 for missing params', async () => {
+    await expectMcpError(client.request({ method: 'resources/read', params: {} as any }, ReadResourceResultSchema), -32602);
+    await expectMcpError(client.getPrompt({ name: 'one_on_one_prep', arguments: {} }), -32602);
+    await expectMcpError(client.getPrompt({ name: 'nope' }), -32602);
+  });
+
+  it('notifies subscribers when a resource changes', async () => {
+    const updated = new Promise<string>(resolve => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri));
+    });
+
+    await client.subscribeResource({ uri: 'pmos://tasks/open' });
+    store.insert(makeTask('task-new', 'Write the PRD'), 'last');
+
+    await expect(updated).resolves.toBe('pmos://tasks/open');
+    await client.unsubscribeResource({ uri: 'pmos://tasks/open' });
+  }, 20000);
+
+  it('keeps tasks created at the same moment apart', async () => {
+    const titles = ['Draft PRD', 'Book design review', 'Send recap'];
+    await Promise.all(titles.map(title => client.callTool({ name: 'create_task', arguments: { title } })));
+
+    const created = store.getAll().filter(task => titles.includes(task.title));
+    expect(created.map(task => task.title).sort()).toEqual([...titles].sort());
+    store.delete(created.map(task => task.id));
+  });
+
+  it('creates the next instance when it completes a recurring task', async () => {
+    store.insert(makeTask('task-weekly', 'Weekly metrics review', { deadline: '2026-03-02', recurrence: { frequency: 'weekly', interval: 1 } }), 'last');
+
+    const result = await client.callTool({ name: 'complete_tasks', arguments: { ids: ['task-weekly'] } });
+    expect(JSON.stringify(result.content)).toContain('Next occurrences created');
+
+    const next = store.getAll().find(task => task.recurrenceSeriesId === 'task-weekly');
+    expect(next).toMatchObject({ title: 'Weekly metrics review', deadline: '2026-03-09', completed: false });
+    store.delete(['task-weekly', next!.id]);
+  });
+
+  it('lists and fills in prompts', async () => {
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(prompt => prompt.name)).toEqual(['weekly_status_update', 'one_on_one_prep', 'plan_my_day']);
+    expect(prompts.find(prompt => prompt.name === 'one_on_one_prep')?.arguments).toEqual([
+      expect.objectContaining({ name: 'person', required: true }),
+    ]);
+
+    const prep = await client.getPrompt({ name: 'one_on_one_prep', arguments: { person: 'Alex' } });
+    const text = prep.messages.map(message => message.content.type === 'text' ? message.content.text : '').join('\n');
+    expect(text).toContain('Review roadmap with Alex');
+    expect(text).toContain('Obsidian notes that mention Alex (1)');
+  });
+
+  it('includes tasks completed in the app in the weekly status', async () => {
+    const status = await client.getPrompt({ name: 'weekly_status_update' });
+    const text = status.messages.map(message => message.content.type === 'text' ? message.content.text : '').join('\n');
+    expect(text).toContain('Tasks completed in the last 7 days (1)');
+    expect(text).toContain('Send launch notes');
+  });
+});
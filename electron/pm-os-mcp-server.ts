@@ -2,34 +2,42 @@
 
 /**
  * PM-OS MCP Server
- * Exposes PM-OS capabilities (tasks, Jira, etc.) as MCP tools for Claude Code
+ * Exposes PM-OS capabilities (tasks, Jira, etc.) as MCP tools for Claude Code,
+ * plus read-only resources (agenda, open tasks, digest, Obsidian notes) and
+ * canned PM workflow prompts
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import * as https from 'https';
 import { google } from 'googleapis';
+import { createHash, randomUUID } from 'crypto';
+import type { LinkedItemType, Task } from '../src/types/task';
+import { getConfigPath, getLogPath, getTaskDbPath } from '../src/utils/paths';
+import { getDescendantIds } from '../src/utils/subtasks';
+import { saveTaskEdit } from './task-completion';
+import { TaskStore } from './task-store';
 
 // Logging to file for debugging
-const LOG_FILE = path.join(os.homedir(), 'pm-os-mcp-debug.log');
+const LOG_FILE = getLogPath('mcp-server.log');
 function logToFile(message: string) {
   const timestamp = new Date().toISOString();
   fs.appendFileSync(LOG_FILE, `[${timestamp}] ${message}\n`);
 }
 
-// Override console.log to also write to file
-const originalLog = console.log;
+// Override console.log to write to file. stdout carries the JSON-RPC messages,
+// so anything logged (e.g. TaskStore migrations) is echoed to stderr instead.
 console.log = function(...args: any[]) {
   const message = args.join(' ');
-  originalLog.apply(console, args);
+  console.error(...args);
   logToFile(message);
 };
 
 // Path to electron-store config file
-const CONFIG_PATH = path.join(os.homedir(), 'Library', 'Application Support', 'pm-os', 'config.json');
+const CONFIG_PATH = getConfigPath();
 
-// Helper functions to read/write store data
+// Read-only: config.json belongs to the app, which would overwrite concurrent edits.
+// Writes go through the task database instead (see addDoc).
 function readStore(): any {
   try {
     if (fs.existsSync(CONFIG_PATH)) {
@@ -41,18 +49,290 @@ function readStore(): any {
   return {};
 }
 
-function writeStore(data: any): void {
-  try {
-    const dir = path.dirname(CONFIG_PATH);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+// Tasks live in SQLite next to config.json. The server goes through the same
+// TaskStore as the app, so the schema, migrations and task_events log stay in
+// one place; changes made here are logged with the 'mcp' actor.
+const TASK_DB_PATH = getTaskDbPath();
+
+let taskStore: TaskStore | null = null;
+
+function getTaskStore(): TaskStore {
+  if (taskStore) return taskStore;
+
+  if (!fs.existsSync(TASK_DB_PATH)) {
+    throw new Error('PM-OS task database not found. Open PM-OS once to set it up.');
+  }
+
+  taskStore = new TaskStore(TASK_DB_PATH);
+  return taskStore;
+}
+
+// Tags are given by label; reuse the color the label already has, gray for new labels
+function resolveTags(store: TaskStore, labels: string[]): Array<{ label: string; color: string }> {
+  const seen = new Set<string>();
+  return labels
+    .map(label => label.trim())
+    .filter(label => label && !seen.has(label.toLowerCase()) && seen.add(label.toLowerCase()))
+    .map(label => ({ label, color: store.getTagColor(label) || '#6b7280' }));
+}
+
+function requireTask(store: TaskStore, id: string): Task {
+  const task = store.get(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+  return task;
+}
+
+// One line per task, with the fields an agent needs to pick the right one
+function formatTaskLine(task: Task): string {
+  const details = [
+    task.priority && task.priority !== 'medium' ? `${task.priority} priority` : '',
+    task.deadline || task.dueDate ? `due ${task.deadline || task.dueDate}` : '',
+    task.source && task.source !== 'manual' ? `from ${task.source}` : '',
+    task.tags?.length ? `tags: ${task.tags.map(t => t.label).join(', ')}` : '',
+    task.linkedItems?.length ? `${task.linkedItems.length} linked` : '',
+  ].filter(Boolean);
+  return `${task.completed ? '✅' : '⬜'} ${task.title}${details.length ? ` [${details.join('; ')}]` : ''} (ID: ${task.id})`;
+}
+
+const LINKED_ITEM_TYPES = ['confluence', 'jira', 'slack', 'google-docs', 'google-slides', 'google-sheets', 'google-calendar', 'obsidian', 'figma', 'gmail', 'amplitude', 'other'];
+
+interface Doc {
+  id: string;
+  title: string;
+  url?: string;
+  content?: string;
+  tags?: Array<{ label: string; color: string }>;
+  createdAt: string;
+  updatedAt?: string;
+  source?: string;
+  pinned?: boolean;
+}
+
+interface DigestRun {
+  id: string;
+  ranAt: string;
+  status: string;
+  items: Array<{
+    messageId: string;
+    channelName: string;
+    userName: string;
+    text: string;
+    summary: string;
+    suggestedAction: string;
+    priority: number;
+    permalink?: string;
+    taskId?: string;
+  }>;
+}
+
+// Digests sent in the last `days` days, newest first, with the tasks created from their items
+function readDigestRuns(days: number): DigestRun[] {
+  const storeData = readStore();
+  const since = Date.now() - days * 24 * 60 * 60 * 1000;
+  const createdTasks = (storeData.digestState?.createdTasks || {}) as Record<string, string>;
+  return ((storeData.digestHistory || []) as DigestRun[])
+    .filter(run => run.status === 'sent' && new Date(run.ranAt).getTime() >= since)
+    .map(run => ({
+      ...run,
+      items: (run.items || []).map(item => ({ ...item, taskId: createdTasks[item.messageId] })),
+    }));
+}
+
+const OBSIDIAN_NOTE_URI_PREFIX = 'pmos://obsidian/notes/';
+
+interface ObsidianNoteFile {
+  id: string;          // Vault-relative path without .md, same as the app's note ids
+  title: string;
+  fullPath: string;
+  updatedAt: string;
+}
+
+function getObsidianVaultPath(): string {
+  const vaultPath = readStore().userSettings?.obsidianVaultPath;
+  if (!vaultPath || !fs.existsSync(vaultPath)) {
+    throw new Error('Obsidian vault is not configured. Set the vault path in PM-OS Settings.');
+  }
+  return vaultPath;
+}
+
+// Markdown files in the vault, newest first. Skips hidden folders like .obsidian.
+// Async so a large vault doesn't hold up stdin/stdout while it's walked.
+async function walkObsidianVault(vaultPath: string): Promise<ObsidianNoteFile[]> {
+  const notes: ObsidianNoteFile[] = [];
+  const readDir = async (dirPath: string) => {
+    for (const entry of await fs.promises.readdir(dirPath, { withFileTypes: true })) {
+      const fullPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.')) await readDir(fullPath);
+      } else if (entry.name.endsWith('.md')) {
+        notes.push({
+          id: path.relative(vaultPath, fullPath).replace(/\.md$/, '').replace(/\\/g, '/'),
+          title: entry.name.replace(/\.md$/, ''),
+          fullPath,
+          updatedAt: (await fs.promises.stat(fullPath)).mtime.toISOString(),
+        });
+      }
     }
-    fs.writeFileSync(CONFIG_PATH, JSON.stringify(data, null, 2), 'utf-8');
-  } catch (error) {
-    console.error('[PM-OS MCP] Error writing store:', error);
+  };
+  await readDir(vaultPath);
+  return notes.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+// Without a watcher (recursive fs.watch needs macOS, Windows or Node 20+ on Linux) the list is re-walked at most this often
+const UNWATCHED_NOTE_CACHE_MS = 60 * 1000;
+
+// The vault's note list, walked once and kept until fs.watch reports a change
+class ObsidianNoteIndex {
+  private vaultPath: string | null = null;
+  private notes: ObsidianNoteFile[] | null = null;
+  private loadedAt = 0;
+  private generation = 0;
+  private watcher: fs.FSWatcher | null = null;
+  private loading: Promise<ObsidianNoteFile[]> | null = null;
+
+  async list(vaultPath: string): Promise<ObsidianNoteFile[]> {
+    if (vaultPath !== this.vaultPath) {
+      this.watch(vaultPath);
+    }
+    if (this.notes && (this.watcher || Date.now() - this.loadedAt < UNWATCHED_NOTE_CACHE_MS)) {
+      return this.notes;
+    }
+
+    if (!this.loading) {
+      const generation = this.generation;
+      this.loading = walkObsidianVault(vaultPath)
+        .then(notes => {
+          // A change that landed mid-walk leaves the cache empty so the next call walks again
+          if (generation === this.generation) {
+            this.notes = notes;
+            this.loadedAt = Date.now();
+          }
+          return notes;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private invalidate() {
+    this.generation++;
+    this.notes = null;
+  }
+
+  private watch(vaultPath: string) {
+    this.watcher?.close();
+    this.watcher = null;
+    this.vaultPath = vaultPath;
+    this.invalidate();
+
+    try {
+      this.watcher = fs.watch(vaultPath, { recursive: true, persistent: false }, (_event, filename) => {
+        // Obsidian rewrites .obsidian/workspace.json constantly; hidden folders aren't listed anyway
+        if (!filename || !filename.toString().split(/[\\/]/).some(part => part.startsWith('.'))) {
+          this.invalidate();
+        }
+      });
+      this.watcher.on('error', () => {
+        this.watcher?.close();
+        this.watcher = null;
+        this.invalidate();
+      });
+    } catch (error: any) {
+      console.error('[PM-OS MCP] Not watching the Obsidian vault, re-reading it periodically instead:', error.message);
+    }
+  }
+}
+
+const obsidianNotes = new ObsidianNoteIndex();
+
+// Resolve a note id to its file, refusing ids that point outside the vault
+function resolveObsidianNotePath(vaultPath: string, noteId: string): string {
+  const fullPath = path.resolve(vaultPath, `${noteId}.md`);
+  const relative = path.relative(vaultPath, fullPath);
+  if (relative.startsWith('..') || path.isAbsolute(relative) || !fs.existsSync(fullPath)) {
+    throw resourceNotFound(`${OBSIDIAN_NOTE_URI_PREFIX}${encodeURIComponent(noteId)}`);
   }
+  return fullPath;
 }
 
+// Local calendar date as YYYY-MM-DD
+function localDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+// JSON-RPC error codes (https://www.jsonrpc.org/specification#error_object), plus MCP's resource-not-found
+const PARSE_ERROR = -32700;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+const RESOURCE_NOT_FOUND = -32002;
+
+// Thrown to answer a request with a specific JSON-RPC error instead of INTERNAL_ERROR
+class McpError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+  }
+}
+
+function resourceNotFound(uri: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+}
+
+// Notes beyond this are still readable through the URI template, just not listed
+const MAX_LISTED_OBSIDIAN_NOTES = 200;
+
+const RESOURCES = [
+  {
+    uri: 'pmos://agenda/today',
+    name: "Today's agenda",
+    description: "Today's Google Calendar events and the PM-OS tasks due today",
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'pmos://tasks/open',
+    name: 'Open tasks',
+    description: 'All incomplete PM-OS tasks, in list order',
+    mimeType: 'application/json',
+  },
+  {
+    uri: 'pmos://digest/recent',
+    name: 'Slack digest items',
+    description: 'Items from the Slack digests sent in the last 7 days',
+    mimeType: 'application/json',
+  },
+];
+
+// Subscriptions are checked by re-reading the resource and comparing a hash.
+// The agenda comes from the Google API, so it is checked far less often.
+const RESOURCE_POLL_INTERVAL_MS = 10 * 1000;
+const AGENDA_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+const PROMPTS = [
+  {
+    name: 'weekly_status_update',
+    description: 'Draft a weekly status update from what got done, what is open and what came up in Slack',
+    arguments: [
+      { name: 'audience', description: 'Who the update is for, e.g. "my manager" or "the exec team"', required: false },
+    ],
+  },
+  {
+    name: 'one_on_one_prep',
+    description: 'Prepare for a 1:1 with someone: shared tasks, recent Slack threads and notes that mention them',
+    arguments: [
+      { name: 'person', description: 'Name of the person you are meeting', required: true },
+    ],
+  },
+  {
+    name: 'plan_my_day',
+    description: "Plan today around the calendar and the open task list",
+    arguments: [],
+  },
+];
+
 // Simple fetch wrapper using https module
 function httpRequest(url: string, options: any): Promise<{ ok: boolean; status: number; json: () => Promise<any>; text: () => Promise<string> }> {
   return new Promise((resolve, reject) => {
@@ -91,22 +371,14 @@ function httpRequest(url: string, options: any): Promise<{ ok: boolean; status:
   });
 }
 
-interface Task {
-  id: string;
-  title: string;
-  completed: boolean;
-  createdAt: string;
-  updatedAt?: string;
-  completedAt?: string;
-  source?: string;
-  sourceId?: string;
-  priority?: 'low' | 'medium' | 'high';
-  dueDate?: string;
-  deadline?: string;
-}
-
 // MCP Protocol Handler
 class PMOSMCPServer {
+  private subscriptions = new Map<string, string | null>(); // uri -> content hash when last checked
+  private lastAgendaCheck = 0;
+  private obsidianNoteIds: string | null | undefined; // undefined until the first poll
+  private resourcePoller: NodeJS.Timeout | null = null;
+  private polling = false;
+
   constructor() {
     this.setupStdioHandler();
   }
@@ -127,7 +399,7 @@ class PMOSMCPServer {
             const message = JSON.parse(line);
             this.handleMessage(message);
           } catch (error) {
-            this.sendError('parse_error', 'Invalid JSON');
+            this.sendError(PARSE_ERROR, 'Invalid JSON');
           }
         }
       }
@@ -139,6 +411,12 @@ class PMOSMCPServer {
   private async handleMessage(message: any) {
     const { method, params, id } = message;
 
+    // Notifications (no id) never get a response; the only ones clients send us
+    // are informational, like notifications/initialized
+    if (id === undefined || id === null) {
+      return;
+    }
+
     try {
       switch (method) {
         case 'initialize':
@@ -146,6 +424,8 @@ class PMOSMCPServer {
             protocolVersion: '2024-11-05',
             capabilities: {
               tools: {},
+              resources: { subscribe: true, listChanged: true },
+              prompts: {},
             },
             serverInfo: {
               name: 'pm-os-mcp-server',
@@ -176,13 +456,30 @@ class PMOSMCPServer {
                       type: 'string',
                       description: 'Deadline date in YYYY-MM-DD format (optional)',
                     },
+                    parentId: {
+                      type: 'string',
+                      description: 'ID of the parent task to create this as a subtask of (optional)',
+                    },
+                    tags: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Tag labels (optional). Existing labels keep their color.',
+                    },
+                    context: {
+                      type: 'string',
+                      description: 'Short note on where the task came from (optional)',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Longer task description (optional)',
+                    },
                   },
                   required: ['title'],
                 },
               },
               {
                 name: 'list_tasks',
-                description: 'List all tasks in PM-OS',
+                description: 'List all tasks in PM-OS. Subtasks are shown indented under their parent with a done/total progress count. Blocked tasks are marked and should not be recommended as next actions.',
                 inputSchema: {
                   type: 'object',
                   properties: {
@@ -211,10 +508,245 @@ class PMOSMCPServer {
                       type: 'string',
                       description: 'Update task title',
                     },
+                    priority: {
+                      type: 'string',
+                      enum: ['low', 'medium', 'high'],
+                      description: 'Update task priority',
+                    },
+                    deadline: {
+                      type: 'string',
+                      description: 'Deadline in YYYY-MM-DD format; empty string clears it',
+                    },
+                    tags: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Replace the task\'s tags with these labels',
+                    },
+                    context: {
+                      type: 'string',
+                      description: 'Update the short context note',
+                    },
+                    description: {
+                      type: 'string',
+                      description: 'Update the longer description',
+                    },
                   },
                   required: ['id'],
                 },
               },
+              {
+                name: 'search_tasks',
+                description: 'Search and filter PM-OS tasks by text, tag, due date, source, priority and completion. All filters are optional and combined.',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    query: {
+                      type: 'string',
+                      description: 'Text to find in the title, context or description (case-insensitive)',
+                    },
+                    tag: {
+                      type: 'string',
+                      description: 'Tag label (case-insensitive)',
+                    },
+                    source: {
+                      type: 'string',
+                      description: 'Where the task came from: manual, calendar, email, slack, jira, strategize, chrome-extension',
+                    },
+                    priority: {
+                      type: 'string',
+                      enum: ['low', 'medium', 'high'],
+                    },
+                    dueBefore: {
+                      type: 'string',
+                      description: 'Due on or before this date (YYYY-MM-DD)',
+                    },
+                    dueAfter: {
+                      type: 'string',
+                      description: 'Due on or after this date (YYYY-MM-DD)',
+                    },
+                    completed: {
+                      type: 'boolean',
+                      description: 'Filter by completion status',
+                    },
+                    limit: {
+                      type: 'number',
+                      description: 'Maximum number of tasks to return (default: 50)',
+                    },
+                  },
+                },
+              },
+              {
+                name: 'get_task',
+                description: 'Get one task with all its details: description, context, tags, linked items, subtasks and blockers',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    id: {
+                      type: 'string',
+                      description: 'Task ID',
+                    },
+                  },
+                  required: ['id'],
+                },
+              },
+              {
+                name: 'complete_tasks',
+                description: 'Mark several tasks completed (or incomplete) at once',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    ids: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Task IDs',
+                    },
+                    completed: {
+                      type: 'boolean',
+                      description: 'false to reopen the tasks instead (default: true)',
+                    },
+                  },
+                  required: ['ids'],
+                },
+              },
+              {
+                name: 'delete_tasks',
+                description: 'Delete several tasks at once. Deleted tasks can be restored from PM-OS task history.',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    ids: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Task IDs',
+                    },
+                    mode: {
+                      type: 'string',
+                      enum: ['cascade', 'promote'],
+                      description: 'cascade also deletes subtasks; promote keeps them as top-level tasks (default: cascade)',
+                    },
+                  },
+                  required: ['ids'],
+                },
+              },
+              {
+                name: 'add_linked_item',
+                description: 'Link a doc, ticket, thread or other URL to a task',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    taskId: {
+                      type: 'string',
+                      description: 'Task ID',
+                    },
+                    type: {
+                      type: 'string',
+                      enum: LINKED_ITEM_TYPES,
+                      description: 'Kind of item (use other if none fit)',
+                    },
+                    title: {
+                      type: 'string',
+                      description: 'Display title',
+                    },
+                    url: {
+                      type: 'string',
+                      description: 'Link URL (optional)',
+                    },
+                  },
+                  required: ['taskId', 'type', 'title'],
+                },
+              },
+              {
+                name: 'remove_linked_item',
+                description: 'Remove a linked item from a task',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    taskId: {
+                      type: 'string',
+                      description: 'Task ID',
+                    },
+                    linkedItemId: {
+                      type: 'string',
+                      description: 'Linked item ID, as shown by get_task',
+                    },
+                  },
+                  required: ['taskId', 'linkedItemId'],
+                },
+              },
+              {
+                name: 'list_docs',
+                description: 'List docs saved in PM-OS. Pinned docs with a URL are the user\'s Quick Access links.',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    query: {
+                      type: 'string',
+                      description: 'Text to find in the title or URL (optional)',
+                    },
+                    tag: {
+                      type: 'string',
+                      description: 'Tag label (optional)',
+                    },
+                    pinned: {
+                      type: 'boolean',
+                      description: 'Only Quick Access (pinned) docs (optional)',
+                    },
+                  },
+                },
+              },
+              {
+                name: 'add_doc',
+                description: 'Save a doc link in PM-OS, optionally pinned to Quick Access',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    title: {
+                      type: 'string',
+                      description: 'Doc title',
+                    },
+                    url: {
+                      type: 'string',
+                      description: 'Doc URL',
+                    },
+                    tags: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Tag labels (optional)',
+                    },
+                    pinned: {
+                      type: 'boolean',
+                      description: 'Pin to Quick Access (optional)',
+                    },
+                  },
+                  required: ['title', 'url'],
+                },
+              },
+              {
+                name: 'list_suggestions',
+                description: 'Current Smart Suggestions: possible tasks PM-OS found in the user\'s calendar, email and Slack, best first. Dismissed suggestions are left out.',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    limit: {
+                      type: 'number',
+                      description: 'Maximum number of suggestions to return (default: 20)',
+                    },
+                  },
+                },
+              },
+              {
+                name: 'list_digest_items',
+                description: 'Slack messages surfaced by recent Slack daily digests, with the suggested action for each and any task created from it',
+                inputSchema: {
+                  type: 'object',
+                  properties: {
+                    days: {
+                      type: 'number',
+                      description: 'How many days back to look (default: 7)',
+                    },
+                  },
+                },
+              },
               {
                 name: 'create_jira_ticket',
                 description: 'Create a Jira ticket',
@@ -374,11 +906,313 @@ class PMOSMCPServer {
           this.sendResponse(id, result);
           break;
 
+        case 'resources/list':
+          this.sendResponse(id, { resources: await this.listResources() });
+          this.startResourcePolling();
+          break;
+
+        case 'resources/templates/list':
+          this.sendResponse(id, {
+            resourceTemplates: [
+              {
+                uriTemplate: `${OBSIDIAN_NOTE_URI_PREFIX}{noteId}`,
+                name: 'Obsidian note',
+                description: 'A note from the Obsidian vault, by vault-relative path without .md (URL-encoded)',
+                mimeType: 'text/markdown',
+              },
+            ],
+          });
+          break;
+
+        case 'resources/read':
+          if (!params?.uri) {
+            this.sendError(INVALID_PARAMS, 'Missing uri', id);
+            break;
+          }
+          this.sendResponse(id, { contents: [await this.readResource(params.uri)] });
+          break;
+
+        case 'resources/subscribe':
+          if (!params?.uri) {
+            this.sendError(INVALID_PARAMS, 'Missing uri', id);
+            break;
+          }
+          this.subscriptions.set(params.uri, await this.hashResource(params.uri));
+          this.startResourcePolling();
+          this.sendResponse(id, {});
+          break;
+
+        case 'resources/unsubscribe':
+          this.subscriptions.delete(params?.uri);
+          this.sendResponse(id, {});
+          break;
+
+        case 'prompts/list':
+          this.sendResponse(id, { prompts: PROMPTS });
+          break;
+
+        case 'prompts/get':
+          this.sendResponse(id, await this.getPrompt(params?.name, params?.arguments || {}));
+          break;
+
+        case 'ping':
+          this.sendResponse(id, {});
+          break;
+
         default:
-          this.sendError('method_not_found', `Unknown method: ${method}`, id);
+          this.sendError(METHOD_NOT_FOUND, `Unknown method: ${method}`, id);
       }
     } catch (error: any) {
-      this.sendError('internal_error', error.message, id);
+      if (error instanceof McpError) {
+        this.sendError(error.code, error.message, id, error.data);
+      } else {
+        this.sendError(INTERNAL_ERROR, error.message, id);
+      }
+    }
+  }
+
+  private async listResources() {
+    const resources: Array<{ uri: string; name: string; description?: string; mimeType: string }> = [...RESOURCES];
+
+    // Notes are listed only when a vault is set up; the rest are always available
+    const vaultPath = readStore().userSettings?.obsidianVaultPath;
+    if (vaultPath && fs.existsSync(vaultPath)) {
+      for (const note of (await obsidianNotes.list(vaultPath)).slice(0, MAX_LISTED_OBSIDIAN_NOTES)) {
+        resources.push({
+          uri: `${OBSIDIAN_NOTE_URI_PREFIX}${encodeURIComponent(note.id)}`,
+          name: note.title,
+          description: `Obsidian note ${note.id}.md`,
+          mimeType: 'text/markdown',
+        });
+      }
+    }
+
+    return resources;
+  }
+
+  private async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+    const json = (value: unknown) => ({ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) });
+
+    switch (uri) {
+      case 'pmos://agenda/today': {
+        const start = new Date();
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(start);
+        end.setDate(end.getDate() + 1);
+
+        const response = await this.getGoogleCalendar().events.list({
+          calendarId: 'primary',
+          timeMin: start.toISOString(),
+          timeMax: end.toISOString(),
+          singleEvents: true,
+          orderBy: 'startTime',
+        });
+        const today = localDateString(start);
+        const dueToday = fs.existsSync(TASK_DB_PATH)
+          ? getTaskStore().getAll().filter(t => !t.completed && (t.deadline || t.dueDate)?.slice(0, 10) === today)
+          : [];
+
+        return json({
+          date: today,
+          events: (response.data.items || []).map(event => ({
+            id: event.id,
+            summary: event.summary,
+            start: event.start?.dateTime || event.start?.date,
+            end: event.end?.dateTime || event.end?.date,
+            location: event.location || undefined,
+            attendees: event.attendees?.map(a => a.displayName || a.email),
+            meetingLink: event.hangoutLink || undefined,
+          })),
+          tasksDue: dueToday,
+        });
+      }
+
+      case 'pmos://tasks/open':
+        return json(getTaskStore().getAll().filter(t => !t.completed));
+
+      case 'pmos://digest/recent':
+        return json(readDigestRuns(7).map(run => ({ ranAt: run.ranAt, items: run.items })));
+    }
+
+    if (uri.startsWith(OBSIDIAN_NOTE_URI_PREFIX)) {
+      const vaultPath = getObsidianVaultPath();
+      let noteId: string;
+      try {
+        noteId = decodeURIComponent(uri.slice(OBSIDIAN_NOTE_URI_PREFIX.length));
+      } catch {
+        throw resourceNotFound(uri);
+      }
+      const fullPath = resolveObsidianNotePath(vaultPath, noteId);
+      return { uri, mimeType: 'text/markdown', text: fs.readFileSync(fullPath, 'utf-8') };
+    }
+
+    throw resourceNotFound(uri);
+  }
+
+  private async getPrompt(name: string, args: Record<string, string>) {
+    const tasks = getTaskStore().getAll();
+    const userText = (text: string) => ({ role: 'user', content: { type: 'text', text } });
+
+    switch (name) {
+      case 'weekly_status_update': {
+        const since = Date.now() - 7 * 24 * 60 * 60 * 1000;
+        // Tasks completed before completedAt was recorded fall back to their last edit
+        const completed = tasks.filter(t => t.completed && new Date(t.completedAt || t.updatedAt || t.createdAt).getTime() >= since);
+
+        return {
+          description: 'Weekly status update',
+          messages: [
+            userText([
+              `Draft my weekly status update${args.audience ? ` for ${args.audience}` : ''}.`,
+              'Use three sections: Done this week, In progress / next week, and Risks & asks. Group related work, lead with outcomes rather than activity, and keep it skimmable.',
+              'Flag anything blocked or overdue as a risk. Pull notable decisions or requests from the Slack digest items.',
+              '',
+              `Tasks completed in the last 7 days (${completed.length}):`,
+              completed.length ? completed.map(t => `- ${formatTaskLine(t)}`).join('\n') : '- None recorded',
+            ].join('\n')),
+            await this.embedResource('pmos://tasks/open'),
+            await this.embedResource('pmos://digest/recent'),
+          ],
+        };
+      }
+
+      case 'one_on_one_prep': {
+        const person = args.person?.trim();
+        if (!person) {
+          throw new McpError(INVALID_PARAMS, 'The one_on_one_prep prompt needs a person');
+        }
+        const needle = person.toLowerCase();
+        const mentions = (...texts: Array<string | undefined>) => texts.some(text => text?.toLowerCase().includes(needle));
+
+        const sharedTasks = tasks.filter(t => !t.completed && mentions(t.title, t.context, t.description));
+        const slackItems = readDigestRuns(30)
+          .flatMap(run => run.items)
+          .filter(item => mentions(item.userName, item.text, item.summary));
+
+        let notes: ObsidianNoteFile[] = [];
+        const vaultPath = readStore().userSettings?.obsidianVaultPath;
+        if (vaultPath && fs.existsSync(vaultPath)) {
+          const recentNotes = (await obsidianNotes.list(vaultPath)).slice(0, MAX_LISTED_OBSIDIAN_NOTES);
+          const contents = await Promise.all(recentNotes.map(note => fs.promises.readFile(note.fullPath, 'utf-8').catch(() => '')));
+          notes = recentNotes.filter((note, i) => mentions(note.title, contents[i]));
+        }
+
+        return {
+          description: `1:1 prep with ${person}`,
+          messages: [
+            userText([
+              `Help me prepare for my 1:1 with ${person}.`,
+              `Use list_calendar_events to find our next meeting, and search_contacts if you need their email.`,
+              'Give me: updates on our shared work, decisions or asks I owe them, topics to raise, and questions to ask. Keep it to one screen.',
+              '',
+              `Open tasks that mention ${person} (${sharedTasks.length}):`,
+              sharedTasks.length ? sharedTasks.map(t => `- ${formatTaskLine(t)}`).join('\n') : '- None',
+              '',
+              `Slack digest items from or about ${person} in the last 30 days (${slackItems.length}):`,
+              slackItems.length
+                ? slackItems.map(item => `- #${item.channelName} · ${item.userName}: ${item.summary}${item.taskId ? ` (task ${item.taskId})` : ''}`).join('\n')
+                : '- None',
+              '',
+              `Obsidian notes that mention ${person} (${notes.length}):`,
+              notes.length ? notes.map(note => `- ${note.title} (${note.updatedAt.slice(0, 10)})`).join('\n') : '- None',
+            ].join('\n')),
+            // The most recent notes in full, usually the last 1:1s
+            ...await Promise.all(notes.slice(0, 3).map(note => this.embedResource(`${OBSIDIAN_NOTE_URI_PREFIX}${encodeURIComponent(note.id)}`))),
+          ],
+        };
+      }
+
+      case 'plan_my_day':
+        return {
+          description: 'Plan my day',
+          messages: [
+            userText([
+              'Plan my day. Work out the free blocks between meetings, then fit the most important open tasks into them.',
+              'Prioritize tasks due today or overdue, then high priority ones, and leave blocked tasks out. Call out anything I should prepare for an upcoming meeting.',
+              'If the day is overbooked, say what to push to tomorrow.',
+            ].join('\n')),
+            await this.embedResource('pmos://agenda/today'),
+            await this.embedResource('pmos://tasks/open'),
+          ],
+        };
+
+      default:
+        throw new McpError(INVALID_PARAMS, `Unknown prompt: ${name}`);
+    }
+  }
+
+  // A prompt message carrying a resource, or a note saying why it couldn't be read
+  private async embedResource(uri: string) {
+    try {
+      return { role: 'user', content: { type: 'resource', resource: await this.readResource(uri) } };
+    } catch (error: any) {
+      return { role: 'user', content: { type: 'text', text: `(${uri} is unavailable: ${error.message})` } };
+    }
+  }
+
+  // null when the resource can't be read right now, e.g. Google is disconnected
+  private async hashResource(uri: string): Promise<string | null> {
+    try {
+      const { text } = await this.readResource(uri);
+      return createHash('sha1').update(text).digest('hex');
+    } catch (error: any) {
+      if (error instanceof McpError) throw error;
+      console.error(`[PM-OS MCP] Could not read ${uri}:`, error.message);
+      return null;
+    }
+  }
+
+  // Runs once a client lists or subscribes to resources, for the rest of the session
+  private startResourcePolling() {
+    if (this.resourcePoller) return;
+    this.lastAgendaCheck = Date.now();
+    this.resourcePoller = setInterval(() => this.pollResources(), RESOURCE_POLL_INTERVAL_MS);
+    this.resourcePoller.unref();
+    this.pollResources();
+  }
+
+  private async getObsidianNoteIds(): Promise<string | null> {
+    const vaultPath = readStore().userSettings?.obsidianVaultPath;
+    if (!vaultPath || !fs.existsSync(vaultPath)) return null;
+    return (await obsidianNotes.list(vaultPath)).slice(0, MAX_LISTED_OBSIDIAN_NOTES).map(n => n.id).sort().join('\n');
+  }
+
+  private async pollResources() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const noteIds = await this.getObsidianNoteIds();
+      if (this.obsidianNoteIds !== undefined && noteIds !== this.obsidianNoteIds) {
+        this.sendNotification('notifications/resources/list_changed');
+      }
+      this.obsidianNoteIds = noteIds;
+
+      const checkAgenda = Date.now() - this.lastAgendaCheck >= AGENDA_POLL_INTERVAL_MS;
+      if (checkAgenda) this.lastAgendaCheck = Date.now();
+
+      for (const [uri, previousHash] of this.subscriptions) {
+        if (uri === 'pmos://agenda/today' && !checkAgenda) continue;
+
+        let hash: string | null;
+        try {
+          hash = await this.hashResource(uri);
+        } catch {
+          // The resource is gone, e.g. a deleted note. Tell the client once.
+          hash = null;
+        }
+        // Unsubscribed while we were reading
+        if (!this.subscriptions.has(uri)) continue;
+
+        if (hash !== previousHash) {
+          this.subscriptions.set(uri, hash);
+          this.sendNotification('notifications/resources/updated', { uri });
+        }
+      }
+    } catch (error: any) {
+      console.error('[PM-OS MCP] Resource poll failed:', error.message);
+    } finally {
+      this.polling = false;
     }
   }
 
@@ -411,52 +1245,121 @@ class PMOSMCPServer {
       case 'search_contacts':
         return await this.searchContacts(args);
 
+      case 'search_tasks':
+        return await this.searchTasks(args);
+
+      case 'get_task':
+        return await this.getTask(args);
+
+      case 'complete_tasks':
+        return await this.completeTasks(args);
+
+      case 'delete_tasks':
+        return await this.deleteTasks(args);
+
+      case 'add_linked_item':
+        return await this.addLinkedItem(args);
+
+      case 'remove_linked_item':
+        return await this.removeLinkedItem(args);
+
+      case 'list_docs':
+        return await this.listDocs(args);
+
+      case 'add_doc':
+        return await this.addDoc(args);
+
+      case 'list_suggestions':
+        return await this.listSuggestions(args);
+
+      case 'list_digest_items':
+        return await this.listDigestItems(args);
+
       default:
         throw new Error(`Unknown tool: ${toolName}`);
     }
   }
 
-  private async createTask(args: { title: string; priority?: string; deadline?: string }) {
-    const storeData = readStore();
-    const tasks = (storeData.tasks as Task[]) || [];
+  private async createTask(args: { title: string; priority?: string; deadline?: string; parentId?: string; tags?: string[]; context?: string; description?: string }) {
+    const store = getTaskStore();
+    const { newTask, parent } = store.transaction(() => {
+      const parent = args.parentId ? store.get(args.parentId) : undefined;
+      if (args.parentId && !parent) {
+        throw new Error(`Parent task not found: ${args.parentId}`);
+      }
 
-    const newTask: Task = {
-      id: `task-${Date.now()}`,
-      title: args.title,
-      completed: false,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      source: 'strategize',
-      priority: (args.priority as any) || 'medium',
-      deadline: args.deadline,
-    };
+      const newTask: Task = {
+        // insert() upserts by id, so ids must not collide within a millisecond
+        id: randomUUID(),
+        title: args.title,
+        completed: false,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        source: 'strategize',
+        priority: (args.priority as any) || 'medium',
+        deadline: args.deadline,
+        parentId: parent?.id,
+        tags: args.tags?.length ? resolveTags(store, args.tags) : undefined,
+        context: args.context,
+        description: args.description,
+      };
+
+      // New MCP tasks go to the end of the list
+      store.insert(newTask, 'last');
 
-    tasks.push(newTask);
-    storeData.tasks = tasks;
-    writeStore(storeData);
+      return { newTask, parent };
+    }, 'mcp');
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Task created successfully!\n\nID: ${newTask.id}\nTitle: ${newTask.title}\nPriority: ${newTask.priority}\nDeadline: ${newTask.deadline || 'not set'}`,
+          text: `✅ Task created successfully!\n\nID: ${newTask.id}\nTitle: ${newTask.title}\nPriority: ${newTask.priority}\nDeadline: ${newTask.deadline || 'not set'}${newTask.tags ? `\nTags: ${newTask.tags.map(t => t.label).join(', ')}` : ''}${parent ? `\nSubtask of: ${parent.title}` : ''}`,
         },
       ],
     };
   }
 
   private async listTasks(args: { completed?: boolean }) {
-    const storeData = readStore();
-    const tasks = (storeData.tasks as Task[]) || [];
+    const tasks = getTaskStore().getAll();
 
     let filteredTasks = tasks;
     if (args.completed !== undefined) {
       filteredTasks = tasks.filter(t => t.completed === args.completed);
     }
 
-    const taskList = filteredTasks
-      .map((t, i) => `${i + 1}. ${t.completed ? '✅' : '⬜'} ${t.title} (ID: ${t.id})`)
-      .join('\n');
+    // Render subtasks indented under their parent; orphans (parent filtered out) stay top-level
+    const visibleIds = new Set(filteredTasks.map(t => t.id));
+    const lines: string[] = [];
+    const rendered = new Set<string>();
+    let topLevelCount = 0;
+    const renderTask = (task: Task, depth: number) => {
+      if (rendered.has(task.id)) return;
+      rendered.add(task.id);
+      const children = tasks.filter(t => t.parentId === task.id);
+      const progress = children.length > 0
+        ? ` [${children.filter(c => c.completed).length}/${children.length} done]`
+        : '';
+      // Blocked by an incomplete task or an unresolved Jira issue
+      const openBlockers = (task.blockedBy || []).filter(b =>
+        b.type === 'jira' ? !b.resolvedAt : tasks.some(t => t.id === b.id && !t.completed)
+      );
+      const blocked = !task.completed && openBlockers.length > 0
+        ? ` [BLOCKED by ${openBlockers.map(b => b.type === 'jira' ? b.id : tasks.find(t => t.id === b.id)?.title).join(', ')}]`
+        : '';
+      const indent = '   '.repeat(depth);
+      const prefix = depth === 0 ? `${++topLevelCount}.` : '-';
+      lines.push(`${indent}${prefix} ${task.completed ? '✅' : '⬜'} ${task.title}${progress}${blocked} (ID: ${task.id})`);
+      children
+        .filter(c => visibleIds.has(c.id))
+        .forEach(c => renderTask(c, depth + 1));
+    };
+
+    filteredTasks
+      .filter(t => !t.parentId || !visibleIds.has(t.parentId))
+      .forEach(t => renderTask(t, 0));
+
+    const taskList = lines.join('\n');
 
     return {
       content: [
@@ -470,38 +1373,363 @@ class PMOSMCPServer {
     };
   }
 
-  private async updateTask(args: { id: string; completed?: boolean; title?: string }) {
-    const storeData = readStore();
-    const tasks = (storeData.tasks as Task[]) || [];
-    const taskIndex = tasks.findIndex(t => t.id === args.id);
+  private async updateTask(args: {
+    id: string;
+    completed?: boolean;
+    title?: string;
+    priority?: 'low' | 'medium' | 'high';
+    deadline?: string;
+    tags?: string[];
+    context?: string;
+    description?: string;
+  }) {
+    const store = getTaskStore();
+    const { task, nextTask } = store.transaction(() => {
+      const existing = requireTask(store, args.id);
+      const task: Task = { ...existing };
+
+      if (args.completed !== undefined) {
+        task.completed = args.completed;
+      }
+      if (args.title) {
+        task.title = args.title;
+      }
+      if (args.priority) {
+        task.priority = args.priority;
+      }
+      if (args.deadline !== undefined) {
+        task.deadline = args.deadline || undefined;
+      }
+      if (args.tags) {
+        task.tags = resolveTags(store, args.tags);
+      }
+      if (args.context !== undefined) {
+        task.context = args.context;
+      }
+      if (args.description !== undefined) {
+        task.description = args.description;
+      }
 
-    if (taskIndex === -1) {
-      throw new Error(`Task not found: ${args.id}`);
-    }
+      task.updatedAt = new Date().toISOString();
+      // Same completion side effects as the app, e.g. the next instance of a recurring task
+      return saveTaskEdit(store, existing, task);
+    }, 'mcp');
 
-    if (args.completed !== undefined) {
-      tasks[taskIndex].completed = args.completed;
-      tasks[taskIndex].updatedAt = new Date().toISOString();
-      if (args.completed) {
-        tasks[taskIndex].completedAt = new Date().toISOString();
-      } else {
-        delete tasks[taskIndex].completedAt;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Task updated successfully!\n\n${formatTaskLine(task)}${nextTask ? `\n\nNext occurrence:\n${formatTaskLine(nextTask)}` : ''}`,
+        },
+      ],
+    };
+  }
+
+  private async searchTasks(args: {
+    query?: string;
+    tag?: string;
+    source?: string;
+    priority?: string;
+    dueBefore?: string;
+    dueAfter?: string;
+    completed?: boolean;
+    limit?: number;
+  }) {
+    const query = args.query?.trim().toLowerCase();
+    const tag = args.tag?.toLowerCase();
+
+    const matches = getTaskStore().getAll().filter(task => {
+      const due = task.deadline || task.dueDate;
+      if (args.completed !== undefined && task.completed !== args.completed) return false;
+      if (args.source && task.source !== args.source) return false;
+      if (args.priority && task.priority !== args.priority) return false;
+      if (tag && !task.tags?.some(t => t.label.toLowerCase() === tag)) return false;
+      if (args.dueBefore && (!due || due.slice(0, 10) > args.dueBefore)) return false;
+      if (args.dueAfter && (!due || due.slice(0, 10) < args.dueAfter)) return false;
+      if (query && ![task.title, task.context, task.description].some(text => text?.toLowerCase().includes(query))) return false;
+      return true;
+    });
+
+    const limit = args.limit || 50;
+    const shown = matches.slice(0, limit);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: matches.length > 0
+            ? `Found ${matches.length} task(s)${matches.length > limit ? `, showing the first ${limit}` : ''}:\n\n${shown.map(formatTaskLine).join('\n')}`
+            : 'No tasks match those filters',
+        },
+      ],
+    };
+  }
+
+  private async getTask(args: { id: string }) {
+    const store = getTaskStore();
+    const task = requireTask(store, args.id);
+    const tasks = store.getAll();
+    const subtasks = tasks.filter(t => t.parentId === task.id);
+    const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+
+    const lines = [
+      formatTaskLine(task),
+      `Created: ${task.createdAt}${task.completedAt ? `\nCompleted: ${task.completedAt}` : ''}`,
+      parent ? `Subtask of: ${parent.title} (ID: ${parent.id})` : '',
+      task.context ? `\nContext:\n${task.context}` : '',
+      task.description ? `\nDescription:\n${task.description}` : '',
+      task.linkedItems?.length
+        ? `\nLinked items:\n${task.linkedItems.map(item => `- [${item.type}] ${item.title}${item.url ? ` ${item.url}` : ''} (ID: ${item.id})`).join('\n')}`
+        : '',
+      subtasks.length ? `\nSubtasks:\n${subtasks.map(t => `- ${formatTaskLine(t)}`).join('\n')}` : '',
+      task.blockedBy?.length
+        ? `\nBlocked by:\n${task.blockedBy.map(b => `- ${b.type === 'jira' ? b.id : tasks.find(t => t.id === b.id)?.title || b.id}${b.resolvedAt ? ' (resolved)' : ''}`).join('\n')}`
+        : '',
+    ];
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.filter(Boolean).join('\n'),
+        },
+      ],
+    };
+  }
+
+  private async completeTasks(args: { ids: string[]; completed?: boolean }) {
+    const completed = args.completed ?? true;
+    const store = getTaskStore();
+    const { updated, nextTasks, missing } = store.transaction(() => {
+      const updated: Task[] = [];
+      const nextTasks: Task[] = [];
+      const missing: string[] = [];
+      for (const id of args.ids) {
+        const before = store.get(id);
+        if (!before) {
+          missing.push(id);
+          continue;
+        }
+        if (before.completed === completed) continue;
+
+        const { task, nextTask } = saveTaskEdit(store, before, { ...before, completed, updatedAt: new Date().toISOString() });
+        updated.push(task);
+        if (nextTask) nextTasks.push(nextTask);
       }
-    }
+      return { updated, nextTasks, missing };
+    }, 'mcp');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Marked ${updated.length} task(s) ${completed ? 'completed' : 'incomplete'}${updated.length ? `:\n${updated.map(t => `- ${t.title}`).join('\n')}` : ''}${nextTasks.length ? `\n\nNext occurrences created:\n${nextTasks.map(t => `- ${formatTaskLine(t)}`).join('\n')}` : ''}${missing.length ? `\n\nNot found: ${missing.join(', ')}` : ''}`,
+        },
+      ],
+    };
+  }
+
+  // Same semantics as deleting in the app: cascade removes subtasks too,
+  // promote makes them top-level, and deleted tasks stop blocking others
+  private async deleteTasks(args: { ids: string[]; mode?: 'cascade' | 'promote' }) {
+    const mode = args.mode || 'cascade';
+    const store = getTaskStore();
+    const { removed, missing } = store.transaction(() => {
+      const tasks = store.getAll();
+      const missing = args.ids.filter(id => !tasks.some(t => t.id === id));
+      const requested = args.ids.filter(id => !missing.includes(id));
+      const removedIds = new Set(mode === 'cascade'
+        ? requested.flatMap(id => [id, ...getDescendantIds(tasks, id)])
+        : requested);
+
+      const removed = tasks.filter(t => removedIds.has(t.id));
+      store.delete(removed.map(t => t.id));
+
+      for (const task of tasks) {
+        if (removedIds.has(task.id)) continue;
+        const promote = mode === 'promote' && !!task.parentId && removedIds.has(task.parentId);
+        const unblock = task.blockedBy?.some(b => b.type === 'task' && removedIds.has(b.id));
+        if (!promote && !unblock) continue;
+
+        store.save({
+          ...task,
+          parentId: promote ? undefined : task.parentId,
+          blockedBy: unblock ? task.blockedBy!.filter(b => !(b.type === 'task' && removedIds.has(b.id))) : task.blockedBy,
+          updatedAt: new Date().toISOString(),
+        });
+      }
+
+      return { removed, missing };
+    }, 'mcp');
 
-    if (args.title) {
-      tasks[taskIndex].title = args.title;
-      tasks[taskIndex].updatedAt = new Date().toISOString();
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🗑️ Deleted ${removed.length} task(s)${removed.length ? `:\n${removed.map(t => `- ${t.title}`).join('\n')}` : ''}${missing.length ? `\n\nNot found: ${missing.join(', ')}` : ''}`,
+        },
+      ],
+    };
+  }
+
+  private async addLinkedItem(args: { taskId: string; type: string; title: string; url?: string }) {
+    if (!LINKED_ITEM_TYPES.includes(args.type)) {
+      throw new Error(`Unknown linked item type: ${args.type}. Use one of: ${LINKED_ITEM_TYPES.join(', ')}`);
     }
 
-    storeData.tasks = tasks;
-    writeStore(storeData);
+    const store = getTaskStore();
+    const { task, item } = store.transaction(() => {
+      const before = requireTask(store, args.taskId);
+      const item = { id: `${args.type}_${Date.now()}`, type: args.type as LinkedItemType, title: args.title, url: args.url };
+      const task: Task = {
+        ...before,
+        linkedItems: [...(before.linkedItems || []), item],
+        updatedAt: new Date().toISOString(),
+      };
+      store.save(task);
+      return { task, item };
+    }, 'mcp');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔗 Linked "${item.title}" to ${task.title}\nLinked item ID: ${item.id}`,
+        },
+      ],
+    };
+  }
+
+  private async removeLinkedItem(args: { taskId: string; linkedItemId: string }) {
+    const store = getTaskStore();
+    const task = store.transaction(() => {
+      const before = requireTask(store, args.taskId);
+      if (!before.linkedItems?.some(item => item.id === args.linkedItemId)) {
+        throw new Error(`Linked item not found on this task: ${args.linkedItemId}`);
+      }
+      const task: Task = {
+        ...before,
+        linkedItems: before.linkedItems.filter(item => item.id !== args.linkedItemId),
+        updatedAt: new Date().toISOString(),
+      };
+      store.save(task);
+      return task;
+    }, 'mcp');
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Task updated successfully!\n\n${tasks[taskIndex].title}${args.completed !== undefined ? `\nStatus: ${args.completed ? 'Completed' : 'Incomplete'}` : ''}`,
+          text: `✅ Removed linked item from ${task.title}`,
+        },
+      ],
+    };
+  }
+
+  private async listDocs(args: { query?: string; tag?: string; pinned?: boolean }) {
+    // Docs added here but not yet picked up by the app come first, as they're the newest
+    const pending = fs.existsSync(TASK_DB_PATH) ? getTaskStore().getPendingDocs<Doc>().reverse() : [];
+    const docs = [...pending, ...(readStore().docs || []) as Doc[]];
+    const query = args.query?.trim().toLowerCase();
+    const tag = args.tag?.toLowerCase();
+
+    const matches = docs.filter(doc => {
+      if (args.pinned && !(doc.pinned && doc.url)) return false;
+      if (tag && !doc.tags?.some(t => t.label.toLowerCase() === tag)) return false;
+      if (query && ![doc.title, doc.url].some(text => text?.toLowerCase().includes(query))) return false;
+      return true;
+    });
+
+    const docList = matches.map((doc, i) => {
+      const tags = doc.tags?.length ? ` [tags: ${doc.tags.map(t => t.label).join(', ')}]` : '';
+      return `${i + 1}. ${doc.pinned ? '📌 ' : ''}${doc.title}${tags}${doc.url ? `\n   ${doc.url}` : ''}\n   ID: ${doc.id}`;
+    }).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: matches.length > 0 ? `Found ${matches.length} doc(s):\n\n${docList}` : 'No docs found',
+        },
+      ],
+    };
+  }
+
+  private async addDoc(args: { title: string; url: string; tags?: string[]; pinned?: boolean }) {
+    const store = getTaskStore();
+    // Doc tags reuse task tag colors
+    const tags = args.tags?.length ? resolveTags(store, args.tags) : undefined;
+
+    const doc: Doc = {
+      id: `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title: args.title,
+      url: args.url,
+      tags,
+      createdAt: new Date().toISOString(),
+      source: 'mcp',
+      pinned: args.pinned || undefined,
+    };
+    // The app moves queued docs into its docs list, so this can't clobber its own writes
+    store.queuePendingDoc(doc);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Doc saved${doc.pinned ? ' and pinned to Quick Access' : ''}!\n\nTitle: ${doc.title}\nURL: ${doc.url}\nID: ${doc.id}`,
+        },
+      ],
+    };
+  }
+
+  private async listSuggestions(args: { limit?: number }) {
+    const storeData = readStore();
+    const dismissed = new Set((storeData.dismissed_suggestions || []) as string[]);
+    const suggestions = ((storeData.smart_suggestions_cache || []) as any[])
+      .filter(suggestion => !dismissed.has(suggestion.id))
+      .slice(0, args.limit || 20);
+    const lastFetch = storeData.smart_suggestions_last_fetch as number | undefined;
+
+    const suggestionList = suggestions.map((suggestion, i) => {
+      const details = [suggestion.source, suggestion.priority && `${suggestion.priority} priority`, suggestion.dueDate && `due ${suggestion.dueDate}`]
+        .filter(Boolean)
+        .join('; ');
+      const context = suggestion.context ? `\n   ${String(suggestion.context).split('\n')[0].slice(0, 200)}` : '';
+      return `${i + 1}. ${suggestion.title} [${details}]${context}`;
+    }).join('\n');
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: suggestions.length > 0
+            ? `${suggestions.length} suggestion(s)${lastFetch ? ` as of ${new Date(lastFetch).toLocaleString()}` : ''}:\n\n${suggestionList}\n\nUse create_task to turn one into a task.`
+            : 'No current suggestions. PM-OS refreshes them from the Tasks tab.',
+        },
+      ],
+    };
+  }
+
+  private async listDigestItems(args: { days?: number }) {
+    const runs = readDigestRuns(args.days || 7);
+
+    const sections = runs.map(run => {
+      const items = run.items.map(item => [
+        `- #${item.channelName} · ${item.userName}: ${item.summary}`,
+        `  Suggested: ${item.suggestedAction}`,
+        item.permalink ? `  ${item.permalink}` : '',
+        item.taskId ? `  Task created (ID: ${item.taskId})` : '',
+      ].filter(Boolean).join('\n'));
+      return `Digest ${new Date(run.ranAt).toLocaleString()}:\n${items.join('\n')}`;
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: sections.length > 0
+            ? sections.join('\n\n')
+            : `No Slack digests sent in the last ${args.days || 7} day(s)`,
         },
       ],
     };
@@ -1009,17 +2237,22 @@ class PMOSMCPServer {
     process.stdout.write(JSON.stringify(response) + '\n');
   }
 
-  private sendError(code: string, message: string, id?: number | string) {
+  private sendError(code: number, message: string, id?: number | string, data?: unknown) {
     const response = {
       jsonrpc: '2.0',
-      id: id || null,
+      id: id ?? null,
       error: {
         code,
         message,
+        data,
       },
     };
     process.stdout.write(JSON.stringify(response) + '\n');
   }
+
+  private sendNotification(method: string, params?: Record<string, unknown>) {
+    process.stdout.write(JSON.stringify({ jsonrpc: '2.0', method, params }) + '\n');
+  }
 }
 
 // Start the server
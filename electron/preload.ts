@@ -1,4 +1,18 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { Task, TaskEvent, JiraSyncField } from '../src/types/task';
+import type { LearnedWeight, SuggestionOutcome } from '../src/services/suggestion-learning';
+import type { LLMCompletionRequest, LLMTask, LLMUsage } from '../src/services/llm-config';
+import type { DigestHistoryEntry } from '../src/services/digest-schedule';
+import type { EmailLabel, EmailThread } from '../src/services/gmail';
+import type { MeetingBrief } from '../src/services/meeting-brief';
+import type { TimeRange } from '../src/services/availability';
+import type { LocalApiClient } from '../src/types/local-api';
+import type {
+  ApplyMeetingNotesRequest,
+  MeetingNotesEvent,
+  MeetingNotesExtraction,
+  MeetingNotesRecord,
+} from '../src/services/meeting-notes';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
@@ -17,7 +31,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   getTasks: () => ipcRenderer.invoke('get-tasks'),
   addTask: (task: any) => ipcRenderer.invoke('add-task', task),
   updateTask: (id: string, updates: any) => ipcRenderer.invoke('update-task', id, updates),
-  deleteTask: (id: string) => ipcRenderer.invoke('delete-task', id),
+  deleteTask: (id: string, mode?: 'cascade' | 'promote') => ipcRenderer.invoke('delete-task', id, mode),
+  undoTaskChange: () => ipcRenderer.invoke('undo-task-change'),
+  redoTaskChange: () => ipcRenderer.invoke('redo-task-change'),
+  getTaskHistory: (taskId: string) => ipcRenderer.invoke('get-task-history', taskId),
+  getDeletedTasks: () => ipcRenderer.invoke('get-deleted-tasks'),
+  restoreDeletedTask: (taskId: string) => ipcRenderer.invoke('restore-deleted-task', taskId),
 
   // OAuth
   startOAuthFlow: (provider: 'google' | 'slack' | 'jira' | 'zoom' | 'amplitude' | 'granola' | 'clockwise') => ipcRenderer.invoke('start-oauth', provider),
@@ -30,7 +49,9 @@ contextBridge.exposeInMainWorld('electronAPI', {
   syncSlack: () => ipcRenderer.invoke('sync-slack'),
   getSmartSuggestions: (forceRefresh?: boolean) => ipcRenderer.invoke('get-smart-suggestions', forceRefresh),
   refreshSmartSuggestions: () => ipcRenderer.invoke('refresh-smart-suggestions'),
-  dismissSuggestion: (suggestionId: string) => ipcRenderer.invoke('dismiss-suggestion', suggestionId),
+  dismissSuggestion: (suggestionId: string, outcome?: SuggestionOutcome) => ipcRenderer.invoke('dismiss-suggestion', suggestionId, outcome),
+  getSuggestionLearning: () => ipcRenderer.invoke('get-suggestion-learning'),
+  resetSuggestionLearning: (key?: string) => ipcRenderer.invoke('reset-suggestion-learning', key),
   writeDebugLog: (message: string) => ipcRenderer.invoke('write-debug-log', message),
   writeDebugFile: (filename: string, content: string) => ipcRenderer.invoke('write-debug-file', filename, content),
 
@@ -39,6 +60,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('calendar-update-rsvp', eventId, status),
   calendarCreateEvent: (request: any) =>
     ipcRenderer.invoke('calendar-create-event', request),
+  calendarFindAvailability: (request: { attendees: string[]; durationMinutes: number; days?: number }) =>
+    ipcRenderer.invoke('calendar-find-availability', request),
+  focusTimeBlockNow: () => ipcRenderer.invoke('focus-time-block-now'),
+
+  // Local API pairing
+  localApiStartPairing: () => ipcRenderer.invoke('local-api-start-pairing'),
+  localApiListClients: () => ipcRenderer.invoke('local-api-list-clients'),
+  localApiRevokeClient: (id: string) => ipcRenderer.invoke('local-api-revoke-client', id),
+  onLocalApiClientPaired: (callback: (client: LocalApiClient) => void) => {
+    const handler = (_event: any, client: LocalApiClient) => callback(client);
+    ipcRenderer.on('local-api-client-paired', handler);
+    return () => ipcRenderer.removeListener('local-api-client-paired', handler);
+  },
   calendarUpdateEvent: (eventId: string, updates: any) =>
     ipcRenderer.invoke('calendar-update-event', eventId, updates),
 
@@ -50,6 +84,12 @@ contextBridge.exposeInMainWorld('electronAPI', {
   voiceTranscribe: (audioData: ArrayBuffer) => ipcRenderer.invoke('voice-transcribe', audioData),
   transcribeAudio: (audioBuffer: ArrayBuffer) => ipcRenderer.invoke('transcribe-audio', audioBuffer),
 
+  // LLM routing
+  llmComplete: (task: LLMTask, request: LLMCompletionRequest) => ipcRenderer.invoke('llm-complete', task, request),
+  getLLMStatus: () => ipcRenderer.invoke('get-llm-status'),
+  getLLMUsage: () => ipcRenderer.invoke('get-llm-usage'),
+  resetLLMUsage: () => ipcRenderer.invoke('reset-llm-usage'),
+
   // Zoom integration
   zoomIsConfigured: () =>
     ipcRenderer.invoke('zoom-is-configured'),
@@ -63,6 +103,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
   jiraGetIssueTypes: (projectKey: string) => ipcRenderer.invoke('jira-get-issue-types', projectKey),
   jiraCreateIssue: (request: any) => ipcRenderer.invoke('jira-create-issue', request),
   jiraGetMyIssues: () => ipcRenderer.invoke('jira-get-my-issues'),
+  jiraGetIssue: (issueKey: string) => ipcRenderer.invoke('jira-get-issue', issueKey),
+  jiraSyncNow: () => ipcRenderer.invoke('jira-sync-now'),
+  jiraImportNow: () => ipcRenderer.invoke('jira-import-now'),
+  resolveJiraSyncConflict: (taskId: string, field: JiraSyncField, choice: 'local' | 'remote') =>
+    ipcRenderer.invoke('resolve-jira-sync-conflict', taskId, field, choice),
   jiraGetComponents: (projectKey: string) => ipcRenderer.invoke('jira-get-components', projectKey),
   jiraGetSprints: (projectKey: string) => ipcRenderer.invoke('jira-get-sprints', projectKey),
   jiraSearchUsers: (projectKey: string, query: string) => ipcRenderer.invoke('jira-search-users', projectKey, query),
@@ -105,6 +150,37 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('slack-get-thread-replies', channelId, threadTs),
   slackSendReply: (channelId: string, threadTs: string, text: string) =>
     ipcRenderer.invoke('slack-send-reply', channelId, threadTs, text),
+  gmailGetMessageText: (messageId: string) => ipcRenderer.invoke('gmail-get-message-text', messageId),
+  gmailGetThread: (threadId: string) => ipcRenderer.invoke('gmail-get-thread', threadId),
+  gmailDownloadAttachment: (messageId: string, attachmentId: string, filename: string) =>
+    ipcRenderer.invoke('gmail-download-attachment', messageId, attachmentId, filename),
+  createTaskFromEmailThread: (threadId: string) => ipcRenderer.invoke('create-task-from-email-thread', threadId),
+
+  // Meeting prep briefs
+  getMeetingBriefs: () => ipcRenderer.invoke('get-meeting-briefs'),
+  generateMeetingBrief: (event: any) => ipcRenderer.invoke('generate-meeting-brief', event),
+  onMeetingBriefReady: (callback: (brief: MeetingBrief) => void) => {
+    const handler = (_event: any, brief: MeetingBrief) => callback(brief);
+    ipcRenderer.on('meeting-brief-ready', handler);
+    return () => ipcRenderer.removeListener('meeting-brief-ready', handler);
+  },
+  getMeetingNotes: () => ipcRenderer.invoke('get-meeting-notes'),
+  dismissMeetingNotes: (eventId: string, eventTitle: string) => ipcRenderer.invoke('dismiss-meeting-notes', eventId, eventTitle),
+  extractMeetingNotes: (event: MeetingNotesEvent, notes: string) => ipcRenderer.invoke('extract-meeting-notes', event, notes),
+  applyMeetingNotes: (request: ApplyMeetingNotesRequest) => ipcRenderer.invoke('apply-meeting-notes', request),
+  gmailSendReply: (messageId: string, text: string) => ipcRenderer.invoke('gmail-send-reply', messageId, text),
+  gmailArchive: (messageId: string) => ipcRenderer.invoke('gmail-archive', messageId),
+  gmailSetStarred: (messageId: string, starred: boolean) => ipcRenderer.invoke('gmail-set-starred', messageId, starred),
+  gmailListLabels: () => ipcRenderer.invoke('gmail-list-labels'),
+  gmailModifyLabels: (messageId: string, addLabelIds: string[], removeLabelIds: string[]) =>
+    ipcRenderer.invoke('gmail-modify-labels', messageId, addLabelIds, removeLabelIds),
+  gmailSnooze: (email: { id: string; threadId: string; subject: string; from: string; snippet: string; date: string; until: string }) =>
+    ipcRenderer.invoke('gmail-snooze', email),
+
+  // Slack digest history
+  getDigestHistory: () => ipcRenderer.invoke('get-digest-history'),
+  clearDigestHistory: () => ipcRenderer.invoke('clear-digest-history'),
+  createTaskFromDigestItem: (entryId: string, itemId: string) => ipcRenderer.invoke('create-task-from-digest-item', entryId, itemId),
 
   // Strategize (OpenAI Chat)
   strategizeAuthenticateMCP: () =>
@@ -200,6 +276,16 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.on('task-created', handler);
     return () => ipcRenderer.removeListener('task-created', handler);
   },
+  onTasksUpdated: (callback: (tasks: any[]) => void) => {
+    const handler = (_event: any, tasks: any[]) => callback(tasks);
+    ipcRenderer.on('tasks-updated', handler);
+    return () => ipcRenderer.removeListener('tasks-updated', handler);
+  },
+  onDocsUpdated: (callback: (docs: any[]) => void) => {
+    const handler = (_event: any, docs: any[]) => callback(docs);
+    ipcRenderer.on('docs-updated', handler);
+    return () => ipcRenderer.removeListener('docs-updated', handler);
+  },
   onHighlightTask: (callback: (taskId: string) => void) => {
     const handler = (_event: any, taskId: string) => callback(taskId);
     ipcRenderer.on('highlight-task', handler);
@@ -250,7 +336,12 @@ export interface ElectronAPI {
   getTasks: () => Promise<any[]>;
   addTask: (task: any) => Promise<any>;
   updateTask: (id: string, updates: any) => Promise<void>;
-  deleteTask: (id: string) => Promise<void>;
+  deleteTask: (id: string, mode?: 'cascade' | 'promote') => Promise<void>;
+  undoTaskChange: () => Promise<{ success: boolean; conflict?: boolean; error?: string }>;
+  redoTaskChange: () => Promise<{ success: boolean; conflict?: boolean; error?: string }>;
+  getTaskHistory: (taskId: string) => Promise<TaskEvent[]>;
+  getDeletedTasks: () => Promise<TaskEvent[]>;
+  restoreDeletedTask: (taskId: string) => Promise<{ success: boolean; tasks?: Task[]; error?: string }>;
   startOAuthFlow: (provider: 'google' | 'slack' | 'jira' | 'zoom' | 'amplitude' | 'granola' | 'clockwise') => Promise<any>;
   getOAuthTokens: (provider: string) => Promise<any>;
   saveOAuthTokens: (provider: string, tokens: any) => Promise<void>;
@@ -259,15 +350,28 @@ export interface ElectronAPI {
   syncSlack: () => Promise<any>;
   getSmartSuggestions: (forceRefresh?: boolean) => Promise<any[]>;
   refreshSmartSuggestions: () => Promise<any[]>;
-  dismissSuggestion: (suggestionId: string) => Promise<{ success: boolean; error?: string }>;
+  dismissSuggestion: (suggestionId: string, outcome?: SuggestionOutcome) => Promise<{ success: boolean; error?: string }>;
+  getSuggestionLearning: () => Promise<LearnedWeight[]>;
+  resetSuggestionLearning: (key?: string) => Promise<{ success: boolean }>;
   writeDebugLog: (message: string) => Promise<{ success: boolean; error?: string }>;
   writeDebugFile: (filename: string, content: string) => Promise<{ success: boolean; path?: string; error?: string }>;
   calendarUpdateRSVP: (eventId: string, status: string) => Promise<{ success: boolean; error?: string }>;
   calendarCreateEvent: (request: any) => Promise<{ success: boolean; event?: any; error?: string }>;
+  calendarFindAvailability: (request: { attendees: string[]; durationMinutes: number; days?: number }) => Promise<{ success: boolean; slots?: TimeRange[]; timeZones?: string[]; unavailable?: string[]; error?: string }>;
+  focusTimeBlockNow: () => Promise<{ success: boolean; blocked?: number; error?: string }>;
+  localApiStartPairing: () => Promise<{ success: boolean; code?: string; expiresAt?: string; error?: string }>;
+  localApiListClients: () => Promise<LocalApiClient[]>;
+  localApiRevokeClient: (id: string) => Promise<{ success: boolean; error?: string }>;
+  onLocalApiClientPaired: (callback: (client: LocalApiClient) => void) => () => void;
   calendarUpdateEvent: (eventId: string, updates: any) => Promise<{ success: boolean; event?: any; error?: string }>;
   startDictation: () => Promise<{ success: boolean; text?: string; error?: string }>;
   stopDictation: () => Promise<{ success: boolean }>;
   voiceTranscribe: (audioData: ArrayBuffer) => Promise<{ success: boolean; text?: string; error?: string }>;
+  transcribeAudio: (audioBuffer: ArrayBuffer) => Promise<{ success: boolean; text?: string; error?: string }>;
+  llmComplete: (task: LLMTask, request: LLMCompletionRequest) => Promise<{ success: boolean; content?: string; error?: string }>;
+  getLLMStatus: () => Promise<Record<LLMTask, boolean>>;
+  getLLMUsage: () => Promise<LLMUsage>;
+  resetLLMUsage: () => Promise<{ success: boolean }>;
   zoomIsConfigured: () => Promise<boolean>;
   zoomCreateMeeting: (request: any) => Promise<{ success: boolean; meeting?: any; error?: string }>;
   jiraIsConfigured: () => Promise<boolean>;
@@ -276,6 +380,10 @@ export interface ElectronAPI {
   jiraGetIssueTypes: (projectKey: string) => Promise<any[]>;
   jiraCreateIssue: (request: any) => Promise<{ key: string; url: string }>;
   jiraGetMyIssues: () => Promise<any[]>;
+  jiraGetIssue: (issueKey: string) => Promise<{ key: string; summary: string; status: string; done: boolean; url: string }>;
+  jiraSyncNow: () => Promise<{ success: boolean; error?: string }>;
+  jiraImportNow: () => Promise<{ success: boolean; created?: number; completed?: number; removed?: number; error?: string }>;
+  resolveJiraSyncConflict: (taskId: string, field: JiraSyncField, choice: 'local' | 'remote') => Promise<{ success: boolean; task?: Task; error?: string }>;
   jiraGetComponents: (projectKey: string) => Promise<Array<{ id: string; name: string }>>;
   jiraGetSprints: (projectKey: string) => Promise<Array<{ id: number; name: string; state: string }>>;
   jiraSearchUsers: (projectKey: string, query: string) => Promise<Array<{ accountId: string; displayName: string; emailAddress: string }>>;
@@ -300,8 +408,28 @@ export interface ElectronAPI {
   getStarredEmails: () => Promise<any[]>;
   getSlackChannels: () => Promise<any[]>;
   getSlackUsers: () => Promise<Array<{ id: string; name: string; realName?: string; avatar?: string }>>;
+  getDigestHistory: () => Promise<DigestHistoryEntry[]>;
+  clearDigestHistory: () => Promise<{ success: boolean }>;
+  createTaskFromDigestItem: (entryId: string, itemId: string) => Promise<{ success: boolean; task?: Task; error?: string }>;
   slackGetThreadReplies: (channelId: string, threadTs: string) => Promise<Array<{text: string; user: string; userName: string; timestamp: string}>>;
   slackSendReply: (channelId: string, threadTs: string, text: string) => Promise<{success: boolean}>;
+  gmailGetMessageText: (messageId: string) => Promise<{ success: boolean; text?: string; error?: string }>;
+  gmailGetThread: (threadId: string) => Promise<{ success: boolean; thread?: EmailThread; error?: string }>;
+  gmailDownloadAttachment: (messageId: string, attachmentId: string, filename: string) => Promise<{ success: boolean; filePath?: string; error?: string }>;
+  createTaskFromEmailThread: (threadId: string) => Promise<{ success: boolean; task?: Task; error?: string }>;
+  getMeetingBriefs: () => Promise<Record<string, MeetingBrief>>;
+  generateMeetingBrief: (event: any) => Promise<{ success: boolean; brief?: MeetingBrief; error?: string }>;
+  onMeetingBriefReady: (callback: (brief: MeetingBrief) => void) => () => void;
+  getMeetingNotes: () => Promise<Record<string, MeetingNotesRecord>>;
+  dismissMeetingNotes: (eventId: string, eventTitle: string) => Promise<{ success: boolean }>;
+  extractMeetingNotes: (event: MeetingNotesEvent, notes: string) => Promise<{ success: boolean; extraction?: MeetingNotesExtraction; error?: string }>;
+  applyMeetingNotes: (request: ApplyMeetingNotesRequest) => Promise<{ success: boolean; record: MeetingNotesRecord; errors: string[] }>;
+  gmailSendReply: (messageId: string, text: string) => Promise<{ success: boolean; error?: string }>;
+  gmailArchive: (messageId: string) => Promise<{ success: boolean; error?: string }>;
+  gmailSetStarred: (messageId: string, starred: boolean) => Promise<{ success: boolean; error?: string }>;
+  gmailListLabels: () => Promise<{ success: boolean; labels?: EmailLabel[]; error?: string }>;
+  gmailModifyLabels: (messageId: string, addLabelIds: string[], removeLabelIds: string[]) => Promise<{ success: boolean; labelIds?: string[]; error?: string }>;
+  gmailSnooze: (email: { id: string; threadId: string; subject: string; from: string; snippet: string; date: string; until: string }) => Promise<{ success: boolean; error?: string }>;
   strategizeAuthenticateMCP: () => Promise<{ success: boolean; error?: string }>;
   strategizeStart: (folderPath: string) => Promise<{ success: boolean; error?: string }>;
   strategizeSend: (message: string, conversationHistory?: Array<{role: string, content: string}>, selectedMCPs?: string[]) => Promise<{ success: boolean; error?: string }>;
@@ -330,6 +458,8 @@ export interface ElectronAPI {
   onOAuthError: (callback: (data: { error: string }) => void) => () => void;
   onSwitchTab: (callback: (tab: 'tasks' | 'meetings' | 'strategize' | 'chats') => void) => () => void;
   onTaskCreated: (callback: (task: any) => void) => () => void;
+  onTasksUpdated: (callback: (tasks: any[]) => void) => () => void;
+  onDocsUpdated: (callback: (docs: any[]) => void) => () => void;
   onHighlightTask: (callback: (taskId: string) => void) => () => void;
   onMCPOAuthCallback: (callback: (data: { serverName: string; code: string; state?: string }) => void) => () => void;
   mcpOAuthComplete: (serverName: string) => Promise<{ success: boolean; error?: string }>;
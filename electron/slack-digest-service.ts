@@ -1,13 +1,25 @@
 import Store from 'electron-store';
-import OpenAI from 'openai';
 import * as fs from 'fs';
-import * as os from 'os';
-import * as path from 'path';
+import type { LLMRouter } from './llm-router';
+import { groupIntoThreads, mapWithConcurrency, triageThreads, type TriageMessage, type TriageResult } from './slack-digest-triage';
+import { buildDigestEmail } from './digest-email';
+import type { OutgoingEmail } from '../src/services/gmail';
+import { getLogPath } from '../src/utils/paths';
+import {
+  getDigestChannels,
+  getDigestOccurrences,
+  normalizeDigestSchedule,
+  type DigestChannel,
+  type DigestHistoryEntry,
+  type DigestOccurrence,
+  type DigestRunStatus,
+  type DigestSchedule,
+} from '../src/services/digest-schedule';
 
 const store = new Store();
 
 // Log file for debugging
-const logFilePath = path.join(os.homedir(), 'pm-os-digest-debug.log');
+const logFilePath = getLogPath('digest-debug.log');
 
 function logToFile(message: string) {
   try {
@@ -20,19 +32,9 @@ function logToFile(message: string) {
   }
 }
 
-interface SlackMessage {
-  id: string;
-  channel: string;
-  channelName: string;
-  user: string;
-  userName: string;
-  text: string;
-  ts: string;
-  threadTs?: string;
-  permalink?: string;
-}
+type SlackMessage = TriageMessage;
 
-interface ActionableItem {
+export interface ActionableItem {
   id: string; // Unique ID for this suggestion
   messageId: string; // Slack message ID (ts)
   channel: string;
@@ -49,30 +51,128 @@ interface ActionableItem {
   reasons: string[]; // Why this is suggested (e.g., "From VIP contact", "Question directed at you")
 }
 
+// Sends the email version of the digest through the user's Google account
+export interface DigestEmailSender {
+  linkBaseUrl: string;  // See getCreateTaskLink
+  send(email: OutgoingEmail): Promise<unknown>;
+}
+
 interface DigestState {
-  lastSent: { [time: string]: number }; // Track when each digest was last sent
+  lastSent: { [slotId: string]: number }; // Track when each digest was last sent
   suggestedMessages: { [messageId: string]: number }; // messageId -> timestamp when suggested
   createdTasks: { [messageId: string]: string }; // messageId -> task ID that was created
+  lastCheckedAt?: number; // Slots due after this haven't been handled yet
+}
+
+const DIGEST_HISTORY_KEY = 'digestHistory';
+const MAX_DIGEST_HISTORY = 100;
+// How often to look for due slots. Polling (rather than one long timer) notices
+// slots that came due while the machine was asleep as soon as it wakes.
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+// Never look further back than this for missed slots, e.g. after the digest was off for a week
+const MAX_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+// Slack's Tier 3 rate limit allows ~50 requests a minute
+const MAX_CONCURRENT_SLACK_REQUESTS = 4;
+const MAX_THREADS_WITH_REPLIES_PER_CHANNEL = 20;
+
+function getDigestState(): DigestState {
+  return store.get('digestState', {
+    lastSent: {},
+    suggestedMessages: {},
+    createdTasks: {},
+  }) as DigestState;
+}
+
+/**
+ * Past digest runs, newest first, with the tasks created from each item
+ */
+export function getDigestHistory(): DigestHistoryEntry[] {
+  const history = store.get(DIGEST_HISTORY_KEY, []) as DigestHistoryEntry[];
+  const { createdTasks } = getDigestState();
+  return history.map(entry => ({
+    ...entry,
+    items: entry.items.map(item => ({ ...item, taskId: createdTasks[item.messageId] })),
+  }));
+}
+
+export function clearDigestHistory() {
+  store.set(DIGEST_HISTORY_KEY, []);
+}
+
+/**
+ * Mark a message as having a task created so it stays out of future digests
+ */
+export function markDigestTaskCreated(messageId: string, taskId: string) {
+  const state = getDigestState();
+  state.createdTasks[messageId] = taskId;
+  store.set('digestState', state);
+  logToFile(`[DigestService] Marked message ${messageId} as having task ${taskId}`);
+}
+
+function getDigestEntryId(occurrence: DigestOccurrence): string {
+  return `${occurrence.slot.id}_${occurrence.at.getTime()}`;
+}
+
+function recordDigestRun(
+  occurrence: DigestOccurrence,
+  status: DigestRunStatus,
+  details: { reason?: string; catchUp?: boolean; deliveredVia?: DigestChannel[]; items?: ActionableItem[] } = {}
+) {
+  const entry: DigestHistoryEntry = {
+    id: getDigestEntryId(occurrence),
+    slotId: occurrence.slot.id,
+    slotTime: occurrence.slot.time,
+    scheduledFor: occurrence.at.toISOString(),
+    ranAt: new Date().toISOString(),
+    status,
+    reason: details.reason,
+    catchUp: !!details.catchUp,
+    deliveredVia: details.deliveredVia,
+    items: (details.items || []).map(item => ({
+      id: item.id,
+      messageId: item.messageId,
+      channel: item.channel,
+      channelName: item.channelName,
+      userName: item.userName,
+      text: item.text,
+      summary: item.summary,
+      suggestedAction: item.suggestedAction,
+      priority: item.priority,
+      permalink: item.permalink,
+    })),
+  };
+  const history = store.get(DIGEST_HISTORY_KEY, []) as DigestHistoryEntry[];
+  store.set(DIGEST_HISTORY_KEY, [entry, ...history].slice(0, MAX_DIGEST_HISTORY));
 }
 
 export class SlackDigestService {
-  private openai: OpenAI | null = null;
+  private llm: LLMRouter;
   private slackToken: string | null = null;
-  private timers: NodeJS.Timeout[] = [];
-
-  constructor(openaiApiKey: string, slackToken?: string) {
-    if (openaiApiKey) {
-      this.openai = new OpenAI({ apiKey: openaiApiKey });
-    }
+  private isOutOfOffice: (at: Date) => Promise<boolean>;
+  private emailSender: DigestEmailSender | null;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private isChecking = false;
+
+  constructor(
+    llm: LLMRouter,
+    slackToken?: string,
+    isOutOfOffice?: (at: Date) => Promise<boolean>,
+    emailSender?: DigestEmailSender
+  ) {
+    this.llm = llm;
     this.slackToken = slackToken || null;
+    this.isOutOfOffice = isOutOfOffice || (async () => false);
+    this.emailSender = emailSender || null;
     logToFile('[DigestService] Initialized');
   }
 
   /**
    * Start the digest service
-   * Schedules digests for 9AM, 12PM, and 5PM in user's timezone
+   * Runs the user's digest slots in their primary timezone
    */
   start() {
+    this.stop();
+
     const userSettings = store.get('userSettings', {}) as any;
 
     if (!userSettings.slackDailyDigestEnabled) {
@@ -80,8 +180,8 @@ export class SlackDigestService {
       return;
     }
 
-    if (!this.openai) {
-      logToFile('[DigestService] OpenAI not configured, cannot start digest');
+    if (!this.llm.isAvailable('digest-triage')) {
+      logToFile('[DigestService] No AI provider configured for digest triage, cannot start digest');
       return;
     }
 
@@ -90,91 +190,149 @@ export class SlackDigestService {
       return;
     }
 
-    const timezone = userSettings.primaryTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
-    logToFile(`[DigestService] Starting with timezone: ${timezone}`);
+    const schedule = this.getSchedule();
+    logToFile(`[DigestService] Starting with timezone ${this.getTimezone()} and ${schedule.slots.length} slot(s)`);
 
-    // Schedule for 9AM, 12PM, 5PM
-    this.scheduleDigest('09:00', timezone);
-    this.scheduleDigest('12:00', timezone);
-    this.scheduleDigest('17:00', timezone);
+    // Don't replay slots from before the service first ran
+    const state = this.getDigestState();
+    if (!state.lastCheckedAt) {
+      state.lastCheckedAt = Date.now();
+      this.saveDigestState(state);
+    }
 
-    logToFile('[DigestService] Scheduled 3x daily digests');
+    this.checkTimer = setInterval(() => this.checkSchedule(), SCHEDULE_CHECK_INTERVAL_MS);
+    this.checkSchedule();
   }
 
   /**
    * Stop the digest service
    */
   stop() {
-    this.timers.forEach(timer => clearTimeout(timer));
-    this.timers = [];
-    logToFile('[DigestService] Stopped');
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+      logToFile('[DigestService] Stopped');
+    }
+  }
+
+  private getSchedule(): DigestSchedule {
+    const userSettings = store.get('userSettings', {}) as any;
+    return normalizeDigestSchedule(userSettings.slackDigestSchedule);
+  }
+
+  private getTimezone(): string {
+    const userSettings = store.get('userSettings', {}) as any;
+    return userSettings.primaryTimezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
   }
 
   /**
-   * Schedule a digest for a specific time
+   * Handle every slot that came due since the last check. Call this on wake
+   * from sleep too; it's safe to call at any time.
    */
-  private scheduleDigest(time: string, _timezone: string) {
-    const [hours, minutes] = time.split(':').map(Number);
+  async checkSchedule() {
+    if (!this.checkTimer || this.isChecking) return;
+    this.isChecking = true;
 
-    const scheduleNext = () => {
+    try {
       const now = new Date();
-      const scheduled = new Date();
-      scheduled.setHours(hours, minutes, 0, 0);
+      const state = this.getDigestState();
+      const schedule = this.getSchedule();
+      const from = new Date(Math.max(state.lastCheckedAt || now.getTime(), now.getTime() - MAX_LOOKBACK_MS));
+      // Days off are included here so they show up in the history as skipped
+      const due = getDigestOccurrences({ ...schedule, skipDates: [] }, this.getTimezone(), from, now)
+        .filter(occurrence => (state.lastSent[occurrence.slot.id] || 0) < occurrence.at.getTime());
 
-      // If time has passed today, schedule for tomorrow
-      if (scheduled <= now) {
-        scheduled.setDate(scheduled.getDate() + 1);
+      state.lastCheckedAt = now.getTime();
+      this.saveDigestState(state);
+      if (due.length === 0) return;
+
+      // Only the latest slot is sent; earlier ones it would repeat are recorded as skipped
+      const latest = due[due.length - 1];
+      for (const occurrence of due.slice(0, -1)) {
+        recordDigestRun(occurrence, 'skipped', { reason: 'Superseded by a later digest' });
       }
 
-      const msUntilNext = scheduled.getTime() - now.getTime();
-      logToFile(`[DigestService] Next ${time} digest in ${Math.round(msUntilNext / 1000 / 60)} minutes`);
+      const lateByMs = now.getTime() - latest.at.getTime();
+      const isLate = lateByMs > 2 * SCHEDULE_CHECK_INTERVAL_MS;
+      if (isLate && (!schedule.catchUp || lateByMs > schedule.catchUpWindowHours * 60 * 60 * 1000)) {
+        logToFile(`[DigestService] Missed ${latest.slot.time} digest by ${Math.round(lateByMs / 60000)} minutes, skipping`);
+        recordDigestRun(latest, 'skipped', { reason: 'Missed while PM-OS was closed or asleep' });
+        return;
+      }
 
-      const timer = setTimeout(async () => {
-        await this.sendDigest(time);
-        scheduleNext(); // Schedule next occurrence
-      }, msUntilNext);
+      if (schedule.skipDates.includes(latest.date)) {
+        recordDigestRun(latest, 'skipped', { reason: 'Day off' });
+        return;
+      }
 
-      this.timers.push(timer);
-    };
+      if (schedule.skipOutOfOffice) {
+        let outOfOffice = false;
+        try {
+          outOfOffice = await this.isOutOfOffice(latest.at);
+        } catch (error) {
+          logToFile(`[DigestService] Could not check calendar for out-of-office: ${error}`);
+        }
+        if (outOfOffice) {
+          logToFile(`[DigestService] Out of office at ${latest.slot.time}, skipping digest`);
+          recordDigestRun(latest, 'skipped', { reason: 'Out of office' });
+          return;
+        }
+      }
 
-    scheduleNext();
+      await this.sendDigest(latest, isLate);
+    } finally {
+      this.isChecking = false;
+    }
   }
 
   /**
    * Send the digest for a specific time slot
    */
-  private async sendDigest(timeSlot: string) {
-    logToFile(`[DigestService] ========== Generating ${timeSlot} Digest ==========`);
+  private async sendDigest(occurrence: DigestOccurrence, catchUp: boolean) {
+    const timeSlot = occurrence.slot.time;
+    logToFile(`[DigestService] ========== Generating ${timeSlot} Digest${catchUp ? ' (catch-up)' : ''} ==========`);
 
     try {
-      // Check if we've already sent this digest recently (within last hour)
-      const state = this.getDigestState();
-      const lastSent = state.lastSent[timeSlot] || 0;
-      const hourAgo = Date.now() - (60 * 60 * 1000);
-
-      if (lastSent > hourAgo) {
-        logToFile(`[DigestService] Already sent ${timeSlot} digest recently, skipping`);
-        return;
-      }
-
       // Get actionable items
       const items = await this.getActionableItems();
 
+      const state = this.getDigestState();
+      state.lastSent[occurrence.slot.id] = Date.now();
+      this.saveDigestState(state);
+
       if (items.length === 0) {
         logToFile('[DigestService] No actionable items found');
+        recordDigestRun(occurrence, 'empty', { catchUp });
         return;
       }
 
-      // Send Slack DM with items
-      await this.sendSlackDigest(items, timeSlot);
+      // Deliver to each channel the user chose; the run counts as sent if any succeeded
+      const userSettings = store.get('userSettings', {}) as any;
+      const deliveredVia: DigestChannel[] = [];
+      const failures: string[] = [];
+      for (const channel of getDigestChannels(userSettings.slackDigestDelivery)) {
+        const delivered = channel === 'email'
+          ? await this.sendEmailDigest(items, occurrence)
+          : await this.sendSlackDigest(items, timeSlot);
+        if (delivered) {
+          deliveredVia.push(channel);
+        } else {
+          failures.push(channel === 'email' ? 'Email could not be delivered' : 'Slack DM could not be delivered');
+        }
+      }
 
-      // Update state
-      state.lastSent[timeSlot] = Date.now();
-      this.saveDigestState(state);
+      const sent = deliveredVia.length > 0;
+      recordDigestRun(occurrence, sent ? 'sent' : 'failed', {
+        catchUp,
+        items,
+        deliveredVia,
+        reason: failures.length > 0 ? failures.join('; ') : undefined,
+      });
 
-      logToFile(`[DigestService] ========== ${timeSlot} Digest Sent ==========`);
+      logToFile(`[DigestService] ========== ${timeSlot} Digest ${sent ? 'Sent' : 'Failed'} ==========`);
     } catch (error) {
       logToFile(`[DigestService] Error sending digest: ${error}`);
+      recordDigestRun(occurrence, 'failed', { catchUp, reason: String(error) });
     }
   }
 
@@ -185,7 +343,6 @@ export class SlackDigestService {
     const userSettings = store.get('userSettings', {}) as any;
     const monitoredChannels = userSettings.slackChannels || [];
     const vipContacts = userSettings.slackVipContacts || [];
-    const userEmail = userSettings.email;
 
     if (monitoredChannels.length === 0) {
       logToFile('[DigestService] No monitored channels configured');
@@ -195,45 +352,44 @@ export class SlackDigestService {
     logToFile(`[DigestService] Scanning ${monitoredChannels.length} channels for actionable items`);
 
     const messages = await this.fetchRecentMessages(monitoredChannels);
-    logToFile(`[DigestService] Found ${messages.length} recent messages`);
+    const threads = groupIntoThreads(messages);
+    logToFile(`[DigestService] Found ${messages.length} recent messages in ${threads.length} threads`);
 
-    // Filter out already suggested or completed messages
+    // Filter out already suggested or completed threads
     const state = this.getDigestState();
-    const newMessages = messages.filter(msg => {
+    const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
+    const newThreads = threads.filter(thread => {
       // Skip if already suggested in last 7 days
-      const suggestedTime = state.suggestedMessages[msg.id];
-      if (suggestedTime && Date.now() - suggestedTime < 7 * 24 * 60 * 60 * 1000) {
+      const suggestedTime = state.suggestedMessages[thread.id];
+      if (suggestedTime && suggestedTime > weekAgo) {
         return false;
       }
 
-      // Skip if task was already created from this message
-      if (state.createdTasks[msg.id]) {
+      // Skip if task was already created from this thread
+      if (state.createdTasks[thread.id]) {
         return false;
       }
 
       return true;
     });
 
-    logToFile(`[DigestService] ${newMessages.length} new messages after deduplication`);
+    logToFile(`[DigestService] ${newThreads.length} new threads after deduplication`);
 
-    // Use AI to analyze and score messages
-    const actionableItems: ActionableItem[] = [];
+    const { results, stats } = await triageThreads(this.llm, newThreads);
+    logToFile(`[DigestService] Triage: ${stats.filtered} filtered as noise, ${stats.cached} cached, ` +
+      `${stats.analyzed} analyzed in ${stats.batches} batch(es)${stats.failedBatches ? `, ${stats.failedBatches} failed` : ''}`);
 
-    for (const message of newMessages) {
-      try {
-        const item = await this.analyzeMessage(message, vipContacts, userEmail);
-        if (item) {
-          actionableItems.push(item);
+    const actionableItems = results
+      .filter(result => result.verdict.isActionable)
+      .map(result => this.toActionableItem(result, vipContacts));
 
-          // Mark as suggested
-          state.suggestedMessages[message.id] = Date.now();
-        }
-      } catch (error) {
-        logToFile(`[DigestService] Error analyzing message ${message.id}: ${error}`);
-      }
+    // Mark as suggested, and forget suggestions old enough to be shown again
+    for (const item of actionableItems) {
+      state.suggestedMessages[item.messageId] = Date.now();
+    }
+    for (const [messageId, suggestedAt] of Object.entries(state.suggestedMessages)) {
+      if (suggestedAt <= weekAgo) delete state.suggestedMessages[messageId];
     }
-
-    // Save updated state
     this.saveDigestState(state);
 
     // Sort by priority and return top 5
@@ -245,178 +401,153 @@ export class SlackDigestService {
     return top5;
   }
 
+  private async slackGet(method: string, params: Record<string, string | number>): Promise<any> {
+    const query = new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)]));
+    const response = await fetch(`https://slack.com/api/${method}?${query}`, {
+      headers: {
+        'Authorization': `Bearer ${this.slackToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    return response.json();
+  }
+
+  private toSlackMessage(msg: any, channelId: string, channelName: string): SlackMessage {
+    return {
+      id: msg.ts,
+      channel: channelId,
+      channelName,
+      user: msg.user || msg.bot_id || 'unknown',
+      userName: msg.user_profile?.display_name || msg.user_profile?.real_name || msg.username || msg.user || 'Unknown',
+      text: msg.text || '',
+      ts: msg.ts,
+      threadTs: msg.thread_ts,
+      subtype: msg.subtype,
+      permalink: msg.permalink,
+    };
+  }
+
   /**
-   * Fetch recent messages from Slack channels
+   * Fetch recent messages from Slack channels, including replies in active threads
    */
   private async fetchRecentMessages(channelIds: string[]): Promise<SlackMessage[]> {
     if (!this.slackToken) return [];
 
-    const messages: SlackMessage[] = [];
     const oneDayAgo = Math.floor(Date.now() / 1000) - (24 * 60 * 60);
 
-    for (const channelId of channelIds) {
+    const perChannel = await mapWithConcurrency(channelIds, MAX_CONCURRENT_SLACK_REQUESTS, async channelId => {
+      const messages: SlackMessage[] = [];
       try {
-        const response = await fetch(
-          `https://slack.com/api/conversations.history?channel=${channelId}&oldest=${oneDayAgo}&limit=50`,
-          {
-            headers: {
-              'Authorization': `Bearer ${this.slackToken}`,
-              'Content-Type': 'application/json',
-            },
+        const data = await this.slackGet('conversations.history', { channel: channelId, oldest: oneDayAgo, limit: 50 });
+        if (!data.ok || !data.messages) return messages;
+
+        const channelName = data.channel?.name || channelId;
+        messages.push(...data.messages.map((msg: any) => this.toSlackMessage(msg, channelId, channelName)));
+
+        // Pull in replies so threads are triaged with their full context
+        const activeThreads = data.messages
+          .filter((msg: any) => msg.reply_count > 0 && parseFloat(msg.latest_reply || '0') >= oneDayAgo)
+          .slice(0, MAX_THREADS_WITH_REPLIES_PER_CHANNEL);
+        const replies = await mapWithConcurrency(activeThreads, MAX_CONCURRENT_SLACK_REQUESTS, async (msg: any) => {
+          try {
+            const thread = await this.slackGet('conversations.replies', { channel: channelId, ts: msg.ts, limit: 50 });
+            return thread.ok ? (thread.messages || []).filter((reply: any) => reply.ts !== msg.ts) : [];
+          } catch (error) {
+            logToFile(`[DigestService] Error fetching replies for ${channelId}/${msg.ts}: ${error}`);
+            return [];
           }
-        );
-
-        const data = await response.json();
-
-        if (data.ok && data.messages) {
-          for (const msg of data.messages) {
-            messages.push({
-              id: msg.ts,
-              channel: channelId,
-              channelName: data.channel?.name || channelId,
-              user: msg.user || 'unknown',
-              userName: msg.user_profile?.display_name || msg.user_profile?.real_name || msg.user || 'Unknown',
-              text: msg.text || '',
-              ts: msg.ts,
-              threadTs: msg.thread_ts,
-              permalink: msg.permalink,
-            });
-          }
-        }
+        });
+        messages.push(...replies.flat().map((reply: any) => this.toSlackMessage(reply, channelId, channelName)));
       } catch (error) {
         logToFile(`[DigestService] Error fetching messages from ${channelId}: ${error}`);
       }
-    }
+      return messages;
+    });
 
-    return messages;
+    return perChannel.flat();
   }
 
   /**
-   * Analyze a message with AI to determine if it's actionable
+   * Turn a triage verdict into a scored digest item
    */
-  private async analyzeMessage(
-    message: SlackMessage,
-    vipContacts: string[],
-    _userEmail?: string
-  ): Promise<ActionableItem | null> {
-    if (!this.openai) return null;
-
-    // Check if message is too old (more than 24 hours)
-    const messageTime = parseFloat(message.ts) * 1000;
-    const dayAgo = Date.now() - (24 * 60 * 60 * 1000);
-    if (messageTime < dayAgo) return null;
-
-    try {
-      const prompt = `Analyze this Slack message and determine if it requires action from the user.
-
-Message: "${message.text}"
-From: ${message.userName}
-Channel: #${message.channelName}
-
-Determine:
-1. Is this an actionable item? (question, request, decision needed, bug report, feature request, etc.)
-2. What specific action should the user take?
-3. Is it urgent or can it wait?
-4. Brief summary (1 sentence)
-
-Respond in JSON format:
-{
-  "isActionable": boolean,
-  "summary": "one sentence summary",
-  "suggestedAction": "what the user should do",
-  "urgency": "high" | "medium" | "low",
-  "reason": "why this needs attention"
-}
-
-If not actionable, set isActionable to false.`;
-
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are an assistant that identifies actionable items in Slack messages.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      });
-
-      const analysis = JSON.parse(response.choices[0].message.content || '{}');
-
-      if (!analysis.isActionable) {
-        return null;
-      }
-
-      // Calculate priority score (0-100)
-      let priority = 50; // Base score
-
-      // VIP contact bonus
-      if (vipContacts.includes(message.user)) {
-        priority += 30;
-      }
+  private toActionableItem({ thread, verdict }: TriageResult, vipContacts: string[]): ActionableItem {
+    const root = thread.messages.find(m => m.ts === thread.id) || thread.messages[0];
+    const latest = thread.messages[thread.messages.length - 1];
+    const latestTime = parseFloat(latest.ts) * 1000;
+    const fromVip = thread.messages.some(m => vipContacts.includes(m.user));
+
+    // Calculate priority score (0-100)
+    let priority = 50; // Base score
+
+    // VIP contact bonus
+    if (fromVip) {
+      priority += 30;
+    }
 
-      // Urgency bonus
-      if (analysis.urgency === 'high') {
-        priority += 15;
-      } else if (analysis.urgency === 'medium') {
-        priority += 5;
-      }
+    // Urgency bonus
+    if (verdict.urgency === 'high') {
+      priority += 15;
+    } else if (verdict.urgency === 'medium') {
+      priority += 5;
+    }
 
-      // Recency bonus (newer = higher priority)
-      const hoursSinceMessage = (Date.now() - messageTime) / (1000 * 60 * 60);
-      if (hoursSinceMessage < 2) {
-        priority += 10;
-      } else if (hoursSinceMessage < 6) {
-        priority += 5;
-      }
+    // Recency bonus (newer = higher priority)
+    const hoursSinceMessage = (Date.now() - latestTime) / (1000 * 60 * 60);
+    if (hoursSinceMessage < 2) {
+      priority += 10;
+    } else if (hoursSinceMessage < 6) {
+      priority += 5;
+    }
 
-      priority = Math.min(100, priority); // Cap at 100
+    priority = Math.min(100, priority); // Cap at 100
 
-      const reasons: string[] = [];
-      if (vipContacts.includes(message.user)) {
-        reasons.push('From VIP contact');
-      }
-      if (analysis.urgency === 'high') {
-        reasons.push('High urgency');
-      }
-      if (hoursSinceMessage < 2) {
-        reasons.push('Very recent');
-      }
-      reasons.push(analysis.reason);
-
-      return {
-        id: `${message.channel}_${message.ts}`,
-        messageId: message.id,
-        channel: message.channel,
-        channelName: message.channelName,
-        user: message.user,
-        userName: message.userName,
-        text: message.text,
-        summary: analysis.summary,
-        suggestedAction: analysis.suggestedAction,
-        priority,
-        permalink: message.permalink,
-        threadTs: message.threadTs,
-        timestamp: messageTime,
-        reasons,
-      };
-    } catch (error) {
-      logToFile(`[DigestService] Error analyzing message: ${error}`);
-      return null;
+    const reasons: string[] = [];
+    if (fromVip) {
+      reasons.push('From VIP contact');
+    }
+    if (verdict.urgency === 'high') {
+      reasons.push('High urgency');
+    }
+    if (hoursSinceMessage < 2) {
+      reasons.push('Very recent');
     }
+    if (thread.messages.length > 1) {
+      reasons.push(`Active thread (${thread.messages.length} messages)`);
+    }
+    if (verdict.reason) {
+      reasons.push(verdict.reason);
+    }
+
+    return {
+      id: `${thread.channel}_${thread.id}`,
+      messageId: thread.id,
+      channel: thread.channel,
+      channelName: thread.channelName,
+      user: root.user,
+      userName: root.userName,
+      text: root.text,
+      summary: verdict.summary,
+      suggestedAction: verdict.suggestedAction,
+      priority,
+      permalink: root.permalink,
+      threadTs: thread.messages.length > 1 ? thread.id : root.threadTs,
+      timestamp: latestTime,
+      reasons,
+    };
   }
 
   /**
    * Send digest as Slack DM
    */
-  private async sendSlackDigest(items: ActionableItem[], timeSlot: string) {
-    if (!this.slackToken) return;
+  private async sendSlackDigest(items: ActionableItem[], timeSlot: string): Promise<boolean> {
+    if (!this.slackToken) return false;
 
     const userSettings = store.get('userSettings', {}) as any;
     const userEmail = userSettings.email;
 
     if (!userEmail) {
       logToFile('[DigestService] User email not set, cannot send DM');
-      return;
+      return false;
     }
 
     try {
@@ -434,7 +565,7 @@ If not actionable, set isActionable to false.`;
 
       if (!userData.ok || !userData.user) {
         logToFile(`[DigestService] Could not find Slack user for email: ${userEmail}`);
-        return;
+        return false;
       }
 
       const userId = userData.user.id;
@@ -463,8 +594,43 @@ If not actionable, set isActionable to false.`;
       } else {
         logToFile(`[DigestService] Failed to send digest: ${messageData.error}`);
       }
+      return !!messageData.ok;
     } catch (error) {
       logToFile(`[DigestService] Error sending Slack DM: ${error}`);
+      return false;
+    }
+  }
+
+  /**
+   * Send digest as an HTML email to the user's own address
+   */
+  private async sendEmailDigest(items: ActionableItem[], occurrence: DigestOccurrence): Promise<boolean> {
+    if (!this.emailSender) {
+      logToFile('[DigestService] Google account not connected, cannot send email digest');
+      return false;
+    }
+
+    const userSettings = store.get('userSettings', {}) as any;
+    const userEmail = userSettings.email;
+
+    if (!userEmail) {
+      logToFile('[DigestService] User email not set, cannot send email digest');
+      return false;
+    }
+
+    try {
+      const email = buildDigestEmail(items, {
+        to: userEmail,
+        timeSlot: occurrence.slot.time,
+        entryId: getDigestEntryId(occurrence),
+        linkBaseUrl: this.emailSender.linkBaseUrl,
+      });
+      await this.emailSender.send(email);
+      logToFile(`[DigestService] Emailed digest to ${userEmail}`);
+      return true;
+    } catch (error) {
+      logToFile(`[DigestService] Error sending email digest: ${error}`);
+      return false;
     }
   }
 
@@ -472,13 +638,8 @@ If not actionable, set isActionable to false.`;
    * Build Slack message blocks for digest
    */
   private buildDigestBlocks(items: ActionableItem[], timeSlot: string): any[] {
-    const timeEmojis: { [key: string]: string } = {
-      '09:00': '🌅',
-      '12:00': '☀️',
-      '17:00': '🌆',
-    };
-
-    const emoji = timeEmojis[timeSlot] || '📬';
+    const hour = Number(timeSlot.split(':')[0]);
+    const emoji = hour < 11 ? '🌅' : hour < 15 ? '☀️' : '🌆';
 
     const blocks: any[] = [
       {
@@ -563,21 +724,14 @@ If not actionable, set isActionable to false.`;
    * Mark a message as having a task created
    */
   markTaskCreated(messageId: string, taskId: string) {
-    const state = this.getDigestState();
-    state.createdTasks[messageId] = taskId;
-    this.saveDigestState(state);
-    logToFile(`[DigestService] Marked message ${messageId} as having task ${taskId}`);
+    markDigestTaskCreated(messageId, taskId);
   }
 
   /**
    * Get digest state
    */
   private getDigestState(): DigestState {
-    return store.get('digestState', {
-      lastSent: {},
-      suggestedMessages: {},
-      createdTasks: {},
-    }) as DigestState;
+    return getDigestState();
   }
 
   /**
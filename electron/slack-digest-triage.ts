@@ -0,0 +1,279 @@
+import Store from 'electron-store';
+import { createHash } from 'crypto';
+import type { LLMRouter } from './llm-router';
+
+const store = new Store();
+
+const VERDICT_CACHE_KEY = 'digestTriageCache';
+const VERDICT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Per-call limits keep prompts well inside small local models' context windows
+const MAX_THREADS_PER_BATCH = 8;
+const MAX_BATCH_CHARS = 12000;
+const MAX_MESSAGES_PER_THREAD = 15;
+const MAX_MESSAGE_CHARS = 800;
+const MAX_CONCURRENT_BATCHES = 3;
+
+export interface TriageMessage {
+  id: string;
+  channel: string;
+  channelName: string;
+  user: string;
+  userName: string;
+  text: string;
+  ts: string;
+  threadTs?: string;
+  subtype?: string;
+  permalink?: string;
+}
+
+// A top-level message and any replies, triaged as one unit
+export interface TriageThread {
+  id: string;  // Root message ts
+  channel: string;
+  channelName: string;
+  messages: TriageMessage[];  // Oldest first; messages[0] is the root when it was fetched
+}
+
+export interface TriageVerdict {
+  isActionable: boolean;
+  summary: string;
+  suggestedAction: string;
+  urgency: 'high' | 'medium' | 'low';
+  reason: string;
+}
+
+export interface TriageResult {
+  thread: TriageThread;
+  verdict: TriageVerdict;
+  cached: boolean;
+}
+
+export interface TriageStats {
+  threads: number;
+  filtered: number;  // Dropped by the heuristic pre-filter
+  cached: number;
+  analyzed: number;
+  batches: number;
+  failedBatches: number;
+}
+
+interface CachedVerdict {
+  verdict: TriageVerdict;
+  at: number;
+}
+
+/**
+ * Run `fn` over items with at most `limit` in flight, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+export function groupIntoThreads(messages: TriageMessage[]): TriageThread[] {
+  const threads = new Map<string, TriageThread>();
+  for (const message of messages) {
+    const rootTs = message.threadTs || message.ts;
+    const key = `${message.channel}_${rootTs}`;
+    let thread = threads.get(key);
+    if (!thread) {
+      thread = { id: rootTs, channel: message.channel, channelName: message.channelName, messages: [] };
+      threads.set(key, thread);
+    }
+    if (!thread.messages.some(m => m.ts === message.ts)) {
+      thread.messages.push(message);
+    }
+  }
+  for (const thread of threads.values()) {
+    thread.messages.sort((a, b) => parseFloat(a.ts) - parseFloat(b.ts));
+  }
+  return Array.from(threads.values());
+}
+
+const NOISE_SUBTYPES = new Set([
+  'channel_join', 'channel_leave', 'channel_topic', 'channel_purpose', 'channel_name',
+  'channel_archive', 'channel_unarchive', 'group_join', 'group_leave', 'bot_add', 'bot_remove',
+  'pinned_item', 'unpinned_item', 'reminder_add', 'tombstone',
+]);
+
+const ACKNOWLEDGEMENT = /^(ok(ay)?|k|kk|thanks?( you)?( all| everyone)?|thx|ty|np|no worries|lol|haha+|nice|great|cool|awesome|sounds good|makes sense|\+1|done|yes|yep|yup|no|nope|sure|got it|will do|on it|lgtm)[.!\s]*$/i;
+
+/**
+ * Messages that can never need action: joins/leaves, emoji-only and one-word acknowledgements
+ */
+export function isLikelyNoise(message: TriageMessage): boolean {
+  if (message.subtype && NOISE_SUBTYPES.has(message.subtype)) return true;
+
+  const text = message.text
+    .replace(/<@[A-Z0-9]+(\|[^>]*)?>/g, '')   // User mentions
+    .replace(/:[a-z0-9_+'-]+:/gi, '')          // Emoji shortcodes
+    .replace(/[\p{Extended_Pictographic}\u200D\uFE0F]/gu, '')
+    .trim();
+
+  return text.length < 3 || ACKNOWLEDGEMENT.test(text);
+}
+
+function hashThread(thread: TriageThread): string {
+  const hash = createHash('sha256');
+  hash.update(thread.channel);
+  for (const message of thread.messages) {
+    hash.update(`\u0000${message.ts}\u0000${message.user}\u0000${message.text}`);
+  }
+  return hash.digest('hex');
+}
+
+function getVerdictCache(): Record<string, CachedVerdict> {
+  const cache = store.get(VERDICT_CACHE_KEY, {}) as Record<string, CachedVerdict>;
+  const cutoff = Date.now() - VERDICT_CACHE_TTL_MS;
+  return Object.fromEntries(Object.entries(cache).filter(([, entry]) => entry.at > cutoff));
+}
+
+function formatThread(thread: TriageThread, label: string): string {
+  const messages = thread.messages.slice(-MAX_MESSAGES_PER_THREAD);
+  const lines = messages.map(m => {
+    const text = m.text.length > MAX_MESSAGE_CHARS ? `${m.text.slice(0, MAX_MESSAGE_CHARS)}…` : m.text;
+    return `  ${m.userName}: ${text.replace(/\n+/g, ' ')}`;
+  });
+  const skipped = thread.messages.length - messages.length;
+  return `[${label}] #${thread.channelName}${skipped > 0 ? ` (${skipped} earlier replies omitted)` : ''}\n${lines.join('\n')}`;
+}
+
+// Split into batches by thread count and prompt size
+function buildBatches(threads: TriageThread[]): TriageThread[][] {
+  const batches: TriageThread[][] = [];
+  let current: TriageThread[] = [];
+  let size = 0;
+  for (const thread of threads) {
+    const threadSize = formatThread(thread, 'T0').length;
+    if (current.length > 0 && (current.length >= MAX_THREADS_PER_BATCH || size + threadSize > MAX_BATCH_CHARS)) {
+      batches.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(thread);
+    size += threadSize;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function normalizeVerdict(raw: any): TriageVerdict {
+  return {
+    isActionable: raw?.isActionable === true,
+    summary: String(raw?.summary || ''),
+    suggestedAction: String(raw?.suggestedAction || ''),
+    urgency: ['high', 'medium', 'low'].includes(raw?.urgency) ? raw.urgency : 'low',
+    reason: String(raw?.reason || ''),
+  };
+}
+
+async function analyzeBatch(llm: LLMRouter, batch: TriageThread[]): Promise<Map<TriageThread, TriageVerdict>> {
+  const prompt = `Analyze these Slack threads and decide which ones require action from the user.
+Read each thread as a whole: a question that was already answered later in the thread is not actionable.
+
+${batch.map((thread, index) => formatThread(thread, `T${index + 1}`)).join('\n\n')}
+
+For each thread determine:
+1. Is it an actionable item? (question, request, decision needed, bug report, feature request, etc.)
+2. What specific action should the user take?
+3. Is it urgent or can it wait?
+4. Brief summary (1 sentence)
+
+Respond in JSON format with one entry per thread:
+{
+  "threads": [
+    {
+      "id": "T1",
+      "isActionable": boolean,
+      "summary": "one sentence summary",
+      "suggestedAction": "what the user should do",
+      "urgency": "high" | "medium" | "low",
+      "reason": "why this needs attention"
+    }
+  ]
+}
+
+If a thread is not actionable, set isActionable to false.`;
+
+  const response = await llm.complete('digest-triage', {
+    messages: [
+      { role: 'system', content: 'You are an assistant that identifies actionable items in Slack conversations.' },
+      { role: 'user', content: prompt },
+    ],
+    temperature: 0.3,
+    json: true,
+  });
+
+  const parsed = JSON.parse(response.content || '{}');
+  const verdicts = new Map<TriageThread, TriageVerdict>();
+  for (const entry of Array.isArray(parsed.threads) ? parsed.threads : []) {
+    const index = parseInt(String(entry?.id || '').replace(/^T/i, ''), 10) - 1;
+    if (batch[index]) {
+      verdicts.set(batch[index], normalizeVerdict(entry));
+    }
+  }
+  return verdicts;
+}
+
+/**
+ * Triage threads: drop obvious noise, reuse cached verdicts for threads that
+ * haven't changed, and send the rest to the model in concurrent batches.
+ * Threads in a failed batch get no verdict and are retried next run.
+ */
+export async function triageThreads(
+  llm: LLMRouter,
+  threads: TriageThread[]
+): Promise<{ results: TriageResult[]; stats: TriageStats }> {
+  const stats: TriageStats = { threads: threads.length, filtered: 0, cached: 0, analyzed: 0, batches: 0, failedBatches: 0 };
+  const cache = getVerdictCache();
+  const results: TriageResult[] = [];
+  const pending: { thread: TriageThread; hash: string }[] = [];
+
+  for (const thread of threads) {
+    if (thread.messages.every(isLikelyNoise)) {
+      stats.filtered++;
+      continue;
+    }
+    const hash = hashThread(thread);
+    const cached = cache[hash];
+    if (cached) {
+      stats.cached++;
+      results.push({ thread, verdict: cached.verdict, cached: true });
+    } else {
+      pending.push({ thread, hash });
+    }
+  }
+
+  const batches = buildBatches(pending.map(p => p.thread));
+  stats.batches = batches.length;
+
+  const batchVerdicts = await mapWithConcurrency(batches, MAX_CONCURRENT_BATCHES, async batch => {
+    try {
+      return await analyzeBatch(llm, batch);
+    } catch (error) {
+      stats.failedBatches++;
+      console.error('[DigestTriage] Batch failed:', error);
+      return new Map<TriageThread, TriageVerdict>();
+    }
+  });
+
+  const now = Date.now();
+  for (const { thread, hash } of pending) {
+    const verdict = batchVerdicts.map(v => v.get(thread)).find(Boolean);
+    if (!verdict) continue;
+    stats.analyzed++;
+    cache[hash] = { verdict, at: now };
+    results.push({ thread, verdict, cached: false });
+  }
+
+  store.set(VERDICT_CACHE_KEY, cache);
+  return { results, stats };
+}
@@ -1,7 +1,6 @@
 import Store from 'electron-store';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import { getLogPath } from '../src/utils/paths';
 
 const store = new Store();
 
@@ -13,7 +12,7 @@ function generateRequestId(): string {
 }
 
 // Set up file logging
-const logFilePath = path.join(os.homedir(), 'pm-os-jira-debug.log');
+const logFilePath = getLogPath('jira-debug.log');
 function logToFile(message: string) {
   const timestamp = new Date().toISOString();
   const logMessage = `[${timestamp}] ${message}`;
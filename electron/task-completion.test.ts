@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Task } from '../src/types/task';
+import { saveTaskEdit, stampCompletion } from './task-completion';
+import { TaskStore } from './task-store';
+
+function makeTask(changes: Partial<Task> = {}): Task {
+  return { id: 'task-1', title: 'Ship it', completed: false, source: 'manual', priority: 'medium', createdAt: '2026-03-01T09:00:00.000Z', ...changes };
+}
+
+describe('stampCompletion', () => {
+  it('records when a task is completed', () => {
+    const existing = makeTask();
+    const updated = stampCompletion(existing, { ...existing, completed: true, updatedAt: '2026-03-02T10:00:00.000Z' });
+    expect(updated.completedAt).toBe('2026-03-02T10:00:00.000Z');
+  });
+
+  it('clears it when the task is reopened', () => {
+    const existing = makeTask({ completed: true, completedAt: '2026-03-02T10:00:00.000Z' });
+    const updated = stampCompletion(existing, { ...existing, completed: false });
+    expect(updated).not.toHaveProperty('completedAt');
+  });
+
+  it('keeps the original time across edits to a completed task', () => {
+    const existing = makeTask({ completed: true, completedAt: '2026-03-02T10:00:00.000Z' });
+    const updated = stampCompletion(existing, { ...existing, title: 'Shipped', updatedAt: '2026-03-05T10:00:00.000Z' });
+    expect(updated.completedAt).toBe('2026-03-02T10:00:00.000Z');
+  });
+
+  it('stamps tasks created already completed', () => {
+    expect(stampCompletion(undefined, makeTask({ completed: true, updatedAt: '2026-03-02T10:00:00.000Z' })).completedAt)
+      .toBe('2026-03-02T10:00:00.000Z');
+  });
+});
+
+describe('saveTaskEdit', () => {
+  let dir: string;
+  let store: TaskStore;
+  const weekly = makeTask({ deadline: '2026-03-02', recurrence: { frequency: 'weekly', interval: 1 } });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-os-task-completion-'));
+    store = new TaskStore(path.join(dir, 'tasks.db'));
+    store.insert(weekly);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const complete = (task: Task) => store.transaction(() => saveTaskEdit(store, task, { ...task, completed: true }));
+
+  it('adds the next instance when a recurring task is completed', () => {
+    const { task, nextTask } = complete(weekly);
+
+    expect(task.completedAt).toBeDefined();
+    expect(nextTask).toMatchObject({ deadline: '2026-03-09', completed: false, recurrenceSeriesId: weekly.id, recurrenceIndex: 2 });
+    expect(nextTask).not.toHaveProperty('completedAt');
+    expect(store.get(nextTask!.id)).toBeDefined();
+  });
+
+  it('adds it only once when the task is reopened and completed again', () => {
+    complete(weekly);
+    const reopened = store.transaction(() => saveTaskEdit(store, store.get(weekly.id)!, { ...store.get(weekly.id)!, completed: false })).task;
+    const { nextTask } = complete(reopened);
+
+    expect(nextTask).toBeNull();
+    expect(store.getAll()).toHaveLength(2);
+  });
+
+  it('leaves other edits alone', () => {
+    const { task, nextTask } = store.transaction(() => saveTaskEdit(store, weekly, { ...weekly, title: 'Renamed' }));
+    expect(store.get(weekly.id)?.title).toBe('Renamed');
+    expect(task).not.toHaveProperty('completedAt');
+    expect(nextTask).toBeNull();
+  });
+});
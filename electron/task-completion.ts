@@ -0,0 +1,53 @@
+import { randomUUID } from 'crypto';
+import type { Task } from '../src/types/task';
+import { buildNextRecurringTask } from '../src/utils/recurrence';
+import type { TaskStore } from './task-store';
+
+/**
+ * What completing or reopening a task implies, shared by every process that
+ * writes tasks (the app, the MCP server, Jira sync) so a task behaves the same
+ * whichever of them changed it.
+ */
+
+/**
+ * Set completedAt when `updated` completes the task and clear it when it reopens it.
+ * A completedAt already on `updated` is kept, so re-applying a snapshot doesn't move it.
+ */
+export function stampCompletion(existing: Task | undefined, updated: Task): Task {
+  if (!updated.completed) {
+    if (updated.completedAt === undefined) return updated;
+    const { completedAt: _completedAt, ...reopened } = updated;
+    return reopened;
+  }
+  if (existing?.completed || updated.completedAt) return updated;
+  return { ...updated, completedAt: updated.updatedAt || new Date().toISOString() };
+}
+
+/**
+ * Save an edit to `existing` along with its completion side effects: completedAt
+ * is stamped, and completing a recurring task adds the next instance in its series
+ * unless an earlier completion already did (e.g. the task was unchecked and checked
+ * again). Call inside a TaskStore transaction. Returns the saved task and the next
+ * instance, if one was created.
+ */
+export function saveTaskEdit(store: TaskStore, existing: Task, edited: Task): { task: Task; nextTask: Task | null } {
+  const task = stampCompletion(existing, edited);
+  store.save(task);
+
+  if (!task.completed || existing.completed || !task.recurrence) {
+    return { task, nextTask: null };
+  }
+
+  const next = buildNextRecurringTask(task);
+  const alreadySpawned = next && store.getAll().some(t =>
+    t.recurrenceSeriesId === next.recurrenceSeriesId && t.recurrenceIndex === next.recurrenceIndex
+  );
+  if (!next || alreadySpawned) {
+    return { task, nextTask: null };
+  }
+
+  const now = new Date().toISOString();
+  const nextTask = store.insert({ ...next, id: randomUUID(), createdAt: now, updatedAt: now });
+  console.log('[Tasks] Created next recurring instance:', nextTask.title, 'due', nextTask.deadline || nextTask.dueDate);
+  return { task, nextTask };
+}
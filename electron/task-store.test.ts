@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Task } from '../src/types/task';
+import { TASK_DB_SCHEMA_VERSION, TaskConflictError, TaskStore } from './task-store';
+
+function makeTask(id: string, changes: Partial<Task> = {}): Task {
+  return { id, title: id, completed: false, source: 'manual', priority: 'medium', createdAt: '2026-01-01T00:00:00.000Z', ...changes };
+}
+
+describe('TaskStore', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: TaskStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-os-task-store-'));
+    dbPath = path.join(dir, 'tasks.db');
+    store = new TaskStore(dbPath);
+  });
+
+  afterEach(() => {
+    store.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('migrations', () => {
+    it('opens a database another connection already migrated', () => {
+      const second = new TaskStore(dbPath);
+      second.insert(makeTask('a'));
+      expect(store.get('a')?.title).toBe('a');
+      second.close();
+    });
+
+    it('refuses a database from a newer schema', () => {
+      const newerPath = path.join(dir, 'newer.db');
+      new TaskStore(newerPath).close();
+      const db = new Database(newerPath);
+      db.pragma(`user_version = ${TASK_DB_SCHEMA_VERSION + 1}`);
+      db.close();
+
+      expect(() => new TaskStore(newerPath)).toThrow(/newer than this build supports/);
+    });
+  });
+
+  describe('importLegacyTasks', () => {
+    it('imports in order after tasks that are already there', () => {
+      store.insert(makeTask('from-mcp'));
+      const imported = store.importLegacyTasks([makeTask('legacy-1'), makeTask('legacy-2')]);
+
+      expect(imported).toBe(2);
+      expect(store.getAll().map(t => t.id)).toEqual(['from-mcp', 'legacy-1', 'legacy-2']);
+    });
+
+    it('skips tasks whose id is already stored', () => {
+      store.insert(makeTask('legacy-1', { title: 'Edited since' }));
+      const imported = store.importLegacyTasks([makeTask('legacy-1'), makeTask('legacy-2')]);
+
+      expect(imported).toBe(1);
+      expect(store.get('legacy-1')?.title).toBe('Edited since');
+      expect(store.get('legacy-2')).toBeDefined();
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('groups writes in one transaction into a batch', () => {
+      store.transaction(() => {
+        store.insert(makeTask('a'));
+        store.insert(makeTask('b'));
+      }, 'ui');
+      const batchId = store.getLastBatchId()!;
+
+      expect(store.getHistory('a')[0]).toMatchObject({ batchId, actor: 'ui', action: 'created' });
+      expect(store.getHistory('b')[0].batchId).toBe(batchId);
+    });
+
+    it('reverts and reapplies a batch', () => {
+      store.insert(makeTask('a'));
+      store.transaction(() => {
+        store.update('a', task => ({ ...task, title: 'Renamed' }));
+        store.insert(makeTask('b'));
+      }, 'ui');
+      const batchId = store.getLastBatchId()!;
+
+      store.revertBatch(batchId, 'ui');
+      expect(store.get('a')?.title).toBe('a');
+      expect(store.get('b')).toBeUndefined();
+
+      store.reapplyBatch(batchId, 'ui');
+      expect(store.get('a')?.title).toBe('Renamed');
+      expect(store.get('b')).toBeDefined();
+    });
+
+    it('restores deleted subtasks along with their parent', () => {
+      store.insert(makeTask('parent'));
+      store.insert(makeTask('child', { parentId: 'parent' }));
+      store.transaction(() => store.delete(['parent', 'child']), 'ui');
+      const batchId = store.getLastBatchId()!;
+
+      store.revertBatch(batchId, 'ui');
+      expect(store.getAll().map(t => t.id).sort()).toEqual(['child', 'parent']);
+    });
+
+    it('refuses to undo over a later edit and changes nothing', () => {
+      store.insert(makeTask('a'));
+      store.insert(makeTask('b'));
+      store.transaction(() => {
+        store.update('a', task => ({ ...task, title: 'First' }));
+        store.update('b', task => ({ ...task, title: 'First' }));
+      }, 'ui');
+      const batchId = store.getLastBatchId()!;
+      store.update('b', task => ({ ...task, title: 'Second' }));
+
+      expect(() => store.revertBatch(batchId, 'ui')).toThrow(TaskConflictError);
+      expect(store.get('a')?.title).toBe('First');
+      expect(store.get('b')?.title).toBe('Second');
+    });
+
+    it('ignores a save that only bumps updatedAt', () => {
+      store.insert(makeTask('a'));
+      store.update('a', task => ({ ...task, updatedAt: new Date().toISOString() }));
+      expect(store.getHistory('a')).toHaveLength(1);
+    });
+  });
+});
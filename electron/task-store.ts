@@ -0,0 +1,646 @@
+import Database from 'better-sqlite3';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Task, TaskActor, TaskEvent, TaskEventAction, TaskSource } from '../src/types/task';
+import { getDescendantIds } from '../src/utils/subtasks';
+
+/**
+ * SQLite-backed task persistence.
+ *
+ * Tasks used to live in a single electron-store array that every write
+ * rewrote wholesale. The database is shared by the main process, the
+ * extension sync server and the standalone MCP server, so every write runs
+ * in an IMMEDIATE transaction and the connection waits on other processes'
+ * locks instead of failing.
+ *
+ * The full task is kept as JSON in `data`; the columns next to it mirror the
+ * fields we filter and sort on so they can be indexed.
+ *
+ * Every mutation is also appended to `task_events` with before/after snapshots
+ * and the actor that made it. Events written in one outermost transaction
+ * share a batch ID, which is the unit for undo/redo.
+ *
+ * Docs live in the app's config.json, which only the app may write. The MCP
+ * server queues new docs in `pending_docs` instead, and the app moves them over.
+ */
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (db: Database.Database) => void;
+}
+
+// Append-only: never edit a migration that has shipped, add a new one instead.
+// The MCP server bundles this module too, so whichever process opens the database first migrates it.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create tasks and task_tags tables',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE tasks (
+          id TEXT PRIMARY KEY,
+          title TEXT NOT NULL,
+          completed INTEGER NOT NULL DEFAULT 0,
+          source TEXT NOT NULL DEFAULT 'manual',
+          source_id TEXT,
+          priority TEXT NOT NULL DEFAULT 'medium',
+          due_date TEXT,
+          parent_id TEXT,
+          position INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          data TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_tasks_due_date ON tasks(due_date);
+        CREATE INDEX idx_tasks_source ON tasks(source, source_id);
+        CREATE INDEX idx_tasks_parent ON tasks(parent_id);
+        CREATE INDEX idx_tasks_position ON tasks(position);
+
+        CREATE TABLE task_tags (
+          task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+          label TEXT NOT NULL,
+          color TEXT,
+          PRIMARY KEY (task_id, label)
+        );
+
+        CREATE INDEX idx_task_tags_label ON task_tags(label COLLATE NOCASE);
+      `);
+    },
+  },
+  {
+    version: 2,
+    description: 'Create append-only task_events log',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE task_events (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          batch_id TEXT NOT NULL,
+          task_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          before TEXT,
+          after TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE INDEX idx_task_events_task ON task_events(task_id, seq);
+        CREATE INDEX idx_task_events_batch ON task_events(batch_id);
+
+        CREATE TRIGGER task_events_no_update BEFORE UPDATE ON task_events
+        BEGIN
+          SELECT RAISE(ABORT, 'task_events is append-only');
+        END;
+
+        CREATE TRIGGER task_events_no_delete BEFORE DELETE ON task_events
+        BEGIN
+          SELECT RAISE(ABORT, 'task_events is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 3,
+    description: 'Create pending_docs queue for docs added outside the app',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE pending_docs (
+          seq INTEGER PRIMARY KEY AUTOINCREMENT,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+      `);
+    },
+  },
+];
+
+export const TASK_DB_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Thrown by revertBatch/reapplyBatch when a task in the batch has changed
+ * since, so undoing or redoing it would overwrite the newer change
+ */
+export class TaskConflictError extends Error {
+  constructor(public readonly taskIds: string[]) {
+    super(taskIds.length === 1
+      ? 'This task was changed since, so the change can\'t be undone or redone without losing that edit'
+      : `${taskIds.length} tasks were changed since, so the change can't be undone or redone without losing those edits`);
+    this.name = 'TaskConflictError';
+  }
+}
+
+export interface TaskQuery {
+  tag?: string;            // Tag label (case-insensitive)
+  source?: TaskSource | string;
+  sourceId?: string;
+  dueBefore?: string;      // Inclusive, compared against deadline || dueDate
+  dueAfter?: string;       // Inclusive
+  completed?: boolean;
+  parentId?: string | null; // null = top-level tasks only
+}
+
+interface TaskRow {
+  data: string;
+}
+
+interface TaskEventRow {
+  seq: number;
+  batch_id: string;
+  task_id: string;
+  action: TaskEventAction;
+  actor: TaskActor;
+  before: string | null;
+  after: string | null;
+  created_at: string;
+}
+
+export class TaskStore {
+  private db: Database.Database;
+  private currentBatch: { id: string; actor: TaskActor; eventCount: number } | null = null;
+  private lastBatch: { id: string; actor: TaskActor; eventCount: number } | null = null;
+  private commitListeners = new Set<() => void>();
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    // Wait up to 5s on another process's write lock rather than throwing SQLITE_BUSY
+    this.db = new Database(dbPath, { timeout: 5000 });
+    // WAL lets readers in other processes run while one process writes
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  /**
+   * Apply pending schema migrations, tracked via PRAGMA user_version
+   */
+  private migrate(): void {
+    try {
+      if (this.getSchemaVersion() === TASK_DB_SCHEMA_VERSION) return;
+
+      this.transaction(() => {
+        // Read again under the write lock: the app and the MCP server can open a new
+        // database at the same time, and the other one may have migrated it while we waited
+        const current = this.getSchemaVersion();
+        for (const migration of MIGRATIONS.filter(m => m.version > current)) {
+          console.log(`[TaskStore] Applying migration ${migration.version}: ${migration.description}`);
+          migration.up(this.db);
+          this.db.pragma(`user_version = ${migration.version}`);
+        }
+      });
+    } catch (error) {
+      this.db.close();
+      throw error;
+    }
+  }
+
+  private getSchemaVersion(): number {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > TASK_DB_SCHEMA_VERSION) {
+      // A newer PM-OS (or MCP server) upgraded the file; writing with an older schema could corrupt it
+      throw new Error(`PM-OS task database is version ${version}, newer than this build supports (${TASK_DB_SCHEMA_VERSION}). Update PM-OS.`);
+    }
+    return version;
+  }
+
+  /**
+   * Run `fn` in a write transaction. IMMEDIATE takes the write lock up front so a
+   * read-modify-write can't interleave with writers in other processes.
+   * Nested calls join the outer transaction and its batch; `actor` only applies to the outermost call.
+   */
+  transaction<T>(fn: () => T, actor: TaskActor = 'system'): T {
+    if (this.currentBatch) {
+      return this.db.transaction(fn)();
+    }
+
+    const batch = { id: randomUUID(), actor, eventCount: 0 };
+    this.currentBatch = batch;
+    try {
+      const result = this.db.transaction(fn).immediate();
+      this.lastBatch = batch;
+      this.currentBatch = null;
+      if (batch.eventCount > 0) {
+        this.commitListeners.forEach(listener => listener());
+      }
+      return result;
+    } finally {
+      this.currentBatch = null;
+    }
+  }
+
+  /**
+   * Called after each transaction from this connection that changed tasks.
+   * Writes from other processes only show up via getDataVersion().
+   */
+  onCommit(listener: () => void): () => void {
+    this.commitListeners.add(listener);
+    return () => this.commitListeners.delete(listener);
+  }
+
+  /**
+   * Batch ID of the last committed transaction, if it changed anything
+   */
+  getLastBatchId(): string | null {
+    return this.lastBatch && this.lastBatch.eventCount > 0 ? this.lastBatch.id : null;
+  }
+
+  /**
+   * Import tasks from the legacy electron-store array, after any tasks already in
+   * the table. Tasks whose id is already there (e.g. from an earlier, interrupted
+   * import) are skipped. Returns how many were added.
+   */
+  importLegacyTasks(tasks: Task[]): number {
+    return this.transaction(() => {
+      const { max } = this.db.prepare('SELECT MAX(position) AS max FROM tasks').get() as { max: number | null };
+      let position = (max ?? -1) + 1;
+      let imported = 0;
+
+      for (const task of tasks) {
+        if (this.get(task.id)) continue;
+        this.write(task, position++);
+        this.logEvent('created', task.id, null, task);
+        imported++;
+      }
+      return imported;
+    });
+  }
+
+  /**
+   * All tasks in list order
+   */
+  getAll(): Task[] {
+    const rows = this.db.prepare('SELECT data FROM tasks ORDER BY position').all() as TaskRow[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  get(id: string): Task | undefined {
+    const row = this.db.prepare('SELECT data FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  /**
+   * Color already used for a tag label (case-insensitive), if any task has it
+   */
+  getTagColor(label: string): string | undefined {
+    const row = this.db
+      .prepare('SELECT color FROM task_tags WHERE label = ? COLLATE NOCASE LIMIT 1')
+      .get(label) as { color: string } | undefined;
+    return row?.color;
+  }
+
+  /**
+   * Indexed lookup by tag, source, due date, completion and parent
+   */
+  query(filter: TaskQuery): Task[] {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    if (filter.tag) {
+      clauses.push('id IN (SELECT task_id FROM task_tags WHERE label = ? COLLATE NOCASE)');
+      params.push(filter.tag);
+    }
+    if (filter.source) {
+      clauses.push('source = ?');
+      params.push(filter.source);
+    }
+    if (filter.sourceId) {
+      clauses.push('source_id = ?');
+      params.push(filter.sourceId);
+    }
+    if (filter.dueBefore) {
+      clauses.push('due_date <= ?');
+      params.push(filter.dueBefore);
+    }
+    if (filter.dueAfter) {
+      clauses.push('due_date >= ?');
+      params.push(filter.dueAfter);
+    }
+    if (filter.completed !== undefined) {
+      clauses.push('completed = ?');
+      params.push(filter.completed ? 1 : 0);
+    }
+    if (filter.parentId === null) {
+      clauses.push('parent_id IS NULL');
+    } else if (filter.parentId) {
+      clauses.push('parent_id = ?');
+      params.push(filter.parentId);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT data FROM tasks ${where} ORDER BY position`).all(...params) as TaskRow[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Add a task at the top (default) or bottom of the list
+   */
+  insert(task: Task, placement: 'first' | 'last' = 'first'): Task {
+    return this.transaction(() => {
+      const { min, max } = this.db
+        .prepare('SELECT MIN(position) AS min, MAX(position) AS max FROM tasks')
+        .get() as { min: number | null; max: number | null };
+      const position = placement === 'first' ? (min ?? 0) - 1 : (max ?? -1) + 1;
+      this.write(task, position);
+      this.logEvent('created', task.id, null, task);
+      return task;
+    });
+  }
+
+  /**
+   * Replace an existing task, keeping its list position. A save that only bumps updatedAt is a no-op.
+   */
+  save(task: Task): void {
+    this.transaction(() => {
+      const row = this.db.prepare('SELECT data, position FROM tasks WHERE id = ?').get(task.id) as (TaskRow & { position: number }) | undefined;
+      if (!row) {
+        throw new Error(`Task not found: ${task.id}`);
+      }
+
+      const before: Task = JSON.parse(row.data);
+      if (isSameTask(before, task)) {
+        return;
+      }
+
+      this.write(task, row.position);
+      this.logEvent('updated', task.id, before, task);
+    });
+  }
+
+  /**
+   * Read, modify and write one task atomically. Returns the updated task, or undefined if it doesn't exist.
+   */
+  update(id: string, updater: (task: Task) => Task): Task | undefined {
+    return this.transaction(() => {
+      const task = this.get(id);
+      if (!task) return undefined;
+      const updated = updater(task);
+      this.save(updated);
+      return updated;
+    });
+  }
+
+  delete(ids: string[]): void {
+    if (ids.length === 0) return;
+    this.transaction(() => {
+      const statement = this.db.prepare('DELETE FROM tasks WHERE id = ?');
+      for (const id of ids) {
+        const before = this.get(id);
+        if (!before) continue;
+        statement.run(id);
+        this.logEvent('deleted', id, before, null);
+      }
+    });
+  }
+
+  /**
+   * Change history for one task, newest first
+   */
+  getHistory(taskId: string, limit: number = 100): TaskEvent[] {
+    const rows = this.db
+      .prepare('SELECT * FROM task_events WHERE task_id = ? ORDER BY seq DESC LIMIT ?')
+      .all(taskId, limit) as TaskEventRow[];
+    return rows.map(toTaskEvent);
+  }
+
+  /**
+   * Events from every process after `seq`, oldest first
+   */
+  getEventsSince(seq: number, limit: number = 500): TaskEvent[] {
+    const rows = this.db
+      .prepare('SELECT * FROM task_events WHERE seq > ? ORDER BY seq LIMIT ?')
+      .all(seq, limit) as TaskEventRow[];
+    return rows.map(toTaskEvent);
+  }
+
+  getLatestEventSeq(): number {
+    const { seq } = this.db.prepare('SELECT MAX(seq) AS seq FROM task_events').get() as { seq: number | null };
+    return seq ?? 0;
+  }
+
+  /**
+   * Deletion events for tasks that are still deleted, newest first
+   */
+  getDeletedTasks(limit: number = 50): TaskEvent[] {
+    const rows = this.db.prepare(`
+      SELECT e.* FROM task_events e
+      WHERE e.action = 'deleted'
+        AND e.task_id NOT IN (SELECT id FROM tasks)
+        AND e.seq = (SELECT MAX(seq) FROM task_events WHERE task_id = e.task_id)
+      ORDER BY e.seq DESC
+      LIMIT ?
+    `).all(limit) as TaskEventRow[];
+    return rows.map(toTaskEvent);
+  }
+
+  /**
+   * Bring back a deleted task, along with any subtasks deleted in the same operation
+   */
+  restoreDeleted(taskId: string, actor: TaskActor): Task[] {
+    return this.transaction(() => {
+      if (this.get(taskId)) return [];
+
+      const row = this.db
+        .prepare(`SELECT * FROM task_events WHERE task_id = ? AND action = 'deleted' ORDER BY seq DESC LIMIT 1`)
+        .get(taskId) as TaskEventRow | undefined;
+      if (!row || !row.before) return [];
+
+      const batchDeleted = (this.db
+        .prepare(`SELECT * FROM task_events WHERE batch_id = ? AND action = 'deleted' ORDER BY seq`)
+        .all(row.batch_id) as TaskEventRow[])
+        .map(r => JSON.parse(r.before!) as Task);
+      const restoreIds = new Set([taskId, ...getDescendantIds(batchDeleted, taskId)]);
+
+      const restored: Task[] = [];
+      for (const task of batchDeleted) {
+        if (!restoreIds.has(task.id) || this.get(task.id)) continue;
+        this.restoreSnapshot(task);
+        restored.push(task);
+      }
+      return restored;
+    }, actor);
+  }
+
+  /**
+   * Undo every change in a batch by re-applying its before snapshots, newest first.
+   * Throws TaskConflictError, changing nothing, if any task no longer matches its after snapshot.
+   */
+  revertBatch(batchId: string, actor: TaskActor): void {
+    const events = this.getBatchEvents(batchId).reverse();
+    this.transaction(() => {
+      this.applySnapshots(events.map(event => ({ taskId: event.taskId, expected: event.after, snapshot: event.before })));
+    }, actor);
+  }
+
+  /**
+   * Redo a reverted batch by re-applying its after snapshots in order.
+   * Throws TaskConflictError, changing nothing, if any task no longer matches its before snapshot.
+   */
+  reapplyBatch(batchId: string, actor: TaskActor): void {
+    const events = this.getBatchEvents(batchId);
+    this.transaction(() => {
+      this.applySnapshots(events.map(event => ({ taskId: event.taskId, expected: event.before, snapshot: event.after })));
+    }, actor);
+  }
+
+  /**
+   * Queue a doc for the app to add to its docs list
+   */
+  queuePendingDoc<T extends { id: string }>(doc: T): void {
+    this.db
+      .prepare('INSERT INTO pending_docs (data, created_at) VALUES (?, ?)')
+      .run(JSON.stringify(doc), new Date().toISOString());
+  }
+
+  /**
+   * Queued docs, oldest first
+   */
+  getPendingDocs<T>(): T[] {
+    const rows = this.db.prepare('SELECT data FROM pending_docs ORDER BY seq').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Remove and return the queued docs, oldest first
+   */
+  takePendingDocs<T>(): T[] {
+    return this.db.transaction(() => {
+      const docs = this.getPendingDocs<T>();
+      this.db.prepare('DELETE FROM pending_docs').run();
+      return docs;
+    }).immediate();
+  }
+
+  /**
+   * Increments whenever another connection commits; used to notice MCP/extension writes
+   */
+  getDataVersion(): number {
+    return this.db.pragma('data_version', { simple: true }) as number;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private getBatchEvents(batchId: string): TaskEvent[] {
+    const rows = this.db
+      .prepare('SELECT * FROM task_events WHERE batch_id = ? ORDER BY seq')
+      .all(batchId) as TaskEventRow[];
+    return rows.map(toTaskEvent);
+  }
+
+  /**
+   * Apply each snapshot if the stored task still matches `expected`. Must run in a
+   * transaction: on any mismatch it throws, rolling back the snapshots already applied.
+   */
+  private applySnapshots(changes: Array<{ taskId: string; expected: Task | null; snapshot: Task | null }>): void {
+    const conflicts = new Set<string>();
+    for (const { taskId, expected, snapshot } of changes) {
+      const current = this.get(taskId) ?? null;
+      const unchanged = current && expected ? isSameTask(current, expected) : current === expected;
+      if (!unchanged) {
+        conflicts.add(taskId);
+        continue;
+      }
+      this.applySnapshot(taskId, snapshot);
+    }
+
+    if (conflicts.size > 0) {
+      throw new TaskConflictError([...conflicts]);
+    }
+  }
+
+  /**
+   * Make the stored task match `snapshot` (null = deleted)
+   */
+  private applySnapshot(taskId: string, snapshot: Task | null): void {
+    const exists = !!this.get(taskId);
+    if (!snapshot) {
+      if (exists) this.delete([taskId]);
+    } else if (exists) {
+      this.save(snapshot);
+    } else {
+      this.restoreSnapshot(snapshot);
+    }
+  }
+
+  private restoreSnapshot(task: Task): void {
+    const { min } = this.db.prepare('SELECT MIN(position) AS min FROM tasks').get() as { min: number | null };
+    this.write(task, (min ?? 0) - 1);
+    this.logEvent('restored', task.id, null, task);
+  }
+
+  private logEvent(action: TaskEventAction, taskId: string, before: Task | null, after: Task | null): void {
+    const batch = this.currentBatch!;
+    batch.eventCount++;
+    this.db.prepare(`
+      INSERT INTO task_events (batch_id, task_id, action, actor, before, after, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      batch.id,
+      taskId,
+      action,
+      batch.actor,
+      before ? JSON.stringify(before) : null,
+      after ? JSON.stringify(after) : null,
+      new Date().toISOString()
+    );
+  }
+
+  private write(task: Task, position: number): void {
+    this.db.prepare(`
+      INSERT INTO tasks (id, title, completed, source, source_id, priority, due_date, parent_id, position, created_at, updated_at, data)
+      VALUES (@id, @title, @completed, @source, @sourceId, @priority, @dueDate, @parentId, @position, @createdAt, @updatedAt, @data)
+      ON CONFLICT(id) DO UPDATE SET
+        title = excluded.title,
+        completed = excluded.completed,
+        source = excluded.source,
+        source_id = excluded.source_id,
+        priority = excluded.priority,
+        due_date = excluded.due_date,
+        parent_id = excluded.parent_id,
+        position = excluded.position,
+        created_at = excluded.created_at,
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `).run({
+      id: task.id,
+      title: task.title || '',
+      completed: task.completed ? 1 : 0,
+      source: task.source || 'manual',
+      sourceId: task.sourceId ?? null,
+      priority: task.priority || 'medium',
+      // Deadline is what the UI edits; dueDate comes from integrations
+      dueDate: task.deadline || task.dueDate || null,
+      parentId: task.parentId ?? null,
+      position,
+      createdAt: task.createdAt || new Date().toISOString(),
+      updatedAt: task.updatedAt ?? null,
+      data: JSON.stringify(task),
+    });
+
+    this.db.prepare('DELETE FROM task_tags WHERE task_id = ?').run(task.id);
+    const insertTag = this.db.prepare('INSERT OR IGNORE INTO task_tags (task_id, label, color) VALUES (?, ?, ?)');
+    for (const tag of task.tags || []) {
+      insertTag.run(task.id, tag.label, tag.color);
+    }
+  }
+}
+
+function toTaskEvent(row: TaskEventRow): TaskEvent {
+  return {
+    seq: row.seq,
+    batchId: row.batch_id,
+    taskId: row.task_id,
+    action: row.action,
+    actor: row.actor,
+    before: row.before ? JSON.parse(row.before) : null,
+    after: row.after ? JSON.parse(row.after) : null,
+    createdAt: row.created_at,
+  };
+}
+
+// Equal apart from updatedAt, which is bumped even when nothing else changed
+function isSameTask(a: Task, b: Task): boolean {
+  return JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+}
@@ -38,6 +38,8 @@ export async function GET(request: NextRequest) {
     const scopes = [
       'https://www.googleapis.com/auth/calendar',
       'https://www.googleapis.com/auth/gmail.readonly',
+      'https://www.googleapis.com/auth/gmail.send', // For email digests
+      'https://www.googleapis.com/auth/gmail.modify', // For archiving, labelling and snoozing from Chats
       'https://www.googleapis.com/auth/contacts.readonly', // For searching personal contacts
       'https://www.googleapis.com/auth/directory.readonly', // For searching organization directory
     ].join(' ');
@@ -4,11 +4,15 @@ export async function GET(request: NextRequest) {
   try {
     const projectKey = request.nextUrl.searchParams.get('projectKey') || 'AMP';
 
-    // Call the Electron app to get field options
-    const response = await fetch('http://localhost:54321/jira-field-options', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ projectKey }),
+    // Call the Electron app's local API, paired in PM-OS Settings → Local API
+    const apiToken = process.env.PM_OS_API_TOKEN;
+    if (!apiToken) {
+      console.error('[Jira Field Options] PM_OS_API_TOKEN is not set');
+      return NextResponse.json({ success: false, pillars: [], pods: [] });
+    }
+
+    const response = await fetch(`http://localhost:54321/v1/jira/field-options?projectKey=${encodeURIComponent(projectKey)}`, {
+      headers: { 'Authorization': `Bearer ${apiToken}` },
     });
 
     if (!response.ok) {
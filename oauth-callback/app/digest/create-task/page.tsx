@@ -0,0 +1,103 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+// Digest emails link here because email clients strip pmos:// links.
+// Hands the click back to the desktop app, which creates the task.
+function CreateTaskContent() {
+  const searchParams = useSearchParams();
+  const [appUrl, setAppUrl] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  useEffect(() => {
+    const entry = searchParams.get('entry');
+    const item = searchParams.get('item');
+
+    if (!entry || !item) {
+      setError('This link is missing the digest item it refers to.');
+      return;
+    }
+
+    const params = new URLSearchParams({ entry, item });
+    const url = `pmos://digest/create-task?${params.toString()}`;
+    setAppUrl(url);
+    window.location.href = url;
+  }, [searchParams]);
+
+  return (
+    <div style={{
+      minHeight: '100vh',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontFamily: 'system-ui, -apple-system, sans-serif',
+      background: '#0f0f0f',
+      color: '#fff',
+      padding: '20px'
+    }}>
+      <div style={{
+        maxWidth: '500px',
+        width: '100%',
+        padding: '40px',
+        background: '#1a1a1a',
+        borderRadius: '12px',
+        border: '1px solid #333',
+        textAlign: 'center'
+      }}>
+        {error ? (
+          <>
+            <div style={{ fontSize: '48px', marginBottom: '20px' }}>❌</div>
+            <h1 style={{ fontSize: '24px', marginBottom: '10px' }}>Invalid Link</h1>
+            <p style={{ color: '#ff6b6b', fontSize: '14px' }}>{error}</p>
+          </>
+        ) : (
+          <>
+            <div style={{ fontSize: '48px', marginBottom: '20px' }}>📝</div>
+            <h1 style={{ fontSize: '24px', marginBottom: '10px' }}>Creating Task in PM-OS</h1>
+            <p style={{ color: '#888', fontSize: '14px', marginBottom: '20px' }}>
+              You can close this tab once PM-OS opens.
+            </p>
+            {appUrl && (
+              <button
+                onClick={() => window.location.href = appUrl}
+                style={{
+                  padding: '12px 24px',
+                  background: '#007bff',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  fontSize: '14px',
+                  fontWeight: '500'
+                }}
+              >
+                Open PM-OS
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function DigestCreateTask() {
+  return (
+    <Suspense fallback={
+      <div style={{
+        minHeight: '100vh',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        fontFamily: 'system-ui, -apple-system, sans-serif',
+        background: '#0f0f0f',
+        color: '#fff'
+      }}>
+        <div style={{ fontSize: '48px' }}>⏳</div>
+      </div>
+    }>
+      <CreateTaskContent />
+    </Suspense>
+  );
+}
@@ -11,7 +11,10 @@ import Meetings from './components/Meetings';
 import Chats from './components/Chats';
 import Strategize from './components/Strategize';
 import TabPanel from './components/TabPanel';
+import DeletedTasksBin from './components/DeletedTasksBin';
 import type { Task } from './types/task';
+import { getDescendantIds, getSubtasks, isSubtask } from './utils/subtasks';
+import { isBlocked } from './utils/dependencies';
 
 type Tab = 'tasks' | 'meetings' | 'strategize' | 'chats';
 
@@ -70,8 +73,9 @@ function App() {
 
     // Listen for new tasks created from Slack
     const handleTaskCreated = (task: any) => {
-      console.log('[App] New task created from Slack:', task.title);
-      setTasks(prevTasks => [...prevTasks, task]);
+      console.log('[App] New task created:', task.title);
+      // The config watcher can report a task we already have, so ignore known IDs
+      setTasks(prevTasks => prevTasks.some(t => t.id === task.id) ? prevTasks : [...prevTasks, task]);
 
       // If this task requires Jira confirmation, automatically open the Jira modal
       if (task.pendingJiraConfirmation) {
@@ -82,11 +86,45 @@ function App() {
 
     window.electronAPI.onTaskCreated?.(handleTaskCreated);
 
+    // Listen for bulk task changes from the main process (e.g., Jira blockers resolved)
+    const handleTasksUpdated = (updatedTasks: Task[]) => {
+      setTasks(updatedTasks);
+      setDetailTask(prev => prev ? updatedTasks.find(t => t.id === prev.id) || prev : prev);
+    };
+
+    window.electronAPI.onTasksUpdated?.(handleTasksUpdated);
+
     return () => {
       window.removeEventListener('open-settings', handleOpenSettings);
     };
   }, []);
 
+  // Global undo/redo for task changes. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== 'z' && e.key.toLowerCase() !== 'y') return;
+
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const isRedo = e.key.toLowerCase() === 'y' || e.shiftKey;
+      e.preventDefault();
+      const action = isRedo ? window.electronAPI.redoTaskChange() : window.electronAPI.undoTaskChange();
+      action
+        .then(result => {
+          if (result.conflict) {
+            alert(`Couldn't ${isRedo ? 'redo' : 'undo'}: ${result.error}`);
+          } else if (!result.success) {
+            console.log(`[App] ${isRedo ? 'Redo' : 'Undo'}: ${result.error}`);
+          }
+        })
+        .catch(error => console.error(`Failed to ${isRedo ? 'redo' : 'undo'} task change:`, error));
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const loadInitialData = async () => {
     try {
       // Load settings
@@ -139,23 +177,58 @@ function App() {
 
     try {
       await window.electronAPI.updateTask(id, { completed: !task.completed });
-      setTasks(tasks.map(t =>
-        t.id === id ? { ...t, completed: !t.completed } : t
+      // Functional update so a recurring task's next instance (pushed via task-created) isn't lost
+      setTasks(prevTasks => prevTasks.map(t =>
+        t.id === id ? { ...t, completed: !task.completed } : t
       ));
+
+      // Offer to complete the parent once its last open subtask is done
+      const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+      if (parent && !parent.completed && !task.completed) {
+        const siblings = getSubtasks(tasks, parent.id).filter(t => t.id !== id);
+        if (siblings.every(t => t.completed) && confirm(`All subtasks are done. Mark "${parent.title}" as complete?`)) {
+          await handleToggleTask(parent.id);
+        }
+      }
     } catch (error) {
       console.error('Failed to toggle task:', error);
     }
   };
 
   const handleDeleteTask = async (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    const descendantIds = getDescendantIds(tasks, id);
+    if (task && descendantIds.length > 0) {
+      const noun = descendantIds.length === 1 ? 'subtask' : 'subtasks';
+      if (!confirm(`Delete "${task.title}" and its ${descendantIds.length} ${noun}?`)) return;
+    }
+
     try {
-      await window.electronAPI.deleteTask(id);
-      setTasks(tasks.filter(t => t.id !== id));
+      await window.electronAPI.deleteTask(id, 'cascade');
+      setTasks(prevTasks => prevTasks.filter(t => t.id !== id && !descendantIds.includes(t.id)));
     } catch (error) {
       console.error('Failed to delete task:', error);
     }
   };
 
+  const handleAddSubtask = async (parentId: string, title: string) => {
+    const newTask: Partial<Task> = {
+      title,
+      completed: false,
+      source: 'manual',
+      priority: 'medium',
+      createdAt: new Date().toISOString(),
+      parentId,
+    };
+
+    try {
+      const addedTask = await window.electronAPI.addTask(newTask);
+      setTasks(prevTasks => [...prevTasks, addedTask]);
+    } catch (error) {
+      console.error('Failed to add subtask:', error);
+    }
+  };
+
   const handleTogglePin = async () => {
     const newPinState = !isPinned;
     try {
@@ -311,6 +384,8 @@ function App() {
       context: suggestion.context,
       dueDate: suggestion.dueDate,
       createdAt: new Date().toISOString(),
+      // One link per source the suggestion was seen in
+      linkedItems: suggestion.linkedItems?.length ? suggestion.linkedItems : undefined,
       // Include Slack metadata if this is a Slack suggestion
       ...(suggestion.source === 'slack' && {
         slackThreadTs: suggestion.slackThreadTs,
@@ -327,8 +402,8 @@ function App() {
       setTasks([addedTask, ...tasks]);
       // Remove from suggestions
       setSuggestions(suggestions.filter(s => s.id !== suggestion.id));
-      // Mark as dismissed to prevent reappearing
-      await window.electronAPI.dismissSuggestion(suggestion.id);
+      // Mark as handled to prevent reappearing, and learn from the acceptance
+      await window.electronAPI.dismissSuggestion(suggestion.id, 'accepted');
       // Refresh suggestions to get a new one
       const newSuggestions = await window.electronAPI.refreshSmartSuggestions();
       setSuggestions(newSuggestions || []);
@@ -386,7 +461,12 @@ function App() {
   };
 
   const activeTasks = tasks.filter(t => !t.completed);
-  const completedTasks = tasks.filter(t => t.completed);
+  // Subtasks render nested under their parent, so sections only list top-level tasks
+  // Blocked tasks can't be worked on yet, so they sink below actionable ones (stable sort keeps order otherwise)
+  const topLevelActiveTasks = activeTasks
+    .filter(t => !isSubtask(tasks, t))
+    .sort((a, b) => Number(isBlocked(tasks, a)) - Number(isBlocked(tasks, b)));
+  const completedTasks = tasks.filter(t => t.completed && !isSubtask(tasks, t));
 
   // Categorize active tasks: overdue, today, this week, backlog
   const now = new Date();
@@ -394,7 +474,7 @@ function App() {
   const weekStart = startOfWeek(now, { weekStartsOn: 0 }); // Sunday
   const weekEnd = endOfWeek(now, { weekStartsOn: 0 }); // Saturday
 
-  const overdueTasks = activeTasks.filter(task => {
+  const overdueTasks = topLevelActiveTasks.filter(task => {
     if (!task.deadline) return false;
     try {
       const deadline = parseISO(task.deadline);
@@ -404,7 +484,7 @@ function App() {
     }
   });
 
-  const todayTasks = activeTasks.filter(task => {
+  const todayTasks = topLevelActiveTasks.filter(task => {
     if (!task.deadline) return false;
     try {
       const deadline = parseISO(task.deadline);
@@ -414,7 +494,7 @@ function App() {
     }
   });
 
-  const thisWeekTasks = activeTasks.filter(task => {
+  const thisWeekTasks = topLevelActiveTasks.filter(task => {
     if (!task.deadline) return false;
     try {
       const deadline = parseISO(task.deadline);
@@ -427,7 +507,7 @@ function App() {
     }
   });
 
-  const backlogTasks = activeTasks
+  const backlogTasks = topLevelActiveTasks
     .filter(task => {
       if (!task.deadline) return true; // No deadline = backlog
       try {
@@ -440,6 +520,10 @@ function App() {
       }
     })
     .sort((a, b) => {
+      // Blocked tasks go after actionable ones
+      const blockedDiff = Number(isBlocked(tasks, a)) - Number(isBlocked(tasks, b));
+      if (blockedDiff !== 0) return blockedDiff;
+
       // Tasks without deadlines go to the end
       if (!a.deadline && !b.deadline) return 0;
       if (!a.deadline) return 1;
@@ -702,6 +786,17 @@ function App() {
                     console.error('Failed to dismiss suggestion:', error);
                   }
                 }}
+                onNudged={async (id) => {
+                  setSuggestions(suggestions.filter(s => s.id !== id));
+                  try {
+                    // Sending the nudge is acting on the suggestion
+                    await window.electronAPI.dismissSuggestion(id, 'accepted');
+                    const newSuggestions = await window.electronAPI.refreshSmartSuggestions();
+                    setSuggestions(newSuggestions || []);
+                  } catch (error) {
+                    console.error('Failed to record follow-up:', error);
+                  }
+                }}
                 existingTasks={tasks}
                 projectTags={(() => {
                   // Extract unique tags from all tasks
@@ -745,6 +840,7 @@ function App() {
                   onTaskClick={setDetailTask}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
+                  allTasks={tasks}
                 />
               </div>
             )}
@@ -775,6 +871,7 @@ function App() {
                   onTaskClick={setDetailTask}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
+                  allTasks={tasks}
                 />
               </div>
             )}
@@ -805,6 +902,7 @@ function App() {
                   onTaskClick={setDetailTask}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
+                  allTasks={tasks}
                 />
               </div>
             )}
@@ -835,6 +933,7 @@ function App() {
                   onTaskClick={setDetailTask}
                   onDragStart={handleDragStart}
                   onDragEnd={handleDragEnd}
+                  allTasks={tasks}
                 />
               </div>
             )}
@@ -867,11 +966,15 @@ function App() {
                     onLinkSlackChannel={handleLinkSlackChannel}
                     slackConfigured={slackConfigured}
                     onTaskClick={setDetailTask}
+                    allTasks={tasks}
                   />
                 )}
               </div>
             )}
 
+            {/* Restore bin */}
+            <DeletedTasksBin refreshKey={tasks.length} />
+
             {/* Empty state */}
             {tasks.length === 0 && suggestions.length === 0 && (
               <div className="flex flex-col items-center justify-center py-12 text-center">
@@ -943,8 +1046,14 @@ function App() {
       {detailTask && (
         <div className="absolute inset-0 z-50 animate-fade-in">
           <TaskDetailModal
+            key={detailTask.id}
             task={detailTask}
             existingTags={tasks.flatMap(t => t.tags || [])}
+            subtasks={getSubtasks(tasks, detailTask.id)}
+            onAddSubtask={(title) => handleAddSubtask(detailTask.id, title)}
+            onToggleSubtask={handleToggleTask}
+            onOpenSubtask={setDetailTask}
+            allTasks={tasks}
             onClose={() => {
               setDetailTask(null);
               // Refocus task input if we're on the tasks tab
@@ -1,5 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
 import { format } from 'date-fns';
+import EmailActions, { type EmailActionTarget } from './EmailActions';
+import EmailThreadView from './EmailThreadView';
 
 interface SlackMessage {
   id: string;
@@ -20,6 +22,8 @@ interface Email {
   snippet: string;
   timestamp: string;
   threadId: string;
+  isStarred?: boolean;
+  labels?: string[];
 }
 
 interface ChatsProps {
@@ -97,6 +101,7 @@ export default function Chats({ isPinned: _isPinned, onCountChange }: ChatsProps
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<'newest' | 'oldest'>('newest');
+  const [openThread, setOpenThread] = useState<{ threadId: string; subject: string } | null>(null);
   const lastFocusTimeRef = useRef(0);
 
   useEffect(() => {
@@ -222,16 +227,29 @@ export default function Chats({ isPinned: _isPinned, onCountChange }: ChatsProps
     }, 10000);
   };
 
-  const handleOpenEmail = (threadId: string) => {
-    window.electronAPI.openExternal(`https://mail.google.com/mail/u/0/#inbox/${threadId}`);
+  const handleOpenEmail = (email: Email) => {
+    setOpenThread({ threadId: email.threadId, subject: decodeHtmlEntities(email.subject) });
+  };
 
-    // Refresh after 10 seconds to remove the email if it was unstarred or marked as read
-    setTimeout(() => {
-      console.log('[Chats] Refreshing messages after opening email...');
-      loadMessages(false); // Background refresh
-    }, 10000);
+  const handleCloseThread = () => {
+    setOpenThread(null);
+    // Refresh to pick up anything changed while reading (e.g. unstarred in Gmail)
+    loadMessages(false);
+  };
+
+  const handleEmailRemoved = (id: string) => {
+    setEmails(prev => prev.filter(email => email.id !== id));
+    onCountChange?.(slackMessages.length + emails.filter(email => email.id !== id).length);
+  };
+
+  const handleEmailUpdated = (id: string, changes: Partial<EmailActionTarget>) => {
+    setEmails(prev => prev.map(email => email.id === id ? { ...email, ...changes } : email));
   };
 
+  if (openThread) {
+    return <EmailThreadView threadId={openThread.threadId} subject={openThread.subject} onClose={handleCloseThread} />;
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -428,7 +446,7 @@ export default function Chats({ isPinned: _isPinned, onCountChange }: ChatsProps
                   return (
                     <div
                       key={email.id}
-                      onClick={() => handleOpenEmail(email.threadId)}
+                      onClick={() => handleOpenEmail(email)}
                       className="bg-gradient-to-r from-purple-500/5 to-transparent border-l-4 border-l-purple-500 border-r border-t border-b border-dark-border rounded-lg p-3 hover:border-dark-accent-primary hover:border-l-purple-400 hover:from-purple-500/10 transition-all cursor-pointer"
                     >
                       <div className="flex items-start justify-between gap-2 mb-2">
@@ -450,6 +468,16 @@ export default function Chats({ isPinned: _isPinned, onCountChange }: ChatsProps
                       <div className="text-sm text-dark-text-secondary line-clamp-2">
                         {decodeHtmlEntities(email.snippet)}
                       </div>
+                      <EmailActions
+                        email={{
+                          ...email,
+                          subject: decodeHtmlEntities(email.subject),
+                          from: decodeHtmlEntities(email.from),
+                          snippet: decodeHtmlEntities(email.snippet),
+                        }}
+                        onRemoved={handleEmailRemoved}
+                        onUpdated={handleEmailUpdated}
+                      />
                     </div>
                   );
                 }
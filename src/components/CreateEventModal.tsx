@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
+import type { TimeRange } from '../services/availability';
 
 interface CreateEventModalProps {
   onClose: () => void;
@@ -25,6 +26,10 @@ export default function CreateEventModal({ onClose, onSuccess, initialTitle }: C
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState('');
   const [timezone, setTimezone] = useState('America/New_York');
+  const [slots, setSlots] = useState<TimeRange[] | null>(null);
+  const [slotTimeZones, setSlotTimeZones] = useState<string[]>([]);
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+  const [isFindingTimes, setIsFindingTimes] = useState(false);
 
   useEffect(() => {
     // Load user's primary timezone
@@ -50,6 +55,43 @@ export default function CreateEventModal({ onClose, onSuccess, initialTitle }: C
     }
   }
 
+  const attendeeEmails = () => attendees.split(',').map(e => e.trim()).filter(e => e);
+
+  const handleFindTimes = async () => {
+    setIsFindingTimes(true);
+    setError('');
+    try {
+      const result = await window.electronAPI.calendarFindAvailability({
+        attendees: attendeeEmails(),
+        durationMinutes: duration,
+      });
+      if (result.success) {
+        setSlots(result.slots || []);
+        setSlotTimeZones(result.timeZones || []);
+        setUnavailable(result.unavailable || []);
+      } else {
+        setError(result.error || 'Failed to check availability');
+      }
+    } finally {
+      setIsFindingTimes(false);
+    }
+  };
+
+  const handlePickSlot = (slot: TimeRange) => {
+    const start = new Date(slot.start);
+    setStartDate(format(start, 'yyyy-MM-dd'));
+    setStartTimeStr(format(start, 'HH:mm'));
+  };
+
+  const formatSlotTime = (iso: string, timeZone: string, withDay: boolean) =>
+    new Date(iso).toLocaleString('en-US', {
+      timeZone,
+      weekday: withDay ? 'short' : undefined,
+      hour: 'numeric',
+      minute: '2-digit',
+      timeZoneName: 'short',
+    });
+
   const handleCreate = async () => {
     if (!title.trim()) {
       setError('Title is required');
@@ -78,7 +120,7 @@ export default function CreateEventModal({ onClose, onSuccess, initialTitle }: C
         summary: title,
         start: start.toISOString(),
         end: end.toISOString(),
-        attendees: attendees.split(',').map(e => e.trim()).filter(e => e),
+        attendees: attendeeEmails(),
         conferenceData,
       });
 
@@ -96,7 +138,7 @@ export default function CreateEventModal({ onClose, onSuccess, initialTitle }: C
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-      <div className="bg-dark-surface border border-dark-border rounded-xl w-full max-w-lg mx-4 animate-slide-in">
+      <div className="bg-dark-surface border border-dark-border rounded-xl w-full max-w-lg max-h-[90vh] overflow-y-auto mx-4 animate-slide-in">
         <div className="px-6 py-4 border-b border-dark-border flex items-center justify-between">
           <h2 className="text-lg font-semibold text-dark-text-primary">Create Event</h2>
           <button
@@ -204,6 +246,54 @@ export default function CreateEventModal({ onClose, onSuccess, initialTitle }: C
             </p>
           </div>
 
+          {/* Availability */}
+          <div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-dark-text-secondary">Suggested times</span>
+              <button
+                onClick={handleFindTimes}
+                disabled={isCreating || isFindingTimes}
+                className="text-xs text-dark-accent-primary hover:underline disabled:opacity-50"
+              >
+                {isFindingTimes ? 'Checking calendars...' : slots ? 'Refresh' : 'Find a time'}
+              </button>
+            </div>
+            {slots && (
+              <div className="mt-2 space-y-1.5">
+                {slots.length === 0 && (
+                  <p className="text-xs text-dark-text-muted">No shared free time in working hours this week</p>
+                )}
+                <div className="flex flex-wrap gap-1.5">
+                  {slots.map(slot => {
+                    const selected = format(new Date(slot.start), 'yyyy-MM-dd HH:mm') === `${startDate} ${startTimeStr}`;
+                    return (
+                      <button
+                        key={slot.start}
+                        onClick={() => handlePickSlot(slot)}
+                        disabled={isCreating}
+                        className={`px-2 py-1 rounded-lg border text-xs text-left transition-colors ${
+                          selected
+                            ? 'border-dark-accent-primary bg-dark-accent-primary/10 text-dark-text-primary'
+                            : 'border-dark-border text-dark-text-secondary hover:bg-dark-bg'
+                        }`}
+                      >
+                        <div>{formatSlotTime(slot.start, slotTimeZones[0] || timezone, true)}</div>
+                        {slotTimeZones[1] && (
+                          <div className="text-dark-text-muted">{formatSlotTime(slot.start, slotTimeZones[1], false)}</div>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+                {unavailable.length > 0 && (
+                  <p className="text-xs text-dark-text-muted">
+                    Couldn't see the calendar for {unavailable.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
           {/* Google Meet checkbox */}
           <div className="flex items-start gap-3">
             <input
@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import type { TaskEvent } from '../types/task';
+
+interface DeletedTasksBinProps {
+  refreshKey: number;  // Bump to reload after tasks change
+}
+
+export default function DeletedTasksBin({ refreshKey }: DeletedTasksBinProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [deleted, setDeleted] = useState<TaskEvent[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!expanded) return;
+    window.electronAPI.getDeletedTasks()
+      .then(events => setDeleted(events || []))
+      .catch(error => console.error('Failed to load deleted tasks:', error));
+  }, [expanded, refreshKey]);
+
+  const handleRestore = async (taskId: string) => {
+    setRestoringId(taskId);
+    try {
+      const result = await window.electronAPI.restoreDeletedTask(taskId);
+      if (!result.success) {
+        alert(`Failed to restore task: ${result.error}`);
+        return;
+      }
+      setDeleted(prev => prev.filter(e => !result.tasks?.some(t => t.id === e.taskId)));
+    } catch (error) {
+      console.error('Failed to restore task:', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div
+        className="section-header cursor-pointer hover:bg-dark-surface/50 transition-colors rounded-lg -mx-2 px-2"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="flex-1">Recently deleted</h2>
+          <svg
+            className={`w-4 h-4 text-dark-text-muted transition-transform ${expanded ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+        </div>
+      </div>
+
+      {expanded && (
+        <div className="space-y-1">
+          {deleted.length === 0 && (
+            <p className="text-xs text-dark-text-muted px-1">No deleted tasks</p>
+          )}
+          {deleted.map(event => (
+            <div
+              key={event.seq}
+              className="flex items-center gap-2 bg-dark-surface rounded-lg px-3 py-2 border border-dark-border"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-dark-text-secondary truncate">{event.before?.title}</p>
+                <p className="text-xs text-dark-text-muted">
+                  Deleted {formatDistanceToNow(parseISO(event.createdAt), { addSuffix: true })}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRestore(event.taskId)}
+                disabled={restoringId === event.taskId}
+                className="btn-primary btn-sm"
+              >
+                {restoringId === event.taskId ? 'Restoring...' : 'Restore'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react';
+import type { DigestHistoryEntry, DigestRunStatus } from '../services/digest-schedule';
+
+const STATUS_STYLES: Record<DigestRunStatus, { label: string; className: string }> = {
+  sent: { label: 'Sent', className: 'text-dark-accent-success' },
+  empty: { label: 'Nothing new', className: 'text-dark-text-muted' },
+  skipped: { label: 'Skipped', className: 'text-dark-text-muted' },
+  failed: { label: 'Failed', className: 'text-dark-accent-danger' },
+};
+
+export default function DigestHistoryView() {
+  const [history, setHistory] = useState<DigestHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [creatingItemId, setCreatingItemId] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await window.electronAPI.getDigestHistory() || []);
+    } catch (error) {
+      console.error('Failed to load digest history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  const handleCreateTask = async (entryId: string, itemId: string) => {
+    setCreatingItemId(itemId);
+    try {
+      const result = await window.electronAPI.createTaskFromDigestItem(entryId, itemId);
+      if (!result.success) {
+        alert(result.error || 'Failed to create task');
+      }
+      await loadHistory();
+    } finally {
+      setCreatingItemId(null);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear digest history? Items already turned into tasks stay out of future digests.')) return;
+    await window.electronAPI.clearDigestHistory();
+    await loadHistory();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-dark-text-primary">
+          🕘 Digest History
+        </h4>
+        <div className="flex items-center gap-3">
+          <button onClick={loadHistory} className="text-xs text-dark-text-muted hover:text-dark-text-primary">
+            Refresh
+          </button>
+          {history.length > 0 && (
+            <button onClick={handleClear} className="text-xs text-dark-accent-danger hover:underline">
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-xs text-dark-text-muted">Loading...</div>
+      ) : history.length === 0 ? (
+        <div className="bg-dark-surface border border-dark-border rounded-lg p-4 text-center text-xs text-dark-text-muted">
+          No digests yet
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto">
+          {history.map(entry => {
+            const status = STATUS_STYLES[entry.status];
+            const tasksCreated = entry.items.filter(item => item.taskId).length;
+            const isExpanded = expandedId === entry.id;
+
+            return (
+              <div key={entry.id} className="bg-dark-bg border border-dark-border rounded-lg">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  disabled={entry.items.length === 0}
+                  className="w-full flex items-center gap-2 p-2 text-left text-xs disabled:cursor-default"
+                >
+                  <span className="flex-1 text-dark-text-primary">
+                    {new Date(entry.scheduledFor).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    {entry.catchUp && <span className="ml-2 text-dark-text-muted">(sent late)</span>}
+                  </span>
+                  {entry.items.length > 0 && (
+                    <span className="text-dark-text-muted">
+                      {entry.items.length} item{entry.items.length !== 1 ? 's' : ''}
+                      {tasksCreated > 0 && ` · ${tasksCreated} task${tasksCreated !== 1 ? 's' : ''}`}
+                    </span>
+                  )}
+                  <span className={`font-medium ${status.className}`} title={entry.reason}>
+                    {status.label}
+                    {entry.status === 'sent' && entry.deliveredVia && (
+                      <span className="font-normal text-dark-text-muted">
+                        {' via '}{entry.deliveredVia.map(channel => channel === 'email' ? 'email' : 'Slack').join(' + ')}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                {entry.reason && (
+                  <div className="px-2 pb-2 -mt-1 text-xs text-dark-text-muted">{entry.reason}</div>
+                )}
+
+                {isExpanded && (
+                  <div className="border-t border-dark-border p-2 space-y-2">
+                    {entry.items.map(item => (
+                      <div key={item.id} className="flex items-start gap-2 text-xs">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-dark-text-primary">{item.summary}</div>
+                          <div className="text-dark-text-muted truncate">
+                            {item.userName} in #{item.channelName}
+                            {item.permalink && (
+                              <>
+                                {' · '}
+                                <a
+                                  href={item.permalink}
+                                  onClick={(e) => {
+                                    e.preventDefault();
+                                    window.electronAPI.openExternal(item.permalink!);
+                                  }}
+                                  className="text-dark-accent-primary hover:underline"
+                                >
+                                  View message
+                                </a>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        {item.taskId ? (
+                          <span className="flex-shrink-0 text-dark-accent-success">✓ Task created</span>
+                        ) : (
+                          <button
+                            onClick={() => handleCreateTask(entry.id, item.id)}
+                            disabled={creatingItemId === item.id}
+                            className="flex-shrink-0 text-dark-accent-primary hover:underline disabled:opacity-50"
+                          >
+                            {creatingItemId === item.id ? 'Creating...' : 'Create task'}
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
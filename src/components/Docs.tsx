@@ -63,6 +63,11 @@ export default function Docs({ isActive }: DocsProps) {
     checkObsidianConfig();
   }, []);
 
+  // Docs added from Claude (MCP server) arrive while the tab is open
+  useEffect(() => {
+    return window.electronAPI.onDocsUpdated((updatedDocs) => setDocs(updatedDocs));
+  }, []);
+
   // Auto-focus when tab becomes active and reload tags
   useEffect(() => {
     if (isActive) {
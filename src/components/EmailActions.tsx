@@ -0,0 +1,268 @@
+import { useState } from 'react';
+import { addDays, addHours, format, nextMonday, setHours, startOfDay } from 'date-fns';
+import type { EmailLabel } from '../services/gmail';
+
+export interface EmailActionTarget {
+  id: string;
+  threadId: string;
+  subject: string;
+  from: string;
+  snippet: string;
+  timestamp: string;
+  isStarred?: boolean;
+  labels?: string[];
+}
+
+interface EmailActionsProps {
+  email: EmailActionTarget;
+  onRemoved: (id: string) => void;  // Archived or snoozed out of the inbox
+  onUpdated: (id: string, changes: Partial<EmailActionTarget>) => void;
+}
+
+type Panel = 'reply' | 'labels' | 'snooze' | null;
+
+function getSnoozePresets(now: Date): { label: string; until: Date }[] {
+  const tomorrowMorning = setHours(startOfDay(addDays(now, 1)), 9);
+  return [
+    { label: 'Later today', until: addHours(now, 3) },
+    { label: 'Tomorrow', until: tomorrowMorning },
+    { label: 'Next week', until: setHours(startOfDay(nextMonday(now)), 9) },
+  ];
+}
+
+export default function EmailActions({ email, onRemoved, onUpdated }: EmailActionsProps) {
+  const [panel, setPanel] = useState<Panel>(null);
+  const [replyText, setReplyText] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [labels, setLabels] = useState<EmailLabel[] | null>(null);
+  const [customSnooze, setCustomSnooze] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, onSuccess: () => void) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (result.success) {
+        onSuccess();
+      } else {
+        setError(result.error || 'Something went wrong');
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const togglePanel = async (next: Panel) => {
+    setError(null);
+    setPanel(panel === next ? null : next);
+    if (next === 'labels' && !labels) {
+      const result = await window.electronAPI.gmailListLabels();
+      if (result.success) {
+        setLabels(result.labels || []);
+      } else {
+        setError(result.error || 'Failed to load labels');
+      }
+    }
+  };
+
+  const handleDraftReply = async () => {
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const message = await window.electronAPI.gmailGetMessageText(email.id);
+      const body = message.success && message.text ? message.text : email.snippet;
+      const result = await window.electronAPI.llmComplete('chat', {
+        messages: [
+          {
+            role: 'system',
+            content: 'You draft concise, friendly email replies for a busy product manager. Reply with the email body only: no subject line, no placeholders.',
+          },
+          {
+            role: 'user',
+            content: `Draft a reply to this email.${replyText.trim() ? `\n\nPoints to cover: ${replyText.trim()}` : ''}\n\nFrom: ${email.from}\nSubject: ${email.subject}\n\n${body.substring(0, 6000)}`,
+          },
+        ],
+        temperature: 0.5,
+        maxTokens: 500,
+      });
+      if (result.success && result.content) {
+        setReplyText(result.content.trim());
+      } else {
+        setError(result.error || 'Failed to draft reply');
+      }
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleSendReply = () => run(
+    () => window.electronAPI.gmailSendReply(email.id, replyText),
+    () => {
+      setReplyText('');
+      setPanel(null);
+    }
+  );
+
+  const handleArchive = () => run(
+    () => window.electronAPI.gmailArchive(email.id),
+    () => onRemoved(email.id)
+  );
+
+  const handleToggleStar = () => {
+    const starred = !email.isStarred;
+    run(
+      () => window.electronAPI.gmailSetStarred(email.id, starred),
+      () => onUpdated(email.id, { isStarred: starred })
+    );
+  };
+
+  const handleToggleLabel = (labelId: string) => {
+    const hasLabel = email.labels?.includes(labelId);
+    run(
+      async () => {
+        const result = await window.electronAPI.gmailModifyLabels(email.id, hasLabel ? [] : [labelId], hasLabel ? [labelId] : []);
+        if (result.success) onUpdated(email.id, { labels: result.labelIds });
+        return result;
+      },
+      () => {}
+    );
+  };
+
+  const handleSnooze = (until: Date) => run(
+    () => window.electronAPI.gmailSnooze({
+      id: email.id,
+      threadId: email.threadId,
+      subject: email.subject,
+      from: email.from,
+      snippet: email.snippet,
+      date: email.timestamp,
+      until: until.toISOString(),
+    }),
+    () => onRemoved(email.id)
+  );
+
+  const buttonClass = 'p-1 rounded text-dark-text-muted hover:text-dark-text-primary hover:bg-dark-bg transition-colors disabled:opacity-50';
+
+  return (
+    // Clicks inside shouldn't open the email in Gmail
+    <div onClick={(e) => e.stopPropagation()} className="mt-2 cursor-default">
+      <div className="flex items-center gap-1">
+        <button onClick={() => togglePanel('reply')} disabled={isBusy} className={buttonClass} title="Reply">
+          <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+          </svg>
+        </button>
+        <button onClick={handleArchive} disabled={isBusy} className={buttonClass} title="Archive">
+          <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" />
+          </svg>
+        </button>
+        <button onClick={handleToggleStar} disabled={isBusy} className={buttonClass} title={email.isStarred ? 'Unstar' : 'Star'}>
+          <svg className={`icon-sm ${email.isStarred ? 'text-yellow-400' : ''}`} fill={email.isStarred ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+          </svg>
+        </button>
+        <button onClick={() => togglePanel('labels')} disabled={isBusy} className={buttonClass} title="Labels">
+          <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+          </svg>
+        </button>
+        <button onClick={() => togglePanel('snooze')} disabled={isBusy} className={buttonClass} title="Snooze">
+          <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        </button>
+      </div>
+
+      {error && <div className="mt-1 text-xs text-dark-accent-danger">{error}</div>}
+
+      {panel === 'reply' && (
+        <div className="mt-2 space-y-2">
+          <textarea
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            rows={5}
+            className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary resize-y"
+            placeholder="Write a reply, or jot a few points and let AI draft it"
+          />
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleDraftReply}
+              disabled={isDrafting || isBusy}
+              className="text-xs text-dark-accent-primary hover:underline disabled:opacity-50"
+            >
+              {isDrafting ? 'Drafting...' : '✨ Draft with AI'}
+            </button>
+            <div className="flex items-center gap-2">
+              <button onClick={() => setPanel(null)} className="text-xs text-dark-text-muted hover:text-dark-text-primary">
+                Cancel
+              </button>
+              <button
+                onClick={handleSendReply}
+                disabled={!replyText.trim() || isBusy || isDrafting}
+                className="btn-primary btn-sm disabled:opacity-50"
+              >
+                {isBusy ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {panel === 'labels' && (
+        <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+          {!labels ? (
+            <div className="text-xs text-dark-text-muted">Loading labels...</div>
+          ) : labels.length === 0 ? (
+            <div className="text-xs text-dark-text-muted">No labels in this Gmail account</div>
+          ) : (
+            labels.map(label => (
+              <label key={label.id} className="flex items-center gap-2 text-xs text-dark-text-secondary cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!email.labels?.includes(label.id)}
+                  onChange={() => handleToggleLabel(label.id)}
+                  disabled={isBusy}
+                />
+                {label.name}
+              </label>
+            ))
+          )}
+        </div>
+      )}
+
+      {panel === 'snooze' && (
+        <div className="mt-2 space-y-1">
+          {getSnoozePresets(new Date()).map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => handleSnooze(preset.until)}
+              disabled={isBusy}
+              className="w-full flex items-center justify-between px-2 py-1 rounded text-xs text-dark-text-secondary hover:bg-dark-bg disabled:opacity-50"
+            >
+              <span>{preset.label}</span>
+              <span className="text-dark-text-muted">{format(preset.until, 'EEE h:mm a')}</span>
+            </button>
+          ))}
+          <div className="flex items-center gap-2 px-2 pt-1">
+            <input
+              type="datetime-local"
+              value={customSnooze}
+              onChange={(e) => setCustomSnooze(e.target.value)}
+              className="flex-1 px-2 py-1 bg-dark-bg border border-dark-border rounded text-xs text-dark-text-primary"
+            />
+            <button
+              onClick={() => handleSnooze(new Date(customSnooze))}
+              disabled={!customSnooze || isBusy}
+              className="btn-primary btn-sm disabled:opacity-50"
+            >
+              Snooze
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { EmailAttachment, EmailThread, EmailThreadMessage } from '../services/gmail';
+import { sanitizeEmailHtml, splitQuotedText } from '../utils/emailHtml';
+
+interface EmailThreadViewProps {
+  threadId: string;
+  subject: string;
+  onClose: () => void;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDate(date: string): string {
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? date : format(parsed, 'MMM d, h:mm a');
+}
+
+function MessageBody({ message }: { message: EmailThreadMessage }) {
+  const [showQuoted, setShowQuoted] = useState(false);
+  const [showImages, setShowImages] = useState(false);
+
+  // Links open in the browser, never inside the app
+  const handleClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest('a');
+    if (!link) return;
+    e.preventDefault();
+    const href = link.getAttribute('href');
+    if (href) window.electronAPI.openExternal(href);
+  };
+
+  if (message.bodyHtml) {
+    const { html, quotedHtml, blockedImages } = sanitizeEmailHtml(message.bodyHtml, { allowRemoteImages: showImages });
+    return (
+      <div>
+        {blockedImages > 0 && !showImages && (
+          <button onClick={() => setShowImages(true)} className="mb-2 text-xs text-dark-accent-primary hover:underline">
+            Show {blockedImages} image{blockedImages !== 1 ? 's' : ''}
+          </button>
+        )}
+        {/* Email HTML assumes a light background */}
+        <div
+          onClick={handleClick}
+          className="bg-white text-gray-900 rounded p-3 text-sm overflow-x-auto break-words"
+          dangerouslySetInnerHTML={{ __html: html }}
+        />
+        {quotedHtml && (
+          <>
+            <button onClick={() => setShowQuoted(!showQuoted)} className="mt-1 text-xs text-dark-text-muted hover:text-dark-text-primary">
+              {showQuoted ? 'Hide quoted text' : '•••'}
+            </button>
+            {showQuoted && (
+              <div
+                onClick={handleClick}
+                className="bg-white text-gray-600 rounded p-3 mt-1 text-sm overflow-x-auto break-words"
+                dangerouslySetInnerHTML={{ __html: quotedHtml }}
+              />
+            )}
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const { body, quoted } = splitQuotedText(message.bodyText);
+  return (
+    <div>
+      <div className="text-sm text-dark-text-secondary whitespace-pre-wrap break-words">{body}</div>
+      {quoted && (
+        <>
+          <button onClick={() => setShowQuoted(!showQuoted)} className="mt-1 text-xs text-dark-text-muted hover:text-dark-text-primary">
+            {showQuoted ? 'Hide quoted text' : '•••'}
+          </button>
+          {showQuoted && (
+            <div className="mt-1 text-sm text-dark-text-muted whitespace-pre-wrap break-words">{quoted}</div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function EmailThreadView({ threadId, subject, onClose }: EmailThreadViewProps) {
+  const [thread, setThread] = useState<EmailThread | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [isCreatingTask, setIsCreatingTask] = useState(false);
+  const [createdTaskTitle, setCreatedTaskTitle] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadThread = async () => {
+      const result = await window.electronAPI.gmailGetThread(threadId);
+      if (result.success && result.thread) {
+        setThread(result.thread);
+        // Like Gmail: the latest message and anything unread start expanded
+        const messages = result.thread.messages;
+        setExpandedIds(new Set(messages.filter((m, i) => m.isUnread || i === messages.length - 1).map(m => m.id)));
+      } else {
+        setError(result.error || 'Failed to load thread');
+      }
+    };
+    loadThread();
+  }, [threadId]);
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleDownload = async (message: EmailThreadMessage, attachment: EmailAttachment) => {
+    setDownloadingId(attachment.id);
+    try {
+      const result = await window.electronAPI.gmailDownloadAttachment(message.id, attachment.id, attachment.filename);
+      if (!result.success) {
+        alert(result.error || 'Failed to download attachment');
+      }
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  const handleCreateTask = async () => {
+    setIsCreatingTask(true);
+    try {
+      const result = await window.electronAPI.createTaskFromEmailThread(threadId);
+      if (result.success && result.task) {
+        setCreatedTaskTitle(result.task.title);
+      } else {
+        alert(result.error || 'Failed to create task');
+      }
+    } finally {
+      setIsCreatingTask(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 pt-4 pb-3 border-b border-dark-border">
+        <button
+          onClick={onClose}
+          className="p-1 text-dark-text-secondary hover:text-dark-text-primary transition-colors"
+          title="Back to messages"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <h3 className="flex-1 min-w-0 text-sm font-medium text-dark-text-primary truncate">
+          {thread?.subject || subject || '(No subject)'}
+        </h3>
+        <button
+          onClick={() => window.electronAPI.openExternal(`https://mail.google.com/mail/u/0/#inbox/${threadId}`)}
+          className="text-xs text-dark-text-muted hover:text-dark-text-primary"
+        >
+          Open in Gmail
+        </button>
+        {createdTaskTitle ? (
+          <span className="text-xs text-dark-accent-success" title={createdTaskTitle}>✓ Task created</span>
+        ) : (
+          <button
+            onClick={handleCreateTask}
+            disabled={!thread || isCreatingTask}
+            className="btn-primary btn-sm disabled:opacity-50"
+          >
+            {isCreatingTask ? 'Summarizing...' : 'Create task'}
+          </button>
+        )}
+      </div>
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-2">
+        {error ? (
+          <div className="text-sm text-dark-accent-danger">{error}</div>
+        ) : !thread ? (
+          <div className="text-sm text-dark-text-secondary">Loading thread...</div>
+        ) : (
+          thread.messages.map(message => {
+            const isExpanded = expandedIds.has(message.id);
+            return (
+              <div key={message.id} className="bg-dark-surface border border-dark-border rounded-lg">
+                <button
+                  onClick={() => toggleExpanded(message.id)}
+                  className="w-full flex items-start justify-between gap-2 p-3 text-left"
+                >
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-dark-text-primary truncate">{message.from}</div>
+                    {isExpanded ? (
+                      <div className="text-xs text-dark-text-muted truncate">
+                        To: {message.to}{message.cc ? ` · Cc: ${message.cc}` : ''}
+                      </div>
+                    ) : (
+                      <div className="text-xs text-dark-text-muted truncate">{message.snippet}</div>
+                    )}
+                  </div>
+                  <span className="flex-shrink-0 text-xs text-dark-text-muted">
+                    {message.attachments.length > 0 && '📎 '}{formatDate(message.date)}
+                  </span>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pb-3 space-y-2">
+                    <MessageBody message={message} />
+                    {message.attachments.length > 0 && (
+                      <div className="space-y-1 pt-2 border-t border-dark-border">
+                        {message.attachments.map(attachment => (
+                          <div key={attachment.id} className="flex items-center gap-2 text-xs">
+                            <span className="flex-1 min-w-0 truncate text-dark-text-secondary">📎 {attachment.filename}</span>
+                            <span className="text-dark-text-muted">{formatSize(attachment.size)}</span>
+                            <button
+                              onClick={() => handleDownload(message, attachment)}
+                              disabled={downloadingId === attachment.id}
+                              className="text-dark-accent-primary hover:underline disabled:opacity-50"
+                            >
+                              {downloadingId === attachment.id ? 'Saving...' : 'Download'}
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
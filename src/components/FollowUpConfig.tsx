@@ -0,0 +1,70 @@
+import { normalizeFollowUpSettings, type FollowUpSettings } from '../services/follow-ups';
+
+interface FollowUpConfigProps {
+  settings?: Partial<FollowUpSettings>;
+  onChange: (settings: FollowUpSettings) => void;
+}
+
+const inputClass = `px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+export default function FollowUpConfig({ settings: savedSettings, onChange }: FollowUpConfigProps) {
+  const settings = normalizeFollowUpSettings(savedSettings);
+
+  const update = (changes: Partial<FollowUpSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const toNumber = (value: string, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-dark-border">
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-dark-text-primary">Follow-up Tracker</h4>
+            <p className="text-xs text-dark-text-muted mt-1">
+              Suggest a nudge when a question or request you sent by email or Slack goes unanswered
+            </p>
+          </div>
+          <button
+            onClick={() => update({ enabled: !settings.enabled })}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+              settings.enabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                settings.enabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+        {settings.enabled && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-dark-text-secondary">
+            <span>Nudge after</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.waitHours}
+              onChange={(e) => update({ waitHours: toNumber(e.target.value, settings.waitHours) })}
+              className={`w-20 ${inputClass}`}
+            />
+            <span>hours without a reply; ignore requests older than</span>
+            <input
+              type="number"
+              min={1}
+              value={settings.lookbackDays}
+              onChange={(e) => update({ lookbackDays: toNumber(e.target.value, settings.lookbackDays) })}
+              className={`w-20 ${inputClass}`}
+            />
+            <span>days</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import type { AwaitingReply } from '../services/follow-ups';
+
+interface FollowUpNudgeProps {
+  followUp: AwaitingReply;
+  onSent: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Drafts a follow-up for a request nobody answered and sends it in the
+ * original Slack thread or email thread
+ */
+export default function FollowUpNudge({ followUp, onSent, onCancel }: FollowUpNudgeProps) {
+  const [text, setText] = useState('');
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const style = followUp.channel === 'slack'
+        ? 'a Slack thread reply: one or two casual sentences'
+        : 'an email reply body: two or three sentences, no subject line';
+      const result = await window.electronAPI.llmComplete('chat', {
+        messages: [
+          {
+            role: 'system',
+            content: `You write short, friendly follow-ups for a busy product manager who is waiting on someone. Write ${style}. No placeholders, no guilt-tripping.`,
+          },
+          {
+            role: 'user',
+            content: `I asked ${followUp.recipient} this ${formatDistanceToNow(new Date(followUp.sentAt))} ago and haven't heard back. Draft a gentle nudge.\n\n${followUp.text.substring(0, 3000)}`,
+          },
+        ],
+        temperature: 0.5,
+        maxTokens: 200,
+      });
+      if (result.success && result.content) {
+        setText(result.content.trim());
+      } else {
+        setError(result.error || 'Failed to draft follow-up');
+      }
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  // Start with a draft so sending is one click
+  useEffect(() => {
+    handleDraft();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleSend = async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      if (followUp.channel === 'slack' && followUp.slackChannelId && followUp.slackThreadTs) {
+        await window.electronAPI.slackSendReply(followUp.slackChannelId, followUp.slackThreadTs, text);
+      } else if (followUp.channel === 'email' && followUp.gmailMessageId) {
+        const result = await window.electronAPI.gmailSendReply(followUp.gmailMessageId, text);
+        if (!result.success) throw new Error(result.error || 'Failed to send email');
+      } else {
+        throw new Error('Nowhere to send this follow-up');
+      }
+      onSent();
+    } catch (err: any) {
+      setError(err.message || 'Failed to send follow-up');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={4}
+        disabled={isDrafting}
+        className="w-full px-2 py-1.5 bg-dark-bg border border-dark-border rounded text-xs text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary resize-y disabled:opacity-50"
+        placeholder={isDrafting ? 'Drafting...' : 'Write a follow-up'}
+      />
+      {error && <div className="text-xs text-dark-accent-danger">{error}</div>}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={handleDraft}
+          disabled={isDrafting || isSending}
+          className="text-xs text-dark-accent-primary hover:underline disabled:opacity-50"
+        >
+          {isDrafting ? 'Drafting...' : '✨ Redraft'}
+        </button>
+        <div className="flex items-center gap-2">
+          <button onClick={onCancel} className="text-xs text-dark-text-muted hover:text-dark-text-primary">
+            Cancel
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!text.trim() || isDrafting || isSending}
+            className="btn-primary btn-sm disabled:opacity-50"
+          >
+            {isSending ? 'Sending...' : followUp.channel === 'slack' ? 'Send in Slack' : 'Send email'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import {
+  normalizeLLMSettings,
+  DEFAULT_LLM_SETTINGS,
+  LLM_TASKS,
+  LLM_TASK_LABELS,
+  OPENAI_PROVIDER_ID,
+  type LLMProvider,
+  type LLMSettings,
+  type LLMUsage,
+  type LLMUsageTotals,
+} from '../services/llm-config';
+
+interface LLMSettingsConfigProps {
+  settings?: Partial<LLMSettings>;
+  onChange: (settings: LLMSettings) => void;
+}
+
+const inputClass = `px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+function formatCost(totals: LLMUsageTotals): string {
+  const cost = `$${totals.costUsd.toFixed(totals.costUsd < 1 ? 4 : 2)}`;
+  return totals.unpricedRequests > 0 ? `${cost}+` : cost;
+}
+
+export default function LLMSettingsConfig({ settings: savedSettings, onChange }: LLMSettingsConfigProps) {
+  const settings = normalizeLLMSettings(savedSettings);
+  const [usage, setUsage] = useState<LLMUsage | null>(null);
+
+  const loadUsage = async () => {
+    try {
+      setUsage(await window.electronAPI.getLLMUsage());
+    } catch (error) {
+      console.error('Failed to load LLM usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+  }, []);
+
+  const update = (changes: Partial<LLMSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const updateProvider = (id: string, changes: Partial<LLMProvider>) => {
+    update({ providers: settings.providers.map(p => p.id === id ? { ...p, ...changes } : p) });
+  };
+
+  const handleAddProvider = () => {
+    const id = `local_${Date.now()}`;
+    update({
+      providers: [...settings.providers, {
+        id,
+        name: 'Local model',
+        kind: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+      }],
+    });
+  };
+
+  const handleRemoveProvider = (id: string) => {
+    // Tasks routed to the removed provider fall back to the default route
+    const routes = { ...settings.routes };
+    for (const task of LLM_TASKS) {
+      if (routes[task].providerId === id) {
+        routes[task] = DEFAULT_LLM_SETTINGS.routes[task];
+      }
+    }
+    update({ providers: settings.providers.filter(p => p.id !== id), routes });
+  };
+
+  const handleResetUsage = async () => {
+    if (!confirm('Reset AI usage totals?')) return;
+    await window.electronAPI.resetLLMUsage();
+    await loadUsage();
+  };
+
+  const toNumber = (value: string, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? fallback : parsed;
+  };
+
+  const usageRows = usage ? Object.entries(usage.byModel) : [];
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-dark-border">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-dark-text-primary">AI Models</h3>
+        <button
+          onClick={() => onChange(DEFAULT_LLM_SETTINGS)}
+          className="text-xs text-dark-text-muted hover:text-dark-text-primary transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-xs text-dark-text-muted -mt-2">
+        Choose which provider and model handles each kind of AI work. Local endpoints such as Ollama or llama.cpp keep data on your machine.
+      </p>
+
+      {/* Providers */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <label className="block text-sm font-medium text-dark-text-secondary">Providers</label>
+        {settings.providers.map(provider => (
+          <div key={provider.id} className="space-y-2 pb-3 border-b border-dark-border last:border-b-0 last:pb-0">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={provider.name}
+                onChange={(e) => updateProvider(provider.id, { name: e.target.value })}
+                disabled={provider.id === OPENAI_PROVIDER_ID}
+                className={`flex-1 ${inputClass} disabled:opacity-60`}
+              />
+              <span className="text-xs text-dark-text-muted">
+                {provider.kind === 'openai' ? 'OpenAI' : 'OpenAI-compatible'}
+              </span>
+              {provider.id !== OPENAI_PROVIDER_ID && (
+                <button
+                  onClick={() => handleRemoveProvider(provider.id)}
+                  className="p-1 text-dark-text-muted hover:text-dark-accent-danger transition-colors"
+                  title="Remove provider"
+                >
+                  <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              )}
+            </div>
+            {provider.kind === 'openai-compatible' && (
+              <input
+                type="text"
+                value={provider.baseUrl || ''}
+                onChange={(e) => updateProvider(provider.id, { baseUrl: e.target.value.trim() })}
+                className={`w-full ${inputClass} font-mono text-xs`}
+                placeholder="http://localhost:11434/v1"
+              />
+            )}
+            <input
+              type="password"
+              value={provider.apiKey || ''}
+              onChange={(e) => updateProvider(provider.id, { apiKey: e.target.value.trim() })}
+              className={`w-full ${inputClass} font-mono text-xs`}
+              placeholder={provider.id === OPENAI_PROVIDER_ID ? 'sk-... (defaults to OPENAI_API_KEY from .env)' : 'API key (optional)'}
+            />
+          </div>
+        ))}
+        <button onClick={handleAddProvider} className="btn-primary btn-sm">Add local endpoint</button>
+      </div>
+
+      {/* Routes */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <label className="block text-sm font-medium text-dark-text-secondary">Model per Task</label>
+        {LLM_TASKS.map(task => {
+          const route = settings.routes[task];
+          return (
+            <div key={task}>
+              <div className="flex items-center gap-2">
+                <span className="w-28 flex-shrink-0 text-sm text-dark-text-primary">{LLM_TASK_LABELS[task].label}</span>
+                <select
+                  value={route.providerId}
+                  onChange={(e) => update({ routes: { ...settings.routes, [task]: { ...route, providerId: e.target.value } } })}
+                  className={`w-36 ${inputClass}`}
+                >
+                  {settings.providers.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={route.model}
+                  onChange={(e) => update({ routes: { ...settings.routes, [task]: { ...route, model: e.target.value.trim() } } })}
+                  className={`flex-1 min-w-0 ${inputClass} font-mono text-xs`}
+                  placeholder="model name"
+                />
+              </div>
+              <p className="text-xs text-dark-text-muted mt-1 ml-[7.5rem]">{LLM_TASK_LABELS[task].description}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Reliability */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-dark-text-secondary mb-1">Timeout (seconds)</label>
+          <input
+            type="number"
+            min={5}
+            value={settings.timeoutSeconds}
+            onChange={(e) => update({ timeoutSeconds: Math.max(5, toNumber(e.target.value, settings.timeoutSeconds)) })}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-dark-text-secondary mb-1">Retries</label>
+          <input
+            type="number"
+            min={0}
+            max={5}
+            value={settings.maxRetries}
+            onChange={(e) => update({ maxRetries: Math.min(5, Math.max(0, toNumber(e.target.value, settings.maxRetries))) })}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      {/* Usage */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-dark-text-secondary">Usage</label>
+          <div className="flex items-center gap-3">
+            <button onClick={loadUsage} className="text-xs text-dark-text-muted hover:text-dark-text-primary">
+              Refresh
+            </button>
+            {usageRows.length > 0 && (
+              <button onClick={handleResetUsage} className="text-xs text-dark-accent-danger hover:underline">
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+        {usageRows.length === 0 ? (
+          <p className="text-xs text-dark-text-muted">No AI requests yet.</p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              {usageRows.map(([key, totals]) => (
+                <div key={key} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 min-w-0 truncate font-mono text-dark-text-primary">{key}</span>
+                  <span className="text-dark-text-muted" title={`${totals.promptTokens.toLocaleString()} in / ${totals.completionTokens.toLocaleString()} out`}>
+                    {totals.requests} req{totals.failures > 0 ? ` · ${totals.failures} failed` : ''}
+                    {' · '}{(totals.promptTokens + totals.completionTokens).toLocaleString()} tok
+                  </span>
+                  <span className="w-16 text-right text-dark-text-secondary">{formatCost(totals)}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-dark-text-muted">
+              Estimated since {new Date(usage!.since).toLocaleDateString()}. Local endpoints are counted as free; "+" means some models have no known price.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
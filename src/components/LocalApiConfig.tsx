@@ -0,0 +1,163 @@
+import { useState, useEffect } from 'react';
+import type { LocalApiClient } from '../types/local-api';
+
+interface LocalApiConfigProps {
+  allowedOrigins?: string[];
+  onAllowedOriginsChange: (origins: string[]) => void;
+}
+
+const inputClass = `flex-1 px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+function isValidOrigin(value: string): boolean {
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+export default function LocalApiConfig({ allowedOrigins = [], onAllowedOriginsChange }: LocalApiConfigProps) {
+  const [clients, setClients] = useState<LocalApiClient[]>([]);
+  const [pairing, setPairing] = useState<{ code: string; expiresAt: string } | null>(null);
+  const [newOrigin, setNewOrigin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClients = async () => {
+    setClients(await window.electronAPI.localApiListClients());
+  };
+
+  useEffect(() => {
+    loadClients();
+    return window.electronAPI.onLocalApiClientPaired(() => {
+      setPairing(null);
+      loadClients();
+    });
+  }, []);
+
+  // Hide the code once it expires
+  useEffect(() => {
+    if (!pairing) return;
+    const timeout = setTimeout(() => setPairing(null), new Date(pairing.expiresAt).getTime() - Date.now());
+    return () => clearTimeout(timeout);
+  }, [pairing]);
+
+  const handleStartPairing = async () => {
+    setError(null);
+    const result = await window.electronAPI.localApiStartPairing();
+    if (result.success && result.code && result.expiresAt) {
+      setPairing({ code: result.code, expiresAt: result.expiresAt });
+    } else {
+      setError(result.error || 'Failed to start pairing');
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    const result = await window.electronAPI.localApiRevokeClient(id);
+    if (!result.success) setError(result.error || 'Failed to revoke access');
+    loadClients();
+  };
+
+  const handleAddOrigin = () => {
+    const origin = newOrigin.trim().replace(/\/+$/, '');
+    if (!isValidOrigin(origin)) {
+      setError('Enter an origin like chrome-extension://abcdef or http://localhost:3000');
+      return;
+    }
+    setError(null);
+    if (!allowedOrigins.includes(origin)) {
+      onAllowedOriginsChange([...allowedOrigins, origin]);
+    }
+    setNewOrigin('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-base font-semibold text-dark-text-primary">Local API</h3>
+        <p className="text-xs text-dark-text-muted mt-1">
+          Lets the Chrome extension and other apps on this computer read and add tasks at http://localhost:54321/v1.
+          Each app needs to be paired once.
+        </p>
+      </div>
+
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="text-sm font-medium text-dark-text-primary">Connected Apps</h3>
+          <button onClick={handleStartPairing} className="btn-primary btn-sm">
+            Pair new app
+          </button>
+        </div>
+
+        {pairing && (
+          <div className="p-3 bg-dark-surface border border-dark-border rounded-lg">
+            <p className="text-xs text-dark-text-secondary">Enter this code in the app you're connecting:</p>
+            <p className="text-2xl font-mono tracking-widest text-dark-text-primary mt-1">{pairing.code}</p>
+            <p className="text-xs text-dark-text-muted mt-1">
+              Expires at {new Date(pairing.expiresAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </p>
+          </div>
+        )}
+
+        {clients.length === 0 ? (
+          <p className="text-xs text-dark-text-muted">No apps paired yet</p>
+        ) : (
+          <div className="space-y-2">
+            {clients.map(client => (
+              <div key={client.id} className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-dark-text-primary truncate">{client.name}</p>
+                  <p className="text-xs text-dark-text-muted truncate">
+                    {client.origin || 'No browser origin'} · Paired {new Date(client.createdAt).toLocaleDateString()}
+                    {client.lastUsedAt && ` · Last used ${new Date(client.lastUsedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(client.id)}
+                  className="text-xs text-dark-accent-danger hover:underline flex-shrink-0"
+                >
+                  Revoke
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-dark-text-primary">Allowed Origins</h3>
+          <p className="text-xs text-dark-text-muted mt-1">
+            Paired apps' origins are allowed automatically. Add others here, e.g. a second browser profile's extension.
+          </p>
+        </div>
+        {allowedOrigins.map(origin => (
+          <div key={origin} className="flex items-center justify-between gap-3">
+            <span className="text-xs font-mono text-dark-text-secondary truncate">{origin}</span>
+            <button
+              onClick={() => onAllowedOriginsChange(allowedOrigins.filter(o => o !== origin))}
+              className="text-xs text-dark-text-muted hover:text-dark-accent-danger flex-shrink-0"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newOrigin}
+            onChange={(e) => setNewOrigin(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddOrigin()}
+            placeholder="chrome-extension://..."
+            className={inputClass}
+          />
+          <button onClick={handleAddOrigin} disabled={!newOrigin.trim()} className="btn-primary btn-sm disabled:opacity-50">
+            Add
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-dark-accent-danger">{error}</p>}
+    </div>
+  );
+}
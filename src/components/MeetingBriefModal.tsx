@@ -0,0 +1,160 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import type { MeetingBrief } from '../services/meeting-brief';
+
+interface MeetingBriefModalProps {
+  eventTitle: string;
+  brief: MeetingBrief | null;
+  isGenerating: boolean;
+  error?: string | null;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const RESPONSE_LABELS: Record<string, string> = {
+  accepted: 'Going',
+  declined: 'Declined',
+  tentative: 'Maybe',
+  needsAction: 'No reply',
+};
+
+function Section({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <h3 className="text-xs font-semibold text-dark-text-secondary uppercase tracking-wider">{title}</h3>
+      {empty ? <div className="text-xs text-dark-text-muted">Nothing found</div> : children}
+    </div>
+  );
+}
+
+export default function MeetingBriefModal({ eventTitle, brief, isGenerating, error, onRefresh, onClose }: MeetingBriefModalProps) {
+  const open = (url?: string) => {
+    if (url) window.electronAPI.openExternal(url);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-dark-surface border border-dark-border rounded-xl w-full max-w-lg max-h-[85vh] mx-4 flex flex-col animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-dark-border flex items-center justify-between flex-shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-dark-text-primary truncate">Prep: {eventTitle}</h2>
+            {brief && (
+              <p className="text-xs text-dark-text-muted">
+                {format(new Date(brief.start), 'EEE h:mm a')} · prepared {formatDistanceToNow(new Date(brief.generatedAt))} ago
+                {brief.sentToSlack ? ' · sent to Slack' : ''}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3 flex-shrink-0">
+            <button
+              onClick={onRefresh}
+              disabled={isGenerating}
+              className="text-xs text-dark-accent-primary hover:underline disabled:opacity-50"
+            >
+              {isGenerating ? 'Preparing...' : 'Refresh'}
+            </button>
+            <button onClick={onClose} className="text-dark-text-muted hover:text-dark-text-primary transition-colors">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-5">
+          {error && <div className="text-sm text-dark-accent-danger">{error}</div>}
+          {!brief ? (
+            !error && <div className="text-sm text-dark-text-secondary">Gathering attendees, conversations, issues and docs...</div>
+          ) : (
+            <>
+              <Section title={`Attendees (${brief.attendees.length})`} empty={brief.attendees.length === 0}>
+                <div className="space-y-1">
+                  {brief.attendees.map(attendee => (
+                    <div key={attendee.email} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="text-dark-text-primary truncate" title={attendee.email}>
+                        {attendee.name || attendee.email}
+                      </span>
+                      <span className="text-xs text-dark-text-muted flex-shrink-0">
+                        {RESPONSE_LABELS[attendee.responseStatus || ''] || ''}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </Section>
+
+              <Section title="Recent conversations" empty={brief.threads.length === 0}>
+                <div className="space-y-1">
+                  {brief.threads.map(thread => (
+                    <button
+                      key={`${thread.source}_${thread.id}`}
+                      onClick={() => open(thread.url)}
+                      className="w-full text-left px-2 py-1.5 rounded hover:bg-dark-bg transition-colors"
+                    >
+                      <div className="text-sm text-dark-text-primary line-clamp-2">
+                        {thread.source === 'email' ? '✉️' : '💬'} {thread.title}
+                      </div>
+                      <div className="text-xs text-dark-text-muted truncate">
+                        {thread.from} · {formatDistanceToNow(new Date(thread.date))} ago
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </Section>
+
+              <Section title="Their open Jira issues" empty={brief.issues.length === 0}>
+                <div className="space-y-1">
+                  {brief.issues.map(issue => (
+                    <button
+                      key={issue.key}
+                      onClick={() => open(issue.url)}
+                      className="w-full text-left px-2 py-1.5 rounded hover:bg-dark-bg transition-colors"
+                    >
+                      <div className="text-sm text-dark-text-primary truncate">
+                        <span className="text-dark-accent-primary">{issue.key}</span> {issue.summary}
+                      </div>
+                      <div className="text-xs text-dark-text-muted">{issue.status} · {issue.assignee}</div>
+                    </button>
+                  ))}
+                </div>
+              </Section>
+
+              <Section title="Linked docs" empty={brief.docs.length === 0}>
+                <div className="space-y-1">
+                  {brief.docs.map(doc => (
+                    <button
+                      key={doc.url}
+                      onClick={() => open(doc.url)}
+                      className="w-full text-left px-2 py-1 rounded text-sm text-dark-accent-primary hover:bg-dark-bg truncate"
+                      title={doc.url}
+                    >
+                      {doc.title}
+                    </button>
+                  ))}
+                </div>
+              </Section>
+
+              <Section title="Your open tasks" empty={brief.tasks.length === 0}>
+                <div className="space-y-1">
+                  {brief.tasks.map(task => (
+                    <div key={task.id} className="flex items-center justify-between gap-2 px-2 text-sm">
+                      <span className="text-dark-text-primary truncate">{task.title}</span>
+                      {task.dueDate && (
+                        <span className="text-xs text-dark-text-muted flex-shrink-0">
+                          Due {format(new Date(task.dueDate), 'MMM d')}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Section>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState, useEffect, useRef } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import type {
+  ActionItemTarget,
+  MeetingActionItem,
+  MeetingNoteDestination,
+  MeetingNotesEvent,
+  MeetingNotesExtraction,
+  MeetingNotesRecord,
+} from '../services/meeting-notes';
+
+interface MeetingNotesModalProps {
+  event: MeetingNotesEvent;
+  record?: MeetingNotesRecord;
+  onCaptured: (record: MeetingNotesRecord) => void;
+  onClose: () => void;
+}
+
+type Step = 'capture' | 'review' | 'done';
+
+const inputClass = `w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary placeholder-dark-text-muted
+                    focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+const TARGET_LABELS: Record<ActionItemTarget, string> = {
+  task: 'Task',
+  jira: 'Jira',
+  skip: 'Skip',
+};
+
+const DESTINATION_LABELS: Record<MeetingNoteDestination, string> = {
+  obsidian: 'Obsidian',
+  confluence: 'Confluence',
+  none: 'No note',
+};
+
+export default function MeetingNotesModal({ event, record, onCaptured, onClose }: MeetingNotesModalProps) {
+  const [step, setStep] = useState<Step>(record && !record.dismissed ? 'done' : 'capture');
+  const [notes, setNotes] = useState('');
+  const [extraction, setExtraction] = useState<MeetingNotesExtraction | null>(null);
+  const [targets, setTargets] = useState<Record<string, ActionItemTarget>>({});
+  const [destination, setDestination] = useState<MeetingNoteDestination>('none');
+  const [available, setAvailable] = useState<Record<MeetingNoteDestination | 'jira', boolean>>({
+    obsidian: false,
+    confluence: false,
+    jira: false,
+    none: true,
+  });
+  const [result, setResult] = useState<MeetingNotesRecord | null>(record && !record.dismissed ? record : null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+
+  useEffect(() => {
+    const loadDestinations = async () => {
+      const [settings, jira, confluence] = await Promise.all([
+        window.electronAPI.getUserSettings(),
+        window.electronAPI.jiraIsConfigured().catch(() => false),
+        window.electronAPI.confluenceIsConfigured().catch(() => false),
+      ]);
+      const obsidian = !!settings?.obsidianVaultPath;
+      setAvailable({ obsidian, confluence, jira, none: true });
+      setDestination(obsidian ? 'obsidian' : confluence ? 'confluence' : 'none');
+    };
+    loadDestinations();
+
+    return () => {
+      if (mediaRecorderRef.current?.state === 'recording') {
+        mediaRecorderRef.current.stop();
+      }
+    };
+  }, []);
+
+  // Dictation records until stopped, then appends the Whisper transcript to the notes
+  const toggleDictation = async () => {
+    if (isRecording) {
+      mediaRecorderRef.current?.stop();
+      return;
+    }
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const mediaRecorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      mediaRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) chunks.push(e.data);
+      };
+      mediaRecorder.onstop = async () => {
+        stream.getTracks().forEach(track => track.stop());
+        setIsRecording(false);
+        setIsTranscribing(true);
+        try {
+          const audioBlob = new Blob(chunks, { type: 'audio/webm' });
+          const transcription = await window.electronAPI.transcribeAudio(await audioBlob.arrayBuffer());
+          if (transcription.success && transcription.text) {
+            setNotes(prev => (prev ? `${prev}\n${transcription.text}` : transcription.text!));
+          } else {
+            setErrors([`Transcription failed: ${transcription.error}`]);
+          }
+        } finally {
+          setIsTranscribing(false);
+        }
+      };
+
+      mediaRecorderRef.current = mediaRecorder;
+      mediaRecorder.start();
+      setIsRecording(true);
+      setErrors([]);
+    } catch (error: any) {
+      console.error('[MeetingNotes] Error starting microphone:', error);
+      setErrors([
+        error.name === 'NotAllowedError'
+          ? 'Microphone access denied. Please allow microphone access in System Settings.'
+          : `Failed to start recording: ${error.message}`,
+      ]);
+    }
+  };
+
+  const handleExtract = async () => {
+    setIsWorking(true);
+    setErrors([]);
+    try {
+      const response = await window.electronAPI.extractMeetingNotes(event, notes);
+      if (response.success && response.extraction) {
+        setExtraction(response.extraction);
+        // Items the user owns default to tasks, everyone else's to Jira when it's connected
+        setTargets(Object.fromEntries(response.extraction.actionItems.map(item => {
+          const mine = !item.ownerEmail || event.attendees?.some(a => a.self && a.email === item.ownerEmail);
+          return [item.id, mine || !available.jira ? 'task' : 'jira'];
+        })));
+        setStep('review');
+      } else {
+        setErrors([response.error || 'Failed to extract action items']);
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!extraction) return;
+    setIsWorking(true);
+    setErrors([]);
+    try {
+      const response = await window.electronAPI.applyMeetingNotes({ event, notes, extraction, targets, destination });
+      setResult(response.record);
+      setErrors(response.errors);
+      onCaptured(response.record);
+      setStep('done');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const updateItem = (id: string, changes: Partial<MeetingActionItem>) => {
+    setExtraction(prev => prev && {
+      ...prev,
+      actionItems: prev.actionItems.map(item => item.id === id ? { ...item, ...changes } : item),
+    });
+  };
+
+  const open = (url?: string) => {
+    if (url) window.electronAPI.openExternal(url);
+  };
+
+  const createCount = extraction?.actionItems.filter(item => targets[item.id] !== 'skip').length || 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        className="bg-dark-surface border border-dark-border rounded-xl w-full max-w-lg max-h-[85vh] mx-4 flex flex-col animate-slide-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-dark-border flex items-center justify-between flex-shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-lg font-semibold text-dark-text-primary truncate">Notes: {event.title}</h2>
+            <p className="text-xs text-dark-text-muted">
+              {format(new Date(event.start), 'EEE h:mm a')} - {format(new Date(event.end), 'h:mm a')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-dark-text-muted hover:text-dark-text-primary transition-colors flex-shrink-0">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {errors.map(error => (
+            <div key={error} className="text-sm text-dark-accent-danger">{error}</div>
+          ))}
+
+          {step === 'capture' && (
+            <>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={isTranscribing ? 'Transcribing...' : 'Paste or dictate your notes from the meeting...'}
+                rows={12}
+                className={`${inputClass} resize-none`}
+                autoFocus
+              />
+              <button
+                onClick={toggleDictation}
+                disabled={isTranscribing}
+                className={`text-xs font-medium disabled:opacity-50 ${
+                  isRecording ? 'text-dark-accent-danger' : 'text-dark-accent-primary hover:underline'
+                }`}
+              >
+                {isRecording ? '● Stop dictation' : isTranscribing ? 'Transcribing...' : '🎙 Dictate notes'}
+              </button>
+            </>
+          )}
+
+          {step === 'review' && extraction && (
+            <>
+              {extraction.summary && <p className="text-sm text-dark-text-secondary">{extraction.summary}</p>}
+
+              {extraction.decisions.length > 0 && (
+                <div className="space-y-1.5">
+                  <h3 className="text-xs font-semibold text-dark-text-secondary uppercase tracking-wider">Decisions</h3>
+                  <ul className="space-y-1 text-sm text-dark-text-primary list-disc pl-5">
+                    {extraction.decisions.map(decision => <li key={decision}>{decision}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h3 className="text-xs font-semibold text-dark-text-secondary uppercase tracking-wider">
+                  Action items ({extraction.actionItems.length})
+                </h3>
+                {extraction.actionItems.length === 0 && (
+                  <div className="text-xs text-dark-text-muted">No action items found</div>
+                )}
+                {extraction.actionItems.map(item => (
+                  <div key={item.id} className="p-2 rounded-lg bg-dark-bg border border-dark-border space-y-1.5">
+                    <input
+                      value={item.title}
+                      onChange={(e) => updateItem(item.id, { title: e.target.value })}
+                      className="w-full bg-transparent text-sm text-dark-text-primary focus:outline-none"
+                    />
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-xs text-dark-text-muted truncate">
+                        {item.owner || 'No owner'}
+                        {item.dueDate && ` · due ${format(new Date(`${item.dueDate}T00:00:00`), 'MMM d')}`}
+                      </span>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {(['task', 'jira', 'skip'] as ActionItemTarget[]).map(target => (
+                          <button
+                            key={target}
+                            onClick={() => setTargets(prev => ({ ...prev, [item.id]: target }))}
+                            disabled={target === 'jira' && !available.jira}
+                            className={`px-2 py-0.5 rounded text-xs font-medium transition-colors disabled:opacity-40 ${
+                              targets[item.id] === target
+                                ? 'bg-dark-accent-primary text-dark-bg'
+                                : 'text-dark-text-secondary hover:bg-dark-border'
+                            }`}
+                          >
+                            {TARGET_LABELS[target]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-dark-text-secondary">Save meeting note to</span>
+                <select
+                  value={destination}
+                  onChange={(e) => setDestination(e.target.value as MeetingNoteDestination)}
+                  className="px-2 py-1 bg-dark-bg border border-dark-border rounded-lg text-xs text-dark-text-primary focus:outline-none"
+                >
+                  {(Object.keys(DESTINATION_LABELS) as MeetingNoteDestination[])
+                    .filter(option => available[option])
+                    .map(option => <option key={option} value={option}>{DESTINATION_LABELS[option]}</option>)}
+                </select>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <>
+              <p className="text-xs text-dark-text-muted">Captured {formatDistanceToNow(new Date(result.capturedAt))} ago</p>
+              {result.summary && <p className="text-sm text-dark-text-secondary">{result.summary}</p>}
+              {result.decisions && result.decisions.length > 0 && (
+                <ul className="space-y-1 text-sm text-dark-text-primary list-disc pl-5">
+                  {result.decisions.map(decision => <li key={decision}>{decision}</li>)}
+                </ul>
+              )}
+              <div className="space-y-1 text-sm">
+                {result.taskIds.length > 0 && (
+                  <div className="text-dark-text-primary">
+                    ✓ {result.taskIds.length} task{result.taskIds.length === 1 ? '' : 's'} added
+                  </div>
+                )}
+                {result.jiraIssues.map(issue => (
+                  <button
+                    key={issue.key}
+                    onClick={() => open(issue.url)}
+                    className="block w-full text-left truncate text-dark-text-primary hover:underline"
+                  >
+                    <span className="text-dark-accent-primary">{issue.key}</span> {issue.title}
+                  </button>
+                ))}
+                {result.note && (
+                  <button onClick={() => open(result.note!.url)} className="block text-dark-accent-primary hover:underline">
+                    Open note in {DESTINATION_LABELS[result.note.destination]}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-dark-border flex justify-end gap-2 flex-shrink-0">
+          {step === 'capture' && (
+            <button
+              onClick={handleExtract}
+              disabled={!notes.trim() || isWorking || isRecording || isTranscribing}
+              className="btn-primary btn-sm disabled:opacity-50"
+            >
+              {isWorking ? 'Extracting...' : 'Extract action items'}
+            </button>
+          )}
+          {step === 'review' && (
+            <>
+              <button
+                onClick={() => setStep('capture')}
+                disabled={isWorking}
+                className="px-3 py-1.5 text-xs text-dark-text-secondary hover:text-dark-text-primary"
+              >
+                Back
+              </button>
+              <button onClick={handleCreate} disabled={isWorking} className="btn-primary btn-sm disabled:opacity-50">
+                {isWorking ? 'Creating...' : `Create ${createCount} item${createCount === 1 ? '' : 's'}${destination !== 'none' ? ' and note' : ''}`}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              <button
+                onClick={() => {
+                  setStep('capture');
+                  setErrors([]);
+                }}
+                className="px-3 py-1.5 text-xs text-dark-text-secondary hover:text-dark-text-primary"
+              >
+                Capture again
+              </button>
+              <button onClick={onClose} className="btn-primary btn-sm">Done</button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
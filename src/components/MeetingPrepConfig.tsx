@@ -0,0 +1,71 @@
+import { normalizeMeetingPrepSettings, type MeetingPrepSettings } from '../services/meeting-brief';
+
+interface MeetingPrepConfigProps {
+  settings?: Partial<MeetingPrepSettings>;
+  onChange: (settings: MeetingPrepSettings) => void;
+}
+
+const inputClass = `px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+function Toggle({ enabled, onToggle }: { enabled: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+        enabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+      }`}
+    >
+      <span
+        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+          enabled ? 'translate-x-6' : 'translate-x-1'
+        }`}
+      />
+    </button>
+  );
+}
+
+export default function MeetingPrepConfig({ settings: savedSettings, onChange }: MeetingPrepConfigProps) {
+  const settings = normalizeMeetingPrepSettings(savedSettings);
+
+  const update = (changes: Partial<MeetingPrepSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-medium text-dark-text-primary">Meeting Prep Briefs</h3>
+          <p className="text-xs text-dark-text-muted mt-1">
+            Before each meeting, gather attendees, recent conversations with them, their open Jira issues,
+            linked docs and your related tasks
+          </p>
+        </div>
+        <Toggle enabled={settings.enabled} onToggle={() => update({ enabled: !settings.enabled })} />
+      </div>
+      {settings.enabled && (
+        <>
+          <div className="flex items-center gap-2 text-xs text-dark-text-secondary">
+            <span>Prepare</span>
+            <input
+              type="number"
+              min={5}
+              value={settings.leadMinutes}
+              onChange={(e) => {
+                const minutes = parseInt(e.target.value, 10);
+                if (!isNaN(minutes) && minutes >= 5) update({ leadMinutes: minutes });
+              }}
+              className={`w-20 ${inputClass}`}
+            />
+            <span>minutes before the meeting</span>
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-dark-text-secondary">Also send the brief to me as a Slack DM</span>
+            <Toggle enabled={settings.slackDm} onToggle={() => update({ slackDm: !settings.slackDm })} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
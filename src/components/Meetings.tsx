@@ -3,9 +3,14 @@ import { format, parseISO, addDays, subDays, isToday, isTomorrow, isYesterday }
 import PendingRSVPCard from './PendingRSVPCard';
 import CreateEventModal from './CreateEventModal';
 import MeetingInput from './MeetingInput';
+import MeetingBriefModal from './MeetingBriefModal';
+import MeetingNotesModal from './MeetingNotesModal';
+import type { MeetingBrief } from '../services/meeting-brief';
+import type { MeetingNotesRecord } from '../services/meeting-notes';
 
 interface Attendee {
   email: string;
+  displayName?: string;
   responseStatus?: string;
   self?: boolean;
 }
@@ -24,6 +29,9 @@ interface CalendarEvent {
   colorId?: string;
 }
 
+// How long after a meeting ends to keep prompting for notes
+const NOTES_PROMPT_WINDOW_MS = 2 * 60 * 60 * 1000;
+
 interface MeetingsProps {
   isPinned: boolean;
   onNextMeetingChange?: (time: string | null) => void;
@@ -41,6 +49,12 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
   const [showCreateEventModal, setShowCreateEventModal] = useState(false);
   const [initialMeetingTitle, setInitialMeetingTitle] = useState<string | undefined>(undefined);
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const [briefs, setBriefs] = useState<Record<string, MeetingBrief>>({});
+  const [briefEvent, setBriefEvent] = useState<CalendarEvent | null>(null);
+  const [isGeneratingBrief, setIsGeneratingBrief] = useState(false);
+  const [briefError, setBriefError] = useState<string | null>(null);
+  const [meetingNotes, setMeetingNotes] = useState<Record<string, MeetingNotesRecord>>({});
+  const [notesEvent, setNotesEvent] = useState<CalendarEvent | null>(null);
   const timelineContainerRef = useRef<HTMLDivElement>(null);
 
   const handleCreateMeeting = (title: string) => {
@@ -77,8 +91,13 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
 
     window.electronAPI.onOAuthSuccess?.(handleOAuthSuccess);
 
+    // Briefs prepared in the background shortly before each meeting
+    const unsubscribeBriefs = window.electronAPI.onMeetingBriefReady(brief => {
+      setBriefs(prev => ({ ...prev, [brief.eventId]: brief }));
+    });
+
     return () => {
-      // Cleanup if needed
+      unsubscribeBriefs();
     };
   }, []);
 
@@ -236,6 +255,8 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
       }
 
       setEvents(todaysEvents);
+      setBriefs(await window.electronAPI.getMeetingBriefs());
+      setMeetingNotes(await window.electronAPI.getMeetingNotes());
       setIsLoading(false);
     } catch (error) {
       console.error('Failed to load calendar events:', error);
@@ -413,6 +434,54 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
     }
   };
 
+  const hasOtherAttendees = (event: CalendarEvent) =>
+    (event.attendees || []).some(a => !a.self && !a.email.endsWith('resource.calendar.google.com'));
+
+  const generateBrief = async (event: CalendarEvent) => {
+    setIsGeneratingBrief(true);
+    setBriefError(null);
+    try {
+      const result = await window.electronAPI.generateMeetingBrief(event);
+      if (result.success && result.brief) {
+        setBriefs(prev => ({ ...prev, [event.id]: result.brief! }));
+      } else {
+        setBriefError(result.error || 'Failed to prepare brief');
+      }
+    } finally {
+      setIsGeneratingBrief(false);
+    }
+  };
+
+  const handleOpenBrief = (event: CalendarEvent, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setBriefEvent(event);
+    setBriefError(null);
+    if (!briefs[event.id]) {
+      generateBrief(event);
+    }
+  };
+
+  const handleOpenNotes = (event: CalendarEvent, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setNotesEvent(event);
+  };
+
+  const handleDismissNotesPrompt = async (event: CalendarEvent) => {
+    await window.electronAPI.dismissMeetingNotes(event.id, event.title);
+    setMeetingNotes(await window.electronAPI.getMeetingNotes());
+  };
+
+  // The most recent meeting with other people that just ended and has no notes yet
+  const justEndedMeeting = isToday(selectedDate)
+    ? events
+        .filter(event => {
+          if (!event.start.includes('T') || isDeclined(event) || !hasOtherAttendees(event)) return false;
+          const sinceEnd = currentTime.getTime() - parseISO(event.end).getTime();
+          return sinceEnd >= 0 && sinceEnd <= NOTES_PROMPT_WINDOW_MS && !meetingNotes[event.id];
+        })
+        .sort((a, b) => parseISO(b.end).getTime() - parseISO(a.end).getTime())[0]
+    : undefined;
+
   const handleRSVP = async (eventId: string, status: 'accepted' | 'declined' | 'tentative') => {
     try {
       const result = await window.electronAPI.calendarUpdateRSVP(eventId, status);
@@ -661,8 +730,31 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
           </div>
         )}
 
+        {/* End-of-meeting notes prompt */}
+        {justEndedMeeting && (
+          <div className={`mx-4 mb-4 px-3 py-2 rounded-lg bg-dark-surface border border-dark-border flex items-center gap-2 ${
+            pendingRSVPs.length === 0 ? 'mt-4' : ''
+          }`}>
+            <span className="text-xs text-dark-text-secondary truncate flex-1">
+              <span className="text-dark-text-primary font-medium">{justEndedMeeting.title}</span> just ended
+            </span>
+            <button
+              onClick={() => setNotesEvent(justEndedMeeting)}
+              className="px-2 py-1 bg-dark-accent-primary text-dark-bg rounded text-xs font-medium hover:bg-dark-accent-primary/90 flex-shrink-0"
+            >
+              Capture notes
+            </button>
+            <button
+              onClick={() => handleDismissNotesPrompt(justEndedMeeting)}
+              className="text-xs text-dark-text-muted hover:text-dark-text-primary flex-shrink-0"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
         {/* Meeting Input */}
-        <div className={`px-4 mb-4 ${pendingRSVPs.length === 0 ? 'pt-4' : ''}`}>
+        <div className={`px-4 mb-4 ${pendingRSVPs.length === 0 && !justEndedMeeting ? 'pt-4' : ''}`}>
           <MeetingInput onCreateMeeting={handleCreateMeeting} isActive={isActive} />
         </div>
 
@@ -902,6 +994,12 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
                     <div className="text-xs font-medium text-dark-text-primary truncate flex-1">
                       {event.title}
                     </div>
+                    {briefs[event.id] && (
+                      <span className="text-xs flex-shrink-0" title="Prep brief ready">📋</span>
+                    )}
+                    {meetingNotes[event.id] && !meetingNotes[event.id].dismissed && (
+                      <span className="text-xs flex-shrink-0" title="Notes captured">📝</span>
+                    )}
                     {isDeclined(event) && (
                       <div className="text-xs text-purple-400 font-semibold whitespace-nowrap">
                         DECLINED
@@ -923,6 +1021,25 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
                   >
                     Open Event
                   </button>
+                  {hasOtherAttendees(event) && (
+                    endTime <= currentTime ? (
+                      <button
+                        onClick={(e) => handleOpenNotes(event, e)}
+                        className="flex-1 px-2 py-1.5 bg-dark-bg text-dark-text-primary border border-dark-border rounded-lg text-xs font-medium
+                                 hover:bg-dark-border transition-colors"
+                      >
+                        Notes
+                      </button>
+                    ) : (
+                      <button
+                        onClick={(e) => handleOpenBrief(event, e)}
+                        className="flex-1 px-2 py-1.5 bg-dark-bg text-dark-text-primary border border-dark-border rounded-lg text-xs font-medium
+                                 hover:bg-dark-border transition-colors"
+                      >
+                        Prep
+                      </button>
+                    )
+                  )}
                   {meetingLink && (
                     <button
                       onClick={(e) => handleLaunchMeeting(event, e)}
@@ -940,6 +1057,28 @@ export default function Meetings({ isPinned, onNextMeetingChange, isActive }: Me
         </div>
       </div>
 
+      {/* Meeting Prep Brief */}
+      {briefEvent && (
+        <MeetingBriefModal
+          eventTitle={briefEvent.title}
+          brief={briefs[briefEvent.id] || null}
+          isGenerating={isGeneratingBrief}
+          error={briefError}
+          onRefresh={() => generateBrief(briefEvent)}
+          onClose={() => setBriefEvent(null)}
+        />
+      )}
+
+      {/* Post-meeting notes */}
+      {notesEvent && (
+        <MeetingNotesModal
+          event={notesEvent}
+          record={meetingNotes[notesEvent.id]}
+          onCaptured={(record) => setMeetingNotes(prev => ({ ...prev, [record.eventId]: record }))}
+          onClose={() => setNotesEvent(null)}
+        />
+      )}
+
       {/* Create Event Modal */}
       {showCreateEventModal && (
         <CreateEventModal
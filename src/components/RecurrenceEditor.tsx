@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import type { RecurrenceFrequency, TaskRecurrence } from '../types/task';
+import { describeRecurrence, parseRRule, toRRule } from '../utils/recurrence';
+
+interface RecurrenceEditorProps {
+  value?: TaskRecurrence;
+  onChange: (value: TaskRecurrence | undefined) => void;
+}
+
+type RepeatMode = 'none' | RecurrenceFrequency | 'custom';
+type EndMode = 'never' | 'until' | 'count';
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const inputClass = `px-2 py-1 bg-dark-surface border border-dark-border rounded text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-1 focus:ring-dark-accent-primary`;
+
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const [mode, setMode] = useState<RepeatMode>(
+    !value ? 'none' : value.rrule ? 'custom' : value.frequency
+  );
+  const [customRule, setCustomRule] = useState(value?.rrule || (value ? toRRule(value) : ''));
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const endMode: EndMode = value?.until ? 'until' : value?.count ? 'count' : 'never';
+
+  const update = (changes: Partial<TaskRecurrence>) => {
+    if (!value) return;
+    const { rrule: _rrule, ...rest } = value;
+    onChange({ ...rest, ...changes });
+  };
+
+  const handleModeChange = (newMode: RepeatMode) => {
+    setMode(newMode);
+    setCustomError(null);
+
+    if (newMode === 'none') {
+      onChange(undefined);
+    } else if (newMode === 'custom') {
+      setCustomRule(value ? toRRule(value) : 'FREQ=WEEKLY;INTERVAL=1');
+    } else {
+      onChange({
+        frequency: newMode,
+        interval: value?.interval || 1,
+        until: value?.until,
+        count: value?.count,
+        ...(newMode === 'weekly' && { byWeekday: [new Date().getDay()] }),
+      });
+    }
+  };
+
+  const handleCustomRuleBlur = () => {
+    const parsed = parseRRule(customRule);
+    if (!parsed) {
+      setCustomError('Unsupported rule. Example: FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+      return;
+    }
+    setCustomError(null);
+    onChange(parsed);
+  };
+
+  const handleEndModeChange = (newEndMode: EndMode) => {
+    if (newEndMode === 'never') {
+      update({ until: undefined, count: undefined });
+    } else if (newEndMode === 'until') {
+      update({ until: new Date().toISOString().split('T')[0], count: undefined });
+    } else {
+      update({ until: undefined, count: 5 });
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    const current = value?.byWeekday || [];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    // A weekly rule needs at least one day
+    if (next.length > 0) {
+      update({ byWeekday: next.sort() });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value as RepeatMode)}
+        className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg
+                 text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+      >
+        <option value="none">Does not repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+        <option value="yearly">Yearly</option>
+        <option value="custom">Custom (RRULE)</option>
+      </select>
+
+      {mode === 'custom' && (
+        <div>
+          <input
+            type="text"
+            value={customRule}
+            onChange={(e) => setCustomRule(e.target.value)}
+            onBlur={handleCustomRuleBlur}
+            className={`w-full font-mono ${inputClass}`}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10"
+          />
+          {customError && (
+            <p className="mt-1 text-xs text-dark-accent-danger">{customError}</p>
+          )}
+        </div>
+      )}
+
+      {value && mode !== 'none' && mode !== 'custom' && (
+        <div className="p-2 bg-dark-bg rounded-lg border border-dark-border space-y-2">
+          <div className="flex items-center gap-2 text-sm text-dark-text-secondary">
+            <span>Every</span>
+            <input
+              type="number"
+              min={1}
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`w-16 ${inputClass}`}
+            />
+            <span>
+              {{ daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)', yearly: 'year(s)' }[value.frequency]}
+            </span>
+          </div>
+
+          {value.frequency === 'weekly' && (
+            <div className="flex items-center gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={day}
+                  onClick={() => toggleWeekday(day)}
+                  className={`w-7 h-7 rounded-full text-xs font-medium transition-colors ${
+                    value.byWeekday?.includes(day)
+                      ? 'bg-dark-accent-primary text-white'
+                      : 'bg-dark-surface text-dark-text-secondary hover:text-dark-text-primary'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {value.frequency === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm text-dark-text-secondary">
+              <span>On day</span>
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={value.byMonthDay || ''}
+                placeholder="same"
+                onChange={(e) => {
+                  const day = parseInt(e.target.value, 10);
+                  update({ byMonthDay: day >= 1 && day <= 31 ? day : undefined });
+                }}
+                className={`w-16 ${inputClass}`}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2 text-sm text-dark-text-secondary">
+            <span>Ends</span>
+            <select
+              value={endMode}
+              onChange={(e) => handleEndModeChange(e.target.value as EndMode)}
+              className={inputClass}
+            >
+              <option value="never">Never</option>
+              <option value="until">On date</option>
+              <option value="count">After</option>
+            </select>
+            {endMode === 'until' && (
+              <input
+                type="date"
+                value={value.until || ''}
+                onChange={(e) => update({ until: e.target.value || undefined })}
+                className={`cursor-pointer [color-scheme:dark] ${inputClass}`}
+              />
+            )}
+            {endMode === 'count' && (
+              <>
+                <input
+                  type="number"
+                  min={1}
+                  value={value.count || 1}
+                  onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className={`w-16 ${inputClass}`}
+                />
+                <span>times</span>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {value && (
+        <p className="text-xs text-dark-text-muted">{describeRecurrence(value)}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { normalizeSchedulingSettings, type SchedulingSettings } from '../services/availability';
+import { WEEKDAY_LABELS } from '../services/digest-schedule';
+
+interface SchedulingConfigProps {
+  settings?: Partial<SchedulingSettings>;
+  onChange: (settings: SchedulingSettings) => void;
+}
+
+const inputClass = `px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary [color-scheme:dark]`;
+
+function Toggle({ enabled, onToggle }: { enabled: boolean; onToggle: () => void }) {
+  return (
+    <button
+      onClick={onToggle}
+      className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+        enabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+      }`}
+    >
+      <span
+        className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+          enabled ? 'translate-x-6' : 'translate-x-1'
+        }`}
+      />
+    </button>
+  );
+}
+
+export default function SchedulingConfig({ settings: savedSettings, onChange }: SchedulingConfigProps) {
+  const settings = normalizeSchedulingSettings(savedSettings);
+  const [isBlocking, setIsBlocking] = useState(false);
+  const [blockResult, setBlockResult] = useState<string | null>(null);
+
+  const update = (changes: Partial<SchedulingSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const updateFocusTime = (changes: Partial<SchedulingSettings['focusTime']>) => {
+    update({ focusTime: { ...settings.focusTime, ...changes } });
+  };
+
+  const toggleDay = (day: number) => {
+    const workDays = settings.workDays.includes(day)
+      ? settings.workDays.filter(d => d !== day)
+      : [...settings.workDays, day].sort();
+    update({ workDays });
+  };
+
+  const handleBlockNow = async () => {
+    setIsBlocking(true);
+    setBlockResult(null);
+    try {
+      const result = await window.electronAPI.focusTimeBlockNow();
+      setBlockResult(result.success
+        ? result.blocked ? `Blocked focus time for ${result.blocked} task${result.blocked === 1 ? '' : 's'}` : 'Nothing new to block'
+        : result.error || 'Failed to block focus time');
+    } finally {
+      setIsBlocking(false);
+    }
+  };
+
+  return (
+    <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+      <div>
+        <h3 className="text-sm font-medium text-dark-text-primary">Working Hours</h3>
+        <p className="text-xs text-dark-text-muted mt-1">
+          Used when suggesting meeting times and booking focus time
+        </p>
+      </div>
+      <div className="flex items-center gap-2 text-xs text-dark-text-secondary">
+        <input
+          type="time"
+          value={settings.workdayStart}
+          onChange={(e) => e.target.value && update({ workdayStart: e.target.value })}
+          className={inputClass}
+        />
+        <span>to</span>
+        <input
+          type="time"
+          value={settings.workdayEnd}
+          onChange={(e) => e.target.value && update({ workdayEnd: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div className="flex gap-1">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <button
+            key={label}
+            onClick={() => toggleDay(day)}
+            className={`px-2 py-1 rounded text-xs font-medium transition-colors ${
+              settings.workDays.includes(day)
+                ? 'bg-dark-accent-primary text-dark-bg'
+                : 'text-dark-text-secondary hover:bg-dark-border'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-xs text-dark-text-secondary">
+          Only suggest meeting times inside working hours in both the primary and secondary timezone
+        </span>
+        <Toggle
+          enabled={settings.useSecondaryTimezone}
+          onToggle={() => update({ useSecondaryTimezone: !settings.useSecondaryTimezone })}
+        />
+      </div>
+
+      <div className="pt-3 border-t border-dark-border space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-dark-text-primary">Auto-block Focus Time</h3>
+            <p className="text-xs text-dark-text-muted mt-1">
+              Book time on your calendar for high-priority tasks before their deadline
+            </p>
+          </div>
+          <Toggle
+            enabled={settings.focusTime.enabled}
+            onToggle={() => updateFocusTime({ enabled: !settings.focusTime.enabled })}
+          />
+        </div>
+        {settings.focusTime.enabled && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-dark-text-secondary">
+              <span>Block</span>
+              <input
+                type="number"
+                min={15}
+                step={15}
+                value={settings.focusTime.blockMinutes}
+                onChange={(e) => {
+                  const minutes = parseInt(e.target.value, 10);
+                  if (!isNaN(minutes) && minutes >= 15) updateFocusTime({ blockMinutes: minutes });
+                }}
+                className={`w-20 ${inputClass}`}
+              />
+              <span>minutes for tasks due within</span>
+              <input
+                type="number"
+                min={1}
+                value={settings.focusTime.lookaheadDays}
+                onChange={(e) => {
+                  const days = parseInt(e.target.value, 10);
+                  if (!isNaN(days) && days >= 1) updateFocusTime({ lookaheadDays: days });
+                }}
+                className={`w-20 ${inputClass}`}
+              />
+              <span>days</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <button onClick={handleBlockNow} disabled={isBlocking} className="btn-primary btn-sm disabled:opacity-50">
+                {isBlocking ? 'Booking...' : 'Block now'}
+              </button>
+              {blockResult && <span className="text-xs text-dark-text-muted">{blockResult}</span>}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
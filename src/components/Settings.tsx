@@ -1,7 +1,19 @@
 import { useState, useEffect } from 'react';
 import SlackChannelsConfig from './SlackChannelsConfig';
 import SlackDailyDigestConfig from './SlackDailyDigestConfig';
+import SuggestionScoringConfig from './SuggestionScoringConfig';
+import FollowUpConfig from './FollowUpConfig';
+import MeetingPrepConfig from './MeetingPrepConfig';
+import SchedulingConfig from './SchedulingConfig';
+import LLMSettingsConfig from './LLMSettingsConfig';
+import LocalApiConfig from './LocalApiConfig';
 import TabPanel from './TabPanel';
+import type { ScoringRules } from '../services/suggestion-scoring';
+import type { FollowUpSettings } from '../services/follow-ups';
+import type { MeetingPrepSettings } from '../services/meeting-brief';
+import type { SchedulingSettings } from '../services/availability';
+import type { LLMSettings } from '../services/llm-config';
+import type { DigestDelivery, DigestSchedule } from '../services/digest-schedule';
 
 interface SettingsProps {
   onClose: () => void;
@@ -24,6 +36,12 @@ interface UserSettings {
   jiraDefaultPillar?: string;
   jiraDefaultPod?: string;
   jiraSystemPrompt?: string;
+  jiraSyncEnabled?: boolean; // Two-way sync of title, status and priority for Jira-linked tasks
+  jiraSyncIntervalMinutes?: number;
+  jiraDoneTransition?: string;
+  jiraReopenTransition?: string;
+  jiraImportEnabled?: boolean; // Import issues assigned to me as tasks
+  jiraImportJql?: string; // Extra JQL filter for imported issues
 
   // Confluence Settings
   confluenceDefaultSpace?: string;
@@ -38,13 +56,21 @@ interface UserSettings {
   slackBotToken?: string;
   slackMonitoredChannels?: string[]; // Channel IDs to monitor
   slackVipContacts?: string[]; // User IDs marked as VIPs
-  slackDailyDigestEnabled?: boolean; // 3x daily at 9AM, 12PM, 5PM in user's timezone
+  slackDailyDigestEnabled?: boolean;
+  slackDigestSchedule?: DigestSchedule; // Delivery times per weekday in the primary timezone
+  slackDigestDelivery?: DigestDelivery; // Slack DM, email or both
+  localApiAllowedOrigins?: string[]; // Extra browser origins allowed to call the local API
 
   // Customization Settings
   showDeclinedMeetings?: boolean;
+  meetingPrep?: MeetingPrepSettings; // Pre-meeting briefs in the Meetings tab and optionally Slack
   primaryTimezone?: string;
   secondaryTimezone?: string;
+  scheduling?: SchedulingSettings; // Working hours for suggested meeting times and focus-time blocks
   zoomPersonalMeetingLink?: string;
+  suggestionScoring?: ScoringRules; // Rules for ranking Smart Suggestions
+  followUps?: FollowUpSettings; // When to suggest nudging people who haven't replied
+  llm?: LLMSettings; // Provider and model for each AI workload
 
   // Strategize Settings
   strategizeFolderPath?: string;
@@ -1106,6 +1132,145 @@ export default function Settings({ onClose, isPinned, onTogglePin }: SettingsPro
                             </p>
                           </div>
 
+                          <div className="border border-dark-border rounded-lg p-3 bg-dark-bg/40 space-y-3">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h4 className="text-sm font-medium text-dark-text-primary">Import Assigned Issues</h4>
+                                <p className="text-xs text-dark-text-muted mt-1">
+                                  Add issues assigned to you as tasks. Tasks are completed when the issue is resolved
+                                  and removed when it is unassigned.
+                                </p>
+                              </div>
+                              <button
+                                onClick={() => handleChange('jiraImportEnabled', !settings.jiraImportEnabled)}
+                                className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                                  settings.jiraImportEnabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+                                }`}
+                              >
+                                <span
+                                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                    settings.jiraImportEnabled ? 'translate-x-6' : 'translate-x-1'
+                                  }`}
+                                />
+                              </button>
+                            </div>
+
+                            {settings.jiraImportEnabled && (
+                              <>
+                                <div>
+                                  <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+                                    JQL Filter
+                                  </label>
+                                  <textarea
+                                    value={settings.jiraImportJql ?? 'statusCategory != Done'}
+                                    onChange={(e) => handleChange('jiraImportJql', e.target.value)}
+                                    rows={2}
+                                    className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg font-mono text-xs
+                                       text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                                    placeholder="project = AMP AND statusCategory != Done"
+                                  />
+                                  <p className="text-xs text-dark-text-muted mt-1">
+                                    Combined with <code>assignee = currentUser()</code>. Runs on the sync interval.
+                                  </p>
+                                </div>
+
+                                <button
+                                  onClick={async () => {
+                                    const result = await window.electronAPI.jiraImportNow();
+                                    if (!result.success) alert(`Jira import failed: ${result.error}`);
+                                  }}
+                                  className="btn-primary btn-sm"
+                                >
+                                  Import now
+                                </button>
+                              </>
+                            )}
+                          </div>
+
+                          <div className="border border-dark-border rounded-lg p-3 bg-dark-bg/40 space-y-3">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h4 className="text-sm font-medium text-dark-text-primary">Two-way Task Sync</h4>
+                                <p className="text-xs text-dark-text-muted mt-1">
+                                  Keep title, status and priority of Jira-linked tasks in sync with their issues
+                                </p>
+                              </div>
+                              <button
+                                onClick={() => handleChange('jiraSyncEnabled', !settings.jiraSyncEnabled)}
+                                className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                                  settings.jiraSyncEnabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+                                }`}
+                              >
+                                <span
+                                  className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                                    settings.jiraSyncEnabled ? 'translate-x-6' : 'translate-x-1'
+                                  }`}
+                                />
+                              </button>
+                            </div>
+
+                            {settings.jiraSyncEnabled && (
+                              <>
+                                <div>
+                                  <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+                                    Sync Interval (minutes)
+                                  </label>
+                                  <input
+                                    type="number"
+                                    min={1}
+                                    value={settings.jiraSyncIntervalMinutes ?? 10}
+                                    onChange={(e) => handleChange('jiraSyncIntervalMinutes', Math.max(1, parseInt(e.target.value) || 1))}
+                                    className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg
+                                       text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                                  />
+                                </div>
+
+                                <div className="grid grid-cols-2 gap-3">
+                                  <div>
+                                    <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+                                      Done Transition
+                                    </label>
+                                    <input
+                                      type="text"
+                                      value={settings.jiraDoneTransition || ''}
+                                      onChange={(e) => handleChange('jiraDoneTransition', e.target.value)}
+                                      className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg
+                                       text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                                      placeholder="Done"
+                                    />
+                                  </div>
+                                  <div>
+                                    <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+                                      Reopen Transition
+                                    </label>
+                                    <input
+                                      type="text"
+                                      value={settings.jiraReopenTransition || ''}
+                                      onChange={(e) => handleChange('jiraReopenTransition', e.target.value)}
+                                      className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg
+                                       text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                                      placeholder="To Do"
+                                    />
+                                  </div>
+                                </div>
+                                <p className="text-xs text-dark-text-muted">
+                                  Workflow transition (or target status) used when a task is completed or reopened.
+                                  Fields changed on both sides are flagged as conflicts on the task.
+                                </p>
+
+                                <button
+                                  onClick={async () => {
+                                    const result = await window.electronAPI.jiraSyncNow();
+                                    if (!result.success) alert(`Jira sync failed: ${result.error}`);
+                                  }}
+                                  className="btn-primary btn-sm"
+                                >
+                                  Sync now
+                                </button>
+                              </>
+                            )}
+                          </div>
+
                           <div>
                             <label className="block text-sm font-medium text-dark-text-secondary mb-2">
                               Default Pillar
@@ -1332,6 +1497,13 @@ export default function Settings({ onClose, isPinned, onTogglePin }: SettingsPro
 
               </div>
 
+              <div className="pt-6 border-t border-dark-border">
+                <LocalApiConfig
+                  allowedOrigins={settings.localApiAllowedOrigins}
+                  onAllowedOriginsChange={(origins) => handleChange('localApiAllowedOrigins', origins)}
+                />
+              </div>
+
               <div className="pt-4 border-t border-dark-border">
                 <p className="text-xs text-dark-text-muted">
                   Your credentials are stored securely on your device and never sent to external servers.
@@ -1374,6 +1546,11 @@ export default function Settings({ onClose, isPinned, onTogglePin }: SettingsPro
                 </div>
               </div>
 
+              <MeetingPrepConfig
+                settings={settings.meetingPrep}
+                onChange={(meetingPrep) => handleChange('meetingPrep', meetingPrep)}
+              />
+
               <div className="space-y-4 pt-6 border-t border-dark-border">
                 <h3 className="text-base font-semibold text-dark-text-primary">Timezone Settings</h3>
 
@@ -1478,8 +1655,28 @@ export default function Settings({ onClose, isPinned, onTogglePin }: SettingsPro
                     Timezone shown on hover in the Meetings tab
                   </p>
                 </div>
+
+                <SchedulingConfig
+                  settings={settings.scheduling}
+                  onChange={(scheduling) => handleChange('scheduling', scheduling)}
+                />
               </div>
 
+              <SuggestionScoringConfig
+                rules={settings.suggestionScoring}
+                onChange={(rules) => handleChange('suggestionScoring', rules)}
+              />
+
+              <FollowUpConfig
+                settings={settings.followUps}
+                onChange={(followUps) => handleChange('followUps', followUps)}
+              />
+
+              <LLMSettingsConfig
+                settings={settings.llm}
+                onChange={(llm) => handleChange('llm', llm)}
+              />
+
               <div className="space-y-4 pt-6 border-t border-dark-border">
                 <h3 className="text-base font-semibold text-dark-text-primary">Video Meetings</h3>
                 <div className="bg-dark-bg border border-dark-border rounded-lg p-4">
@@ -1,4 +1,20 @@
 import { useState, useEffect } from 'react';
+import {
+  normalizeDigestSchedule,
+  getNextDigestOccurrence,
+  WEEKDAY_LABELS,
+  DEFAULT_DIGEST_DELIVERY,
+  type DigestDelivery,
+  type DigestSchedule,
+  type DigestSlot,
+} from '../services/digest-schedule';
+import DigestHistoryView from './DigestHistoryView';
+
+const DELIVERY_OPTIONS: { value: DigestDelivery; label: string }[] = [
+  { value: 'slack', label: 'Slack DM' },
+  { value: 'email', label: 'Email' },
+  { value: 'both', label: 'Both' },
+];
 
 interface SlackUser {
   id: string;
@@ -14,6 +30,11 @@ export default function SlackDailyDigestConfig() {
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [schedule, setSchedule] = useState<DigestSchedule>(normalizeDigestSchedule());
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [newSkipDate, setNewSkipDate] = useState('');
+  const [delivery, setDelivery] = useState<DigestDelivery>(DEFAULT_DIGEST_DELIVERY);
+  const [isGoogleConnected, setIsGoogleConnected] = useState(false);
 
   useEffect(() => {
     loadUsersAndSettings();
@@ -26,6 +47,13 @@ export default function SlackDailyDigestConfig() {
       const userSettings = await window.electronAPI.getUserSettings();
       setVipContacts(userSettings.slackVipContacts || []);
       setDigestEnabled(userSettings.slackDailyDigestEnabled || false);
+      setSchedule(normalizeDigestSchedule(userSettings.slackDigestSchedule));
+      setDelivery(userSettings.slackDigestDelivery || DEFAULT_DIGEST_DELIVERY);
+      const googleTokens = await window.electronAPI.getOAuthTokens('google');
+      setIsGoogleConnected(!!googleTokens?.accessToken);
+      if (userSettings.primaryTimezone) {
+        setTimezone(userSettings.primaryTimezone);
+      }
 
       // Load Slack users
       const slackUsers = await window.electronAPI.getSlackUsers();
@@ -45,6 +73,37 @@ export default function SlackDailyDigestConfig() {
     );
   };
 
+  const updateSlot = (id: string, changes: Partial<DigestSlot>) => {
+    setSchedule(prev => ({
+      ...prev,
+      slots: prev.slots.map(slot => slot.id === id ? { ...slot, ...changes } : slot),
+    }));
+  };
+
+  const handleToggleDay = (slot: DigestSlot, day: number) => {
+    const days = slot.days.includes(day)
+      ? slot.days.filter(d => d !== day)
+      : [...slot.days, day].sort();
+    updateSlot(slot.id, { days });
+  };
+
+  const handleAddSlot = () => {
+    setSchedule(prev => ({
+      ...prev,
+      slots: [...prev.slots, { id: `slot_${Date.now()}`, time: '15:00', days: [1, 2, 3, 4, 5] }],
+    }));
+  };
+
+  const handleRemoveSlot = (id: string) => {
+    setSchedule(prev => ({ ...prev, slots: prev.slots.filter(slot => slot.id !== id) }));
+  };
+
+  const handleAddSkipDate = () => {
+    if (!newSkipDate || schedule.skipDates.includes(newSkipDate)) return;
+    setSchedule(prev => ({ ...prev, skipDates: [...prev.skipDates, newSkipDate].sort() }));
+    setNewSkipDate('');
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
@@ -53,6 +112,8 @@ export default function SlackDailyDigestConfig() {
         ...userSettings,
         slackVipContacts: vipContacts,
         slackDailyDigestEnabled: digestEnabled,
+        slackDigestSchedule: schedule,
+        slackDigestDelivery: delivery,
       });
     } catch (error) {
       console.error('Failed to save digest settings:', error);
@@ -73,6 +134,8 @@ export default function SlackDailyDigestConfig() {
     );
   }
 
+  const nextDigest = getNextDigestOccurrence(schedule, timezone);
+
   // Filter users based on search query
   const filteredUsers = users.filter(user =>
     user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -86,7 +149,7 @@ export default function SlackDailyDigestConfig() {
           📬 Smart Inbox Digest
         </h4>
         <p className="text-sm text-dark-text-secondary mb-4">
-          Get Slack DMs 3x per day (9AM, 12PM, 5PM) with "Things you might have missed" - actionable items from your monitored channels that haven't been completed yet.
+          Get a Slack DM or email on your own schedule with "Things you might have missed" - actionable items from your monitored channels that haven't been completed yet.
         </p>
 
         {/* Enable/Disable Toggle */}
@@ -97,7 +160,7 @@ export default function SlackDailyDigestConfig() {
                 Enable Smart Inbox
               </div>
               <div className="text-xs text-dark-text-muted mt-1">
-                Receive DMs from PM-OS Bot at 9AM, 12PM, and 5PM
+                Receive digests at the times below
               </div>
             </div>
             <input
@@ -108,31 +171,150 @@ export default function SlackDailyDigestConfig() {
             />
           </label>
 
-          {/* Delivery Schedule Info */}
+          {/* Delivery Channel */}
           {digestEnabled && (
-            <div className="bg-dark-bg rounded-lg p-3 border border-dark-border">
-              <div className="text-xs font-medium text-dark-text-secondary mb-2">
-                Delivery Schedule
+            <div className="bg-dark-bg rounded-lg p-3 border border-dark-border space-y-2">
+              <div className="text-xs font-medium text-dark-text-secondary">
+                Send Via
+              </div>
+              <div className="flex gap-1">
+                {DELIVERY_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setDelivery(option.value)}
+                    className={`px-3 py-1 rounded text-xs transition-colors ${
+                      delivery === option.value
+                        ? 'bg-dark-accent-primary text-white'
+                        : 'bg-dark-surface text-dark-text-muted hover:text-dark-text-primary'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
               </div>
-              <div className="space-y-1">
-                <div className="flex items-center gap-2 text-xs text-dark-text-primary">
-                  <span className="text-dark-accent-primary">🌅</span>
-                  <span className="font-medium">9:00 AM</span>
-                  <span className="text-dark-text-muted">Morning catchup</span>
+              {delivery !== 'slack' && (
+                <div className="text-xs text-dark-text-muted">
+                  {isGoogleConnected
+                    ? 'Emails are sent from your connected Google account to your own address. "Create task" links open PM-OS.'
+                    : 'Connect Google above to send email digests.'}
                 </div>
-                <div className="flex items-center gap-2 text-xs text-dark-text-primary">
-                  <span className="text-dark-accent-primary">☀️</span>
-                  <span className="font-medium">12:00 PM</span>
-                  <span className="text-dark-text-muted">Midday check-in</span>
+              )}
+            </div>
+          )}
+
+          {/* Delivery Schedule */}
+          {digestEnabled && (
+            <div className="bg-dark-bg rounded-lg p-3 border border-dark-border space-y-3">
+              <div className="text-xs font-medium text-dark-text-secondary">
+                Delivery Schedule
+              </div>
+              {schedule.slots.length === 0 && (
+                <div className="text-xs text-dark-text-muted">No delivery times. Add one below.</div>
+              )}
+              {schedule.slots.map(slot => (
+                <div key={slot.id} className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={slot.time}
+                    onChange={(e) => e.target.value && updateSlot(slot.id, { time: e.target.value })}
+                    className="px-2 py-1 text-xs bg-dark-surface border border-dark-border rounded text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                  />
+                  <div className="flex gap-0.5 flex-1">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <button
+                        key={label}
+                        onClick={() => handleToggleDay(slot, day)}
+                        className={`px-1.5 py-1 text-xs rounded transition-colors ${
+                          slot.days.includes(day)
+                            ? 'bg-dark-accent-primary text-white'
+                            : 'bg-dark-surface text-dark-text-muted hover:text-dark-text-primary'
+                        }`}
+                      >
+                        {label.charAt(0)}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => handleRemoveSlot(slot.id)}
+                    className="p-1 text-dark-text-muted hover:text-dark-accent-danger transition-colors"
+                    title="Remove delivery time"
+                  >
+                    <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
                 </div>
-                <div className="flex items-center gap-2 text-xs text-dark-text-primary">
-                  <span className="text-dark-accent-primary">🌆</span>
-                  <span className="font-medium">5:00 PM</span>
-                  <span className="text-dark-text-muted">End of day wrap-up</span>
+              ))}
+              <button onClick={handleAddSlot} className="text-xs text-dark-accent-primary hover:underline">
+                + Add delivery time
+              </button>
+
+              <div className="pt-3 border-t border-dark-border space-y-2">
+                <label className="flex items-center justify-between text-xs text-dark-text-primary cursor-pointer">
+                  <span>Skip when my calendar shows I'm out of office</span>
+                  <input
+                    type="checkbox"
+                    checked={schedule.skipOutOfOffice}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, skipOutOfOffice: e.target.checked }))}
+                    className="w-4 h-4 text-dark-accent-primary bg-dark-bg border-dark-border rounded focus:ring-2 focus:ring-dark-accent-primary"
+                  />
+                </label>
+                <label className="flex items-center justify-between text-xs text-dark-text-primary cursor-pointer">
+                  <span>
+                    Send missed digests when my computer wakes, up to
+                    <input
+                      type="number"
+                      min={1}
+                      max={24}
+                      value={schedule.catchUpWindowHours}
+                      onChange={(e) => setSchedule(prev => ({ ...prev, catchUpWindowHours: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                      className="w-12 mx-1 px-1 py-0.5 text-xs bg-dark-surface border border-dark-border rounded text-dark-text-primary"
+                    />
+                    hours late
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={schedule.catchUp}
+                    onChange={(e) => setSchedule(prev => ({ ...prev, catchUp: e.target.checked }))}
+                    className="w-4 h-4 text-dark-accent-primary bg-dark-bg border-dark-border rounded focus:ring-2 focus:ring-dark-accent-primary"
+                  />
+                </label>
+              </div>
+
+              <div className="pt-3 border-t border-dark-border space-y-2">
+                <div className="text-xs font-medium text-dark-text-secondary">Days Off</div>
+                {schedule.skipDates.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {schedule.skipDates.map(date => (
+                      <span key={date} className="flex items-center gap-1 px-2 py-0.5 text-xs bg-dark-surface border border-dark-border rounded text-dark-text-primary">
+                        {date}
+                        <button
+                          onClick={() => setSchedule(prev => ({ ...prev, skipDates: prev.skipDates.filter(d => d !== date) }))}
+                          className="text-dark-text-muted hover:text-dark-accent-danger"
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    type="date"
+                    value={newSkipDate}
+                    onChange={(e) => setNewSkipDate(e.target.value)}
+                    className="flex-1 px-2 py-1 text-xs bg-dark-surface border border-dark-border rounded text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                  />
+                  <button onClick={handleAddSkipDate} className="btn-primary btn-sm">Add</button>
                 </div>
               </div>
-              <p className="text-xs text-dark-text-muted mt-2">
-                Times are in your primary timezone (set in Personal tab)
+
+              <p className="text-xs text-dark-text-muted">
+                Times are in {timezone} (your primary timezone, set in Customizations)
+                {nextDigest && (
+                  <> · Next digest {nextDigest.at.toLocaleString(undefined, { weekday: 'short', hour: 'numeric', minute: '2-digit', timeZone: timezone })}</>
+                )}
               </p>
             </div>
           )}
@@ -237,6 +419,8 @@ export default function SlackDailyDigestConfig() {
           {isSaving ? 'Saving...' : 'Save Digest Settings'}
         </button>
       </div>
+
+      <DigestHistoryView />
     </div>
   );
 }
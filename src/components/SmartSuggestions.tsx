@@ -1,5 +1,8 @@
 import { useState, useEffect } from 'react';
 import { aiService } from '../services/ai-service';
+import type { ScoreFactor } from '../services/suggestion-scoring';
+import type { AwaitingReply } from '../services/follow-ups';
+import FollowUpNudge from './FollowUpNudge';
 
 interface Suggestion {
   id: string;
@@ -8,6 +11,10 @@ interface Suggestion {
   context?: string;
   priority?: string;
   dueDate?: string;
+  score?: number;
+  scoreBreakdown?: ScoreFactor[];
+  relatedSuggestions?: { id: string; source: string; title: string }[];
+  followUp?: AwaitingReply;
 }
 
 interface TaskTag {
@@ -24,6 +31,7 @@ interface SmartSuggestionsProps {
   suggestions: Suggestion[];
   onAddTask: (suggestion: Suggestion) => void;
   onDismiss: (id: string) => void;
+  onNudged?: (id: string) => void;  // A follow-up was sent for a "nudge" suggestion
   projectTags?: TaskTag[];
   existingTasks?: any[];
 }
@@ -58,12 +66,15 @@ export default function SmartSuggestions({
   suggestions,
   onAddTask,
   onDismiss,
+  onNudged,
   projectTags = [],
   existingTasks = [],
 }: SmartSuggestionsProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [filteredSuggestions, setFilteredSuggestions] = useState<ScoredSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [explainedId, setExplainedId] = useState<string | null>(null);
+  const [nudgingId, setNudgingId] = useState<string | null>(null);
 
   // Load saved expanded state on mount
   useEffect(() => {
@@ -82,15 +93,7 @@ export default function SmartSuggestions({
 
   // Initialize AI service
   useEffect(() => {
-    const initAI = async () => {
-      const apiKey = await window.electronAPI.getSettings().then((settings: any) =>
-        settings.openaiApiKey || process.env.OPENAI_API_KEY
-      );
-      if (apiKey) {
-        await aiService.initialize(apiKey);
-      }
-    };
-    initAI();
+    aiService.initialize();
   }, []);
 
   const filterSuggestions = async () => {
@@ -288,11 +291,22 @@ export default function SmartSuggestions({
                   </div>
                 )}
 
-                {/* Source badge and context */}
+                {/* Source badges (more than one when duplicates were merged) and context */}
                 <div className="flex flex-col gap-1">
-                  <span className={`text-xs px-1.5 py-0.5 rounded self-start ${getSourceColor(suggestion.source)}`}>
-                    {getSourceLabel(suggestion.source)}
-                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${getSourceColor(suggestion.source)}`}>
+                      {getSourceLabel(suggestion.source)}
+                    </span>
+                    {suggestion.relatedSuggestions?.map(related => (
+                      <span
+                        key={related.id}
+                        className={`text-xs px-1.5 py-0.5 rounded ${getSourceColor(related.source)}`}
+                        title={related.title}
+                      >
+                        {getSourceLabel(related.source)}
+                      </span>
+                    ))}
+                  </div>
                   {suggestion.context && (
                     <span className="text-xs text-dark-text-muted truncate">
                       {suggestion.context}
@@ -300,8 +314,52 @@ export default function SmartSuggestions({
                   )}
                 </div>
 
+                {/* Score breakdown */}
+                {explainedId === suggestion.id && suggestion.scoreBreakdown && (
+                  <div className="space-y-0.5 text-xs bg-dark-bg/60 rounded px-2 py-1.5">
+                    {suggestion.scoreBreakdown.map((factor, idx) => (
+                      <div key={idx} className="flex items-center justify-between gap-2">
+                        <span className="text-dark-text-secondary truncate">{factor.label}</span>
+                        <span className={factor.points < 0 ? 'text-dark-accent-danger' : 'text-dark-text-primary'}>
+                          {factor.points > 0 ? '+' : ''}{factor.points}
+                        </span>
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between gap-2 pt-0.5 border-t border-dark-border font-medium">
+                      <span className="text-dark-text-secondary">Total</span>
+                      <span className="text-dark-text-primary">{suggestion.score}</span>
+                    </div>
+                  </div>
+                )}
+
+                {/* Follow-up draft */}
+                {nudgingId === suggestion.id && suggestion.followUp && (
+                  <FollowUpNudge
+                    followUp={suggestion.followUp}
+                    onSent={() => {
+                      setNudgingId(null);
+                      setFilteredSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+                      (onNudged || onDismiss)(suggestion.id);
+                    }}
+                    onCancel={() => setNudgingId(null)}
+                  />
+                )}
+
                 {/* Action buttons */}
                 <div className="flex items-center gap-1 pt-2 border-t border-dark-border">
+                  {suggestion.followUp && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setNudgingId(nudgingId === suggestion.id ? null : suggestion.id);
+                      }}
+                      className="flex-1 px-2 py-1 text-xs text-dark-accent-primary hover:bg-dark-accent-primary/10 rounded transition-all"
+                      title="Draft and send a follow-up"
+                    >
+                      Nudge
+                    </button>
+                  )}
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -313,6 +371,23 @@ export default function SmartSuggestions({
                     Add Task
                   </button>
 
+                  {suggestion.scoreBreakdown && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExplainedId(explainedId === suggestion.id ? null : suggestion.id);
+                      }}
+                      className={`px-2 py-1 text-xs rounded transition-all ${
+                        explainedId === suggestion.id
+                          ? 'text-dark-accent-primary bg-dark-accent-primary/10'
+                          : 'text-dark-text-muted hover:bg-dark-text-muted/10'
+                      }`}
+                      title="Explain this score"
+                    >
+                      {suggestion.score}
+                    </button>
+                  )}
+
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -262,21 +262,20 @@ export default function Strategize({ isActive }: StrategizeProps) {
   const silenceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
-  // Check for OpenAI API key on mount
+  // Check for a transcription provider on mount
   useEffect(() => {
-    const checkOpenAIKey = async () => {
-      // Check if OpenAI API key is configured in environment
-      const hasKey = !!process.env.OPENAI_API_KEY || process.env.NODE_ENV === 'production';
-      if (hasKey) {
+    const checkTranscription = async () => {
+      const status = await window.electronAPI.getLLMStatus();
+      if (status.transcription) {
         console.log('[Voice] Whisper API available');
         setVoiceModelLoaded(true);
       } else {
-        console.log('[Voice] OpenAI API key not configured');
+        console.log('[Voice] No AI provider configured for transcription');
         setVoiceModelLoaded(false);
       }
     };
 
-    checkOpenAIKey();
+    checkTranscription();
 
     return () => {
       if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
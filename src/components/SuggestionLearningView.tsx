@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { describeLearnedWeight, type LearnedWeight } from '../services/suggestion-learning';
+
+const KIND_LABELS: Record<LearnedWeight['kind'], string> = {
+  source: 'Source',
+  sender: 'Sender',
+  channel: 'Channel',
+  keyword: 'Keyword',
+};
+
+export default function SuggestionLearningView() {
+  const [weights, setWeights] = useState<LearnedWeight[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadWeights = async () => {
+    try {
+      setWeights(await window.electronAPI.getSuggestionLearning() || []);
+    } catch (error) {
+      console.error('Failed to load learned weights:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadWeights();
+  }, []);
+
+  const handleForget = async (key?: string) => {
+    if (!key && !confirm('Forget everything PM-OS has learned from your accepted and dismissed suggestions?')) return;
+    await window.electronAPI.resetSuggestionLearning(key);
+    await loadWeights();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-dark-text-secondary">Learned Weights</label>
+        {weights.length > 0 && (
+          <button
+            onClick={() => handleForget()}
+            className="text-xs text-dark-accent-danger hover:underline"
+          >
+            Reset learning
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-dark-text-muted">Loading...</p>
+      ) : weights.length === 0 ? (
+        <p className="text-xs text-dark-text-muted">
+          Nothing learned yet. Accepting or dismissing suggestions teaches PM-OS what matters to you.
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {weights.map(weight => (
+            <div key={weight.key} className="flex items-center gap-2 text-xs">
+              <span className="w-16 flex-shrink-0 text-dark-text-muted">{KIND_LABELS[weight.kind]}</span>
+              <span
+                className="flex-1 min-w-0 truncate text-dark-text-primary"
+                title={`${weight.accepted} accepted, ${weight.dismissed} dismissed`}
+              >
+                {weight.points === 0 ? `${weight.label} (not enough feedback yet)` : describeLearnedWeight(weight)}
+              </span>
+              <span className={`w-10 text-right flex-shrink-0 font-medium ${
+                weight.points < 0 ? 'text-dark-accent-danger' : weight.points > 0 ? 'text-dark-accent-success' : 'text-dark-text-muted'
+              }`}>
+                {weight.points > 0 ? '+' : ''}{weight.points}
+              </span>
+              <button
+                onClick={() => handleForget(weight.key)}
+                className="p-0.5 text-dark-text-muted hover:text-dark-accent-danger transition-colors"
+                title="Forget this"
+              >
+                <svg className="icon-xs" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
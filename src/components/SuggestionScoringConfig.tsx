@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import {
+  normalizeScoringRules,
+  DEFAULT_SCORING_RULES,
+  type ScoringRules,
+} from '../services/suggestion-scoring';
+import SuggestionLearningView from './SuggestionLearningView';
+
+interface SuggestionScoringConfigProps {
+  rules?: Partial<ScoringRules>;
+  onChange: (rules: ScoringRules) => void;
+}
+
+const inputClass = `px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                    text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary`;
+
+export default function SuggestionScoringConfig({ rules: savedRules, onChange }: SuggestionScoringConfigProps) {
+  const rules = normalizeScoringRules(savedRules);
+  const [newKeyword, setNewKeyword] = useState('');
+  const [newChannel, setNewChannel] = useState('');
+
+  const update = (changes: Partial<ScoringRules>) => {
+    onChange({ ...rules, ...changes });
+  };
+
+  const toNumber = (value: string, fallback: number) => {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? fallback : parsed;
+  };
+
+  const handleAddKeyword = () => {
+    const keyword = newKeyword.trim();
+    if (!keyword || rules.keywordBoosts.some(k => k.keyword.toLowerCase() === keyword.toLowerCase())) return;
+    update({ keywordBoosts: [...rules.keywordBoosts, { keyword, points: 20 }] });
+    setNewKeyword('');
+  };
+
+  const handleAddChannel = () => {
+    const channel = newChannel.trim().replace(/^#/, '');
+    if (!channel || rules.channelWeights.some(c => c.channel.toLowerCase() === channel.toLowerCase())) return;
+    update({ channelWeights: [...rules.channelWeights, { channel, points: 20 }] });
+    setNewChannel('');
+  };
+
+  return (
+    <div className="space-y-4 pt-6 border-t border-dark-border">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-dark-text-primary">Suggestion Scoring</h3>
+        <button
+          onClick={() => onChange(DEFAULT_SCORING_RULES)}
+          className="text-xs text-dark-text-muted hover:text-dark-text-primary transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <p className="text-xs text-dark-text-muted -mt-2">
+        Rules that decide which calendar, email and Slack items show up as suggested tasks.
+      </p>
+
+      {/* VIP senders */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-2">
+        <label className="block text-sm font-medium text-dark-text-secondary">VIP Senders</label>
+        <textarea
+          value={rules.vipSenders.join('\n')}
+          onChange={(e) => update({ vipSenders: e.target.value.split('\n') })}
+          onBlur={() => update({ vipSenders: rules.vipSenders.map(s => s.trim()).filter(Boolean) })}
+          rows={3}
+          className={`w-full ${inputClass}`}
+          placeholder={'jane@company.com\nJane Doe'}
+        />
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-dark-text-muted flex-1">
+            One name or email per line. Slack VIPs from the Daily Digest count too.
+          </span>
+          <label className="text-xs text-dark-text-secondary">Boost</label>
+          <input
+            type="number"
+            value={rules.vipBoost}
+            onChange={(e) => update({ vipBoost: toNumber(e.target.value, rules.vipBoost) })}
+            className={`w-20 ${inputClass}`}
+          />
+        </div>
+      </div>
+
+      {/* Keyword boosts */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-2">
+        <label className="block text-sm font-medium text-dark-text-secondary">Keyword Boosts</label>
+        <div className="space-y-1">
+          {rules.keywordBoosts.map((boost, index) => (
+            <div key={boost.keyword} className="flex items-center gap-2">
+              <span className="flex-1 text-sm text-dark-text-primary truncate">{boost.keyword}</span>
+              <input
+                type="number"
+                value={boost.points}
+                onChange={(e) => update({
+                  keywordBoosts: rules.keywordBoosts.map((k, i) => i === index ? { ...k, points: toNumber(e.target.value, k.points) } : k),
+                })}
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={() => update({ keywordBoosts: rules.keywordBoosts.filter((_, i) => i !== index) })}
+                className="p-1 text-dark-text-muted hover:text-dark-accent-danger transition-colors"
+                title="Remove keyword"
+              >
+                <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newKeyword}
+            onChange={(e) => setNewKeyword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddKeyword()}
+            className={`flex-1 ${inputClass}`}
+            placeholder="Add a keyword..."
+          />
+          <button onClick={handleAddKeyword} className="btn-primary btn-sm">Add</button>
+        </div>
+        <p className="text-xs text-dark-text-muted">
+          Matched against email subjects and snippets, Slack messages and meeting titles. Use negative points to bury topics.
+        </p>
+      </div>
+
+      {/* Channel weights */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-2">
+        <label className="block text-sm font-medium text-dark-text-secondary">Slack Channel Weights</label>
+        <div className="space-y-1">
+          {rules.channelWeights.map((weight, index) => (
+            <div key={weight.channel} className="flex items-center gap-2">
+              <span className="flex-1 text-sm text-dark-text-primary truncate">#{weight.channel}</span>
+              <input
+                type="number"
+                value={weight.points}
+                onChange={(e) => update({
+                  channelWeights: rules.channelWeights.map((c, i) => i === index ? { ...c, points: toNumber(e.target.value, c.points) } : c),
+                })}
+                className={`w-20 ${inputClass}`}
+              />
+              <button
+                onClick={() => update({ channelWeights: rules.channelWeights.filter((_, i) => i !== index) })}
+                className="p-1 text-dark-text-muted hover:text-dark-accent-danger transition-colors"
+                title="Remove channel"
+              >
+                <svg className="icon-sm" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newChannel}
+            onChange={(e) => setNewChannel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddChannel()}
+            className={`flex-1 ${inputClass}`}
+            placeholder="channel-name"
+          />
+          <button onClick={handleAddChannel} className="btn-primary btn-sm">Add</button>
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-dark-text-primary">Quiet Hours</h4>
+            <p className="text-xs text-dark-text-muted mt-1">
+              Lower the score of non-VIP suggestions during these hours
+            </p>
+          </div>
+          <button
+            onClick={() => update({ quietHours: { ...rules.quietHours, enabled: !rules.quietHours.enabled } })}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+              rules.quietHours.enabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                rules.quietHours.enabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+        {rules.quietHours.enabled && (
+          <div className="flex items-center gap-2 text-xs text-dark-text-secondary">
+            <span>From</span>
+            <input
+              type="time"
+              value={rules.quietHours.start}
+              onChange={(e) => update({ quietHours: { ...rules.quietHours, start: e.target.value } })}
+              className={inputClass}
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={rules.quietHours.end}
+              onChange={(e) => update({ quietHours: { ...rules.quietHours, end: e.target.value } })}
+              className={inputClass}
+            />
+            <span>Penalty</span>
+            <input
+              type="number"
+              min={0}
+              value={rules.quietHours.penalty}
+              onChange={(e) => update({ quietHours: { ...rules.quietHours, penalty: Math.abs(toNumber(e.target.value, rules.quietHours.penalty)) } })}
+              className={`w-20 ${inputClass}`}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Learning */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="text-sm font-medium text-dark-text-primary">Learn From My Choices</h4>
+            <p className="text-xs text-dark-text-muted mt-1">
+              Boost sources, senders, channels and keywords you accept; bury the ones you dismiss
+            </p>
+          </div>
+          <button
+            onClick={() => update({ learningEnabled: !rules.learningEnabled })}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+              rules.learningEnabled ? 'bg-dark-accent-primary' : 'bg-dark-border'
+            }`}
+          >
+            <span
+              className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                rules.learningEnabled ? 'translate-x-6' : 'translate-x-1'
+              }`}
+            />
+          </button>
+        </div>
+        <SuggestionLearningView />
+      </div>
+
+      {/* Limits */}
+      <div className="bg-dark-bg border border-dark-border rounded-lg p-4 grid grid-cols-3 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-dark-text-secondary mb-1">Minimum score</label>
+          <input
+            type="number"
+            value={rules.minScore}
+            onChange={(e) => update({ minScore: toNumber(e.target.value, rules.minScore) })}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-dark-text-secondary mb-1">Max suggestions</label>
+          <input
+            type="number"
+            min={1}
+            value={rules.maxSuggestions}
+            onChange={(e) => update({ maxSuggestions: Math.max(1, toNumber(e.target.value, rules.maxSuggestions)) })}
+            className={`w-full ${inputClass}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-dark-text-secondary mb-1">Per-source cap</label>
+          <input
+            type="number"
+            min={0}
+            value={rules.perSourceCap}
+            onChange={(e) => update({ perSourceCap: Math.max(0, toNumber(e.target.value, rules.perSourceCap)) })}
+            className={`w-full ${inputClass}`}
+            title="0 = no cap"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,22 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Task, TaskTag, LinkedItem } from '../types/task';
+import type { Task, TaskTag, LinkedItem, TaskRecurrence, TaskBlocker, JiraSyncConflict } from '../types/task';
 import { TAG_COLORS } from '../design-system/tokens';
 import LinkedDocsSelector from './LinkedDocsSelector';
+import RecurrenceEditor from './RecurrenceEditor';
+import TaskHistory from './TaskHistory';
+import { describeBlocker, getOpenBlockers, wouldCreateDependencyCycle } from '../utils/dependencies';
+import { JIRA_SYNC_FIELD_LABELS } from '../utils/jiraSync';
 
 interface TaskDetailModalProps {
   task: Task;
   existingTags: TaskTag[];
   onClose: () => void;
   onSave: (updates: Partial<Task>) => void;
+  subtasks?: Task[];
+  onAddSubtask?: (title: string) => void;
+  onToggleSubtask?: (id: string) => void;
+  onOpenSubtask?: (task: Task) => void;
+  allTasks?: Task[];
 }
 
 // Simple markdown to HTML converter
@@ -60,7 +69,7 @@ function markdownToHtml(markdown: string): string {
   return `<div class="prose prose-sm max-w-none"><p class="mb-2">${html}</p></div>`;
 }
 
-export default function TaskDetailModal({ task, existingTags, onClose, onSave }: TaskDetailModalProps) {
+export default function TaskDetailModal({ task, existingTags, onClose, onSave, subtasks = [], onAddSubtask, onToggleSubtask, onOpenSubtask, allTasks = [] }: TaskDetailModalProps) {
   // Get unique existing tags (deduplicate by label and color)
   const uniqueExistingTags = existingTags.reduce((acc: TaskTag[], tag) => {
     if (!acc.some(t => t.label === tag.label && t.color === tag.color)) {
@@ -80,6 +89,12 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showTagDropdown, setShowTagDropdown] = useState(false);
   const [linkedItems, setLinkedItems] = useState<LinkedItem[]>(task.linkedItems || []);
+  const [recurrence, setRecurrence] = useState<TaskRecurrence | undefined>(task.recurrence);
+  const [newSubtaskTitle, setNewSubtaskTitle] = useState('');
+  const [jiraBlockerKey, setJiraBlockerKey] = useState('');
+  const [blockerError, setBlockerError] = useState<string | null>(null);
+  const [isAddingJiraBlocker, setIsAddingJiraBlocker] = useState(false);
+  const [resolvingConflict, setResolvingConflict] = useState<string | null>(null);
 
   // Debounce timer refs
   const titleDebounceTimer = useRef<NodeJS.Timeout | null>(null);
@@ -154,6 +169,15 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
     }
   }, [linkedItems]);
 
+  // Autosave recurrence immediately
+  useEffect(() => {
+    if (!isInitialMount.current) {
+      if (JSON.stringify(task.recurrence) !== JSON.stringify(recurrence)) {
+        onSave({ recurrence });
+      }
+    }
+  }, [recurrence]);
+
   const handleAddTag = () => {
     if (newTagLabel.trim()) {
       setTags([...tags, { label: newTagLabel.trim(), color: newTagColor }]);
@@ -191,6 +215,73 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
     setLinkedItems(linkedItems.filter(item => item.id !== itemId));
   };
 
+  // Blockers save immediately; the parent keeps `task` in sync with our updates
+  const blockers = task.blockedBy || [];
+  const openBlockerIds = new Set(getOpenBlockers(allTasks, task).map(b => `${b.type}:${b.id}`));
+  const blockingCandidates = allTasks.filter(t =>
+    t.id !== task.id &&
+    !t.completed &&
+    !blockers.some(b => b.type === 'task' && b.id === t.id) &&
+    !wouldCreateDependencyCycle(allTasks, task.id, t.id)
+  );
+
+  const handleAddBlocker = (blocker: TaskBlocker) => {
+    if (blockers.some(b => b.type === blocker.type && b.id === blocker.id)) return;
+    onSave({ blockedBy: [...blockers, blocker] });
+  };
+
+  const handleRemoveBlocker = (blocker: TaskBlocker) => {
+    onSave({ blockedBy: blockers.filter(b => !(b.type === blocker.type && b.id === blocker.id)) });
+  };
+
+  const handleAddJiraBlocker = async () => {
+    const issueKey = jiraBlockerKey.trim().toUpperCase();
+    if (!issueKey) return;
+
+    setIsAddingJiraBlocker(true);
+    try {
+      const issue = await window.electronAPI.jiraGetIssue(issueKey);
+      handleAddBlocker({
+        type: 'jira',
+        id: issue.key,
+        title: issue.summary,
+        url: issue.url,
+        status: issue.status,
+        resolvedAt: issue.done ? new Date().toISOString() : undefined,
+      });
+      setJiraBlockerKey('');
+    } catch (error: any) {
+      console.error('Failed to fetch Jira issue:', error);
+      setBlockerError(`Could not find Jira issue ${issueKey}`);
+    } finally {
+      setIsAddingJiraBlocker(false);
+    }
+  };
+
+  const formatSyncValue = (conflict: JiraSyncConflict, value: JiraSyncConflict['local']) => {
+    if (conflict.field === 'completed') return value ? 'Done' : 'Open';
+    if (conflict.field === 'priority') return String(value).charAt(0).toUpperCase() + String(value).slice(1);
+    return `"${value}"`;
+  };
+
+  const handleResolveConflict = async (conflict: JiraSyncConflict, choice: 'local' | 'remote') => {
+    setResolvingConflict(conflict.field);
+    try {
+      const result = await window.electronAPI.resolveJiraSyncConflict(task.id, conflict.field, choice);
+      if (!result.success) {
+        alert(`Failed to resolve conflict: ${result.error}`);
+        return;
+      }
+      if (conflict.field === 'title' && choice === 'remote') {
+        setTitle(conflict.remote as string);
+      }
+    } catch (error) {
+      console.error('Failed to resolve Jira conflict:', error);
+    } finally {
+      setResolvingConflict(null);
+    }
+  };
+
   return (
     <div className="w-full h-full bg-dark-bg flex flex-col">
       {/* Header */}
@@ -209,6 +300,43 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+          {/* Jira sync conflicts */}
+          {task.jiraSync?.conflicts && task.jiraSync.conflicts.length > 0 && (
+            <div className="rounded-lg border border-dark-accent-danger/40 bg-dark-accent-danger/10 px-3 py-2 space-y-2">
+              <p className="text-sm text-dark-text-primary">
+                Changed in both PM-OS and {task.jiraSync.issueKey}. Choose which to keep:
+              </p>
+              {task.jiraSync.conflicts.map(conflict => (
+                <div key={conflict.field} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 flex-shrink-0 font-medium text-dark-text-secondary">
+                    {JIRA_SYNC_FIELD_LABELS[conflict.field]}
+                  </span>
+                  <button
+                    onClick={() => handleResolveConflict(conflict, 'local')}
+                    disabled={resolvingConflict !== null}
+                    className="flex-1 min-w-0 truncate text-left px-2 py-1 rounded border border-dark-border hover:bg-dark-surface text-dark-text-primary"
+                    title="Keep the PM-OS value and update Jira"
+                  >
+                    PM-OS: {formatSyncValue(conflict, conflict.local)}
+                  </button>
+                  <button
+                    onClick={() => handleResolveConflict(conflict, 'remote')}
+                    disabled={resolvingConflict !== null}
+                    className="flex-1 min-w-0 truncate text-left px-2 py-1 rounded border border-dark-border hover:bg-dark-surface text-dark-text-primary"
+                    title="Use the Jira value"
+                  >
+                    Jira: {formatSyncValue(conflict, conflict.remote)}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          {task.jiraSync?.lastError && (
+            <p className="text-xs text-dark-accent-warning">
+              Jira sync failed for {task.jiraSync.issueKey}: {task.jiraSync.lastError}
+            </p>
+          )}
+
           {/* Title */}
           <div>
             <label className="block text-sm font-medium text-dark-text-secondary mb-2">
@@ -379,6 +507,14 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
             />
           </div>
 
+          {/* Repeat */}
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+              Repeat
+            </label>
+            <RecurrenceEditor value={recurrence} onChange={setRecurrence} />
+          </div>
+
           {/* Description */}
           <div>
             <label className="block text-sm font-medium text-dark-text-secondary mb-2">
@@ -411,6 +547,135 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
             )}
           </div>
 
+          {/* Subtasks */}
+          {onAddSubtask && (
+            <div>
+              <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+                Subtasks
+                {subtasks.length > 0 && (
+                  <span className="ml-2 text-xs text-dark-text-muted">
+                    {subtasks.filter(t => t.completed).length}/{subtasks.length} done
+                  </span>
+                )}
+              </label>
+              <div className="space-y-1">
+                {subtasks.map(subtask => (
+                  <div key={subtask.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-dark-surface">
+                    <input
+                      type="checkbox"
+                      checked={subtask.completed}
+                      onChange={() => onToggleSubtask?.(subtask.id)}
+                      className="cursor-pointer"
+                    />
+                    <button
+                      onClick={() => onOpenSubtask?.(subtask)}
+                      className={`flex-1 text-left text-sm truncate ${
+                        subtask.completed ? 'line-through text-dark-text-muted' : 'text-dark-text-primary'
+                      }`}
+                    >
+                      {subtask.title}
+                    </button>
+                  </div>
+                ))}
+                <input
+                  type="text"
+                  value={newSubtaskTitle}
+                  onChange={(e) => setNewSubtaskTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && newSubtaskTitle.trim()) {
+                      onAddSubtask(newSubtaskTitle.trim());
+                      setNewSubtaskTitle('');
+                    }
+                  }}
+                  placeholder="Add a subtask..."
+                  className="w-full px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                           text-dark-text-primary placeholder-dark-text-muted
+                           focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Blocked by */}
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+              Blocked by
+            </label>
+            <div className="space-y-1">
+              {blockers.map(blocker => {
+                const isOpen = openBlockerIds.has(`${blocker.type}:${blocker.id}`);
+                return (
+                  <div key={`${blocker.type}:${blocker.id}`} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-dark-surface">
+                    <span className={`text-xs font-medium ${isOpen ? 'text-dark-accent-warning' : 'text-dark-accent-success'}`}>
+                      {isOpen ? 'Open' : 'Done'}
+                    </span>
+                    {blocker.type === 'jira' && blocker.url ? (
+                      <a
+                        href={blocker.url}
+                        onClick={(e) => {
+                          e.preventDefault();
+                          window.electronAPI.openExternal(blocker.url!);
+                        }}
+                        className="flex-1 text-sm text-dark-text-primary truncate hover:underline"
+                      >
+                        {describeBlocker(allTasks, blocker)}
+                        {blocker.status && <span className="ml-1 text-dark-text-muted">({blocker.status})</span>}
+                      </a>
+                    ) : (
+                      <span className="flex-1 text-sm text-dark-text-primary truncate">
+                        {describeBlocker(allTasks, blocker)}
+                      </span>
+                    )}
+                    <button
+                      onClick={() => handleRemoveBlocker(blocker)}
+                      className="text-dark-text-muted hover:text-dark-accent-danger"
+                      title="Remove blocker"
+                    >
+                      <svg className="icon-xs" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center gap-2">
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleAddBlocker({ type: 'task', id: e.target.value })}
+                  className="flex-1 min-w-0 px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                           text-dark-text-primary focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                >
+                  <option value="">Add blocking task...</option>
+                  {blockingCandidates.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={jiraBlockerKey}
+                  onChange={(e) => {
+                    setJiraBlockerKey(e.target.value);
+                    setBlockerError(null);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      handleAddJiraBlocker();
+                    }
+                  }}
+                  disabled={isAddingJiraBlocker}
+                  placeholder="Jira key, e.g. AMP-123"
+                  className="w-40 px-3 py-2 bg-dark-bg border border-dark-border rounded-lg text-sm
+                           text-dark-text-primary placeholder-dark-text-muted
+                           focus:outline-none focus:ring-2 focus:ring-dark-accent-primary"
+                />
+              </div>
+              {blockerError && (
+                <p className="text-xs text-dark-accent-danger">{blockerError}</p>
+              )}
+            </div>
+          </div>
+
           {/* Docs */}
           <div>
             <label className="block text-sm font-medium text-dark-text-secondary mb-2">
@@ -424,6 +689,14 @@ export default function TaskDetailModal({ task, existingTags, onClose, onSave }:
             />
           </div>
 
+          {/* History */}
+          <div>
+            <label className="block text-sm font-medium text-dark-text-secondary mb-2">
+              History
+            </label>
+            <TaskHistory taskId={task.id} refreshKey={JSON.stringify(task)} />
+          </div>
+
       </div>
     </div>
   );
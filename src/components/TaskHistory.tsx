@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import type { Task, TaskActor, TaskEvent } from '../types/task';
+
+interface TaskHistoryProps {
+  taskId: string;
+  refreshKey?: string;  // Reload when this changes (e.g., after the task is edited)
+}
+
+const ACTOR_LABELS: Record<TaskActor, string> = {
+  ui: 'You',
+  slack: 'Slack',
+  mcp: 'Claude (MCP)',
+  extension: 'Chrome extension',
+  jira: 'Jira sync',
+  system: 'PM-OS',
+};
+
+// Fields that change on every write and aren't worth showing
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+function describeChange(event: TaskEvent): string {
+  switch (event.action) {
+    case 'created':
+      return 'created this task';
+    case 'deleted':
+      return 'deleted this task';
+    case 'restored':
+      return 'restored this task';
+  }
+
+  const before = (event.before || {}) as Record<string, any>;
+  const after = (event.after || {}) as Record<string, any>;
+  const changed = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(key => !IGNORED_FIELDS.has(key) && JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+
+  if (changed.length === 1 && changed[0] === 'completed') {
+    return (event.after as Task).completed ? 'marked this complete' : 'reopened this task';
+  }
+  if (changed.length === 1 && changed[0] === 'title') {
+    return `renamed this to "${(event.after as Task).title}"`;
+  }
+  return changed.length > 0 ? `changed ${changed.join(', ')}` : 'updated this task';
+}
+
+export default function TaskHistory({ taskId, refreshKey }: TaskHistoryProps) {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+
+  useEffect(() => {
+    window.electronAPI.getTaskHistory(taskId)
+      .then(history => setEvents(history || []))
+      .catch(error => console.error('Failed to load task history:', error));
+  }, [taskId, refreshKey]);
+
+  if (events.length === 0) {
+    return <p className="text-xs text-dark-text-muted">No history yet</p>;
+  }
+
+  return (
+    <div className="space-y-1.5">
+      {events.map(event => (
+        <div key={event.seq} className="flex items-baseline gap-2 text-xs">
+          <span className="text-dark-text-primary font-medium flex-shrink-0">{ACTOR_LABELS[event.actor] || event.actor}</span>
+          <span className="flex-1 min-w-0 text-dark-text-secondary truncate" title={describeChange(event)}>
+            {describeChange(event)}
+          </span>
+          <span className="text-dark-text-muted flex-shrink-0">
+            {formatDistanceToNow(parseISO(event.createdAt), { addSuffix: true })}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,9 @@ import { useState, useRef, useEffect } from 'react';
 import { format, isToday, isTomorrow, isPast, parseISO, formatDistanceToNow } from 'date-fns';
 import type { Task, LinkedItem } from '../types/task';
 import LinkedDocsSelector from './LinkedDocsSelector';
+import { describeRecurrence } from '../utils/recurrence';
+import { getSubtasks, getSubtaskProgress } from '../utils/subtasks';
+import { getOpenBlockers, describeBlocker } from '../utils/dependencies';
 
 interface TaskListProps {
   tasks: Task[];
@@ -13,6 +16,7 @@ interface TaskListProps {
   onTaskClick?: (task: Task) => void;
   onDragStart?: (task: Task) => void;
   onDragEnd?: () => void;
+  allTasks?: Task[];  // Full task list, used to find subtasks of the tasks shown
 }
 
 function getSourceIcon(source: string) {
@@ -37,6 +41,12 @@ function getSourceIcon(source: string) {
           <path d="M5.042 15.165a2.528 2.528 0 0 1-2.52 2.523A2.528 2.528 0 0 1 0 15.165a2.527 2.527 0 0 1 2.522-2.52h2.52v2.52zM6.313 15.165a2.527 2.527 0 0 1 2.521-2.52 2.527 2.527 0 0 1 2.521 2.52v6.313A2.528 2.528 0 0 1 8.834 24a2.528 2.528 0 0 1-2.521-2.522v-6.313zM8.834 5.042a2.528 2.528 0 0 1-2.521-2.52A2.528 2.528 0 0 1 8.834 0a2.528 2.528 0 0 1 2.521 2.522v2.52H8.834zM8.834 6.313a2.528 2.528 0 0 1 2.521 2.521 2.528 2.528 0 0 1-2.521 2.521H2.522A2.528 2.528 0 0 1 0 8.834a2.528 2.528 0 0 1 2.522-2.521h6.312zM18.956 8.834a2.528 2.528 0 0 1 2.522-2.521A2.528 2.528 0 0 1 24 8.834a2.528 2.528 0 0 1-2.522 2.521h-2.522V8.834zM17.688 8.834a2.528 2.528 0 0 1-2.523 2.521 2.527 2.527 0 0 1-2.52-2.521V2.522A2.527 2.527 0 0 1 15.165 0a2.528 2.528 0 0 1 2.523 2.522v6.312zM15.165 18.956a2.528 2.528 0 0 1 2.523 2.522A2.528 2.528 0 0 1 15.165 24a2.527 2.527 0 0 1-2.52-2.522v-2.522h2.52zM15.165 17.688a2.527 2.527 0 0 1-2.52-2.523 2.526 2.526 0 0 1 2.52-2.52h6.313A2.527 2.527 0 0 1 24 15.165a2.528 2.528 0 0 1-2.522 2.523h-6.313z"/>
         </svg>
       );
+    case 'jira':
+      return (
+        <svg className="icon-xs" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M11.571 11.513H0a5.218 5.218 0 0 0 5.232 5.215h2.13v2.057A5.215 5.215 0 0 0 12.575 24V12.518a1.005 1.005 0 0 0-1.005-1.005zm5.723-5.756H5.736a5.215 5.215 0 0 0 5.215 5.214h2.129v2.058a5.218 5.218 0 0 0 5.215 5.214V6.758a1.001 1.001 0 0 0-1.001-1.001zM23.013 0H11.455a5.215 5.215 0 0 0 5.215 5.215h2.129v2.057A5.215 5.215 0 0 0 24 12.483V1.005A1.001 1.001 0 0 0 23.013 0z"/>
+        </svg>
+      );
     default:
       return null;
   }
@@ -89,7 +99,7 @@ function getTaskTooltip(task: Task): string {
   return tooltip;
 }
 
-export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLinkSlackChannel, slackConfigured, onTaskClick, onDragStart, onDragEnd }: TaskListProps) {
+export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLinkSlackChannel, slackConfigured, onTaskClick, onDragStart, onDragEnd, allTasks = tasks }: TaskListProps) {
   const [openMenuId, setOpenMenuId] = useState<string | null>(null);
   const [datePickerOpenId, setDatePickerOpenId] = useState<string | null>(null);
   const dateInputRef = useRef<HTMLInputElement>(null);
@@ -106,11 +116,14 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
     }
   }, [datePickerOpenId]);
 
-  return (
-    <div className="space-y-1">
-      {tasks.map((task, index) => (
+  const renderTask = (task: Task, index: number, depth: number): JSX.Element => {
+    const subtasks = getSubtasks(allTasks, task.id);
+    const progress = getSubtaskProgress(allTasks, task.id);
+    const openBlockers = task.completed ? [] : getOpenBlockers(allTasks, task);
+
+    return (
+      <div key={task.id} className="space-y-1">
         <div
-          key={task.id}
           draggable
           onDragStart={(e) => {
             if (onDragStart) {
@@ -123,9 +136,10 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
               onDragEnd();
             }
           }}
-          className="task-item group bg-dark-surface rounded-lg px-3 py-2.5 border border-dark-border
-                     hover:border-dark-border/60 transition-all animate-slide-in-right cursor-move"
-          style={{ animationDelay: `${index * 30}ms` }}
+          className={`task-item group bg-dark-surface rounded-lg px-3 py-2.5 border border-dark-border
+                     hover:border-dark-border/60 transition-all animate-slide-in-right cursor-move
+                     ${openBlockers.length > 0 ? 'opacity-60' : ''}`}
+          style={{ animationDelay: `${index * 30}ms`, marginLeft: depth * 20 }}
           title={getTaskTooltip(task)}
           onClick={(e) => {
             // Only open detail modal if not clicking on checkbox or actions
@@ -158,6 +172,14 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
                   }`}>
                     {task.title}
                   </p>
+                  {progress.total > 0 && (
+                    <span
+                      className={`text-xs ${progress.done === progress.total ? 'text-dark-accent-success' : 'text-dark-text-muted'}`}
+                      title="Subtasks completed"
+                    >
+                      {progress.done}/{progress.total} done
+                    </span>
+                  )}
                 </div>
 
                 {/* Actions dropdown */}
@@ -233,7 +255,7 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
               </div>
 
               {/* Task metadata */}
-              {(task.source !== 'manual' || task.context || task.tags?.length) && (
+              {(task.source !== 'manual' || task.context || task.tags?.length || task.recurrence || openBlockers.length > 0) && (
                 <div className="flex items-center gap-2 mt-1.5 flex-wrap">
                   {/* Source icon */}
                   {task.source !== 'manual' && (
@@ -242,6 +264,48 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
                     </span>
                   )}
 
+                  {/* Blocked */}
+                  {openBlockers.length > 0 && (
+                    <span
+                      className="inline-flex items-center gap-1 text-xs text-dark-accent-warning"
+                      title={`Blocked by:\n${openBlockers.map(b => describeBlocker(allTasks, b)).join('\n')}`}
+                    >
+                      <svg className="icon-xs" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                              d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+                      </svg>
+                      Blocked ({openBlockers.length})
+                    </span>
+                  )}
+
+                  {/* Jira sync conflict */}
+                  {task.jiraSync?.conflicts && task.jiraSync.conflicts.length > 0 && (
+                    <span
+                      className="inline-flex items-center gap-1 text-xs text-dark-accent-danger"
+                      title={`Changed in both PM-OS and ${task.jiraSync.issueKey}. Open the task to resolve.`}
+                    >
+                      <svg className="icon-xs" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                              d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                      </svg>
+                      Jira conflict
+                    </span>
+                  )}
+
+                  {/* Recurrence */}
+                  {task.recurrence && (
+                    <span
+                      className="inline-flex items-center gap-1 text-xs text-dark-text-muted"
+                      title={describeRecurrence(task.recurrence)}
+                    >
+                      <svg className="icon-xs" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+                              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                      </svg>
+                      {describeRecurrence(task.recurrence)}
+                    </span>
+                  )}
+
                   {/* Tags */}
                   {task.tags && task.tags.length > 0 && (
                     <div className="flex items-center gap-1">
@@ -331,7 +395,15 @@ export default function TaskList({ tasks, onToggle, onDelete, onUpdateTask, onLi
             </div>
           </div>
         </div>
-      ))}
+        {/* Subtasks, indented under their parent */}
+        {subtasks.map((subtask, subIndex) => renderTask(subtask, subIndex, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-1">
+      {tasks.map((task, index) => renderTask(task, index, 0))}
     </div>
   );
 }
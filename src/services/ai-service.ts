@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import type { LLMMessage } from './llm-config';
 
 interface TaskTag {
   label: string;
@@ -20,27 +20,19 @@ interface ScoredSuggestion extends Suggestion {
 }
 
 export class AIService {
-  private openai: OpenAI | null = null;
   private isInitialized = false;
 
-  constructor() {
-    // Initialize will be called when API key is available
-  }
-
-  async initialize(apiKey: string) {
-    if (!apiKey || apiKey === 'your_openai_api_key_here') {
-      console.log('[AIService] No valid API key provided, AI features disabled');
-      this.isInitialized = false;
-      return;
-    }
-
+  /**
+   * Check whether the main process has a provider routed for suggestions.
+   * Requests go through IPC so API keys never reach the renderer.
+   */
+  async initialize() {
     try {
-      this.openai = new OpenAI({
-        apiKey,
-        dangerouslyAllowBrowser: true, // Note: In production, API calls should go through backend
-      });
-      this.isInitialized = true;
-      console.log('[AIService] Initialized successfully');
+      const status = await window.electronAPI.getLLMStatus();
+      this.isInitialized = status.suggestions;
+      console.log(this.isInitialized
+        ? '[AIService] Initialized successfully'
+        : '[AIService] No AI provider configured for suggestions, AI features disabled');
     } catch (error) {
       console.error('[AIService] Failed to initialize:', error);
       this.isInitialized = false;
@@ -48,7 +40,15 @@ export class AIService {
   }
 
   isAvailable(): boolean {
-    return this.isInitialized && this.openai !== null;
+    return this.isInitialized;
+  }
+
+  private async complete(messages: LLMMessage[], temperature: number, maxTokens: number): Promise<string | undefined> {
+    const result = await window.electronAPI.llmComplete('suggestions', { messages, temperature, maxTokens });
+    if (!result.success) {
+      throw new Error(result.error || 'AI request failed');
+    }
+    return result.content;
   }
 
   /**
@@ -129,17 +129,10 @@ Respond in JSON format:
 
 ONLY return UP TO 5 tasks. If fewer than 5 are truly actionable right now, return fewer. Quality over quantity.`;
 
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          { role: 'system', content: 'You are an expert at prioritizing tasks and identifying actionable work. Be selective and only suggest tasks that truly require action.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 1500,
-      });
-
-      const content = response.choices[0].message.content;
+      const content = await this.complete([
+        { role: 'system', content: 'You are an expert at prioritizing tasks and identifying actionable work. Be selective and only suggest tasks that truly require action.' },
+        { role: 'user', content: prompt }
+      ], 0.3, 1500);
       if (!content) {
         throw new Error('No response from AI');
       }
@@ -233,17 +226,10 @@ Respond in JSON:
   ]
 }`;
 
-      const response = await this.openai!.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          { role: 'system', content: 'You are an expert at writing clear, actionable task descriptions. Be specific and concise.' },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.5,
-        max_tokens: 2000,
-      });
-
-      const content = response.choices[0].message.content;
+      const content = await this.complete([
+        { role: 'system', content: 'You are an expert at writing clear, actionable task descriptions. Be specific and concise.' },
+        { role: 'user', content: prompt }
+      ], 0.5, 2000);
       if (!content) {
         return suggestions;
       }
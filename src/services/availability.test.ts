@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { findAvailableSlots, isWithinWorkingHours, normalizeSchedulingSettings, DEFAULT_SCHEDULING_SETTINGS } from './availability';
+
+const settings = DEFAULT_SCHEDULING_SETTINGS;
+const NEW_YORK = 'America/New_York';
+const LONDON = 'Europe/London';
+
+describe('isWithinWorkingHours', () => {
+  it('checks the workday in the given timezone', () => {
+    // 14:00-15:00 UTC on Monday 2026-06-01 is 10:00-11:00 in New York and 15:00-16:00 in London
+    const start = new Date('2026-06-01T14:00:00Z');
+    const end = new Date('2026-06-01T15:00:00Z');
+    expect(isWithinWorkingHours(start, end, NEW_YORK, settings)).toBe(true);
+    expect(isWithinWorkingHours(start, end, 'Asia/Tokyo', settings)).toBe(false);
+  });
+
+  it('excludes days off and ranges that run past the end of the day', () => {
+    expect(isWithinWorkingHours(new Date('2026-06-06T14:00:00Z'), new Date('2026-06-06T15:00:00Z'), NEW_YORK, settings)).toBe(false);
+    expect(isWithinWorkingHours(new Date('2026-06-01T20:30:00Z'), new Date('2026-06-01T21:30:00Z'), NEW_YORK, settings)).toBe(false);
+  });
+});
+
+describe('findAvailableSlots', () => {
+  const search = {
+    from: new Date('2026-06-01T13:00:00Z'),  // Monday 09:00 in New York
+    to: new Date('2026-06-03T21:00:00Z'),
+    durationMinutes: 60,
+    timeZones: [NEW_YORK],
+  };
+
+  it('returns the earliest free slots that avoid busy time', () => {
+    const busy = [{ start: '2026-06-01T13:00:00Z', end: '2026-06-01T14:30:00Z' }];
+    const slots = findAvailableSlots(busy, { ...search, maxSlots: 2 }, settings);
+    expect(slots).toEqual([
+      { start: '2026-06-01T14:30:00.000Z', end: '2026-06-01T15:30:00.000Z' },
+      { start: '2026-06-01T15:00:00.000Z', end: '2026-06-01T16:00:00.000Z' },
+    ]);
+  });
+
+  it('only proposes times that are working hours in every timezone', () => {
+    // London's workday ends at 16:00 UTC in June, New York's starts at 13:00 UTC
+    const slots = findAvailableSlots([], { ...search, timeZones: [NEW_YORK, LONDON], maxSlots: 10 }, settings);
+    expect(slots.every(slot => slot.start >= '2026-06-01T13:00:00.000Z')).toBe(true);
+    expect(slots.filter(slot => slot.start.startsWith('2026-06-01')).map(slot => slot.start)).toEqual([
+      '2026-06-01T13:00:00.000Z',
+      '2026-06-01T13:30:00.000Z',
+      '2026-06-01T14:00:00.000Z',
+      '2026-06-01T14:30:00.000Z',
+      '2026-06-01T15:00:00.000Z',
+    ]);
+  });
+
+  it('spreads proposals across days', () => {
+    const slots = findAvailableSlots([], { ...search, maxPerDay: 1 }, settings);
+    expect(slots.map(slot => slot.start)).toEqual([
+      '2026-06-01T13:00:00.000Z',
+      '2026-06-02T13:00:00.000Z',
+      '2026-06-03T13:00:00.000Z',
+    ]);
+  });
+
+  it('starts on step boundaries', () => {
+    const [slot] = findAvailableSlots([], { ...search, from: new Date('2026-06-01T13:10:00Z'), stepMinutes: 15 }, settings);
+    expect(slot.start).toBe('2026-06-01T13:15:00.000Z');
+  });
+});
+
+describe('normalizeSchedulingSettings', () => {
+  it('fills in focus time defaults', () => {
+    const normalized = normalizeSchedulingSettings({ focusTime: { enabled: true } as any });
+    expect(normalized.focusTime).toEqual({ ...DEFAULT_SCHEDULING_SETTINGS.focusTime, enabled: true });
+    expect(normalized.workDays).toEqual([1, 2, 3, 4, 5]);
+  });
+});
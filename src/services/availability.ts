@@ -0,0 +1,110 @@
+import { getZonedParts } from '../utils/timezone';
+
+export interface TimeRange {
+  start: string;  // ISO
+  end: string;    // ISO
+}
+
+export interface FocusTimeSettings {
+  enabled: boolean;
+  blockMinutes: number;   // Length of each focus block
+  lookaheadDays: number;  // Only tasks due within this many days get a block
+}
+
+export interface SchedulingSettings {
+  workdayStart: string;         // HH:mm
+  workdayEnd: string;           // HH:mm
+  workDays: number[];           // 0 = Sunday
+  useSecondaryTimezone: boolean; // Proposed meeting times must also be working hours in the secondary timezone
+  focusTime: FocusTimeSettings;
+}
+
+export const DEFAULT_SCHEDULING_SETTINGS: SchedulingSettings = {
+  workdayStart: '09:00',
+  workdayEnd: '17:00',
+  workDays: [1, 2, 3, 4, 5],
+  useSecondaryTimezone: true,
+  focusTime: {
+    enabled: false,
+    blockMinutes: 90,
+    lookaheadDays: 3,
+  },
+};
+
+export function normalizeSchedulingSettings(settings?: Partial<SchedulingSettings>): SchedulingSettings {
+  return {
+    ...DEFAULT_SCHEDULING_SETTINGS,
+    ...settings,
+    workDays: settings?.workDays ?? DEFAULT_SCHEDULING_SETTINGS.workDays,
+    focusTime: { ...DEFAULT_SCHEDULING_SETTINGS.focusTime, ...settings?.focusTime },
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+/**
+ * Whether a time range falls inside working hours on a work day in a timezone
+ */
+export function isWithinWorkingHours(start: Date, end: Date, timeZone: string, settings: SchedulingSettings): boolean {
+  const from = getZonedParts(start, timeZone);
+  const to = getZonedParts(end, timeZone);
+  const weekday = new Date(Date.UTC(from.year, from.month - 1, from.day)).getUTCDay();
+  if (!settings.workDays.includes(weekday)) return false;
+
+  const startMinutes = from.hour * 60 + from.minute;
+  // Ranges that run past midnight end after any workday
+  const endMinutes = to.day === from.day ? to.hour * 60 + to.minute : 24 * 60 + to.hour * 60 + to.minute;
+  return startMinutes >= toMinutes(settings.workdayStart) && endMinutes <= toMinutes(settings.workdayEnd);
+}
+
+export interface SlotSearch {
+  from: Date;
+  to: Date;
+  durationMinutes: number;
+  timeZones: string[];   // Every slot must be in working hours in each of these
+  stepMinutes?: number;  // Slots start on multiples of this
+  maxSlots?: number;
+  maxPerDay?: number;    // Spread proposals across days instead of filling the first one
+}
+
+/**
+ * Free slots of the requested length that avoid every busy range, earliest
+ * first
+ */
+export function findAvailableSlots(busy: TimeRange[], search: SlotSearch, settings: SchedulingSettings): TimeRange[] {
+  const step = (search.stepMinutes ?? 30) * 60000;
+  const duration = search.durationMinutes * 60000;
+  const maxSlots = search.maxSlots ?? 8;
+  const maxPerDay = search.maxPerDay ?? Infinity;
+  const busyRanges = busy
+    .map(range => ({ start: new Date(range.start).getTime(), end: new Date(range.end).getTime() }))
+    .sort((a, b) => a.start - b.start);
+
+  const slots: TimeRange[] = [];
+  const perDay = new Map<string, number>();
+  const dayKey = (date: Date) => {
+    const p = getZonedParts(date, search.timeZones[0]);
+    return `${p.year}-${p.month}-${p.day}`;
+  };
+
+  for (let start = Math.ceil(search.from.getTime() / step) * step; start + duration <= search.to.getTime(); start += step) {
+    const end = start + duration;
+    const startDate = new Date(start);
+    const endDate = new Date(end);
+
+    if (!search.timeZones.every(timeZone => isWithinWorkingHours(startDate, endDate, timeZone, settings))) continue;
+    if (busyRanges.some(range => range.start < end && range.end > start)) continue;
+
+    const key = dayKey(startDate);
+    const count = perDay.get(key) || 0;
+    if (count >= maxPerDay) continue;
+    perDay.set(key, count + 1);
+
+    slots.push({ start: startDate.toISOString(), end: endDate.toISOString() });
+    if (slots.length >= maxSlots) break;
+  }
+  return slots;
+}
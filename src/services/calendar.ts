@@ -1,11 +1,13 @@
 import { google } from 'googleapis';
 import { addDays, startOfDay, endOfDay } from 'date-fns';
 import * as fs from 'fs';
+import { getLogPath } from '../utils/paths';
 
 // Direct file logging helper
+const logFilePath = getLogPath('oauth-debug.log');
 function logToFile(message: string) {
   try {
-    fs.appendFileSync('/tmp/pm-os-oauth-debug.log', `${message}\n`);
+    fs.appendFileSync(logFilePath, `${message}\n`);
   } catch (e) {
     // Ignore logging errors
   }
@@ -13,6 +15,7 @@ function logToFile(message: string) {
 
 interface Attendee {
   email: string;
+  displayName?: string;
   responseStatus?: string;
   self?: boolean;
 }
@@ -29,6 +32,7 @@ interface CalendarEvent {
   hangoutLink?: string;
   conferenceData?: any;
   colorId?: string;
+  eventType?: string; // 'default', 'outOfOffice', 'focusTime' or 'workingLocation'
 }
 
 interface TokenData {
@@ -161,6 +165,7 @@ export class CalendarService {
         location: event.location,
         attendees: event.attendees?.map((a: any) => ({
           email: a.email,
+          displayName: a.displayName,
           responseStatus: a.responseStatus,
           self: a.self,
         })) || [],
@@ -168,6 +173,7 @@ export class CalendarService {
         hangoutLink: event.hangoutLink,
         conferenceData: event.conferenceData,
         colorId: event.colorId,
+        eventType: event.eventType,
       }));
     } catch (error: any) {
       if (error.response?.status === 401) {
@@ -205,6 +211,7 @@ export class CalendarService {
         location: event.location,
         attendees: event.attendees?.map((a: any) => ({
           email: a.email,
+          displayName: a.displayName,
           responseStatus: a.responseStatus,
           self: a.self,
         })) || [],
@@ -212,6 +219,7 @@ export class CalendarService {
         hangoutLink: event.hangoutLink,
         conferenceData: event.conferenceData,
         colorId: event.colorId,
+        eventType: event.eventType,
       }));
     } catch (error: any) {
       if (error.response?.status === 401) {
@@ -248,6 +256,7 @@ export class CalendarService {
         location: event.location,
         attendees: event.attendees?.map((a: any) => ({
           email: a.email,
+          displayName: a.displayName,
           responseStatus: a.responseStatus,
           self: a.self,
         })) || [],
@@ -255,6 +264,7 @@ export class CalendarService {
         hangoutLink: event.hangoutLink,
         conferenceData: event.conferenceData,
         colorId: event.colorId,
+        eventType: event.eventType,
       }));
     } catch (error: any) {
       if (error.response?.status === 401) {
@@ -265,6 +275,51 @@ export class CalendarService {
     }
   }
 
+  /**
+   * Busy times for the user and each attendee between timeMin and timeMax.
+   * Calendars Google can't share (e.g. outside the organization) are
+   * returned in `unavailable` rather than treated as free.
+   */
+  async getFreeBusy(
+    emails: string[],
+    timeMin: string,
+    timeMax: string
+  ): Promise<{ busy: Record<string, { start: string; end: string }[]>; unavailable: string[] }> {
+    try {
+      const calendar = google.calendar({ version: 'v3', auth: this.oauth2Client });
+
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin,
+          timeMax,
+          items: [{ id: 'primary' }, ...emails.map(id => ({ id }))],
+        },
+      });
+
+      const busy: Record<string, { start: string; end: string }[]> = {};
+      const unavailable: string[] = [];
+      for (const [id, calendarInfo] of Object.entries(response.data.calendars || {})) {
+        if (calendarInfo.errors && calendarInfo.errors.length > 0) {
+          unavailable.push(id);
+          continue;
+        }
+        busy[id] = (calendarInfo.busy || [])
+          .filter(period => period.start && period.end)
+          .map(period => ({ start: period.start!, end: period.end! }));
+      }
+      return { busy, unavailable };
+    } catch (error: any) {
+      if (error.code === 401) {
+        const refreshedTokens = await this.getRefreshedTokens();
+        if (refreshedTokens) {
+          this.setTokens(refreshedTokens);
+          return this.getFreeBusy(emails, timeMin, timeMax);
+        }
+      }
+      throw error;
+    }
+  }
+
   async getRefreshedTokens(): Promise<TokenData | null> {
     try {
       const { credentials } = await this.oauth2Client.refreshAccessToken();
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContextEngine } from './context-engine';
+import type { AwaitingReply } from './follow-ups';
+import { normalizeScoringRules } from './suggestion-scoring';
+
+const NOW = new Date('2026-03-10T12:00:00Z');
+
+function awaiting(hoursAgo: number): AwaitingReply {
+  return {
+    id: 'msg-1',
+    channel: 'email',
+    recipient: 'Dana',
+    topic: 'Q2 roadmap',
+    text: 'Could you send the numbers?',
+    sentAt: new Date(NOW.getTime() - hoursAgo * 60 * 60 * 1000).toISOString(),
+  };
+}
+
+describe('ContextEngine follow-ups', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('waits until the follow-up window has passed', () => {
+    const suggestions = ContextEngine.generateSmartSuggestions([], [], [], {
+      awaitingReplies: [awaiting(47)],
+      followUpWaitHours: 48,
+    });
+    expect(suggestions).toEqual([]);
+  });
+
+  it('suggests a nudge on the first overdue day', () => {
+    const suggestions = ContextEngine.generateSmartSuggestions([], [], [], {
+      awaitingReplies: [awaiting(49)],
+      followUpWaitHours: 48,
+    });
+    expect(suggestions.map(s => s.title)).toEqual(['Nudge Dana about Q2 roadmap']);
+  });
+
+  it('shows the nudge even when the minimum score is raised above it', () => {
+    const suggestions = ContextEngine.generateSmartSuggestions([], [], [], {
+      rules: normalizeScoringRules({ minScore: 90 }),
+      awaitingReplies: [awaiting(49)],
+      followUpWaitHours: 48,
+    });
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].score).toBeLessThan(90);
+  });
+
+  it('scores the nudge higher for each extra day waited', () => {
+    const [firstDay] = ContextEngine.generateSmartSuggestions([], [], [], { awaitingReplies: [awaiting(49)], followUpWaitHours: 48 });
+    const [thirdDay] = ContextEngine.generateSmartSuggestions([], [], [], { awaitingReplies: [awaiting(97)], followUpWaitHours: 48 });
+    expect(thirdDay.score).toBe(firstDay.score + 20);
+    expect(thirdDay.priority).toBe('high');
+  });
+});
@@ -1,14 +1,36 @@
 import { differenceInMinutes, differenceInHours, parseISO, isToday, isTomorrow } from 'date-fns';
+import {
+  applySuggestionLimits,
+  scoreSuggestion,
+  DEFAULT_SCORING_RULES,
+  type ScoreFactor,
+  type ScoringContext,
+  type ScoringRules,
+  type SuggestionSource,
+} from './suggestion-scoring';
+import type { LearnedWeight, LearningSignal } from './suggestion-learning';
+import { clusterSuggestions } from './suggestion-clustering';
+import type { LinkedItem } from '../types/task';
+import { getHoursWaiting, type AwaitingReply } from './follow-ups';
 
 interface Suggestion {
   id: string;
   title: string;
-  source: 'calendar' | 'email' | 'slack';
+  source: SuggestionSource;
   sourceId: string;
   priority: 'low' | 'medium' | 'high';
   context?: string;
   dueDate?: string;
   score: number;
+  scoreBreakdown?: ScoreFactor[];
+  learningSignals?: LearningSignal[];  // What accept/dismiss feedback is recorded against
+  // Cross-source clustering
+  excerpt?: string;
+  people?: string[];
+  occurredAt?: string;
+  linkedItems?: LinkedItem[];
+  clusterIds?: string[];
+  relatedSuggestions?: { id: string; source: string; title: string }[];
   // Slack-specific metadata
   slackThreadTs?: string;
   slackPermalink?: string;
@@ -16,6 +38,8 @@ interface Suggestion {
   slackChannelName?: string;
   slackUserId?: string;
   slackUserName?: string;
+  // Set on "nudge X about Y" suggestions; the renderer drafts and sends the follow-up
+  followUp?: AwaitingReply;
 }
 
 interface CalendarEvent {
@@ -25,16 +49,20 @@ interface CalendarEvent {
   end: string;
   description?: string;
   location?: string;
+  attendees?: { email: string; self?: boolean }[];
+  htmlLink?: string;
 }
 
 interface EmailMessage {
   id: string;
+  threadId?: string;
   subject: string;
   from: string;
   snippet: string;
   date: string;
   isUnread: boolean;
   isStarred: boolean;
+  snoozedUntil?: string;  // Set when the email just came back from snooze
 }
 
 interface SlackMessage {
@@ -54,9 +82,12 @@ export class ContextEngine {
   /**
    * Generate smart suggestions from calendar events
    */
-  static generateCalendarSuggestions(events: CalendarEvent[]): Suggestion[] {
+  static generateCalendarSuggestions(
+    events: CalendarEvent[],
+    scoring: ScoringContext = { rules: DEFAULT_SCORING_RULES, now: new Date() }
+  ): Suggestion[] {
     const suggestions: Suggestion[] = [];
-    const now = new Date();
+    const now = scoring.now;
 
     for (const event of events) {
       const eventStart = parseISO(event.start);
@@ -88,13 +119,13 @@ export class ContextEngine {
         context = eventStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
       }
 
-      // Calculate score (higher = more important)
-      let score = 0;
-      if (minutesUntil <= 30) score = 100;
-      else if (hoursUntil <= 2) score = 80;
-      else if (isToday(eventStart)) score = 60;
-      else if (isTomorrow(eventStart)) score = 40;
-      else score = 20;
+      // Base score (higher = more important)
+      let base: ScoreFactor;
+      if (minutesUntil <= 30) base = { kind: 'base', label: 'Meeting within 30 minutes', points: 100 };
+      else if (hoursUntil <= 2) base = { kind: 'base', label: 'Meeting within 2 hours', points: 80 };
+      else if (isToday(eventStart)) base = { kind: 'base', label: 'Meeting today', points: 60 };
+      else if (isTomorrow(eventStart)) base = { kind: 'base', label: 'Meeting tomorrow', points: 40 };
+      else base = { kind: 'base', label: 'Upcoming meeting', points: 20 };
 
       // Add location info if available
       if (event.location) {
@@ -105,6 +136,11 @@ export class ContextEngine {
       const needsPrep = minutesUntil > 30 && (event.description || event.location);
 
       if (needsPrep) {
+        const scored = scoreSuggestion([base], {
+          source: 'calendar',
+          text: `${event.title} ${event.description || ''}`,
+        }, scoring);
+
         suggestions.push({
           id: `calendar_${event.id}`,
           title: `Review agenda and prep for ${event.title}`,
@@ -113,7 +149,16 @@ export class ContextEngine {
           priority,
           context,
           dueDate: event.start,
-          score,
+          ...scored,
+          excerpt: `${event.title} ${event.description || ''}`.substring(0, 500),
+          people: (event.attendees || []).filter(a => !a.self).map(a => a.email),
+          occurredAt: event.start,
+          linkedItems: [{
+            id: `calendar_${event.id}`,
+            type: 'google-calendar',
+            title: event.title,
+            url: event.htmlLink,
+          }],
         });
       }
     }
@@ -124,33 +169,47 @@ export class ContextEngine {
   /**
    * Generate smart suggestions from emails
    */
-  static generateEmailSuggestions(emails: EmailMessage[]): Suggestion[] {
+  static generateEmailSuggestions(
+    emails: EmailMessage[],
+    scoring: ScoringContext = { rules: DEFAULT_SCORING_RULES, now: new Date() }
+  ): Suggestion[] {
     const suggestions: Suggestion[] = [];
 
     for (const email of emails) {
       let priority: 'low' | 'medium' | 'high' = 'medium';
       let context = `From ${this.extractName(email.from)}`;
-      let score = 50;
+      const base: ScoreFactor[] = [{ kind: 'base', label: 'Email', points: 50 }];
 
       // High priority if starred
       if (email.isStarred) {
         priority = 'high';
-        score = 90;
+        base.push({ kind: 'base', label: 'Starred', points: 40 });
       }
 
       // Increase priority if unread
       if (email.isUnread) {
-        score += 20;
+        base.push({ kind: 'base', label: 'Unread', points: 20 });
+      }
+
+      // Snoozed emails come back as something to deal with now
+      if (email.snoozedUntil) {
+        priority = 'high';
+        context = `Back from snooze • ${context}`;
+        base.push({ kind: 'base', label: 'Back from snooze', points: 40 });
       }
 
-      // Check for action words in subject
-      const actionWords = ['urgent', 'asap', 'action required', 'deadline', 'reminder', 'follow up', 'response needed', 'review', 'approve', 'feedback'];
       const subjectLower = email.subject.toLowerCase();
       const snippetLower = email.snippet.toLowerCase();
 
-      if (actionWords.some(word => subjectLower.includes(word))) {
+      const scored = scoreSuggestion(base, {
+        source: 'email',
+        senders: [this.extractName(email.from), this.extractAddress(email.from)],
+        text: `${email.subject} ${email.snippet}`,
+      }, scoring);
+
+      // Keyword rules mark action-needed emails
+      if (scored.scoreBreakdown.some(f => f.kind === 'keyword' && f.points > 0)) {
         priority = 'high';
-        score += 30;
       }
 
       // Determine action verb based on content
@@ -172,7 +231,16 @@ export class ContextEngine {
         sourceId: email.id,
         priority,
         context,
-        score,
+        ...scored,
+        excerpt: `${email.subject} ${email.snippet}`.substring(0, 500),
+        people: [email.from],
+        occurredAt: this.toISODate(email.date),
+        linkedItems: [{
+          id: `gmail_${email.id}`,
+          type: 'gmail',
+          title: email.subject || 'Email',
+          url: `https://mail.google.com/mail/u/0/#inbox/${email.threadId || email.id}`,
+        }],
       });
     }
 
@@ -182,38 +250,41 @@ export class ContextEngine {
   /**
    * Generate smart suggestions from Slack messages
    */
-  static generateSlackSuggestions(messages: SlackMessage[]): Suggestion[] {
+  static generateSlackSuggestions(
+    messages: SlackMessage[],
+    scoring: ScoringContext = { rules: DEFAULT_SCORING_RULES, now: new Date() }
+  ): Suggestion[] {
     const suggestions: Suggestion[] = [];
-    const now = Date.now() / 1000; // Convert to Unix timestamp
+    const now = scoring.now.getTime() / 1000; // Convert to Unix timestamp
 
     for (const message of messages) {
       const messageTime = parseFloat(message.timestamp);
       const hoursAgo = (now - messageTime) / 3600;
 
       let priority: 'low' | 'medium' | 'high' = 'medium';
-      let score = 50;
+      let base: ScoreFactor;
       let context = '';
       let actionVerb = 'Respond to';
 
       // Priority based on message type
       if (message.type === 'mention') {
         priority = 'high';
-        score = 85;
+        base = { kind: 'base', label: 'Mention', points: 85 };
         context = 'You were mentioned';
         actionVerb = 'Reply to mention from';
       } else if (message.type === 'dm') {
         priority = 'high';
-        score = 80;
+        base = { kind: 'base', label: 'Direct message', points: 80 };
         context = 'Direct message';
         actionVerb = 'Reply to DM from';
       } else if (message.type === 'saved') {
         priority = 'medium';
-        score = 70;
+        base = { kind: 'base', label: 'Saved item', points: 70 };
         context = 'Saved item';
         actionVerb = 'Follow up on';
       } else if (message.type === 'thread') {
         priority = 'medium';
-        score = 60;
+        base = { kind: 'base', label: 'Thread activity', points: 60 };
         context = 'Thread activity';
         actionVerb = 'Respond in thread to';
       } else {
@@ -221,9 +292,11 @@ export class ContextEngine {
         continue;
       }
 
+      const baseFactors: ScoreFactor[] = [base];
+
       // Increase priority if recent (< 6 hours)
       if (hoursAgo < 6) {
-        score += 20;
+        baseFactors.push({ kind: 'base', label: 'Less than 6 hours old', points: 20 });
       }
 
       // Add user/channel context
@@ -246,11 +319,17 @@ export class ContextEngine {
         topicHint = ' (needs help)';
       } else if (messageLower.includes('urgent') || messageLower.includes('asap')) {
         topicHint = ' (urgent)';
-        score += 20;
       } else if (messageLower.includes('when') || messageLower.includes('eta')) {
         topicHint = ' (asking for timing)';
       }
 
+      const scored = scoreSuggestion(baseFactors, {
+        source: 'slack',
+        senders: [message.userName || '', message.user],
+        channels: [message.channelName || '', message.channel],
+        text: message.text,
+      }, scoring);
+
       suggestions.push({
         id: `slack_${message.id}`,
         title: `${actionVerb}${fromContext}${topicHint}`,
@@ -258,7 +337,16 @@ export class ContextEngine {
         sourceId: message.id,
         priority,
         context: `${context} • "${message.text.substring(0, 50)}${message.text.length > 50 ? '...' : ''}"`,
-        score,
+        ...scored,
+        excerpt: message.text.substring(0, 500),
+        people: message.userName ? [message.userName] : [],
+        occurredAt: new Date(messageTime * 1000).toISOString(),
+        linkedItems: message.permalink ? [{
+          id: `slack_${message.channel}_${message.timestamp}`,
+          type: 'slack',
+          title: `Slack message${message.userName ? ` from ${message.userName}` : ''}`,
+          url: message.permalink,
+        }] : [],
         // Include Slack metadata for later use
         slackThreadTs: message.threadTs,
         slackPermalink: message.permalink,
@@ -273,16 +361,84 @@ export class ContextEngine {
   }
 
   /**
-   * Combine all suggestions and apply smart filtering
+   * Generate "nudge X about Y" suggestions for requests nobody has answered
+   */
+  static generateFollowUpSuggestions(
+    items: AwaitingReply[],
+    waitHours: number,
+    scoring: ScoringContext = { rules: DEFAULT_SCORING_RULES, now: new Date() }
+  ): Suggestion[] {
+    const suggestions: Suggestion[] = [];
+
+    for (const item of items) {
+      const hours = getHoursWaiting(item, scoring.now);
+      // Still inside the window: give them time to answer
+      if (hours < waitHours) continue;
+
+      const days = Math.floor(hours / 24);
+      const waited = days >= 1 ? `${days} day${days !== 1 ? 's' : ''}` : `${Math.floor(hours)} hours`;
+
+      const base: ScoreFactor[] = [{ kind: 'base', label: 'Awaiting a reply', points: 55 }];
+      // Each extra day past the window makes the nudge more pressing
+      const extraDays = Math.min(3, Math.floor((hours - waitHours) / 24));
+      if (extraDays > 0) {
+        base.push({ kind: 'base', label: `${extraDays} day${extraDays !== 1 ? 's' : ''} past follow-up window`, points: extraDays * 10 });
+      }
+
+      const scored = scoreSuggestion(base, {
+        source: item.channel,
+        text: `${item.topic} ${item.text}`,
+      }, scoring);
+
+      suggestions.push({
+        id: `followup_${item.channel}_${item.id}`,
+        title: `Nudge ${item.recipient} about ${item.topic}`,
+        source: item.channel,
+        sourceId: item.id,
+        priority: hours >= waitHours * 2 ? 'high' : 'medium',
+        context: `No reply in ${waited} • "${item.text.substring(0, 50)}${item.text.length > 50 ? '...' : ''}"`,
+        ...scored,
+        excerpt: `${item.topic} ${item.text}`.substring(0, 500),
+        people: [item.recipient],
+        occurredAt: item.sentAt,
+        linkedItems: item.url ? [{
+          id: item.channel === 'email' ? `gmail_${item.gmailThreadId || item.id}` : `slack_${item.id}`,
+          type: item.channel === 'email' ? 'gmail' : 'slack',
+          title: item.channel === 'email' ? item.topic : `Slack message to ${item.recipient}`,
+          url: item.url,
+        }] : [],
+        followUp: item,
+      });
+    }
+
+    return suggestions;
+  }
+
+  /**
+   * Combine all suggestions, score them with the user's rules and apply limits
    */
   static generateSmartSuggestions(
     calendarEvents: CalendarEvent[],
     emails: EmailMessage[],
-    slackMessages: SlackMessage[]
+    slackMessages: SlackMessage[],
+    options: {
+      rules?: ScoringRules;
+      excludeIds?: string[];
+      learnedWeights?: LearnedWeight[];
+      awaitingReplies?: AwaitingReply[];
+      followUpWaitHours?: number;
+    } = {}
   ): Suggestion[] {
-    const calendarSuggestions = this.generateCalendarSuggestions(calendarEvents);
-    const emailSuggestions = this.generateEmailSuggestions(emails);
-    const slackSuggestions = this.generateSlackSuggestions(slackMessages);
+    const rules = options.rules || DEFAULT_SCORING_RULES;
+    const scoring: ScoringContext = { rules, now: new Date(), learnedWeights: options.learnedWeights };
+    const calendarSuggestions = this.generateCalendarSuggestions(calendarEvents, scoring);
+    const emailSuggestions = this.generateEmailSuggestions(emails, scoring);
+    const slackSuggestions = this.generateSlackSuggestions(slackMessages, scoring);
+    const followUpSuggestions = this.generateFollowUpSuggestions(
+      options.awaitingReplies || [],
+      options.followUpWaitHours ?? 48,
+      scoring
+    );
 
     // Combine all suggestions
     const allSuggestions = [
@@ -291,11 +447,16 @@ export class ContextEngine {
       ...slackSuggestions,
     ];
 
-    // Sort by score (highest first)
-    allSuggestions.sort((a, b) => b.score - a.score);
+    // Drop dismissed suggestions before limits so they don't take up slots
+    const excluded = new Set(options.excludeIds || []);
+    const remaining = allSuggestions.filter(s => !excluded.has(s.id));
+    const followUps = followUpSuggestions.filter(s => !excluded.has(s.id));
 
-    // Return top 10 suggestions
-    return allSuggestions.slice(0, 10);
+    // The same ask often arrives by Slack, email and invite; show it once.
+    // Follow-ups stay separate: waiting on someone isn't the same as being asked.
+    // They also skip the minimum score: the user chose the follow-up window, so a
+    // nudge shows as soon as it passes and its score only decides the order.
+    return applySuggestionLimits([...clusterSuggestions(remaining), ...followUps], rules, s => !!s.followUp);
   }
 
   /**
@@ -322,4 +483,20 @@ export class ContextEngine {
     // If no name, return email address
     return emailString.split('@')[0];
   }
+
+  /**
+   * Parse an email Date header into ISO format
+   */
+  private static toISODate(date: string): string | undefined {
+    const parsed = new Date(date);
+    return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+  }
+
+  /**
+   * Extract the bare address from "Name <email@example.com>"
+   */
+  private static extractAddress(emailString: string): string {
+    const match = emailString.match(/<(.+?)>/);
+    return (match ? match[1] : emailString).trim();
+  }
 }
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getDigestChannels,
+  getDigestOccurrences,
+  getNextDigestOccurrence,
+  normalizeDigestSchedule,
+  DEFAULT_DIGEST_SCHEDULE,
+  type DigestSchedule,
+} from './digest-schedule';
+
+const NEW_YORK = 'America/New_York';
+const iso = (dates: { at: Date }[]) => dates.map(d => d.at.toISOString());
+
+describe('getDigestOccurrences', () => {
+  it('resolves slot times in the schedule timezone across a DST change', () => {
+    // US clocks go forward on Sunday 2026-03-08
+    const occurrences = getDigestOccurrences(DEFAULT_DIGEST_SCHEDULE, NEW_YORK, new Date('2026-03-06T00:00:00Z'), new Date('2026-03-10T00:00:00Z'));
+    expect(iso(occurrences)).toEqual([
+      '2026-03-06T14:00:00.000Z',
+      '2026-03-06T17:00:00.000Z',
+      '2026-03-06T22:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-09T16:00:00.000Z',
+      '2026-03-09T21:00:00.000Z',
+    ]);
+    expect(occurrences.map(o => o.slot.id).slice(0, 3)).toEqual(['morning', 'midday', 'evening']);
+  });
+
+  it('leaves out days off', () => {
+    const schedule: DigestSchedule = { ...DEFAULT_DIGEST_SCHEDULE, skipDates: ['2026-03-09'] };
+    const occurrences = getDigestOccurrences(schedule, NEW_YORK, new Date('2026-03-06T00:00:00Z'), new Date('2026-03-10T00:00:00Z'));
+    expect(occurrences.map(o => o.date)).toEqual(['2026-03-06', '2026-03-06', '2026-03-06']);
+  });
+
+  it('uses the weekday and date in the schedule timezone, not UTC', () => {
+    const schedule: DigestSchedule = { ...DEFAULT_DIGEST_SCHEDULE, slots: [{ id: 'early', time: '08:00', days: [1] }] };
+    // Monday 08:00 in Tokyo is Sunday 23:00 UTC
+    const [occurrence] = getDigestOccurrences(schedule, 'Asia/Tokyo', new Date('2026-03-08T00:00:00Z'), new Date('2026-03-09T00:00:00Z'));
+    expect(occurrence).toMatchObject({ date: '2026-03-09', at: new Date('2026-03-08T23:00:00Z') });
+  });
+
+  it('excludes the start of the range and includes the end', () => {
+    const from = new Date('2026-03-06T14:00:00Z');
+    const to = new Date('2026-03-06T17:00:00Z');
+    expect(iso(getDigestOccurrences(DEFAULT_DIGEST_SCHEDULE, NEW_YORK, from, to))).toEqual(['2026-03-06T17:00:00.000Z']);
+  });
+});
+
+describe('getNextDigestOccurrence', () => {
+  it('skips the weekend to the next slot', () => {
+    const next = getNextDigestOccurrence(DEFAULT_DIGEST_SCHEDULE, NEW_YORK, new Date('2026-03-06T22:00:00Z'));
+    expect(next?.at.toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('returns null when no slot runs on any day', () => {
+    expect(getNextDigestOccurrence({ ...DEFAULT_DIGEST_SCHEDULE, slots: [] }, NEW_YORK)).toBeNull();
+  });
+});
+
+describe('normalizeDigestSchedule', () => {
+  it('fills in defaults for older saved schedules', () => {
+    expect(normalizeDigestSchedule({ catchUp: false })).toEqual({ ...DEFAULT_DIGEST_SCHEDULE, catchUp: false });
+    expect(normalizeDigestSchedule(undefined).slots).toHaveLength(3);
+  });
+});
+
+describe('getDigestChannels', () => {
+  it('maps the delivery setting to channels', () => {
+    expect(getDigestChannels('both')).toEqual(['slack', 'email']);
+    expect(getDigestChannels('email')).toEqual(['email']);
+    expect(getDigestChannels(undefined)).toEqual(['slack']);
+  });
+});
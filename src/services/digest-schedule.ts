@@ -0,0 +1,127 @@
+import { getZonedParts, zonedTimeToDate } from '../utils/timezone';
+
+export { toZonedDateString, zonedTimeToDate } from '../utils/timezone';
+
+// A delivery time for the Smart Inbox digest
+export interface DigestSlot {
+  id: string;
+  time: string;    // HH:mm in the user's primary timezone
+  days: number[];  // Weekdays it runs on, 0 = Sunday
+}
+
+export interface DigestSchedule {
+  slots: DigestSlot[];
+  skipOutOfOffice: boolean;   // Skip slots that fall inside an out-of-office calendar block
+  skipDates: string[];        // Holidays and other days off (YYYY-MM-DD)
+  catchUp: boolean;           // Send a missed slot late, e.g. after the laptop was asleep
+  catchUpWindowHours: number; // Missed slots older than this are skipped instead
+}
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+export const DEFAULT_DIGEST_SCHEDULE: DigestSchedule = {
+  slots: [
+    { id: 'morning', time: '09:00', days: WEEKDAYS },
+    { id: 'midday', time: '12:00', days: WEEKDAYS },
+    { id: 'evening', time: '17:00', days: WEEKDAYS },
+  ],
+  skipOutOfOffice: true,
+  skipDates: [],
+  catchUp: true,
+  catchUpWindowHours: 4,
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Fill in defaults for a schedule saved by an older version or edited by hand
+ */
+export function normalizeDigestSchedule(schedule?: Partial<DigestSchedule>): DigestSchedule {
+  return {
+    ...DEFAULT_DIGEST_SCHEDULE,
+    ...schedule,
+    slots: schedule?.slots ?? DEFAULT_DIGEST_SCHEDULE.slots,
+    skipDates: schedule?.skipDates ?? [],
+  };
+}
+
+// Where each digest is delivered
+export type DigestDelivery = 'slack' | 'email' | 'both';
+export type DigestChannel = 'slack' | 'email';
+
+export const DEFAULT_DIGEST_DELIVERY: DigestDelivery = 'slack';
+
+export function getDigestChannels(delivery?: DigestDelivery): DigestChannel[] {
+  if (delivery === 'both') return ['slack', 'email'];
+  return [delivery === 'email' ? 'email' : 'slack'];
+}
+
+export type DigestRunStatus = 'sent' | 'empty' | 'skipped' | 'failed';
+
+export interface DigestHistoryItem {
+  id: string;
+  messageId: string;  // Slack message ts; matches DigestState.createdTasks keys
+  channel: string;
+  channelName: string;
+  userName: string;
+  text: string;
+  summary: string;
+  suggestedAction: string;
+  priority: number;
+  permalink?: string;
+  taskId?: string;    // Filled in when read, from DigestState.createdTasks
+}
+
+export interface DigestHistoryEntry {
+  id: string;
+  slotId: string;
+  slotTime: string;
+  scheduledFor: string;  // ISO time the slot was due
+  ranAt: string;
+  status: DigestRunStatus;
+  reason?: string;       // Why it was skipped or failed
+  catchUp: boolean;      // Sent late because the slot was missed
+  deliveredVia?: DigestChannel[];  // Channels that accepted the digest
+  items: DigestHistoryItem[];
+}
+
+export interface DigestOccurrence {
+  slot: DigestSlot;
+  at: Date;
+  date: string;  // YYYY-MM-DD in the schedule's timezone
+}
+
+/**
+ * Every slot occurrence in (from, to], oldest first. Days listed in skipDates are left out.
+ */
+export function getDigestOccurrences(schedule: DigestSchedule, timeZone: string, from: Date, to: Date): DigestOccurrence[] {
+  const occurrences: DigestOccurrence[] = [];
+  const start = getZonedParts(from, timeZone);
+  // Pad a day either side so slots near midnight aren't missed across timezones
+  const days = Math.ceil((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000)) + 2;
+
+  for (let offset = -1; offset <= days; offset++) {
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const date = day.toISOString().slice(0, 10);
+    if (schedule.skipDates.includes(date)) continue;
+
+    for (const slot of schedule.slots) {
+      if (!slot.days.includes(day.getUTCDay())) continue;
+      const [hours, minutes] = slot.time.split(':').map(Number);
+      const at = zonedTimeToDate(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hours || 0, minutes || 0, timeZone);
+      if (at > from && at <= to) {
+        occurrences.push({ slot, at, date });
+      }
+    }
+  }
+
+  return occurrences.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * The next slot after a given time, looking up to two weeks ahead
+ */
+export function getNextDigestOccurrence(schedule: DigestSchedule, timeZone: string, after: Date = new Date()): DigestOccurrence | null {
+  const twoWeeks = new Date(after.getTime() + 14 * 24 * 60 * 60 * 1000);
+  return getDigestOccurrences(schedule, timeZone, after, twoWeeks)[0] || null;
+}
@@ -0,0 +1,65 @@
+export type FollowUpChannel = 'email' | 'slack';
+
+// Something the user asked someone for that hasn't been answered yet
+export interface AwaitingReply {
+  id: string;              // Gmail message ID, or `${channelId}_${ts}` for Slack
+  channel: FollowUpChannel;
+  recipient: string;       // Who was asked, for display
+  topic: string;           // Email subject or the start of the Slack message
+  text: string;            // Snippet or full Slack message
+  sentAt: string;          // ISO time the request was sent
+  url?: string;
+  // Where the nudge goes
+  gmailMessageId?: string;
+  gmailThreadId?: string;
+  slackChannelId?: string;
+  slackThreadTs?: string;
+}
+
+export interface FollowUpSettings {
+  enabled: boolean;
+  waitHours: number;     // How long without a reply before suggesting a nudge
+  lookbackDays: number;  // Older requests are considered dropped and ignored
+}
+
+export const DEFAULT_FOLLOW_UP_SETTINGS: FollowUpSettings = {
+  enabled: true,
+  waitHours: 48,
+  lookbackDays: 14,
+};
+
+export function normalizeFollowUpSettings(settings?: Partial<FollowUpSettings>): FollowUpSettings {
+  return { ...DEFAULT_FOLLOW_UP_SETTINGS, ...settings };
+}
+
+// Phrases that usually mean the message asks someone for something
+const REQUEST_PATTERNS = [
+  /\?/,
+  /\b(can|could|would|will) you\b/i,
+  /\bplease\b/i,
+  /\blet me know\b/i,
+  /\bany (update|news|thoughts)s?\b/i,
+  /\bwhen (can|will|do|does)\b/i,
+  /\b(need|waiting on|waiting for) (you|your)\b/i,
+  /\bthoughts\b/i,
+  /\bget back to me\b/i,
+  /\beta\b/i,
+];
+
+// Messages that close a conversation rather than open one
+const CLOSING_PATTERN = /^\s*(thanks|thank you|thx|ty|sounds good|great|ok|okay|got it|perfect)[!. ]*$/i;
+
+/**
+ * Rough check for whether a sent message asks a question or makes a request
+ */
+export function looksLikeRequest(text: string): boolean {
+  if (!text.trim() || CLOSING_PATTERN.test(text)) return false;
+  return REQUEST_PATTERNS.some(pattern => pattern.test(text));
+}
+
+/**
+ * Hours since the request was sent
+ */
+export function getHoursWaiting(item: AwaitingReply, now: Date = new Date()): number {
+  return (now.getTime() - new Date(item.sentAt).getTime()) / (60 * 60 * 1000);
+}
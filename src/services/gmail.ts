@@ -1,4 +1,5 @@
 import { google } from 'googleapis';
+import { looksLikeRequest, type AwaitingReply } from './follow-ups';
 
 interface EmailMessage {
   id: string;
@@ -18,6 +19,109 @@ interface TokenData {
   expiresAt: number;
 }
 
+export interface OutgoingEmail {
+  to: string;
+  cc?: string;
+  subject: string;
+  html?: string;
+  text: string;  // Body, or the plain-text alternative when html is set
+}
+
+// Headers that keep a reply in the original conversation
+interface EmailThreading {
+  threadId?: string;
+  inReplyTo?: string;
+  references?: string;
+}
+
+export interface EmailLabel {
+  id: string;
+  name: string;
+}
+
+export interface EmailAttachment {
+  id: string;  // Gmail attachment ID, used to download it
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface EmailThreadMessage {
+  id: string;
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  date: string;
+  snippet: string;
+  bodyText: string;
+  bodyHtml?: string;  // Unsanitized; see sanitizeEmailHtml
+  attachments: EmailAttachment[];
+  isUnread: boolean;
+}
+
+export interface EmailThread {
+  id: string;
+  subject: string;
+  messages: EmailThreadMessage[];  // Oldest first
+}
+
+// First MIME part of a type that has an inline body
+function findPart(part: any, mimeType: string): any {
+  if (part?.mimeType === mimeType && part.body?.data) return part;
+  for (const child of part?.parts || []) {
+    const found = findPart(child, mimeType);
+    if (found) return found;
+  }
+  return null;
+}
+
+function decodePart(part: any): string {
+  return Buffer.from(part.body.data, 'base64url').toString('utf8');
+}
+
+function getBodyText(message: any): string {
+  const plain = findPart(message.payload, 'text/plain');
+  if (plain) return decodePart(plain).trim();
+
+  const html = findPart(message.payload, 'text/html');
+  if (html) {
+    return decodePart(html)
+      .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>|<\/(p|div|li|tr)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  return message.snippet || '';
+}
+
+function collectAttachments(part: any, attachments: EmailAttachment[] = []): EmailAttachment[] {
+  if (part?.filename && part.body?.attachmentId) {
+    attachments.push({
+      id: part.body.attachmentId,
+      filename: part.filename,
+      mimeType: part.mimeType || 'application/octet-stream',
+      size: part.body.size || 0,
+    });
+  }
+  for (const child of part?.parts || []) {
+    collectAttachments(child, attachments);
+  }
+  return attachments;
+}
+
+// RFC 2047 encoded-word so non-ASCII subjects (emoji, accents) survive transport
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function wrapBase64(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
 export class GmailService {
   private oauth2Client: any;
   // @ts-ignore - stored for future use
@@ -134,13 +238,14 @@ export class GmailService {
         isExpired: credentials.expiry_date ? Date.now() > credentials.expiry_date : 'unknown',
       });
 
-      console.log('[GmailService] Fetching starred emails (all) with query: is:starred');
+      console.log('[GmailService] Fetching starred emails (all) with query: is:starred in:inbox');
       const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client });
 
       // Changed: Get ALL starred emails, not just unread (Gmail's UNREAD label is unreliable)
+      // Inbox only, so archiving or snoozing from the Chats tab clears the email
       const response = await gmail.users.messages.list({
         userId: 'me',
-        q: 'is:starred',
+        q: 'is:starred in:inbox',
         maxResults,
       });
 
@@ -240,6 +345,269 @@ export class GmailService {
     }
   }
 
+  /**
+   * Send an email from the connected account. Requires the gmail.send (or
+   * gmail.modify) scope. Returns the sent message ID.
+   */
+  async sendEmail(email: OutgoingEmail, threading?: EmailThreading): Promise<string> {
+    const headers = [
+      `To: ${email.to}`,
+      ...(email.cc ? [`Cc: ${email.cc}`] : []),
+      `Subject: ${encodeHeader(email.subject)}`,
+      ...(threading?.inReplyTo ? [`In-Reply-To: ${threading.inReplyTo}`] : []),
+      ...(threading?.references ? [`References: ${threading.references}`] : []),
+      'MIME-Version: 1.0',
+    ];
+
+    let body: string[];
+    if (email.html) {
+      const boundary = `pmos_${Date.now().toString(36)}`;
+      body = [
+        `Content-Type: multipart/alternative; boundary="${boundary}"`,
+        '',
+        `--${boundary}`,
+        'Content-Type: text/plain; charset="UTF-8"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(email.text),
+        `--${boundary}`,
+        'Content-Type: text/html; charset="UTF-8"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(email.html),
+        `--${boundary}--`,
+      ];
+    } else {
+      body = [
+        'Content-Type: text/plain; charset="UTF-8"',
+        'Content-Transfer-Encoding: base64',
+        '',
+        wrapBase64(email.text),
+      ];
+    }
+    const mime = [...headers, ...body].join('\r\n');
+
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.send({
+        userId: 'me',
+        requestBody: {
+          raw: Buffer.from(mime, 'utf8').toString('base64url'),
+          threadId: threading?.threadId,
+        },
+      });
+      return response.data.id || '';
+    });
+  }
+
+  /**
+   * Reply to the sender of a message, in the same thread. Replying to one of
+   * the user's own sent messages goes to its original recipients, as in Gmail.
+   */
+  async replyToEmail(messageId: string, text: string): Promise<string> {
+    const message = await this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'metadata',
+        metadataHeaders: ['From', 'Reply-To', 'To', 'Cc', 'Subject', 'Message-ID', 'References'],
+      });
+      return response.data;
+    });
+
+    const headers = message.payload?.headers || [];
+    const getHeader = (name: string) =>
+      headers.find((h: any) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+    const subject = getHeader('Subject');
+    const messageIdHeader = getHeader('Message-ID');
+    const isOwnMessage = message.labelIds?.includes('SENT');
+
+    return this.sendEmail(
+      {
+        to: isOwnMessage ? getHeader('To') : getHeader('Reply-To') || getHeader('From'),
+        cc: isOwnMessage ? getHeader('Cc') || undefined : undefined,
+        subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+        text,
+      },
+      {
+        threadId: message.threadId || undefined,
+        inReplyTo: messageIdHeader,
+        references: [getHeader('References'), messageIdHeader].filter(Boolean).join(' '),
+      }
+    );
+  }
+
+  /**
+   * Add and remove labels on a message. System labels cover the common
+   * actions: INBOX (archive), STARRED, UNREAD.
+   */
+  async modifyLabels(messageId: string, addLabelIds: string[], removeLabelIds: string[]): Promise<string[]> {
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.modify({
+        userId: 'me',
+        id: messageId,
+        requestBody: { addLabelIds, removeLabelIds },
+      });
+      return response.data.labelIds || [];
+    });
+  }
+
+  /**
+   * The user's own labels (system labels like INBOX are left out)
+   */
+  async listLabels(): Promise<EmailLabel[]> {
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.labels.list({ userId: 'me' });
+      return (response.data.labels || [])
+        .filter((label: any) => label.type === 'user')
+        .map((label: any) => ({ id: label.id, name: label.name }))
+        .sort((a: EmailLabel, b: EmailLabel) => a.name.localeCompare(b.name));
+    });
+  }
+
+  /**
+   * Plain-text body of a message, falling back to the HTML part with tags stripped
+   */
+  async getMessageText(messageId: string): Promise<string> {
+    const message = await this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.get({ userId: 'me', id: messageId, format: 'full' });
+      return response.data;
+    });
+    return getBodyText(message);
+  }
+
+  /**
+   * Every message in a thread, oldest first, with full bodies and attachment info.
+   * HTML bodies are returned as sent; the renderer sanitizes them before display.
+   */
+  async getThread(threadId: string): Promise<EmailThread> {
+    const thread = await this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.threads.get({ userId: 'me', id: threadId, format: 'full' });
+      return response.data;
+    });
+
+    const messages: EmailThreadMessage[] = (thread.messages || []).map((message: any) => {
+      const headers = message.payload?.headers || [];
+      const getHeader = (name: string) =>
+        headers.find((h: any) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+      const html = findPart(message.payload, 'text/html');
+      return {
+        id: message.id,
+        from: getHeader('From'),
+        to: getHeader('To'),
+        cc: getHeader('Cc') || undefined,
+        subject: getHeader('Subject'),
+        date: getHeader('Date'),
+        snippet: message.snippet || '',
+        bodyText: getBodyText(message),
+        bodyHtml: html ? decodePart(html) : undefined,
+        attachments: collectAttachments(message.payload),
+        isUnread: message.labelIds?.includes('UNREAD') || false,
+      };
+    });
+
+    return {
+      id: thread.id,
+      subject: messages[0]?.subject || '',
+      messages,
+    };
+  }
+
+  /**
+   * Raw bytes of an attachment
+   */
+  async getAttachment(messageId: string, attachmentId: string): Promise<Buffer> {
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.attachments.get({ userId: 'me', messageId, id: attachmentId });
+      return Buffer.from(response.data.data || '', 'base64url');
+    });
+  }
+
+  /**
+   * Messages matching a Gmail search query, newest first
+   */
+  async searchEmails(query: string, maxResults: number = 10): Promise<EmailMessage[]> {
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.messages.list({ userId: 'me', q: query, maxResults });
+      return Promise.all((response.data.messages || []).map(async (msg: any) => {
+        const details = await gmail.users.messages.get({
+          userId: 'me',
+          id: msg.id,
+          format: 'metadata',
+          metadataHeaders: ['From', 'Subject', 'Date'],
+        });
+        return this.parseEmailMessage(details.data);
+      }));
+    });
+  }
+
+  /**
+   * Sent messages from the last few days that ask for something and are still
+   * the latest message in their thread, i.e. nobody has replied yet
+   */
+  async getSentAwaitingReply(lookbackDays: number, maxResults: number = 30): Promise<AwaitingReply[]> {
+    return this.withTokenRefresh(async gmail => {
+      const response = await gmail.users.threads.list({
+        userId: 'me',
+        q: `in:sent newer_than:${lookbackDays}d`,
+        maxResults,
+      });
+
+      const threads = await Promise.all((response.data.threads || []).map(async (thread: any) => {
+        const details = await gmail.users.threads.get({
+          userId: 'me',
+          id: thread.id,
+          format: 'metadata',
+          metadataHeaders: ['To', 'Subject'],
+        });
+        return details.data;
+      }));
+
+      const awaiting: AwaitingReply[] = [];
+      for (const thread of threads) {
+        const last = thread.messages?.[thread.messages.length - 1];
+        if (!last?.labelIds?.includes('SENT')) continue;
+
+        const headers = last.payload?.headers || [];
+        const getHeader = (name: string) =>
+          headers.find((h: any) => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+        const subject = getHeader('Subject');
+        const snippet = last.snippet || '';
+        if (!looksLikeRequest(`${subject} ${snippet}`)) continue;
+
+        const to = getHeader('To');
+        awaiting.push({
+          id: last.id,
+          channel: 'email',
+          recipient: to.split(',')[0].replace(/<.*>/, '').replace(/["']/g, '').trim() || to,
+          topic: subject.replace(/^(re|fwd?):\s*/i, '') || '(No subject)',
+          text: snippet,
+          sentAt: new Date(Number(last.internalDate)).toISOString(),
+          url: `https://mail.google.com/mail/u/0/#sent/${thread.id}`,
+          gmailMessageId: last.id,
+          gmailThreadId: thread.id,
+        });
+      }
+      return awaiting;
+    });
+  }
+
+  // Run a Gmail call, refreshing the access token and retrying once on 401
+  private async withTokenRefresh<T>(fn: (gmail: any) => Promise<T>): Promise<T> {
+    const gmail = google.gmail({ version: 'v1', auth: this.oauth2Client });
+    try {
+      return await fn(gmail);
+    } catch (error: any) {
+      if (error.response?.status === 401) {
+        await this.oauth2Client.refreshAccessToken();
+        return fn(gmail);
+      }
+      if (error.response?.status === 403) {
+        throw new Error('Gmail permission missing. Please reconnect Google in Settings.');
+      }
+      throw error;
+    }
+  }
+
   private parseEmailMessage(message: any): EmailMessage {
     const headers = message.payload.headers;
     const getHeader = (name: string) => {
@@ -1,8 +1,7 @@
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import { getLogPath } from '../utils/paths';
 
-const logFilePath = path.join(os.homedir(), 'pm-os-jira-debug.log');
+const logFilePath = getLogPath('jira-debug.log');
 function logToFile(message: string) {
   const timestamp = new Date().toISOString();
   const logMessage = `[${timestamp}] ${message}`;
@@ -10,7 +9,7 @@ function logToFile(message: string) {
   console.log(message);
 }
 
-interface JiraIssue {
+export interface JiraIssue {
   id: string;
   key: string;
   fields: {
@@ -18,10 +17,14 @@ interface JiraIssue {
     description?: string;
     status: {
       name: string;
+      statusCategory?: {
+        key: string; // 'new' | 'indeterminate' | 'done'
+      };
     };
     assignee?: {
+      accountId?: string;
       displayName: string;
-    };
+    } | null;
     created: string;
     updated: string;
     priority?: {
@@ -30,6 +33,17 @@ interface JiraIssue {
   };
 }
 
+export interface JiraTransition {
+  id: string;
+  name: string;
+  to: {
+    name: string;
+    statusCategory?: {
+      key: string;
+    };
+  };
+}
+
 interface CreateIssueRequest {
   summary: string;
   description?: string;
@@ -106,6 +120,11 @@ export class JiraService {
       throw new Error(`Jira API error: ${response.status} ${response.statusText} - ${errorText}`);
     }
 
+    // Transitions and field updates reply with an empty body
+    if (response.status === 204) {
+      return null;
+    }
+
     return response.json();
   }
 
@@ -446,17 +465,50 @@ export class JiraService {
     return this.makeRequest(`/issue/${issueKey}`);
   }
 
+  /**
+   * Check whether an issue is in a Done status category
+   */
+  isIssueDone(issue: JiraIssue): boolean {
+    const status = issue.fields.status;
+    return status.statusCategory?.key === 'done' || status.name.toLowerCase() === 'done';
+  }
+
   /**
    * Get issues assigned to current user
    */
   async getMyIssues(maxResults: number = 20): Promise<JiraIssue[]> {
-    const jql = 'assignee = currentUser() AND status != Done ORDER BY updated DESC';
+    return this.searchIssues('assignee = currentUser() AND status != Done ORDER BY updated DESC', maxResults);
+  }
+
+  /**
+   * Search issues with arbitrary JQL
+   */
+  async searchIssues(jql: string, maxResults: number = 50): Promise<JiraIssue[]> {
     const response = await this.makeRequest(
       `/search?jql=${encodeURIComponent(jql)}&maxResults=${maxResults}`
     );
     return response.issues || [];
   }
 
+  /**
+   * Every issue matching the JQL, a page at a time. `complete` is false when `limit`
+   * stopped the search before the last page.
+   */
+  async searchAllIssues(jql: string, limit: number = 1000): Promise<{ issues: JiraIssue[]; complete: boolean }> {
+    const issues: JiraIssue[] = [];
+    while (issues.length < limit) {
+      const response = await this.makeRequest(
+        `/search?jql=${encodeURIComponent(jql)}&startAt=${issues.length}&maxResults=${Math.min(100, limit - issues.length)}`
+      );
+      const page: JiraIssue[] = response.issues || [];
+      issues.push(...page);
+      if (page.length === 0 || issues.length >= (response.total ?? issues.length)) {
+        return { issues, complete: true };
+      }
+    }
+    return { issues, complete: false };
+  }
+
   /**
    * Get recently updated issues
    */
@@ -482,6 +534,36 @@ export class JiraService {
     });
   }
 
+  /**
+   * Get the transitions currently available for an issue
+   */
+  async getTransitions(issueKey: string): Promise<JiraTransition[]> {
+    const response = await this.makeRequest(`/issue/${issueKey}/transitions`);
+    return response.transitions || [];
+  }
+
+  /**
+   * Priority names the issue's project allows, from its edit metadata (empty if priority isn't editable)
+   */
+  async getIssuePriorities(issueKey: string): Promise<string[]> {
+    const response = await this.makeRequest(`/issue/${issueKey}/editmeta`);
+    return (response.fields?.priority?.allowedValues || []).map((value: { name: string }) => value.name);
+  }
+
+  /**
+   * Update issue summary and/or priority
+   */
+  async updateIssueFields(issueKey: string, fields: { summary?: string; priority?: string }): Promise<void> {
+    const body: any = { fields: {} };
+    if (fields.summary !== undefined) body.fields.summary = fields.summary;
+    if (fields.priority !== undefined) body.fields.priority = { name: fields.priority };
+
+    await this.makeRequest(`/issue/${issueKey}`, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    });
+  }
+
   /**
    * Add comment to issue
    */
@@ -0,0 +1,143 @@
+// Workloads that can be routed to a different provider/model
+export type LLMTask = 'chat' | 'digest-triage' | 'doc-formatting' | 'suggestions' | 'transcription';
+
+export const LLM_TASKS: LLMTask[] = ['chat', 'digest-triage', 'doc-formatting', 'suggestions', 'transcription'];
+
+export const LLM_TASK_LABELS: Record<LLMTask, { label: string; description: string }> = {
+  'chat': { label: 'Chat', description: 'Reply drafts, summaries and other free-form requests' },
+  'digest-triage': { label: 'Digest triage', description: 'Deciding which Slack messages need action' },
+  'doc-formatting': { label: 'Doc formatting', description: 'Jira ticket titles and Confluence pages' },
+  'suggestions': { label: 'Suggestions', description: 'Rewriting and ranking Smart Suggestions' },
+  'transcription': { label: 'Transcription', description: 'Voice input (Whisper-compatible)' },
+};
+
+// 'openai' talks to api.openai.com; 'openai-compatible' is any server speaking the
+// same API (Ollama, llama.cpp, vLLM, LM Studio...) and is treated as free to run
+export type LLMProviderKind = 'openai' | 'openai-compatible';
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  kind: LLMProviderKind;
+  baseUrl?: string;  // Required for openai-compatible, e.g. http://localhost:11434/v1
+  apiKey?: string;   // Falls back to OPENAI_API_KEY for the built-in OpenAI provider
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;  // Ask for a JSON object response
+}
+
+export interface LLMRoute {
+  providerId: string;
+  model: string;
+}
+
+export interface LLMSettings {
+  providers: LLMProvider[];
+  routes: Record<LLMTask, LLMRoute>;
+  timeoutSeconds: number;
+  maxRetries: number;  // Retries on connection errors, 408/409/429 and 5xx, with backoff
+}
+
+export const OPENAI_PROVIDER_ID = 'openai';
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  providers: [
+    { id: OPENAI_PROVIDER_ID, name: 'OpenAI', kind: 'openai' },
+  ],
+  routes: {
+    'chat': { providerId: OPENAI_PROVIDER_ID, model: 'gpt-4o' },
+    'digest-triage': { providerId: OPENAI_PROVIDER_ID, model: 'gpt-4o-mini' },
+    'doc-formatting': { providerId: OPENAI_PROVIDER_ID, model: 'gpt-4o' },
+    'suggestions': { providerId: OPENAI_PROVIDER_ID, model: 'gpt-3.5-turbo' },
+    'transcription': { providerId: OPENAI_PROVIDER_ID, model: 'whisper-1' },
+  },
+  timeoutSeconds: 60,
+  maxRetries: 2,
+};
+
+/**
+ * Fill in defaults for settings saved by an older version or edited by hand
+ */
+export function normalizeLLMSettings(settings?: Partial<LLMSettings>): LLMSettings {
+  const providers = settings?.providers?.length ? settings.providers : DEFAULT_LLM_SETTINGS.providers;
+  return {
+    ...DEFAULT_LLM_SETTINGS,
+    ...settings,
+    providers,
+    routes: { ...DEFAULT_LLM_SETTINGS.routes, ...settings?.routes },
+  };
+}
+
+// USD per million tokens. Matched by longest prefix so dated snapshots
+// (e.g. gpt-4o-2024-08-06) pick up their family's price.
+const TOKEN_PRICES: Record<string, { input: number; output: number }> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+};
+
+// USD per minute of audio
+const AUDIO_PRICES: Record<string, number> = {
+  'whisper-1': 0.006,
+};
+
+function findPrice<T>(prices: Record<string, T>, model: string): T | undefined {
+  const match = Object.keys(prices)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : undefined;
+}
+
+/**
+ * Estimated cost in USD, or null when the model's price is unknown
+ */
+export function estimateCost(
+  kind: LLMProviderKind,
+  model: string,
+  usage: { promptTokens?: number; completionTokens?: number; audioSeconds?: number }
+): number | null {
+  if (kind === 'openai-compatible') return 0;
+
+  if (usage.audioSeconds !== undefined) {
+    const perMinute = findPrice(AUDIO_PRICES, model);
+    return perMinute === undefined ? null : perMinute * usage.audioSeconds / 60;
+  }
+
+  const price = findPrice(TOKEN_PRICES, model);
+  if (!price) return null;
+  return ((usage.promptTokens || 0) * price.input + (usage.completionTokens || 0) * price.output) / 1_000_000;
+}
+
+export interface LLMUsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  audioSeconds: number;
+  costUsd: number;
+  unpricedRequests: number;  // Successful requests to models with no known price
+}
+
+export interface LLMUsage {
+  since: string;
+  byTask: Partial<Record<LLMTask, LLMUsageTotals>>;
+  byModel: Record<string, LLMUsageTotals>;  // Keyed by "providerId/model"
+}
+
+export function emptyUsageTotals(): LLMUsageTotals {
+  return { requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, audioSeconds: 0, costUsd: 0, unpricedRequests: 0 };
+}
@@ -0,0 +1,133 @@
+import type { TaskTag } from '../types/task';
+
+export interface BriefAttendee {
+  email: string;
+  name?: string;
+  responseStatus?: string;
+}
+
+// A recent conversation with one of the attendees
+export interface BriefThread {
+  id: string;
+  source: 'email' | 'slack';
+  title: string;     // Email subject or Slack message text
+  from: string;
+  date: string;      // ISO
+  url?: string;
+}
+
+export interface BriefIssue {
+  key: string;
+  summary: string;
+  status: string;
+  assignee: string;
+  url: string;
+}
+
+export interface BriefDoc {
+  title: string;
+  url: string;
+}
+
+export interface BriefTask {
+  id: string;
+  title: string;
+  priority?: string;
+  dueDate?: string;
+}
+
+export interface MeetingBrief {
+  eventId: string;
+  eventTitle: string;
+  start: string;
+  generatedAt: string;
+  attendees: BriefAttendee[];
+  threads: BriefThread[];
+  issues: BriefIssue[];
+  docs: BriefDoc[];
+  tasks: BriefTask[];
+  sentToSlack?: boolean;
+}
+
+export interface MeetingPrepSettings {
+  enabled: boolean;
+  leadMinutes: number;  // How long before the meeting the brief is prepared
+  slackDm: boolean;     // Also DM the brief to the user on Slack
+}
+
+export const DEFAULT_MEETING_PREP_SETTINGS: MeetingPrepSettings = {
+  enabled: true,
+  leadMinutes: 30,
+  slackDm: false,
+};
+
+export function normalizeMeetingPrepSettings(settings?: Partial<MeetingPrepSettings>): MeetingPrepSettings {
+  return { ...DEFAULT_MEETING_PREP_SETTINGS, ...settings };
+}
+
+// Video call links aren't docs
+const MEETING_LINK_HOSTS = ['zoom.us', 'zoom.com', 'meet.google.com', 'teams.microsoft.com', 'teams.live.com', 'webex.com'];
+
+function describeLink(url: URL): string {
+  const { hostname, pathname } = url;
+  if (hostname === 'docs.google.com') {
+    if (pathname.startsWith('/document')) return 'Google Doc';
+    if (pathname.startsWith('/spreadsheets')) return 'Google Sheet';
+    if (pathname.startsWith('/presentation')) return 'Google Slides';
+  }
+  if (hostname === 'drive.google.com') return 'Google Drive file';
+  if (hostname.endsWith('atlassian.net')) {
+    const issueKey = pathname.match(/\/browse\/([A-Z][A-Z0-9]+-\d+)/)?.[1];
+    if (issueKey) return `Jira ${issueKey}`;
+    if (pathname.startsWith('/wiki')) {
+      const title = pathname.split('/').pop()?.replace(/\+/g, ' ');
+      return title && !/^\d+$/.test(title) ? decodeURIComponent(title) : 'Confluence page';
+    }
+  }
+  if (hostname.endsWith('notion.so')) return 'Notion page';
+  if (hostname.endsWith('figma.com')) return 'Figma file';
+  return hostname.replace(/^www\./, '');
+}
+
+/**
+ * Links in an event description, minus the video call link. Calendar
+ * descriptions are often HTML, so hrefs and bare URLs both count.
+ */
+export function extractDocLinks(description?: string): BriefDoc[] {
+  if (!description) return [];
+  const docs: BriefDoc[] = [];
+  const seen = new Set<string>();
+
+  for (const match of description.matchAll(/https?:\/\/[^\s"'<>]+/g)) {
+    const raw = match[0].replace(/&amp;/g, '&').replace(/[,;.)}\]]+$/, '');
+    let url: URL;
+    try {
+      url = new URL(raw);
+    } catch {
+      continue;
+    }
+    if (MEETING_LINK_HOSTS.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`))) continue;
+    if (seen.has(url.href)) continue;
+    seen.add(url.href);
+    docs.push({ title: describeLink(url), url: url.href });
+  }
+  return docs;
+}
+
+/**
+ * Open tasks tagged with a project the meeting is about, i.e. whose tag
+ * appears in the event title or description
+ */
+export function findTasksForMeeting<T extends { completed: boolean; tags?: TaskTag[] }>(
+  tasks: T[],
+  event: { title: string; description?: string }
+): T[] {
+  const text = `${event.title} ${event.description || ''}`.toLowerCase();
+  return tasks.filter(task =>
+    !task.completed &&
+    task.tags?.some(tag => {
+      const label = tag.label.trim().toLowerCase();
+      return label.length > 1 && new RegExp(`\\b${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text);
+    })
+  );
+}
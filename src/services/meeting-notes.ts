@@ -0,0 +1,172 @@
+import { format } from 'date-fns';
+
+// What to do with an extracted action item
+export type ActionItemTarget = 'task' | 'jira' | 'skip';
+
+// Where the meeting note is written
+export type MeetingNoteDestination = 'obsidian' | 'confluence' | 'none';
+
+export interface MeetingNotesEvent {
+  id: string;
+  title: string;
+  start: string;
+  end: string;
+  htmlLink?: string;
+  attendees?: { email: string; displayName?: string; self?: boolean }[];
+}
+
+export interface MeetingActionItem {
+  id: string;
+  title: string;
+  owner?: string;       // Name as it appears in the notes
+  ownerEmail?: string;  // Set when the owner matches an attendee
+  dueDate?: string;     // YYYY-MM-DD
+}
+
+export interface MeetingNotesExtraction {
+  summary: string;
+  decisions: string[];
+  actionItems: MeetingActionItem[];
+}
+
+export interface CreatedJiraIssue {
+  key: string;
+  url: string;
+  title: string;
+}
+
+export interface CreatedMeetingNote {
+  destination: Exclude<MeetingNoteDestination, 'none'>;
+  title: string;
+  url: string;
+}
+
+/**
+ * What was captured after a meeting, keyed by event ID. A record with
+ * `dismissed` set means the user skipped the end-of-meeting prompt.
+ */
+export interface MeetingNotesRecord {
+  eventId: string;
+  eventTitle: string;
+  capturedAt: string;
+  dismissed?: boolean;
+  summary?: string;
+  decisions?: string[];
+  taskIds: string[];
+  jiraIssues: CreatedJiraIssue[];
+  note?: CreatedMeetingNote;
+}
+
+export interface ApplyMeetingNotesRequest {
+  event: MeetingNotesEvent;
+  notes: string;
+  extraction: MeetingNotesExtraction;
+  targets: Record<string, ActionItemTarget>;  // Keyed by action item ID
+  destination: MeetingNoteDestination;
+}
+
+type Attendee = NonNullable<MeetingNotesEvent['attendees']>[number];
+
+// Match an owner as written ("Sam", "sam@acme.com", "Sam Lee") to an attendee
+function matchAttendee(owner: string, attendees: Attendee[]): Attendee | undefined {
+  const needle = owner.trim().toLowerCase();
+  if (!needle) return undefined;
+  return (
+    attendees.find(a => a.email.toLowerCase() === needle) ||
+    attendees.find(a => a.displayName?.toLowerCase() === needle) ||
+    attendees.find(a => {
+      const name = (a.displayName || a.email.split('@')[0]).toLowerCase();
+      return name.split(/[\s._-]+/)[0] === needle.split(/\s+/)[0];
+    })
+  );
+}
+
+/**
+ * Parse the LLM's JSON reply. Tolerates code fences and missing fields;
+ * throws if there's no JSON object at all.
+ */
+export function parseMeetingExtraction(content: string, attendees: Attendee[] = []): MeetingNotesExtraction {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) {
+    throw new Error('Could not read action items from the AI response');
+  }
+  const parsed = JSON.parse(json);
+
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+  const actionItems: MeetingActionItem[] = (Array.isArray(parsed.actionItems) ? parsed.actionItems : [])
+    .filter((item: any) => typeof item?.title === 'string' && item.title.trim())
+    .map((item: any, index: number) => {
+      const owner = typeof item.owner === 'string' && item.owner.trim() ? item.owner.trim() : undefined;
+      const attendee = owner ? matchAttendee(owner, attendees) : undefined;
+      return {
+        id: `action_${index}`,
+        title: item.title.trim(),
+        owner: owner || attendee?.displayName,
+        ownerEmail: attendee?.email,
+        dueDate: typeof item.dueDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(item.dueDate) ? item.dueDate : undefined,
+      };
+    });
+
+  return {
+    summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+    decisions: strings(parsed.decisions),
+    actionItems,
+  };
+}
+
+/**
+ * Title for the meeting note, e.g. "Roadmap sync 2024-05-02"
+ */
+export function getMeetingNoteTitle(event: MeetingNotesEvent): string {
+  return `${event.title} ${format(new Date(event.start), 'yyyy-MM-dd')}`;
+}
+
+/**
+ * The meeting note as markdown, linking back to the calendar event and to
+ * any Jira issues created from its action items
+ */
+export function buildMeetingNoteMarkdown(
+  event: MeetingNotesEvent,
+  notes: string,
+  extraction: MeetingNotesExtraction,
+  jiraIssues: Record<string, CreatedJiraIssue> = {}
+): string {
+  const attendees = (event.attendees || [])
+    .filter(a => !a.email.endsWith('resource.calendar.google.com'))
+    .map(a => a.displayName || a.email);
+
+  const lines = [
+    `# ${event.title}`,
+    '',
+    `**Date:** ${format(new Date(event.start), 'EEE, MMM d, yyyy h:mm a')}`,
+  ];
+  if (event.htmlLink) {
+    lines.push(`**Calendar event:** [Open in Google Calendar](${event.htmlLink})`);
+  }
+  if (attendees.length > 0) {
+    lines.push(`**Attendees:** ${attendees.join(', ')}`);
+  }
+
+  if (extraction.summary) {
+    lines.push('', '## Summary', '', extraction.summary);
+  }
+  if (extraction.decisions.length > 0) {
+    lines.push('', '## Decisions', '', ...extraction.decisions.map(d => `- ${d}`));
+  }
+  if (extraction.actionItems.length > 0) {
+    lines.push('', '## Action Items', '');
+    extraction.actionItems.forEach(item => {
+      const details = [item.owner, item.dueDate && `due ${item.dueDate}`].filter(Boolean).join(', ');
+      const issue = jiraIssues[item.id];
+      lines.push(
+        `- [ ] ${item.title}${details ? ` (${details})` : ''}${issue ? ` [${issue.key}](${issue.url})` : ''}`
+      );
+    });
+  }
+  if (notes.trim()) {
+    lines.push('', '## Notes', '', notes.trim());
+  }
+  return lines.join('\n');
+}
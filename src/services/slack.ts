@@ -1,9 +1,9 @@
 import { WebClient } from '@slack/web-api';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
+import { looksLikeRequest, type AwaitingReply } from './follow-ups';
+import { getLogPath } from '../utils/paths';
 
-const logFilePath = path.join(os.homedir(), 'pm-os-slack-debug.log');
+const logFilePath = getLogPath('slack-debug.log');
 function logToFile(message: string) {
   const timestamp = new Date().toISOString();
   const logMessage = `[${timestamp}] ${message}`;
@@ -656,6 +656,119 @@ export class SlackService {
     }
   }
 
+  /**
+   * The user's own recent messages that ask for something and haven't had a
+   * reply from anyone else yet
+   */
+  async getMessagesAwaitingReply(lookbackDays: number, limit: number = 30): Promise<AwaitingReply[]> {
+    if (!this.client) throw new Error('Slack client not initialized');
+
+    try {
+      const authTest = await this.client.auth.test();
+      const userId = authTest.user_id as string;
+
+      // Slack's after: is exclusive and day-granular
+      const after = new Date(Date.now() - (lookbackDays + 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const response = await this.client.search.messages({
+        query: `from:<@${userId}> after:${after}`,
+        sort: 'timestamp',
+        sort_dir: 'desc',
+        count: limit,
+      });
+
+      const awaiting: AwaitingReply[] = [];
+      for (const match of (response.messages?.matches || []) as any[]) {
+        const text: string = match.text || '';
+        const channelId: string = match.channel?.id || '';
+        if (!channelId || !match.ts || !looksLikeRequest(text)) continue;
+
+        // Search results don't include thread_ts; the permalink does for thread replies
+        const threadTs = match.permalink?.match(/thread_ts=([\d.]+)/)?.[1] || match.ts;
+        const isDirect = !!(match.channel?.is_im || match.channel?.is_mpim);
+        if (await this.hasReplyFromOthers(channelId, threadTs, match.ts, userId, isDirect)) continue;
+
+        const topic = text.replace(/<@[A-Z0-9]+(\|[^>]+)?>/g, '').replace(/\s+/g, ' ').trim();
+        awaiting.push({
+          id: `${channelId}_${match.ts}`,
+          channel: 'slack',
+          recipient: await this.getRecipientName(match, text),
+          topic: topic.length > 60 ? `${topic.substring(0, 60)}...` : topic,
+          text,
+          sentAt: new Date(parseFloat(match.ts) * 1000).toISOString(),
+          url: match.permalink,
+          slackChannelId: channelId,
+          slackThreadTs: threadTs,
+        });
+      }
+      return awaiting;
+    } catch (error) {
+      console.error('Failed to get Slack messages awaiting reply:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Recent messages from each of these people, looked up by email address
+   */
+  async getRecentMessagesFrom(emails: string[], lookbackDays: number, perPerson: number = 3): Promise<SlackMessage[]> {
+    if (!this.client) throw new Error('Slack client not initialized');
+    const client = this.client;
+
+    const after = new Date(Date.now() - (lookbackDays + 1) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const perEmail = await Promise.all(emails.map(async email => {
+      try {
+        const lookup = await client.users.lookupByEmail({ email });
+        if (!lookup.user?.id) return [];
+        const response = await client.search.messages({
+          query: `from:<@${lookup.user.id}> after:${after}`,
+          sort: 'timestamp',
+          sort_dir: 'desc',
+          count: perPerson,
+        });
+        const userName = lookup.user.real_name || lookup.user.name;
+        return this.parseMessages(response.messages?.matches || [], 'channel').map(msg => ({ ...msg, userName }));
+      } catch {
+        // Not everyone on the invite is in the Slack workspace
+        return [];
+      }
+    }));
+    return perEmail.flat();
+  }
+
+  // A reply counts if someone else posted in the thread after the message, or
+  // anywhere in a DM after it
+  private async hasReplyFromOthers(
+    channelId: string,
+    threadTs: string,
+    ts: string,
+    userId: string,
+    isDirect: boolean
+  ): Promise<boolean> {
+    if (!this.client) return false;
+    const isReply = (msg: any) => msg.user && msg.user !== userId && parseFloat(msg.ts) > parseFloat(ts);
+
+    const replies = await this.client.conversations.replies({ channel: channelId, ts: threadTs, oldest: ts });
+    if ((replies.messages || []).some(isReply)) return true;
+
+    if (isDirect) {
+      const history = await this.client.conversations.history({ channel: channelId, oldest: ts, limit: 20 });
+      if ((history.messages || []).some(isReply)) return true;
+    }
+    return false;
+  }
+
+  // The first person mentioned, the other side of a DM, or the channel
+  private async getRecipientName(match: any, text: string): Promise<string> {
+    const mentioned = text.match(/<@([A-Z0-9]+)(?:\|([^>]+))?>/);
+    const userId = mentioned?.[1] || (match.channel?.is_im ? match.channel?.user || match.channel?.name : undefined);
+    if (userId) {
+      const info = await this.getUserInfo(userId);
+      if (info) return info.realName || info.name;
+      if (mentioned?.[2]) return mentioned[2];
+    }
+    return match.channel?.name ? `#${match.channel.name}` : 'the channel';
+  }
+
   private parseMessages(messages: any[], type: SlackMessage['type']): SlackMessage[] {
     return messages.map(msg => {
       const channelId = msg.channel?.id || msg.channel || '';
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { clusterSuggestions, normalizePerson, suggestionSimilarity, type ClusterableSuggestion } from './suggestion-clustering';
+
+function suggestion(id: string, source: string, excerpt: string, changes: Partial<ClusterableSuggestion> = {}): ClusterableSuggestion {
+  return {
+    id,
+    source,
+    title: excerpt,
+    score: 50,
+    excerpt,
+    people: ['Dana Lee <dana@acme.com>'],
+    occurredAt: '2026-03-10T09:00:00Z',
+    ...changes,
+  };
+}
+
+describe('normalizePerson', () => {
+  it('matches a name, an address and "Name <address>"', () => {
+    expect(normalizePerson('Dana Lee <dana.lee@acme.com>')).toEqual(expect.arrayContaining(['dana.lee@acme.com', 'dana lee']));
+    expect(normalizePerson('dana.lee@acme.com')).toContain('dana lee');
+    expect(normalizePerson('Dana Lee')).toEqual(['dana lee']);
+  });
+});
+
+describe('suggestionSimilarity', () => {
+  it('is 0 when only the sender and timing match', () => {
+    const a = suggestion('a', 'email', 'Budget numbers for Q2 planning');
+    const b = suggestion('b', 'slack', 'Lunch on Friday? Budget is fine');
+    expect(suggestionSimilarity(a, b)).toBe(0);
+  });
+
+  it('adds people and timing on top of real text overlap', () => {
+    const a = suggestion('a', 'email', 'Review the Q2 roadmap draft before Thursday');
+    const b = suggestion('b', 'slack', 'Can you review the Q2 roadmap draft?');
+    const stranger = { ...b, people: ['Sam <sam@other.com>'], occurredAt: '2026-03-20T09:00:00Z' };
+    expect(suggestionSimilarity(a, b)).toBeGreaterThan(suggestionSimilarity(a, stranger));
+  });
+});
+
+describe('clusterSuggestions', () => {
+  it('merges the same ask from different sources', () => {
+    const email = suggestion('email_1', 'email', 'Review the Q2 roadmap draft before Thursday', {
+      score: 70,
+      linkedItems: [{ id: 'gmail_1', type: 'gmail', title: 'Q2 roadmap' }],
+    });
+    const slack = suggestion('slack_1', 'slack', 'Can you review the Q2 roadmap draft?', {
+      linkedItems: [{ id: 'slack_1', type: 'slack', title: 'Slack message' }],
+    });
+
+    const [merged, ...rest] = clusterSuggestions([slack, email]);
+    expect(rest).toEqual([]);
+    expect(merged).toMatchObject({ id: 'email_1', score: 80, clusterIds: ['email_1', 'slack_1'] });
+    expect(merged.linkedItems?.map(item => item.id)).toEqual(['gmail_1', 'slack_1']);
+    expect(merged.scoreBreakdown).toEqual([expect.objectContaining({ kind: 'cluster', label: 'Also seen in Slack' })]);
+  });
+
+  it('keeps separate messages from the same source apart', () => {
+    const first = suggestion('slack_1', 'slack', 'Can you review the Q2 roadmap draft?');
+    const second = suggestion('slack_2', 'slack', 'Reminder: review the Q2 roadmap draft');
+    expect(clusterSuggestions([first, second])).toHaveLength(2);
+  });
+
+  it('keeps unrelated messages from the same sender apart', () => {
+    const email = suggestion('email_1', 'email', 'Budget numbers for Q2 planning');
+    const slack = suggestion('slack_1', 'slack', 'Lunch on Friday? Budget is fine');
+    expect(clusterSuggestions([email, slack])).toHaveLength(2);
+  });
+});
@@ -0,0 +1,154 @@
+import type { LinkedItem } from '../types/task';
+import type { LearningSignal } from './suggestion-learning';
+import type { ScoreFactor } from './suggestion-scoring';
+
+// Fields clustering reads from (and merges into) a suggestion
+export interface ClusterableSuggestion {
+  id: string;
+  source: string;
+  title: string;
+  score: number;
+  excerpt?: string;          // Raw message/subject/event text, used for similarity
+  people?: string[];         // Sender, attendees, etc.: names or email addresses
+  occurredAt?: string;       // When the message was sent or the event starts
+  linkedItems?: LinkedItem[];
+  scoreBreakdown?: ScoreFactor[];
+  learningSignals?: LearningSignal[];
+  clusterIds?: string[];     // Every suggestion merged into this one (including itself)
+  relatedSuggestions?: { id: string; source: string; title: string }[];
+}
+
+// Pairs at or above this similarity are merged
+const CLUSTER_THRESHOLD = 0.5;
+const TEXT_WEIGHT = 0.6;
+const PEOPLE_WEIGHT = 0.3;
+const TIME_WEIGHT = 0.1;
+// Shared people and timing only corroborate: below this word overlap (Jaccard) a pair never merges
+const MIN_TEXT_OVERLAP = 0.2;
+// Items further apart than this get no time-proximity credit
+const TIME_WINDOW_MS = 48 * 60 * 60 * 1000;
+// Score bonus for each additional source that corroborates a cluster
+const CORROBORATION_POINTS = 10;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'are', 'with', 'this', 'that', 'from', 'have', 'has', 'was', 'will',
+  'can', 'could', 'would', 'should', 'please', 'thanks', 'thank', 'just', 'about', 'into', 'our', 'its',
+  'hey', 'hi', 'hello', 're', 'fwd', 'fw', 'let', 'know', 'get', 'any', 'all', 'not', 'but', 'what', 'when',
+]);
+
+const SOURCE_LABELS: Record<string, string> = {
+  calendar: 'Calendar',
+  email: 'Email',
+  slack: 'Slack',
+};
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text.toLowerCase()
+      .replace(/<[^>]+>/g, ' ')          // Slack user/channel references
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 2 && !STOPWORDS.has(word))
+  );
+}
+
+/**
+ * Normalize a person identifier so "Jane Doe", "jane.doe@acme.com" and
+ * "Jane Doe <jane@acme.com>" compare equal where possible
+ */
+export function normalizePerson(person: string): string[] {
+  const keys = new Set<string>();
+  const address = person.match(/<(.+?)>/)?.[1] || (person.includes('@') ? person : '');
+  const name = person.replace(/<.*?>/, '').replace(/["']/g, '').trim();
+
+  if (address) {
+    keys.add(address.toLowerCase());
+    keys.add(address.split('@')[0].toLowerCase().replace(/[._-]+/g, ' '));
+  }
+  if (name && !name.includes('@')) {
+    keys.add(name.toLowerCase().replace(/\s+/g, ' '));
+  }
+  return Array.from(keys).filter(Boolean);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(word => { if (b.has(word)) shared++; });
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity between two suggestions (0-1) from text overlap, shared people and time proximity.
+ * 0 when the texts barely overlap, however close the people and timing are.
+ */
+export function suggestionSimilarity(a: ClusterableSuggestion, b: ClusterableSuggestion): number {
+  const text = jaccard(tokenize(a.excerpt || a.title), tokenize(b.excerpt || b.title));
+  if (text < MIN_TEXT_OVERLAP) return 0;
+
+  const peopleA = new Set((a.people || []).flatMap(normalizePerson));
+  const sharesPerson = (b.people || []).flatMap(normalizePerson).some(p => peopleA.has(p));
+
+  let time = 0;
+  if (a.occurredAt && b.occurredAt) {
+    const gap = Math.abs(new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+    time = isNaN(gap) ? 0 : Math.max(0, 1 - gap / TIME_WINDOW_MS);
+  }
+
+  return TEXT_WEIGHT * Math.min(1, text * 2) + (sharesPerson ? PEOPLE_WEIGHT : 0) + TIME_WEIGHT * time;
+}
+
+/**
+ * Merge near-duplicate suggestions from different sources, e.g. the same ask by
+ * Slack and email. A cluster holds at most one suggestion per source, so two
+ * separate messages from the same sender stay separate. The highest-scoring
+ * member of each cluster is kept and picks up the others' linked items and
+ * learning signals, plus a small bonus for each extra source.
+ */
+export function clusterSuggestions<T extends ClusterableSuggestion>(suggestions: T[]): T[] {
+  const clusters: T[][] = [];
+  const sorted = [...suggestions].sort((a, b) => b.score - a.score);
+
+  for (const suggestion of sorted) {
+    const cluster = clusters.find(members =>
+      members.every(member => member.source !== suggestion.source) &&
+      members.some(member => suggestionSimilarity(member, suggestion) >= CLUSTER_THRESHOLD)
+    );
+    if (cluster) {
+      cluster.push(suggestion);
+    } else {
+      clusters.push([suggestion]);
+    }
+  }
+
+  return clusters.map(members => members.length === 1 ? members[0] : mergeCluster(members));
+}
+
+function mergeCluster<T extends ClusterableSuggestion>(members: T[]): T {
+  const [primary, ...others] = members;
+
+  const linkedItems = new Map<string, LinkedItem>();
+  const learningSignals = new Map<string, LearningSignal>();
+  for (const member of members) {
+    member.linkedItems?.forEach(item => linkedItems.set(item.id, item));
+    member.learningSignals?.forEach(signal => learningSignals.set(signal.key, signal));
+  }
+
+  const extraSources = Array.from(new Set(others.map(o => o.source))).filter(s => s !== primary.source);
+  const bonus: ScoreFactor[] = extraSources.length > 0
+    ? [{
+        kind: 'cluster',
+        label: `Also seen in ${extraSources.map(s => SOURCE_LABELS[s] || s).join(', ')}`,
+        points: CORROBORATION_POINTS * extraSources.length,
+      }]
+    : [];
+
+  return {
+    ...primary,
+    score: primary.score + bonus.reduce((sum, f) => sum + f.points, 0),
+    scoreBreakdown: [...(primary.scoreBreakdown || []), ...bonus],
+    linkedItems: Array.from(linkedItems.values()),
+    learningSignals: Array.from(learningSignals.values()),
+    clusterIds: members.map(m => m.id),
+    relatedSuggestions: others.map(o => ({ id: o.id, source: o.source, title: o.title })),
+  };
+}
@@ -0,0 +1,133 @@
+import type { ScoreFactor, ScoringRules, ScoringSignals, ScoringStage } from './suggestion-scoring';
+
+export type LearningSignalKind = 'source' | 'sender' | 'channel' | 'keyword';
+export type SuggestionOutcome = 'accepted' | 'dismissed';
+
+// A feature of a suggestion that accept/dismiss feedback is recorded against
+export interface LearningSignal {
+  key: string;    // e.g. "channel:c024be91l"
+  kind: LearningSignalKind;
+  label: string;  // Human-readable, e.g. "#random"
+}
+
+export interface LearningStats {
+  kind: LearningSignalKind;
+  label: string;
+  accepted: number;
+  dismissed: number;
+  updatedAt: string;
+}
+
+// Persisted feedback, keyed by LearningSignal.key
+export type SuggestionFeedback = Record<string, LearningStats>;
+
+export interface LearnedWeight extends LearningStats {
+  key: string;
+  points: number;
+}
+
+// Largest boost or penalty a single learned signal can contribute
+const MAX_LEARNED_POINTS = 30;
+// Feedback needed before a signal affects scores
+const MIN_FEEDBACK_EVENTS = 3;
+// Pulls weights toward zero until there's a decent amount of feedback
+const SMOOTHING = 4;
+
+const SOURCE_LABELS: Record<string, string> = {
+  calendar: 'Calendar',
+  email: 'Email',
+  slack: 'Slack',
+};
+
+/**
+ * Signals for a suggestion. Senders and channels are [display name, stable ID];
+ * the stable ID is used as the key so renames don't reset what was learned.
+ */
+export function getLearningSignals(signals: ScoringSignals, rules: ScoringRules): LearningSignal[] {
+  const result: LearningSignal[] = [
+    { key: `source:${signals.source}`, kind: 'source', label: SOURCE_LABELS[signals.source] || signals.source },
+  ];
+
+  const [senderName, senderId] = signals.senders || [];
+  if (senderId || senderName) {
+    result.push({ key: `sender:${(senderId || senderName).toLowerCase()}`, kind: 'sender', label: senderName || senderId });
+  }
+
+  const [channelName, channelId] = signals.channels || [];
+  if (channelId || channelName) {
+    result.push({ key: `channel:${(channelId || channelName).toLowerCase()}`, kind: 'channel', label: `#${channelName || channelId}` });
+  }
+
+  const text = signals.text.toLowerCase();
+  for (const boost of rules.keywordBoosts) {
+    const keyword = boost.keyword.trim().toLowerCase();
+    if (keyword && text.includes(keyword)) {
+      result.push({ key: `keyword:${keyword}`, kind: 'keyword', label: `"${keyword}"` });
+    }
+  }
+
+  return result;
+}
+
+export function recordFeedback(
+  feedback: SuggestionFeedback,
+  signals: LearningSignal[],
+  outcome: SuggestionOutcome
+): SuggestionFeedback {
+  const next = { ...feedback };
+  const now = new Date().toISOString();
+  for (const signal of signals) {
+    const stats = next[signal.key] || { kind: signal.kind, label: signal.label, accepted: 0, dismissed: 0, updatedAt: now };
+    next[signal.key] = {
+      ...stats,
+      label: signal.label,
+      [outcome]: stats[outcome] + 1,
+      updatedAt: now,
+    };
+  }
+  return next;
+}
+
+/**
+ * Turn accept/dismiss counts into score adjustments, strongest first
+ */
+export function getLearnedWeights(feedback: SuggestionFeedback): LearnedWeight[] {
+  return Object.entries(feedback)
+    .map(([key, stats]) => {
+      const total = stats.accepted + stats.dismissed;
+      const points = total < MIN_FEEDBACK_EVENTS
+        ? 0
+        : Math.round(MAX_LEARNED_POINTS * (stats.accepted - stats.dismissed) / (total + SMOOTHING));
+      return { key, ...stats, points };
+    })
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points) || a.label.localeCompare(b.label));
+}
+
+export function describeLearnedWeight(weight: LearnedWeight): string {
+  const total = weight.accepted + weight.dismissed;
+  const subject = {
+    source: `${weight.label} suggestions`,
+    sender: `suggestions from ${weight.label}`,
+    channel: `suggestions in ${weight.label}`,
+    keyword: `suggestions mentioning ${weight.label}`,
+  }[weight.kind];
+  return weight.points < 0
+    ? `You dismissed ${weight.dismissed} of ${total} ${subject}`
+    : `You accepted ${weight.accepted} of ${total} ${subject}`;
+}
+
+/**
+ * Scoring stage that applies the learned weights in the scoring context
+ */
+export const learnedStage: ScoringStage = (signals, { rules, learnedWeights }) => {
+  if (!rules.learningEnabled || !learnedWeights || learnedWeights.length === 0) return [];
+
+  const factors: ScoreFactor[] = [];
+  for (const signal of getLearningSignals(signals, rules)) {
+    const weight = learnedWeights.find(w => w.key === signal.key);
+    if (weight && weight.points !== 0) {
+      factors.push({ kind: 'learned', label: describeLearnedWeight(weight), points: weight.points });
+    }
+  }
+  return factors;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySuggestionLimits,
+  isInQuietHours,
+  normalizeScoringRules,
+  scoreSuggestion,
+  DEFAULT_SCORING_RULES,
+  type ScoreFactor,
+  type ScoringContext,
+  type ScoringRules,
+} from './suggestion-scoring';
+
+const BASE: ScoreFactor[] = [{ kind: 'base', label: 'Email', points: 50 }];
+
+function context(rules: Partial<ScoringRules> = {}, now = new Date(2026, 0, 5, 12, 0)): ScoringContext {
+  return { rules: normalizeScoringRules(rules), now };
+}
+
+describe('scoreSuggestion', () => {
+  it('adds VIP, keyword and channel points to the base', () => {
+    const { score, scoreBreakdown } = scoreSuggestion(BASE, {
+      source: 'slack',
+      senders: ['Dana', 'U123'],
+      channels: ['launch', 'C456'],
+      text: 'Can you review this ASAP?',
+    }, context({ vipSenders: ['u123'], channelWeights: [{ channel: '#launch', points: 15 }] }));
+
+    expect(scoreBreakdown.map(f => f.kind)).toEqual(['base', 'vip', 'keyword', 'keyword', 'channel']);
+    expect(score).toBe(50 + 25 + 30 + 30 + 15);
+  });
+
+  it('takes the quiet hours penalty off non-VIP suggestions only', () => {
+    const rules = { vipSenders: ['boss@example.com'], quietHours: { enabled: true, start: '18:00', end: '09:00', penalty: 40 } };
+    const night = new Date(2026, 0, 5, 23, 30);
+
+    expect(scoreSuggestion(BASE, { source: 'email', senders: ['Someone', 'someone@example.com'], text: '' }, context(rules, night)).score).toBe(10);
+    expect(scoreSuggestion(BASE, { source: 'email', senders: ['Boss', 'boss@example.com'], text: '' }, context(rules, night)).score).toBe(75);
+  });
+
+  it('explains every point in the breakdown', () => {
+    const { score, scoreBreakdown } = scoreSuggestion(BASE, { source: 'email', text: 'deadline reminder' }, context());
+    expect(scoreBreakdown.reduce((sum, f) => sum + f.points, 0)).toBe(score);
+  });
+});
+
+describe('isInQuietHours', () => {
+  const wrapping = { enabled: true, start: '22:00', end: '07:00', penalty: 40 };
+
+  it('wraps past midnight', () => {
+    expect(isInQuietHours(new Date(2026, 0, 5, 23, 0), wrapping)).toBe(true);
+    expect(isInQuietHours(new Date(2026, 0, 5, 6, 59), wrapping)).toBe(true);
+    expect(isInQuietHours(new Date(2026, 0, 5, 7, 0), wrapping)).toBe(false);
+  });
+
+  it('is off when disabled or start equals end', () => {
+    expect(isInQuietHours(new Date(2026, 0, 5, 23, 0), { ...wrapping, enabled: false })).toBe(false);
+    expect(isInQuietHours(new Date(2026, 0, 5, 23, 0), { ...wrapping, end: '22:00' })).toBe(false);
+  });
+});
+
+describe('applySuggestionLimits', () => {
+  const suggestions = [
+    { id: 'cal-later', source: 'calendar', score: 20 },
+    { id: 'slack-thread', source: 'slack', score: 60 },
+    { id: 'email-read', source: 'email', score: 50 },
+    { id: 'email-starred', source: 'email', score: 90 },
+    { id: 'quiet', source: 'email', score: -20 },
+  ];
+
+  it('keeps every suggestion by default, highest score first', () => {
+    expect(applySuggestionLimits(suggestions, DEFAULT_SCORING_RULES).map(s => s.id))
+      .toEqual(['email-starred', 'slack-thread', 'email-read', 'cal-later', 'quiet']);
+  });
+
+  it('drops scores below a minimum the user set', () => {
+    expect(applySuggestionLimits(suggestions, normalizeScoringRules({ minScore: 50 })).map(s => s.id))
+      .toEqual(['email-starred', 'slack-thread', 'email-read']);
+  });
+
+  it('applies the per-source cap and overall limit', () => {
+    expect(applySuggestionLimits(suggestions, normalizeScoringRules({ perSourceCap: 1 })).map(s => s.id))
+      .toEqual(['email-starred', 'slack-thread', 'cal-later']);
+    expect(applySuggestionLimits(suggestions, normalizeScoringRules({ maxSuggestions: 2 }))).toHaveLength(2);
+  });
+});
+
+describe('normalizeScoringRules', () => {
+  it('fills in fields missing from saved rules', () => {
+    const rules = normalizeScoringRules({ vipBoost: 10, quietHours: { enabled: true } as any });
+    expect(rules.vipBoost).toBe(10);
+    expect(rules.minScore).toBe(DEFAULT_SCORING_RULES.minScore);
+    expect(rules.quietHours).toEqual({ ...DEFAULT_SCORING_RULES.quietHours, enabled: true });
+  });
+});
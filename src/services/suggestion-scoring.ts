@@ -0,0 +1,184 @@
+import { getLearningSignals, learnedStage, type LearnedWeight, type LearningSignal } from './suggestion-learning';
+
+export type SuggestionSource = 'calendar' | 'email' | 'slack';
+
+export type ScoreFactorKind = 'base' | 'vip' | 'keyword' | 'channel' | 'quiet-hours' | 'learned' | 'cluster';
+
+// One line of the "explain this score" breakdown
+export interface ScoreFactor {
+  kind: ScoreFactorKind;
+  label: string;
+  points: number;
+}
+
+export interface KeywordBoost {
+  keyword: string;
+  points: number;
+}
+
+export interface ChannelWeight {
+  channel: string;  // Slack channel name (without #) or ID
+  points: number;
+}
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;    // HH:mm, local time
+  end: string;      // HH:mm; may be earlier than start to wrap past midnight
+  penalty: number;  // Points taken off non-VIP suggestions during quiet hours
+}
+
+export interface ScoringRules {
+  vipSenders: string[];     // Names, email addresses or Slack user IDs
+  vipBoost: number;
+  keywordBoosts: KeywordBoost[];
+  channelWeights: ChannelWeight[];
+  quietHours: QuietHours;
+  perSourceCap: number;     // Max suggestions from one source (0 = no cap)
+  maxSuggestions: number;
+  minScore: number;         // Suggestions below this are dropped (0 = keep all)
+  learningEnabled: boolean; // Adjust scores from accepted/dismissed suggestions
+}
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  vipSenders: [],
+  vipBoost: 25,
+  keywordBoosts: [
+    'urgent', 'asap', 'action required', 'deadline', 'reminder',
+    'follow up', 'response needed', 'review', 'approve', 'feedback',
+  ].map(keyword => ({ keyword, points: 30 })),
+  channelWeights: [],
+  quietHours: { enabled: false, start: '18:00', end: '09:00', penalty: 40 },
+  perSourceCap: 0,
+  maxSuggestions: 10,
+  minScore: 0,
+  learningEnabled: true,
+};
+
+// What the rules can see about a suggestion
+export interface ScoringSignals {
+  source: SuggestionSource;
+  senders?: string[];   // Every identifier for the sender (name, address, user ID)
+  channels?: string[];  // Channel name and ID
+  text: string;
+}
+
+export interface ScoringContext {
+  rules: ScoringRules;
+  now: Date;
+  learnedWeights?: LearnedWeight[];
+}
+
+export type ScoringStage = (signals: ScoringSignals, context: ScoringContext) => ScoreFactor[];
+
+/**
+ * Fill in defaults for rules saved by an older version or edited by hand
+ */
+export function normalizeScoringRules(rules?: Partial<ScoringRules>): ScoringRules {
+  return {
+    ...DEFAULT_SCORING_RULES,
+    ...rules,
+    quietHours: { ...DEFAULT_SCORING_RULES.quietHours, ...rules?.quietHours },
+  };
+}
+
+function matchesAny(values: string[] | undefined, candidates: string[]): string | undefined {
+  const normalized = (values || []).filter(Boolean).map(v => v.toLowerCase().replace(/^#/, ''));
+  return candidates.find(c => normalized.includes(c.trim().toLowerCase().replace(/^#/, '')));
+}
+
+export function isVipSender(signals: ScoringSignals, rules: ScoringRules): boolean {
+  return !!matchesAny(signals.senders, rules.vipSenders);
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function isInQuietHours(now: Date, quietHours: QuietHours): boolean {
+  if (!quietHours.enabled) return false;
+
+  const current = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+const vipStage: ScoringStage = (signals, { rules }) => {
+  const match = matchesAny(signals.senders, rules.vipSenders);
+  return match ? [{ kind: 'vip', label: `VIP sender (${match})`, points: rules.vipBoost }] : [];
+};
+
+const keywordStage: ScoringStage = (signals, { rules }) => {
+  const text = signals.text.toLowerCase();
+  return rules.keywordBoosts
+    .filter(boost => boost.keyword.trim() && text.includes(boost.keyword.trim().toLowerCase()))
+    .map(boost => ({ kind: 'keyword' as const, label: `Keyword "${boost.keyword.trim()}"`, points: boost.points }));
+};
+
+const channelStage: ScoringStage = (signals, { rules }) => {
+  const factors: ScoreFactor[] = [];
+  for (const weight of rules.channelWeights) {
+    if (matchesAny(signals.channels, [weight.channel])) {
+      factors.push({ kind: 'channel', label: `Channel #${weight.channel.replace(/^#/, '')}`, points: weight.points });
+    }
+  }
+  return factors;
+};
+
+const quietHoursStage: ScoringStage = (signals, { rules, now }) => {
+  if (!isInQuietHours(now, rules.quietHours) || isVipSender(signals, rules)) return [];
+  return [{
+    kind: 'quiet-hours',
+    label: `Quiet hours (${rules.quietHours.start}–${rules.quietHours.end})`,
+    points: -Math.abs(rules.quietHours.penalty),
+  }];
+};
+
+export const DEFAULT_SCORING_STAGES: ScoringStage[] = [vipStage, keywordStage, channelStage, learnedStage, quietHoursStage];
+
+/**
+ * Run a suggestion's base factors through the rule stages
+ */
+export function scoreSuggestion(
+  base: ScoreFactor[],
+  signals: ScoringSignals,
+  context: ScoringContext,
+  stages: ScoringStage[] = DEFAULT_SCORING_STAGES
+): { score: number; scoreBreakdown: ScoreFactor[]; learningSignals: LearningSignal[] } {
+  const scoreBreakdown = [...base];
+  for (const stage of stages) {
+    scoreBreakdown.push(...stage(signals, context));
+  }
+  const score = scoreBreakdown.reduce((sum, factor) => sum + factor.points, 0);
+  return { score, scoreBreakdown, learningSignals: getLearningSignals(signals, context.rules) };
+}
+
+/**
+ * Drop scores below the minimum (if set), sort, then apply the per-source cap and overall limit.
+ * `keepBelowMinimum` exempts suggestions the user already asked for on their own terms.
+ */
+export function applySuggestionLimits<T extends { source: string; score: number }>(
+  suggestions: T[],
+  rules: ScoringRules,
+  keepBelowMinimum: (suggestion: T) => boolean = () => false
+): T[] {
+  const perSource = new Map<string, number>();
+  const sorted = suggestions
+    .filter(s => rules.minScore <= 0 || s.score >= rules.minScore || keepBelowMinimum(s))
+    .sort((a, b) => b.score - a.score);
+
+  const kept: T[] = [];
+  for (const suggestion of sorted) {
+    const count = perSource.get(suggestion.source) || 0;
+    if (rules.perSourceCap > 0 && count >= rules.perSourceCap) continue;
+    perSource.set(suggestion.source, count + 1);
+    kept.push(suggestion);
+    if (kept.length >= rules.maxSuggestions) break;
+  }
+  return kept;
+}
@@ -0,0 +1,8 @@
+// An app paired with the local HTTP API
+export interface LocalApiClient {
+  id: string;
+  name: string;
+  origin?: string; // Browser origin recorded at pairing; allowed for later requests
+  createdAt: string;
+  lastUsedAt?: string;
+}
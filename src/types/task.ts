@@ -1,4 +1,4 @@
-export type TaskSource = 'manual' | 'calendar' | 'email' | 'slack';
+export type TaskSource = 'manual' | 'calendar' | 'email' | 'slack' | 'jira' | 'strategize';
 export type TaskPriority = 'low' | 'medium' | 'high';
 
 export interface TaskTag {
@@ -27,6 +27,52 @@ export interface LinkedItem {
   url?: string;
 }
 
+export interface TaskBlocker {
+  type: 'task' | 'jira';
+  id: string;                // Task ID, or Jira issue key (e.g., AMP-123)
+  title?: string;            // Cached title for display
+  url?: string;              // Jira issue URL
+  status?: string;           // Last known Jira status
+  resolvedAt?: string;       // Set when a Jira blocker reaches Done
+}
+
+export type JiraSyncField = 'title' | 'completed' | 'priority';
+
+export interface JiraSyncValues {
+  title: string;
+  completed: boolean;
+  priority: TaskPriority;
+}
+
+export interface JiraSyncConflict {
+  field: JiraSyncField;
+  local: string | boolean;   // PM-OS value
+  remote: string | boolean;  // Jira value
+  detectedAt: string;
+}
+
+export interface TaskJiraSync {
+  issueKey: string;
+  lastSyncedAt: string;
+  base: Partial<JiraSyncValues>;  // Values both sides agreed on at the last sync
+  remoteStatus?: string;          // Jira status name at the last sync
+  conflicts?: JiraSyncConflict[];
+  lastError?: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface TaskRecurrence {
+  frequency: RecurrenceFrequency;
+  interval: number;          // Every N days/weeks/months/years
+  byWeekday?: number[];      // 0 = Sunday ... 6 = Saturday (weekly, or monthly with weekdayOrdinal)
+  weekdayOrdinal?: number;   // Monthly: which of those weekdays in the month, 1-5 or -1 for the last
+  byMonthDay?: number;       // Day of month (monthly only)
+  until?: string;            // Last allowed date (YYYY-MM-DD)
+  count?: number;            // Total number of occurrences in the series
+  rrule?: string;            // Raw RRULE when entered as a custom rule
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -38,10 +84,19 @@ export interface Task {
   context?: string;
   createdAt: string;
   updatedAt?: string;
+  completedAt?: string;      // When the task was last completed; cleared when reopened
   description?: string;
   tags?: TaskTag[];
   deadline?: string;
   linkedItems?: LinkedItem[];
+  parentId?: string;            // Set on subtasks; points at the parent task
+  blockedBy?: TaskBlocker[];    // Tasks or Jira issues this task is waiting on
+  jiraSync?: TaskJiraSync;      // Two-way sync state for a linked Jira issue
+  // Recurrence
+  recurrence?: TaskRecurrence;
+  recurrenceSeriesId?: string;  // Shared by every instance of a recurring task
+  recurrenceIndex?: number;     // 1-based position of this instance in the series
+  recurrenceStartDate?: string; // Due date of the first instance; monthly/yearly rules keep its day of month
   // Slack-specific metadata
   slackThreadTs?: string;    // Thread timestamp for fetching replies
   slackPermalink?: string;   // Direct link to Slack message
@@ -61,6 +116,22 @@ export interface Task {
   };
 }
 
+// Who made a task change
+export type TaskActor = 'ui' | 'slack' | 'mcp' | 'extension' | 'jira' | 'system';
+export type TaskEventAction = 'created' | 'updated' | 'deleted' | 'restored';
+
+// One entry in the append-only task change log
+export interface TaskEvent {
+  seq: number;
+  batchId: string;          // Groups events written by a single operation (e.g., a cascade delete)
+  taskId: string;
+  action: TaskEventAction;
+  actor: TaskActor;
+  before: Task | null;      // null when the task was created
+  after: Task | null;       // null when the task was deleted
+  createdAt: string;
+}
+
 export interface WindowPosition {
   x: number;
   y: number;
@@ -0,0 +1,55 @@
+import type { Task, TaskBlocker } from '../types/task';
+
+/**
+ * Blockers that still hold a task back: incomplete blocking tasks and unresolved Jira issues
+ */
+export function getOpenBlockers(tasks: Task[], task: Task): TaskBlocker[] {
+  return (task.blockedBy || []).filter(blocker => {
+    if (blocker.type === 'jira') {
+      return !blocker.resolvedAt;
+    }
+    const blockingTask = tasks.find(t => t.id === blocker.id);
+    return !!blockingTask && !blockingTask.completed;
+  });
+}
+
+/**
+ * True if the task is waiting on at least one open blocker
+ */
+export function isBlocked(tasks: Task[], task: Task): boolean {
+  return getOpenBlockers(tasks, task).length > 0;
+}
+
+/**
+ * True if making `blockerId` block `taskId` would create a dependency cycle
+ */
+export function wouldCreateDependencyCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  const visited = new Set<string>();
+  const queue = [blockerId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+
+    const task = tasks.find(t => t.id === current);
+    for (const blocker of task?.blockedBy || []) {
+      if (blocker.type === 'task') {
+        queue.push(blocker.id);
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Human-readable label for a blocker
+ */
+export function describeBlocker(tasks: Task[], blocker: TaskBlocker): string {
+  if (blocker.type === 'jira') {
+    return blocker.title ? `${blocker.id}: ${blocker.title}` : blocker.id;
+  }
+  return tasks.find(t => t.id === blocker.id)?.title || blocker.title || 'Deleted task';
+}
@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { sanitizeEmailHtml } from './emailHtml';
+
+function styleOf(html: string): string | null {
+  const { html: sanitized } = sanitizeEmailHtml(html);
+  const doc = new DOMParser().parseFromString(sanitized, 'text/html');
+  return doc.body.firstElementChild!.getAttribute('style');
+}
+
+describe('sanitizeEmailHtml styles', () => {
+  it('keeps allowed properties', () => {
+    expect(styleOf('<p style="color: red; font-size:14px; margin-left: 4px">Hi</p>'))
+      .toBe('color: red; font-size: 14px; margin-left: 4px');
+  });
+
+  it('drops properties outside the allowlist', () => {
+    expect(styleOf('<div style="position: fixed; top: 0; color: blue">Hi</div>')).toBe('color: blue');
+    expect(styleOf('<div style="position:fixed;inset:0">Hi</div>')).toBeNull();
+  });
+
+  it('drops remote content and script in allowed properties', () => {
+    expect(styleOf('<p style="background: url(https://tracker.example/p.gif); color: red">Hi</p>')).toBe('color: red');
+    expect(styleOf('<p style="width: expression(alert(1))">Hi</p>')).toBeNull();
+    expect(styleOf('<p style="background: -webkit-image-set(\'https://tracker.example/p.gif\' 1x)">Hi</p>')).toBeNull();
+  });
+
+  it('drops styles that use CSS escapes', () => {
+    expect(styleOf('<p style="background: u\\72l(https://tracker.example/p.gif)">Hi</p>')).toBeNull();
+    expect(styleOf('<p style="pos\\ition: fixed; color: red">Hi</p>')).toBeNull();
+    expect(styleOf('<p style="po\\73 ition: fixed">Hi</p>')).toBeNull();
+    // Entity-encoded backslashes decode before the check
+    expect(styleOf('<p style="background: u&#92;72l(https://tracker.example/p.gif)">Hi</p>')).toBeNull();
+  });
+
+  it('drops styles that use comments', () => {
+    expect(styleOf('<p style="posi/**/tion: fixed">Hi</p>')).toBeNull();
+    expect(styleOf('<p style="background: url/**/(https://tracker.example/p.gif)">Hi</p>')).toBeNull();
+  });
+});
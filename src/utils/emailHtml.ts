@@ -0,0 +1,161 @@
+// Tags kept when rendering email HTML; everything else is unwrapped (children kept)
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'center', 'code', 'col', 'colgroup', 'dd', 'div', 'dl', 'dt',
+  'em', 'font', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'li', 'ol', 'p', 'pre', 's', 'small', 'span',
+  'strike', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul',
+]);
+
+// Removed along with their content
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet', 'form', 'input', 'button',
+  'select', 'textarea', 'link', 'meta', 'base', 'title', 'head', 'svg', 'math', 'template', 'noscript',
+]);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'href', 'src', 'alt', 'title', 'width', 'height', 'align', 'valign', 'colspan', 'rowspan', 'style',
+  'color', 'bgcolor', 'border', 'cellpadding', 'cellspacing', 'dir',
+]);
+
+// Inline style properties kept; anything else (position, transform, behavior...) could
+// escape the message pane. Matched after dropping escapes and comments, see sanitizeStyle.
+const ALLOWED_CSS_PROPERTIES = new Set([
+  'color', 'background', 'background-color', 'font', 'font-family', 'font-size', 'font-style', 'font-weight', 'line-height',
+  'text-align', 'text-decoration', 'text-indent', 'text-transform', 'letter-spacing', 'word-spacing',
+  'white-space', 'word-break', 'word-wrap', 'overflow-wrap', 'vertical-align', 'direction', 'display',
+  'width', 'min-width', 'max-width', 'height', 'min-height', 'max-height',
+  'list-style-type', 'border-collapse', 'border-spacing', 'table-layout',
+]);
+const ALLOWED_CSS_PROPERTY_FAMILIES = /^(margin|padding|border)(-[a-z]+)*$/;
+
+// Values that load remote content or run code, even on an allowed property
+const UNSAFE_CSS_VALUE = /(url\s*\(|image-set\s*\(|expression\s*\(|@import)/i;
+
+// Where mail clients put the quoted conversation below a reply
+const QUOTE_SELECTORS = [
+  '.gmail_quote',
+  'blockquote[type="cite"]',
+  '.yahoo_quoted',
+  '#divRplyFwdMsg',    // Outlook: everything from here on is the quoted message
+  '#appendonsend',
+];
+
+export interface SanitizedEmailHtml {
+  html: string;
+  quotedHtml: string | null;  // Earlier messages quoted in this one, collapsed by default
+  blockedImages: number;      // Remote images left out until the user asks for them
+}
+
+function isSafeUrl(url: string, allowed: string[]): boolean {
+  const trimmed = url.trim().toLowerCase();
+  return allowed.some(scheme => trimmed.startsWith(scheme));
+}
+
+/**
+ * Keep only allowed style declarations. A style containing a CSS escape or comment
+ * is dropped whole: either can spell a property or url( so no check would see it.
+ */
+function sanitizeStyle(style: string): string {
+  if (style.includes('\\') || style.includes('/*')) return '';
+
+  return style
+    .split(';')
+    .map(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon === -1) return '';
+      const property = declaration.slice(0, colon).trim().toLowerCase();
+      const value = declaration.slice(colon + 1).trim();
+      const allowed = ALLOWED_CSS_PROPERTIES.has(property) || ALLOWED_CSS_PROPERTY_FAMILIES.test(property);
+      return allowed && value && !UNSAFE_CSS_VALUE.test(value) ? `${property}: ${value}` : '';
+    })
+    .filter(Boolean)
+    .join('; ');
+}
+
+function sanitizeNode(node: Element, options: { allowRemoteImages: boolean }, stats: { blockedImages: number }) {
+  for (const child of Array.from(node.children)) {
+    const tag = child.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove();
+      continue;
+    }
+
+    sanitizeNode(child, options, stats);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+
+    for (const attribute of Array.from(child.attributes)) {
+      const name = attribute.name.toLowerCase();
+      if (!ALLOWED_ATTRIBUTES.has(name)) {
+        child.removeAttribute(attribute.name);
+      } else if (name === 'style') {
+        const style = sanitizeStyle(attribute.value);
+        if (style) {
+          child.setAttribute(attribute.name, style);
+        } else {
+          child.removeAttribute(attribute.name);
+        }
+      } else if (name === 'href' && !isSafeUrl(attribute.value, ['http:', 'https:', 'mailto:'])) {
+        child.removeAttribute(attribute.name);
+      }
+    }
+
+    if (tag === 'img') {
+      const src = child.getAttribute('src') || '';
+      if (isSafeUrl(src, ['data:image/'])) continue;
+      // Remote images are often tracking pixels; hold them back unless asked
+      if (isSafeUrl(src, ['https:', 'http:']) && options.allowRemoteImages) continue;
+      if (isSafeUrl(src, ['https:', 'http:'])) stats.blockedImages++;
+      child.removeAttribute('src');
+      if (!child.getAttribute('alt')) child.remove();
+    }
+  }
+}
+
+/**
+ * Make an email's HTML safe to render with dangerouslySetInnerHTML, and split
+ * off quoted earlier messages so they can be collapsed.
+ */
+export function sanitizeEmailHtml(html: string, options: { allowRemoteImages?: boolean } = {}): SanitizedEmailHtml {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const stats = { blockedImages: 0 };
+  sanitizeNode(doc.body, { allowRemoteImages: !!options.allowRemoteImages }, stats);
+
+  let quotedHtml: string | null = null;
+  const quote = doc.body.querySelector(QUOTE_SELECTORS.join(','));
+  if (quote) {
+    const quoted = [quote];
+    // Outlook markers sit before the quoted message rather than wrapping it
+    if (quote.id === 'divRplyFwdMsg' || quote.id === 'appendonsend') {
+      let sibling = quote.nextElementSibling;
+      while (sibling) {
+        quoted.push(sibling);
+        sibling = sibling.nextElementSibling;
+      }
+    }
+    quotedHtml = quoted.map(el => el.outerHTML).join('');
+    quoted.forEach(el => el.remove());
+  }
+
+  return { html: doc.body.innerHTML, quotedHtml, blockedImages: stats.blockedImages };
+}
+
+/**
+ * Split a plain-text body at the quoted reply ("On ... wrote:" or "> " lines)
+ */
+export function splitQuotedText(text: string): { body: string; quoted: string | null } {
+  const lines = text.split('\n');
+  const start = lines.findIndex((line, index) =>
+    /^On .+wrote:\s*$/.test(line.trim()) ||
+    /^-{2,}\s*Original Message\s*-{2,}$/i.test(line.trim()) ||
+    (line.startsWith('>') && lines.slice(index).every(l => l.startsWith('>') || l.trim() === ''))
+  );
+  if (start <= 0) return { body: text, quoted: null };
+  return {
+    body: lines.slice(0, start).join('\n').trimEnd(),
+    quoted: lines.slice(start).join('\n'),
+  };
+}
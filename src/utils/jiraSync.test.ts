@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { JiraSyncValues, Task } from '../types/task';
+import { fromJiraPriority, getLinkedJiraKey, mergeJiraValues, toJiraPriority } from './jiraSync';
+
+const base: JiraSyncValues = { title: 'Ship onboarding', completed: false, priority: 'medium' };
+
+describe('mergeJiraValues', () => {
+  it('agrees on fields that are already equal', () => {
+    expect(mergeJiraValues(base, base, base)).toEqual({ push: {}, pull: {}, agreed: base, conflicts: [] });
+  });
+
+  it('pushes PM-OS edits and pulls Jira edits', () => {
+    const merge = mergeJiraValues(base, { ...base, title: 'Ship onboarding v2' }, { ...base, priority: 'high' });
+    expect(merge.push).toEqual({ title: 'Ship onboarding v2' });
+    expect(merge.pull).toEqual({ priority: 'high' });
+    expect(merge.conflicts).toEqual([]);
+  });
+
+  it('reports a conflict when both sides changed a field differently', () => {
+    const merge = mergeJiraValues(base, { ...base, title: 'PM-OS title' }, { ...base, title: 'Jira title' });
+    expect(merge.push).toEqual({});
+    expect(merge.pull).toEqual({});
+    expect(merge.conflicts).toEqual([expect.objectContaining({ field: 'title', local: 'PM-OS title', remote: 'Jira title' })]);
+  });
+
+  it('treats differing fields with no base as conflicts', () => {
+    const merge = mergeJiraValues(undefined, base, { ...base, completed: true });
+    expect(merge.conflicts.map(c => c.field)).toEqual(['completed']);
+    expect(merge.agreed).toEqual({ title: base.title, priority: base.priority });
+  });
+
+  it('pulls every difference when the task itself is the base, as on first link', () => {
+    const remote: JiraSyncValues = { title: 'Jira title', completed: true, priority: 'high' };
+    const merge = mergeJiraValues(base, base, remote);
+    expect(merge.push).toEqual({});
+    expect(merge.pull).toEqual(remote);
+  });
+});
+
+describe('priorities', () => {
+  it('maps Jira priority names onto three levels', () => {
+    expect(['Highest', 'Blocker', 'critical'].map(fromJiraPriority)).toEqual(['high', 'high', 'high']);
+    expect(['Lowest', 'Minor', 'trivial'].map(fromJiraPriority)).toEqual(['low', 'low', 'low']);
+    expect([undefined, 'P3', 'Medium'].map(fromJiraPriority)).toEqual(['medium', 'medium', 'medium']);
+  });
+
+  it('picks a name the project allows', () => {
+    expect(toJiraPriority('high', ['Highest', 'High', 'Medium'])).toBe('High');
+    expect(toJiraPriority('high', ['Blocker', 'Major', 'Minor'])).toBe('Blocker');
+    expect(toJiraPriority('low', ['P1', 'P2', 'P3'])).toBeUndefined();
+  });
+});
+
+describe('getLinkedJiraKey', () => {
+  const task = (linkedItems: Task['linkedItems']): Task => ({
+    id: 'task-1', title: 'Task', completed: false, source: 'manual', priority: 'medium', createdAt: '2026-01-01', linkedItems,
+  });
+
+  it('reads the key from the linked item id or its URL', () => {
+    expect(getLinkedJiraKey(task([{ id: 'jira_pm-12', type: 'jira', title: 'PM-12' }]))).toBe('PM-12');
+    expect(getLinkedJiraKey(task([{ id: 'x', type: 'jira', title: 'Issue', url: 'https://acme.atlassian.net/browse/AMP-7' }]))).toBe('AMP-7');
+    expect(getLinkedJiraKey(task([{ id: 'slack_1', type: 'slack', title: 'Thread' }]))).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import type { JiraSyncConflict, JiraSyncField, JiraSyncValues, Task, TaskPriority } from '../types/task';
+
+export const JIRA_SYNC_FIELDS: JiraSyncField[] = ['title', 'completed', 'priority'];
+
+export const JIRA_SYNC_FIELD_LABELS: Record<JiraSyncField, string> = {
+  title: 'Title',
+  completed: 'Status',
+  priority: 'Priority',
+};
+
+/**
+ * Issue key of the task's first Jira linked item (ids look like `jira_AMP-123`; fall back to the /browse/ URL)
+ */
+export function getLinkedJiraKey(task: Task): string | null {
+  for (const item of task.linkedItems || []) {
+    if (item.type !== 'jira') continue;
+
+    const fromId = item.id.match(/^jira_([A-Z][A-Z0-9]+-\d+)$/i);
+    if (fromId) return fromId[1].toUpperCase();
+
+    const fromUrl = item.url?.match(/\/browse\/([A-Z][A-Z0-9]+-\d+)/i);
+    if (fromUrl) return fromUrl[1].toUpperCase();
+  }
+  return null;
+}
+
+/**
+ * Map a Jira priority name onto PM-OS's three levels
+ */
+export function fromJiraPriority(name?: string): TaskPriority {
+  switch ((name || '').toLowerCase()) {
+    case 'highest':
+    case 'high':
+    case 'critical':
+    case 'blocker':
+      return 'high';
+    case 'low':
+    case 'lowest':
+    case 'trivial':
+    case 'minor':
+      return 'low';
+    default:
+      return 'medium';
+  }
+}
+
+/**
+ * Pick the Jira priority for a PM-OS level from the names the issue's project
+ * allows: the conventional High/Medium/Low if present, otherwise the first name
+ * that maps back to the same level. Undefined if none does (e.g. a P1-P5 scheme).
+ */
+export function toJiraPriority(priority: TaskPriority, allowed: string[]): string | undefined {
+  return allowed.find(name => name.toLowerCase() === priority)
+    || allowed.find(name => fromJiraPriority(name) === priority);
+}
+
+export function getJiraSyncValues(task: Task): JiraSyncValues {
+  return { title: task.title, completed: task.completed, priority: task.priority };
+}
+
+export interface JiraMergeResult {
+  push: Partial<JiraSyncValues>;     // Changed in PM-OS only; send to Jira
+  pull: Partial<JiraSyncValues>;     // Changed in Jira only; apply to the task
+  agreed: Partial<JiraSyncValues>;   // Already equal on both sides
+  conflicts: JiraSyncConflict[];     // Changed on both sides, or different with no base value
+}
+
+/**
+ * Three-way merge of task and issue values against the last agreed base
+ */
+export function mergeJiraValues(
+  base: Partial<JiraSyncValues> | undefined,
+  local: JiraSyncValues,
+  remote: JiraSyncValues
+): JiraMergeResult {
+  const result: JiraMergeResult = { push: {}, pull: {}, agreed: {}, conflicts: [] };
+  const now = new Date().toISOString();
+
+  for (const field of JIRA_SYNC_FIELDS) {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    if (localValue === remoteValue) {
+      (result.agreed as any)[field] = localValue;
+      continue;
+    }
+
+    const baseValue = base?.[field];
+    const localChanged = baseValue === undefined || localValue !== baseValue;
+    const remoteChanged = baseValue === undefined || remoteValue !== baseValue;
+
+    if (localChanged && !remoteChanged) {
+      (result.push as any)[field] = localValue;
+    } else if (remoteChanged && !localChanged) {
+      (result.pull as any)[field] = remoteValue;
+    } else {
+      result.conflicts.push({ field, local: localValue, remote: remoteValue, detectedAt: now });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,176 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Where PM-OS keeps its data and logs, and where it finds the Claude CLI, on
+ * every OS. The Electron main process, the standalone MCP server and the log
+ * writers all resolve paths here so they agree on where config.json and
+ * tasks.db live. Node-only: don't import from renderer code.
+ *
+ * Data goes in the per-user app data folder each OS expects:
+ *   macOS    ~/Library/Application Support/pm-os
+ *   Windows  %APPDATA%\pm-os
+ *   Linux    $XDG_CONFIG_HOME/pm-os (~/.config/pm-os)
+ * PM_OS_DATA_DIR overrides it, e.g. to keep data on a synced drive.
+ */
+
+export const DATA_DIR_ENV = 'PM_OS_DATA_DIR';
+
+const APP_DIR_NAME = 'pm-os';
+
+// Files Chromium creates to lock the profile; they belong to the running app, never migrate them
+const PROFILE_LOCK_PREFIX = 'Singleton';
+
+function expandHome(dir: string): string {
+  return dir === '~' || dir.startsWith('~/') || dir.startsWith('~\\')
+    ? path.join(os.homedir(), dir.slice(1))
+    : dir;
+}
+
+/**
+ * The data directory for this OS, ignoring PM_OS_DATA_DIR
+ */
+export function getDefaultDataDir(): string {
+  const home = os.homedir();
+  switch (process.platform) {
+    case 'darwin':
+      return path.join(home, 'Library', 'Application Support', APP_DIR_NAME);
+    case 'win32':
+      return path.join(process.env.APPDATA || path.join(home, 'AppData', 'Roaming'), APP_DIR_NAME);
+    default:
+      return path.join(process.env.XDG_CONFIG_HOME || path.join(home, '.config'), APP_DIR_NAME);
+  }
+}
+
+export function getDataDir(): string {
+  const override = process.env[DATA_DIR_ENV]?.trim();
+  return override ? path.resolve(expandHome(override)) : getDefaultDataDir();
+}
+
+export function getConfigPath(): string {
+  return path.join(getDataDir(), 'config.json');
+}
+
+export function getTaskDbPath(): string {
+  return path.join(getDataDir(), 'tasks.db');
+}
+
+/**
+ * ~/Library/Logs/pm-os on macOS, a logs folder inside the data directory
+ * elsewhere (matching Electron's own logs path)
+ */
+export function getLogDir(): string {
+  if (process.platform === 'darwin' && !process.env[DATA_DIR_ENV]?.trim()) {
+    return path.join(os.homedir(), 'Library', 'Logs', APP_DIR_NAME);
+  }
+  return path.join(getDataDir(), 'logs');
+}
+
+/**
+ * Path for a log file, creating the log directory if needed
+ */
+export function getLogPath(fileName: string): string {
+  const logDir = getLogDir();
+  fs.mkdirSync(logDir, { recursive: true });
+  return path.join(logDir, fileName);
+}
+
+function isSameDirectory(a: string, b: string): boolean {
+  try {
+    const statA = fs.statSync(a);
+    const statB = fs.statSync(b);
+    // Compare inodes so case-insensitive filesystems (PM-OS vs pm-os on macOS) count as the same
+    return statA.dev === statB.dev && statA.ino === statB.ino;
+  } catch {
+    return path.resolve(a) === path.resolve(b);
+  }
+}
+
+/**
+ * Move existing data into the data directory when it has moved, e.g. after
+ * setting PM_OS_DATA_DIR. Uses the first of `previousDirs` that has a
+ * config.json, and only runs while the data directory doesn't have one yet.
+ * Returns the directory the data came from, or null if nothing moved.
+ */
+export function migrateDataDir(previousDirs: string[]): string | null {
+  const dataDir = getDataDir();
+  if (fs.existsSync(path.join(dataDir, 'config.json'))) {
+    return null;
+  }
+
+  const source = previousDirs.find(dir =>
+    fs.existsSync(path.join(dir, 'config.json')) && !isSameDirectory(dir, dataDir)
+  );
+  if (!source) {
+    return null;
+  }
+
+  fs.mkdirSync(dataDir, { recursive: true });
+  for (const entry of fs.readdirSync(source)) {
+    const from = path.join(source, entry);
+    const to = path.join(dataDir, entry);
+    if (entry.startsWith(PROFILE_LOCK_PREFIX) || fs.existsSync(to)) continue;
+
+    try {
+      fs.renameSync(from, to);
+    } catch {
+      // Across drives rename fails; copy and leave the original in place
+      fs.cpSync(from, to, { recursive: true });
+    }
+  }
+
+  return source;
+}
+
+/**
+ * The Claude Code CLI: the path set in Settings if it exists, then the usual
+ * install locations, then PATH. Apps launched from the macOS Dock get a
+ * minimal PATH, which is why the install locations are checked first.
+ * On Windows the native installer puts claude.exe there and npm a claude.cmd
+ * shim; run the result through getClaudeCommand.
+ */
+export function findClaudeBinary(configuredPath?: string): string | null {
+  const home = os.homedir();
+  const binaries = process.platform === 'win32' ? ['claude.exe', 'claude.cmd'] : ['claude'];
+  const inDirs = (dirs: string[]) => dirs.flatMap(dir => binaries.map(binary => path.join(dir, binary)));
+  const candidates = [
+    configuredPath ? expandHome(configuredPath) : '',
+    ...inDirs([path.join(home, '.local', 'bin'), path.join(home, '.claude', 'local')]),
+    ...(process.platform === 'win32' ? [] : ['/usr/local/bin/claude', '/opt/homebrew/bin/claude']),
+    ...inDirs((process.env.PATH || '').split(path.delimiter).filter(Boolean)),
+  ];
+
+  return candidates.find(candidate => {
+    try {
+      return !!candidate && fs.statSync(candidate).isFile();
+    } catch {
+      return false;
+    }
+  }) || null;
+}
+
+// cmd.exe metacharacters, escaped with ^ (same rules as cross-spawn)
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+function escapeCmdArgument(arg: string): string {
+  // Quote for the program's own argument parsing, then escape for cmd.exe twice:
+  // once for the shell we start and once for the cmd.exe the .cmd shim runs in
+  const quoted = `"${arg.replace(/(\\*)"/g, '$1$1\\"').replace(/(\\*)$/, '$1$1')}"`;
+  return quoted.replace(CMD_META_CHARS, '^$1').replace(CMD_META_CHARS, '^$1');
+}
+
+/**
+ * How to spawn the CLI found by findClaudeBinary. A .cmd shim can only run
+ * through cmd.exe, so it gets `shell: true` with every argument escaped for it.
+ */
+export function getClaudeCommand(claudePath: string, args: string[]): { command: string; args: string[]; shell: boolean } {
+  if (process.platform === 'win32' && /\.(cmd|bat)$/i.test(claudePath)) {
+    return {
+      command: path.normalize(claudePath).replace(CMD_META_CHARS, '^$1'),
+      args: args.map(escapeCmdArgument),
+      shell: true,
+    };
+  }
+  return { command: claudePath, args, shell: false };
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { format } from 'date-fns';
+import type { Task, TaskRecurrence } from '../types/task';
+import { buildNextRecurringTask, describeRecurrence, getNextOccurrence, parseRRule, toRRule } from './recurrence';
+
+const day = (date: Date | null) => date && format(date, 'yyyy-MM-dd');
+const local = (iso: string) => new Date(`${iso}T00:00:00`);
+
+function recurringTask(recurrence: TaskRecurrence, changes: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    title: 'Send weekly update',
+    completed: true,
+    source: 'manual',
+    priority: 'medium',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    recurrence,
+    ...changes,
+  };
+}
+
+describe('parseRRule', () => {
+  it('parses interval, weekdays and count', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10')).toMatchObject({
+      frequency: 'weekly',
+      interval: 2,
+      byWeekday: [1, 3],
+      count: 10,
+    });
+  });
+
+  it('parses ordinal weekdays for monthly rules', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=-1FR')).toMatchObject({ byWeekday: [5], weekdayOrdinal: -1 });
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=5MO')).toMatchObject({ byWeekday: [1], weekdayOrdinal: 5 });
+  });
+
+  it('reads the date from UNTIL', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20261231T235959Z')?.until).toBe('2026-12-31');
+  });
+
+  it('rejects rules it cannot schedule as written', () => {
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=MO;BYSETPOS=2')).toBeNull();
+    expect(parseRRule('FREQ=WEEKLY;BYDAY=2MO')).toBeNull();
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=1MO,-1FR')).toBeNull();
+    expect(parseRRule('FREQ=HOURLY')).toBeNull();
+    expect(parseRRule('FREQ=DAILY;INTERVAL=0')).toBeNull();
+  });
+
+  it('round-trips through toRRule', () => {
+    const rule = parseRRule('FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR;UNTIL=20270101')!;
+    expect(parseRRule(toRRule(rule))).toMatchObject({ frequency: 'monthly', interval: 3, byWeekday: [5], weekdayOrdinal: -1, until: '2027-01-01' });
+    expect(describeRecurrence(rule)).toBe('Every 3 months on the last Fri until Jan 1, 2027');
+  });
+});
+
+describe('getNextOccurrence', () => {
+  it('skips weeks outside the interval for weekly rules with weekdays', () => {
+    const rule: TaskRecurrence = { frequency: 'weekly', interval: 2, byWeekday: [1, 3] };
+    expect(day(getNextOccurrence(rule, local('2026-03-02')))).toBe('2026-03-04');
+    expect(day(getNextOccurrence(rule, local('2026-03-04')))).toBe('2026-03-16');
+  });
+
+  it('clamps month ends and returns to the original day afterwards', () => {
+    const rule: TaskRecurrence = { frequency: 'monthly', interval: 1 };
+    const start = local('2026-01-31');
+    const february = getNextOccurrence(rule, start, start)!;
+    expect(day(february)).toBe('2026-02-28');
+    expect(day(getNextOccurrence(rule, february, start))).toBe('2026-03-31');
+  });
+
+  it('keeps yearly leap-day series on Feb 29 when there is one', () => {
+    const rule: TaskRecurrence = { frequency: 'yearly', interval: 1 };
+    const start = local('2028-02-29');
+    const next = getNextOccurrence(rule, start, start)!;
+    expect(day(next)).toBe('2029-02-28');
+    expect(day(getNextOccurrence({ ...rule, interval: 3 }, next, start))).toBe('2032-02-29');
+  });
+
+  it('finds the last Friday of the next month', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!;
+    expect(day(getNextOccurrence(rule, local('2026-03-27')))).toBe('2026-04-24');
+    expect(day(getNextOccurrence(rule, local('2026-03-02')))).toBe('2026-03-27');
+  });
+
+  it('skips months without a fifth Monday', () => {
+    const rule = parseRRule('FREQ=MONTHLY;BYDAY=5MO')!;
+    expect(day(getNextOccurrence(rule, local('2026-03-30')))).toBe('2026-06-29');
+  });
+
+  it('stops after UNTIL', () => {
+    const rule: TaskRecurrence = { frequency: 'weekly', interval: 1, until: '2026-03-10' };
+    expect(day(getNextOccurrence(rule, local('2026-03-02')))).toBe('2026-03-09');
+    expect(getNextOccurrence(rule, local('2026-03-09'))).toBeNull();
+  });
+});
+
+describe('buildNextRecurringTask', () => {
+  it('moves a date-only deadline and numbers the instance', () => {
+    const next = buildNextRecurringTask(recurringTask({ frequency: 'weekly', interval: 1 }, { deadline: '2026-03-02', completedAt: '2026-03-02T17:00:00.000Z' }));
+    expect(next).toMatchObject({ deadline: '2026-03-09', completed: false, recurrenceSeriesId: 'task-1', recurrenceIndex: 2 });
+    expect(next).not.toHaveProperty('id');
+    expect(next).not.toHaveProperty('completedAt');
+  });
+
+  it('keeps the time of day on timestamp anchors', () => {
+    const next = buildNextRecurringTask(recurringTask({ frequency: 'weekly', interval: 1 }, { deadline: '2026-06-01T15:00:00.000Z' }));
+    expect(next?.deadline).toBe('2026-06-08T15:00:00.000Z');
+  });
+
+  it('moves only the due field the task had', () => {
+    const next = buildNextRecurringTask(recurringTask({ frequency: 'daily', interval: 1 }, { dueDate: '2026-03-02' }));
+    expect(next?.dueDate).toBe('2026-03-03');
+    expect(next).not.toHaveProperty('deadline');
+  });
+
+  it('keeps a monthly series on the day it started', () => {
+    const rule: TaskRecurrence = { frequency: 'monthly', interval: 1 };
+    const february = buildNextRecurringTask(recurringTask(rule, { deadline: '2026-01-31' }))!;
+    expect(february).toMatchObject({ deadline: '2026-02-28', recurrenceStartDate: '2026-01-31' });
+
+    const march = buildNextRecurringTask({ ...february, id: 'task-2', createdAt: february.recurrenceStartDate!, completed: true });
+    expect(march?.deadline).toBe('2026-03-31');
+  });
+
+  it('ends the series at COUNT', () => {
+    const rule: TaskRecurrence = { frequency: 'daily', interval: 1, count: 3 };
+    expect(buildNextRecurringTask(recurringTask(rule, { deadline: '2026-03-02', recurrenceIndex: 2 }))?.recurrenceIndex).toBe(3);
+    expect(buildNextRecurringTask(recurringTask(rule, { deadline: '2026-03-03', recurrenceIndex: 3 }))).toBeNull();
+  });
+
+  it('ends the series at UNTIL', () => {
+    const rule: TaskRecurrence = { frequency: 'daily', interval: 1, until: '2026-03-02' };
+    expect(buildNextRecurringTask(recurringTask(rule, { deadline: '2026-03-02' }))).toBeNull();
+  });
+});
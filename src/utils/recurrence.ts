@@ -0,0 +1,262 @@
+import { addDays, addMonths, addWeeks, addYears, differenceInCalendarWeeks, format, getDaysInMonth, parseISO, setDate, startOfToday } from 'date-fns';
+import type { RecurrenceFrequency, Task, TaskRecurrence } from '../types/task';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Rule parts getNextOccurrence understands; WKST is accepted but doesn't change anything
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'];
+
+const ORDINAL_NAMES: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last' };
+
+const FREQ_TO_RRULE: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+/**
+ * Parse an RFC 5545 RRULE string (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10").
+ * Only the parts PM-OS can schedule are supported; returns null for anything else
+ * rather than silently scheduling a different rule.
+ */
+export function parseRRule(rrule: string): TaskRecurrence | null {
+  const parts = rrule.trim().replace(/^RRULE:/i, '').split(';');
+  const fields: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      fields[key.trim().toUpperCase()] = value.trim().toUpperCase();
+    }
+  }
+
+  const frequency = (Object.keys(FREQ_TO_RRULE) as RecurrenceFrequency[])
+    .find(freq => FREQ_TO_RRULE[freq] === fields.FREQ);
+  if (!frequency) return null;
+  if (Object.keys(fields).some(key => !SUPPORTED_RRULE_PARTS.includes(key))) return null;
+
+  const interval = fields.INTERVAL ? parseInt(fields.INTERVAL, 10) : 1;
+  if (!Number.isFinite(interval) || interval < 1) return null;
+
+  const rule: TaskRecurrence = { frequency, interval, rrule: rrule.trim() };
+
+  if (fields.BYDAY) {
+    // Weekly: MO,WE. Monthly: one ordinal for every day, e.g. 1MO (first Monday) or -1FR,-1TH
+    if (frequency !== 'weekly' && frequency !== 'monthly') return null;
+
+    const entries = fields.BYDAY.split(',').map(code => code.match(/^([+-]?\d+)?([A-Z]{2})$/));
+    if (entries.some(entry => !entry || !WEEKDAY_CODES.includes(entry[2]))) return null;
+
+    const ordinals = new Set(entries.map(entry => entry![1] ? parseInt(entry![1], 10) : undefined));
+    const [ordinal] = [...ordinals];
+    if (frequency === 'weekly' ? ordinal !== undefined : ordinals.size !== 1 || ordinal === undefined || !ORDINAL_NAMES[ordinal]) {
+      return null;
+    }
+
+    rule.byWeekday = entries.map(entry => WEEKDAY_CODES.indexOf(entry![2]));
+    if (ordinal !== undefined) rule.weekdayOrdinal = ordinal;
+  }
+
+  if (fields.BYMONTHDAY) {
+    if (frequency !== 'monthly' || rule.weekdayOrdinal !== undefined || !/^\d+$/.test(fields.BYMONTHDAY)) return null;
+    const day = parseInt(fields.BYMONTHDAY, 10);
+    if (day < 1 || day > 31) return null;
+    rule.byMonthDay = day;
+  }
+
+  if (fields.UNTIL) {
+    const match = fields.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (match) rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  if (fields.COUNT) {
+    const count = parseInt(fields.COUNT, 10);
+    if (count > 0) rule.count = count;
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a recurrence rule back to an RRULE string
+ */
+export function toRRule(rule: TaskRecurrence): string {
+  const parts = [`FREQ=${FREQ_TO_RRULE[rule.frequency]}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.map(d => `${rule.weekdayOrdinal ?? ''}${WEEKDAY_CODES[d]}`).join(',')}`);
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Wed until Dec 31"
+ */
+export function describeRecurrence(rule: TaskRecurrence): string {
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+  };
+
+  let text = rule.interval > 1
+    ? `Every ${rule.interval} ${units[rule.frequency]}s`
+    : `Every ${units[rule.frequency]}`;
+
+  if (rule.frequency === 'weekly' && rule.byWeekday?.length) {
+    text += ` on ${[...rule.byWeekday].sort().map(d => WEEKDAY_NAMES[d]).join(', ')}`;
+  }
+  if (rule.frequency === 'monthly' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.frequency === 'monthly' && rule.byWeekday?.length && rule.weekdayOrdinal) {
+    text += ` on the ${ORDINAL_NAMES[rule.weekdayOrdinal]} ${[...rule.byWeekday].sort().map(d => WEEKDAY_NAMES[d]).join(' or ')}`;
+  }
+  if (rule.until) {
+    text += ` until ${format(parseISO(rule.until), 'MMM d, yyyy')}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
+
+/**
+ * Compute the date of the occurrence that follows `from`.
+ * Monthly and yearly rules land on `seriesStart`'s day of month (clamped to short
+ * months), so a series started on the 31st doesn't drift to the 28th after February.
+ * Returns null once the rule's UNTIL date is passed.
+ */
+export function getNextOccurrence(rule: TaskRecurrence, from: Date, seriesStart: Date = from): Date | null {
+  const interval = Math.max(1, rule.interval || 1);
+  let next: Date;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(from, interval);
+      break;
+    case 'weekly':
+      if (rule.byWeekday?.length) {
+        // Walk forward day by day until we land on an allowed weekday in an allowed week
+        next = addDays(from, 1);
+        const limit = 7 * interval + 7;
+        for (let i = 0; i < limit; i++) {
+          const weeksApart = differenceInCalendarWeeks(next, from, { weekStartsOn: 0 });
+          if (rule.byWeekday.includes(next.getDay()) && weeksApart % interval === 0) {
+            break;
+          }
+          next = addDays(next, 1);
+        }
+      } else {
+        next = addWeeks(from, interval);
+      }
+      break;
+    case 'monthly': {
+      if (rule.byWeekday?.length && rule.weekdayOrdinal) {
+        const nextDate = getNextOrdinalWeekday(rule.byWeekday, rule.weekdayOrdinal, interval, from);
+        if (!nextDate) return null;
+        next = nextDate;
+        break;
+      }
+      next = addMonths(from, interval);
+      next = setDate(next, Math.min(rule.byMonthDay || seriesStart.getDate(), getDaysInMonth(next)));
+      break;
+    }
+    case 'yearly':
+      next = addYears(from, interval);
+      if (next.getMonth() === seriesStart.getMonth()) {
+        next = setDate(next, Math.min(seriesStart.getDate(), getDaysInMonth(next)));
+      }
+      break;
+    default:
+      return null;
+  }
+
+  if (rule.until && format(next, 'yyyy-MM-dd') > rule.until) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * The first matching weekday after `from` that is the `ordinal`th (-1 = last) of its
+ * kind in its month: later in from's month, or else `interval` months on. Months
+ * without a fifth occurrence are skipped. Keeps from's time of day.
+ */
+function getNextOrdinalWeekday(weekdays: number[], ordinal: number, interval: number, from: Date): Date | null {
+  const inMonth = (month: Date) => weekdays
+    .map(weekday => getOrdinalWeekdayInMonth(month, weekday, ordinal))
+    .filter((date): date is Date => !!date && date > from)
+    .sort((a, b) => a.getTime() - b.getTime())[0];
+
+  const sameMonth = inMonth(from);
+  if (sameMonth) return sameMonth;
+
+  // A fifth weekday turns up at least every few months; give up after a few years
+  for (let step = 1; step <= 48; step++) {
+    const date = inMonth(addMonths(setDate(from, 1), step * interval));
+    if (date) return date;
+  }
+  return null;
+}
+
+function getOrdinalWeekdayInMonth(month: Date, weekday: number, ordinal: number): Date | null {
+  const daysInMonth = getDaysInMonth(month);
+  let day: number;
+  if (ordinal > 0) {
+    const firstWeekday = setDate(month, 1).getDay();
+    day = 1 + (weekday - firstWeekday + 7) % 7 + (ordinal - 1) * 7;
+  } else {
+    const lastWeekday = setDate(month, daysInMonth).getDay();
+    day = daysInMonth - (lastWeekday - weekday + 7) % 7 + (ordinal + 1) * 7;
+  }
+  return day >= 1 && day <= daysInMonth ? setDate(month, day) : null;
+}
+
+/**
+ * Build the next instance of a recurring task once the current one is completed.
+ * The returned task has no id/timestamps; the caller assigns those when persisting.
+ */
+export function buildNextRecurringTask(task: Task): Omit<Task, 'id' | 'createdAt' | 'updatedAt'> | null {
+  if (!task.recurrence) return null;
+
+  const index = task.recurrenceIndex || 1;
+  if (task.recurrence.count && index >= task.recurrence.count) {
+    return null;
+  }
+
+  // Anchor on the current due date; tasks without one recur from the day they were completed
+  const anchor = task.deadline || task.dueDate;
+  const fromDate = anchor ? parseISO(anchor) : startOfToday();
+  const seriesStart = task.recurrenceStartDate || anchor;
+  const nextDate = getNextOccurrence(task.recurrence, fromDate, seriesStart ? parseISO(seriesStart) : fromDate);
+  if (!nextDate) return null;
+
+  // Keep the original format: date-only stays date-only, full timestamps keep their time
+  const hasTime = !!anchor && anchor.includes('T');
+  const nextDue = hasTime ? nextDate.toISOString() : format(nextDate, 'yyyy-MM-dd');
+
+  const {
+    id: _id,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    completedAt: _completedAt,
+    ...rest
+  } = task;
+
+  return {
+    ...rest,
+    completed: false,
+    // Move whichever due field the task had; undated tasks get a deadline, which is what the UI edits
+    ...(task.dueDate ? { dueDate: nextDue } : {}),
+    ...(task.deadline || !task.dueDate ? { deadline: nextDue } : {}),
+    recurrenceSeriesId: task.recurrenceSeriesId || task.id,
+    recurrenceIndex: index + 1,
+    recurrenceStartDate: seriesStart || format(fromDate, 'yyyy-MM-dd'),
+  };
+}
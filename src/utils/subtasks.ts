@@ -0,0 +1,53 @@
+import type { Task } from '../types/task';
+
+/**
+ * Direct children of a task
+ */
+export function getSubtasks(tasks: Task[], parentId: string): Task[] {
+  return tasks.filter(t => t.parentId === parentId);
+}
+
+/**
+ * Completed/total counts for a parent's direct children
+ */
+export function getSubtaskProgress(tasks: Task[], parentId: string): { done: number; total: number } {
+  const subtasks = getSubtasks(tasks, parentId);
+  return {
+    done: subtasks.filter(t => t.completed).length,
+    total: subtasks.length,
+  };
+}
+
+/**
+ * IDs of every task nested below the given one (children, grandchildren, ...)
+ */
+export function getDescendantIds(tasks: Task[], id: string): string[] {
+  const descendants: string[] = [];
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const child of getSubtasks(tasks, current)) {
+      if (!descendants.includes(child.id)) {
+        descendants.push(child.id);
+        queue.push(child.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * True if making `parentId` the parent of `taskId` would create a cycle
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, parentId: string): boolean {
+  return parentId === taskId || getDescendantIds(tasks, taskId).includes(parentId);
+}
+
+/**
+ * True if the task is nested under a parent that still exists
+ */
+export function isSubtask(tasks: Task[], task: Task): boolean {
+  return !!task.parentId && tasks.some(t => t.id === task.parentId);
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getZonedParts, toZonedDateString, zonedTimeToDate } from './timezone';
+
+describe('timezone', () => {
+  it('reads wall-clock parts in a timezone', () => {
+    expect(getZonedParts(new Date('2026-03-09T03:30:00Z'), 'America/New_York')).toEqual({
+      year: 2026, month: 3, day: 8, hour: 23, minute: 30, second: 0,
+    });
+  });
+
+  it('converts wall-clock times on either side of a DST change', () => {
+    expect(zonedTimeToDate(2026, 3, 8, 1, 30, 'America/New_York').toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(zonedTimeToDate(2026, 3, 8, 3, 0, 'America/New_York').toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    expect(zonedTimeToDate(2026, 11, 1, 12, 0, 'America/New_York').toISOString()).toBe('2026-11-01T17:00:00.000Z');
+  });
+
+  it('handles timezones ahead of UTC and with half-hour offsets', () => {
+    expect(zonedTimeToDate(2026, 1, 1, 0, 0, 'Pacific/Auckland').toISOString()).toBe('2025-12-31T11:00:00.000Z');
+    expect(zonedTimeToDate(2026, 6, 1, 9, 0, 'Asia/Kolkata').toISOString()).toBe('2026-06-01T03:30:00.000Z');
+  });
+
+  it('formats the local date of an instant', () => {
+    expect(toZonedDateString(new Date('2026-03-09T03:00:00Z'), 'America/New_York')).toBe('2026-03-08');
+    expect(toZonedDateString(new Date('2026-03-08T23:00:00Z'), 'Asia/Tokyo')).toBe('2026-03-09');
+  });
+});
@@ -12,7 +12,7 @@ export default defineConfig({
         vite: {
           build: {
             rollupOptions: {
-              external: ['node-pty', /\.node$/]
+              external: ['node-pty', 'better-sqlite3', /\.node$/]
             }
           }
         }
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+// Kept apart from vite.config.ts so running tests doesn't start the Electron build
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+      '@electron': path.resolve(__dirname, './electron'),
+    },
+  },
+  test: {
+    include: ['src/**/*.test.ts', 'electron/**/*.test.ts'],
+    passWithNoTests: true,
+  },
+})